@@ -0,0 +1,303 @@
+import { Provider, Signer } from "ethers";
+import {
+  ArbitratorPool__factory,
+  EscrowAgent__factory,
+  SimpleEscrowAgent__factory,
+} from "../typechain-types";
+import { ArbitratedEscrowClient, EscrowAgentClient, EscrowError, findEvent, SimpleEscrowAgentClient } from "../sdk";
+import { AgreementIndexer, IndexedAgreement, IndexedEvent } from "../indexer";
+import { canonicalize, computeCid, DocumentError, DocumentStore, fetchDocument } from "../documents";
+import { AuditLog } from "./audit";
+import { AuditRecord, CaseEvidence, Decision, DecisionEngine, DisputeCase } from "./types";
+
+export interface ArbitratorAgentOptions {
+  // seconds after the dispute is raised the parties have to submit evidence
+  evidencePeriod?: number;
+  // the ruling is submitted at least that many seconds before it's due, even within the evidence period
+  safetyMargin?: number;
+  // stores the rationale of the decision and submits its CID with the ruling
+  publishRationale?: boolean;
+  // milliseconds between the ticks of run()
+  pollInterval?: number;
+}
+
+// the decision engine gave a refund percentage the contracts don't accept
+export class InvalidDecisionError extends EscrowError {}
+
+const HOUR = 3600;
+
+function sameAddress(a?: string, b?: string) {
+  return a !== undefined && b !== undefined && a.toLowerCase() === b.toLowerCase();
+}
+
+// parsed JSON evidence or its text
+function decodeEvidence(bytes: Uint8Array): unknown {
+  const text = new TextDecoder().decode(bytes);
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+// resolves the disputes the signer arbitrates with the decision engine and collects the fees,
+// every decision is logged with its inputs before the ruling is submitted
+export class ArbitratorAgent {
+  // decisions waiting for their transaction, a failed one is retried with the same decision
+  private readonly decisions = new Map<string, Decision>();
+  // resolved agreements without a fee to collect
+  private readonly collected = new Set<string>();
+  private readonly blockTimes = new Map<number, Promise<number>>();
+
+  private constructor(readonly indexer: AgreementIndexer, readonly signer: Signer, readonly address: string,
+      readonly engine: DecisionEngine, readonly documents: DocumentStore, readonly auditLog: AuditLog,
+      readonly options: ArbitratorAgentOptions) {}
+
+  static async open(indexer: AgreementIndexer, signer: Signer, engine: DecisionEngine, documents: DocumentStore,
+      auditLog: AuditLog, options: ArbitratorAgentOptions = {}): Promise<ArbitratorAgent> {
+    const agent = new ArbitratorAgent(indexer, signer, await signer.getAddress(), engine, documents, auditLog,
+      options);
+    for (const record of await auditLog.read()) {
+      if (record.action === "withdrawn" && record.key && sameAddress(record.arbitrator, agent.address)) {
+        agent.collected.add(record.key);
+      }
+    }
+    indexer.addListener((applied) => agent.onEvents(applied));
+    return agent;
+  }
+
+  get provider(): Provider {
+    return this.indexer.provider;
+  }
+
+  // deposits the stake the pool asks for, the pool manager adds the staked arbitrator to the pool after the delay,
+  // resolves to whether the arbitrator is in the pool already
+  async register(pool: string): Promise<boolean> {
+    const contract = ArbitratorPool__factory.connect(pool, this.signer);
+    const { stake } = await contract.getArbitratorStats(this.address);
+    const minStake = await contract.MIN_ARBITRATOR_STAKE();
+    if (stake < minStake) {
+      const receipt = await (await contract.depositStake({ value: minStake - stake })).wait();
+      await this.log({ action: "staked", amount: (minStake - stake).toString(), transactionHash: receipt?.hash });
+    }
+    return (await contract.getPoolArbitrators()).some((arbitrator) => sameAddress(arbitrator, this.address));
+  }
+
+  // indexes the new blocks, rules on the due disputes and withdraws the fees of the resolved ones
+  async tick() {
+    await this.indexer.sync();
+    const now = await this.chainTime();
+    for (const agreement of this.indexer.getAgreementsByArbitrator(this.address)) {
+      if (agreement.variant === "MultisigEscrow") {
+        continue;
+      }
+      try {
+        if (agreement.status === "Disputed" && agreement.arbitratorAgreed) {
+          await this.arbitrate(agreement, now);
+        } else if (agreement.status === "Resolved" && !this.collected.has(agreement.key)) {
+          await this.collect(agreement);
+        }
+      } catch (error) {
+        // the next tick retries
+        await this.log({ action: "failed", key: agreement.key, error: (error as Error).message });
+      }
+    }
+  }
+
+  // ticks until the signal aborts, errors of a tick are logged and the next tick retries
+  async run(signal?: AbortSignal) {
+    const { pollInterval = 5_000 } = this.options;
+    while (!signal?.aborted) {
+      try {
+        await this.tick();
+      } catch (error) {
+        console.error("Arbitrator tick error:", error);
+      }
+      await new Promise<void>((resolve) => {
+        const timeout = setTimeout(resolve, pollInterval);
+        signal?.addEventListener("abort", () => {
+          clearTimeout(timeout);
+          resolve();
+        }, { once: true });
+      });
+    }
+  }
+
+  // gathers the document and the evidence of the dispute
+  async buildCase(agreement: IndexedAgreement): Promise<DisputeCase> {
+    const { policy, poolAssigned, disputedDate, dueDate } = await this.disputeTerms(agreement);
+    const dispute: DisputeCase = {
+      key: agreement.key,
+      variant: agreement.variant,
+      contract: agreement.contract,
+      agreementId: agreement.agreementId,
+      depositor: agreement.depositor,
+      beneficiary: agreement.beneficiary,
+      arbitrator: this.address,
+      poolAssigned,
+      token: agreement.token,
+      amount: agreement.amount.toString(),
+      deadlineDate: agreement.deadlineDate,
+      detailsHash: agreement.detailsHash,
+      evidence: [],
+      policy,
+      disputedDate,
+      dueDate,
+    };
+    if (agreement.detailsHash) {
+      try {
+        dispute.document = await fetchDocument(this.documents, agreement.detailsHash);
+      } catch (error) {
+        dispute.documentError = (error as Error).message;
+      }
+    } else {
+      dispute.documentError = "The agreement has no document";
+    }
+    for (const { submitter, evidenceHash, blockNumber } of agreement.evidence) {
+      const evidence: CaseEvidence = {
+        submitter,
+        role: sameAddress(submitter, agreement.depositor) ? "depositor" : "beneficiary",
+        evidenceHash,
+        blockNumber,
+      };
+      try {
+        evidence.content = await this.fetchEvidence(evidenceHash);
+      } catch (error) {
+        evidence.error = (error as Error).message;
+      }
+      dispute.evidence.push(evidence);
+    }
+    return dispute;
+  }
+
+  private async arbitrate(agreement: IndexedAgreement, now: number) {
+    if (agreement.assignmentPending) {
+      return;
+    }
+    let decision = this.decisions.get(agreement.key);
+    if (!decision) {
+      const { evidencePeriod = 0, safetyMargin = HOUR } = this.options;
+      const { disputedDate, dueDate } = await this.disputeTerms(agreement);
+      if (now < Math.min(disputedDate + evidencePeriod, dueDate - safetyMargin)) {
+        return;
+      }
+      const dispute = await this.buildCase(agreement);
+      decision = await this.engine.decide(dispute);
+      if (!Number.isInteger(decision.refundPercentage) || decision.refundPercentage < 0 ||
+          decision.refundPercentage > 1_000_000) {
+        throw new InvalidDecisionError(`Refund percentage ${decision.refundPercentage} is out of the range`);
+      }
+      await this.log({ action: "decided", key: agreement.key, engine: this.engine.name, input: dispute, decision });
+      this.decisions.set(agreement.key, decision);
+    }
+    const rationaleHash = this.options.publishRationale
+      ? await this.publishRationale(agreement, decision) : undefined;
+    const receipt = await this.client(agreement).resolveDispute(decision.refundPercentage, rationaleHash);
+    this.decisions.delete(agreement.key);
+    await this.log({ action: "resolved", key: agreement.key, decision, rationaleHash,
+      transactionHash: receipt.hash });
+  }
+
+  private async disputeTerms(agreement: IndexedAgreement) {
+    const policy = await this.client(agreement).getPolicy();
+    const poolAssigned = agreement.assignedBlock !== undefined;
+    const disputedDate = await this.blockTime(agreement.disputedBlock ?? agreement.updatedBlock);
+    // the parties' arbitrator is replaced by a pool one when both periods are over
+    const dueDate = poolAssigned
+      ? await this.blockTime(agreement.assignedBlock!) + policy.resolveDisputeMaxPeriod
+      : disputedDate + policy.agreeOnArbitratorMaxPeriod + policy.resolveDisputeMaxPeriod;
+    return { policy, poolAssigned, disputedDate, dueDate };
+  }
+
+  private async collect(agreement: IndexedAgreement) {
+    // a zero fee or a fee withdrawn before the restart reverts the simulation
+    try {
+      await this.simulateWithdrawal(agreement);
+    } catch {
+      this.collected.add(agreement.key);
+      return;
+    }
+    const client = this.client(agreement);
+    const receipt = await client.withdraw();
+    const contract = agreement.variant === "EscrowAgent"
+      ? EscrowAgent__factory.createInterface() : SimpleEscrowAgent__factory.createInterface();
+    const event = findEvent(receipt.logs, contract, "FundsWithdrawn");
+    this.collected.add(agreement.key);
+    await this.log({ action: "withdrawn", key: agreement.key, amount: event.args.amount.toString(),
+      transactionHash: receipt.hash });
+  }
+
+  private async simulateWithdrawal(agreement: IndexedAgreement) {
+    if (agreement.variant === "EscrowAgent") {
+      await EscrowAgent__factory.connect(agreement.contract, this.signer).withdrawFunds.staticCall(
+        agreement.agreementId);
+    } else {
+      await SimpleEscrowAgent__factory.connect(agreement.contract, this.signer).withdrawFunds.staticCall();
+    }
+  }
+
+  private async publishRationale(agreement: IndexedAgreement, decision: Decision): Promise<string> {
+    const bytes = new TextEncoder().encode(canonicalize({ agreement: agreement.key, engine: this.engine.name,
+      ...decision }));
+    const cid = await this.documents.put(bytes);
+    await this.documents.pin(cid);
+    return cid;
+  }
+
+  // the store isn't trusted, so the bytes are verified against the CID
+  private async fetchEvidence(cid: string): Promise<unknown> {
+    const bytes = await this.documents.get(cid);
+    if (!bytes) {
+      throw new DocumentError(`Evidence ${cid} is not found`);
+    }
+    if (await computeCid(bytes) !== cid) {
+      throw new DocumentError(`Evidence doesn't match ${cid}`);
+    }
+    return decodeEvidence(bytes);
+  }
+
+  private async onEvents(applied: readonly { event: IndexedEvent; agreement: IndexedAgreement }[]) {
+    for (const { event, agreement } of applied) {
+      const assigned = event.name === "PoolArbitratorAssigned" ||
+        (event.name === "ArbitratorAgreed" && event.args.agreed === true);
+      if (assigned && sameAddress(String(event.args.arbitrator), this.address)) {
+        await this.log({ action: "assigned", key: agreement.key, transactionHash: event.transactionHash });
+      }
+    }
+  }
+
+  private client(agreement: IndexedAgreement): ArbitratedEscrowClient {
+    return agreement.variant === "EscrowAgent"
+      ? new EscrowAgentClient(EscrowAgent__factory.connect(agreement.contract, this.signer),
+        BigInt(agreement.agreementId))
+      : new SimpleEscrowAgentClient(SimpleEscrowAgent__factory.connect(agreement.contract, this.signer));
+  }
+
+  private async log(record: Omit<AuditRecord, "time" | "chainTime" | "arbitrator">) {
+    await this.auditLog.append({ time: new Date().toISOString(), chainTime: await this.chainTime(),
+      arbitrator: this.address, ...record });
+  }
+
+  private async chainTime(): Promise<number> {
+    const block = await this.provider.getBlock("latest");
+    if (!block) {
+      throw new Error("Latest block not found");
+    }
+    return block.timestamp;
+  }
+
+  private blockTime(blockNumber: number): Promise<number> {
+    let time = this.blockTimes.get(blockNumber);
+    if (!time) {
+      time = this.provider.getBlock(blockNumber).then((block) => {
+        if (!block) {
+          throw new Error(`Block ${blockNumber} not found`);
+        }
+        return block.timestamp;
+      });
+      this.blockTimes.set(blockNumber, time);
+      time.catch(() => this.blockTimes.delete(blockNumber));
+    }
+    return time;
+  }
+}
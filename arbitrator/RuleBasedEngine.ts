@@ -0,0 +1,79 @@
+import { CaseEvidence, Decision, DecisionEngine, DisputeCase } from "./types";
+
+const FULL_REFUND = 1_000_000;
+// a deliverable the beneficiary claims and the depositor contests is credited by half
+const CONTESTED_CREDIT = 0.5;
+
+// deliverable indexes of the claims, the evidence JSON may carry
+// { "delivered": [0, 2] } from the beneficiary and { "undelivered": [2] } from the depositor
+function claimedIndexes(evidence: readonly CaseEvidence[], field: "delivered" | "undelivered"): Set<number> {
+  const indexes = new Set<number>();
+  for (const { content } of evidence) {
+    const claimed = typeof content === "object" && content !== null
+      ? (content as Record<string, unknown>)[field] : undefined;
+    if (Array.isArray(claimed)) {
+      claimed.filter((index) => Number.isInteger(index)).forEach((index) => indexes.add(index));
+    }
+  }
+  return indexes;
+}
+
+function percent(refundPercentage: number) {
+  return `${refundPercentage / 10_000}%`;
+}
+
+// deterministic rules over the evidence and the deliverables of the document, the first matching rule decides
+export class RuleBasedEngine implements DecisionEngine {
+  readonly name = "rule-based-v1";
+
+  async decide(dispute: DisputeCase): Promise<Decision> {
+    const fromDepositor = dispute.evidence.filter((evidence) => evidence.role === "depositor");
+    const fromBeneficiary = dispute.evidence.filter((evidence) => evidence.role === "beneficiary");
+    const split = dispute.policy.unresolvedDisputeRefundPercentage;
+    if (fromDepositor.length === 0 && fromBeneficiary.length === 0) {
+      return {
+        refundPercentage: split,
+        rationale: `No party submitted evidence, the funds are split by the policy: ${percent(split)} refunded.`,
+        rules: ["no-evidence"],
+      };
+    }
+    if (fromBeneficiary.length === 0) {
+      return {
+        refundPercentage: FULL_REFUND,
+        rationale: "Only the depositor submitted evidence, the beneficiary didn't defend the delivery: " +
+          "the funds are refunded.",
+        rules: ["depositor-evidence-only"],
+      };
+    }
+    if (fromDepositor.length === 0) {
+      return {
+        refundPercentage: 0,
+        rationale: "Only the beneficiary submitted evidence, the depositor didn't support the dispute: " +
+          "the funds are released.",
+        rules: ["beneficiary-evidence-only"],
+      };
+    }
+    const deliverables = dispute.document?.deliverables.length ?? 0;
+    const delivered = [...claimedIndexes(fromBeneficiary, "delivered")].filter((index) => index < deliverables);
+    if (deliverables === 0 || delivered.length === 0) {
+      return {
+        refundPercentage: split,
+        rationale: "Both parties submitted evidence without claims on the deliverables of the agreement document, " +
+          `the funds are split by the policy: ${percent(split)} refunded.`,
+        rules: ["contested-without-claims"],
+      };
+    }
+    const contested = claimedIndexes(fromDepositor, "undelivered");
+    const credit = delivered.reduce((sum, index) => sum + (contested.has(index) ? CONTESTED_CREDIT : 1), 0);
+    const refundPercentage = Math.round(FULL_REFUND * (1 - credit / deliverables));
+    const titles = (indexes: number[]) => indexes.map((index) => dispute.document!.deliverables[index].title)
+      .join(", ") || "none";
+    return {
+      refundPercentage,
+      rationale: `${delivered.length} of ${deliverables} deliverables are claimed delivered ` +
+        `(${titles(delivered)}), contested: ${titles(delivered.filter((index) => contested.has(index)))}. ` +
+        `The contested ones are credited by half: ${percent(refundPercentage)} refunded.`,
+      rules: ["deliverables"],
+    };
+  }
+}
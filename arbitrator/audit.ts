@@ -0,0 +1,44 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { AuditRecord } from "./types";
+
+// append-only log of the decisions and transactions of the arbitrator
+export interface AuditLog {
+  append(record: AuditRecord): Promise<void>;
+  read(): Promise<AuditRecord[]>;
+}
+
+export class MemoryAuditLog implements AuditLog {
+  private readonly lines: string[] = [];
+
+  async append(record: AuditRecord) {
+    this.lines.push(JSON.stringify(record));
+  }
+
+  async read() {
+    return this.lines.map((line) => JSON.parse(line) as AuditRecord);
+  }
+}
+
+// a JSON record per line, appending doesn't rewrite the records logged before
+export class JsonLinesAuditLog implements AuditLog {
+  constructor(readonly filePath: string) {}
+
+  async append(record: AuditRecord) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, JSON.stringify(record) + "\n");
+  }
+
+  async read() {
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    return text.split("\n").filter((line) => line !== "").map((line) => JSON.parse(line) as AuditRecord);
+  }
+}
@@ -0,0 +1,4 @@
+export * from "./types";
+export * from "./audit";
+export * from "./RuleBasedEngine";
+export * from "./ArbitratorAgent";
@@ -0,0 +1,72 @@
+import { EscrowPolicy, EscrowVariant } from "../sdk";
+import { AgreementDocument } from "../documents";
+
+// a piece of evidence with its content fetched from the document store
+export interface CaseEvidence {
+  submitter: string;
+  // the party that submitted it
+  role: "depositor" | "beneficiary";
+  evidenceHash: string;
+  blockNumber: number;
+  // parsed JSON or the text, undefined if it couldn't be fetched
+  content?: unknown;
+  error?: string;
+}
+
+// everything the decision engine sees, the amounts are decimal strings to be logged as JSON
+export interface DisputeCase {
+  key: string;
+  variant: EscrowVariant;
+  contract: string;
+  agreementId: number;
+  depositor: string;
+  beneficiary: string;
+  arbitrator: string;
+  // assigned from the pool or agreed by the parties
+  poolAssigned: boolean;
+  token?: string;
+  amount: string;
+  deadlineDate: number;
+  detailsHash?: string;
+  // undefined if the document couldn't be fetched or isn't valid
+  document?: AgreementDocument;
+  documentError?: string;
+  evidence: CaseEvidence[];
+  policy: EscrowPolicy;
+  // timestamp of the DisputeRaised block and the due date of the ruling
+  disputedDate: number;
+  dueDate: number;
+}
+
+export interface Decision {
+  // the depositor's share in the 1_000_000 base
+  refundPercentage: number;
+  rationale: string;
+  // names of the rules that produced the decision
+  rules: string[];
+}
+
+// decides the disputes, the same case must give the same decision for the audit to be replayable
+export interface DecisionEngine {
+  readonly name: string;
+  decide(dispute: DisputeCase): Promise<Decision>;
+}
+
+export type AuditAction = "assigned" | "decided" | "resolved" | "withdrawn" | "staked" | "failed";
+
+// an entry of the audit log, the decision is logged with all its inputs
+export interface AuditRecord {
+  // wall clock ISO time and the chain time of the action
+  time: string;
+  chainTime: number;
+  action: AuditAction;
+  arbitrator: string;
+  key?: string;
+  engine?: string;
+  input?: DisputeCase;
+  decision?: Decision;
+  rationaleHash?: string;
+  transactionHash?: string;
+  amount?: string;
+  error?: string;
+}
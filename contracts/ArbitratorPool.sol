@@ -0,0 +1,402 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
+
+import "./RandomnessConsumer.sol";
+import "./interfaces/IArbitratorPool.sol";
+
+// This contract is a pool of arbitrators for the disputes of the escrows registered by the owner:
+// * Arbitrators stake eth to join the pool, the stake is locked while agreements are assigned
+// * A random word of the randomness coordinator picks an arbitrator weighted by reputation
+// * The stake is slashed to the parties if a dispute times out
+// * The members change after POOL_CHANGE_DELAY once the pool serves an escrow, so the parties can see them coming
+contract ArbitratorPool is IArbitratorPool, RandomnessConsumer, ReentrancyGuard {
+
+    uint96 public constant MIN_ARBITRATOR_STAKE = 1 ether;
+    uint32 public constant UNRESOLVED_DISPUTE_SLASH_PERCENTAGE = 200000;
+    // arbitrators resolving less than a half of the assigned disputes aren't assigned anymore
+    uint32 public constant MIN_ARBITRATOR_REPUTATION = 500000;
+    uint32 public constant POOL_CHANGE_DELAY = 2 days;
+
+    struct Assignment {
+        address arbitrator;
+        uint32 assignedDate;
+    }
+
+    struct Request {
+        address escrow;
+        uint256 agreementId;
+    }
+
+    // the arbitrator joins or leaves the pool from the date
+    struct PoolChange {
+        bool added;
+        uint32 applyDate;
+    }
+
+    address internal _owner;
+    address internal _pendingOwner;
+    // changes the members of the pool, e.g. an escrow forwarding the calls of its own pool manager
+    address internal _poolManager;
+    address[] internal _arbitratorsPool;
+    mapping(address => bool) internal _escrows;
+    // number of the registered escrows, the members change at once while it's zero
+    uint256 internal _escrowCount;
+    // arbitrator => the queued change of the membership
+    mapping(address => PoolChange) internal _poolChanges;
+    mapping(address => ArbitratorStats) internal _arbitratorStats;
+    // number of disputes assigned to the arbitrator and not resolved yet
+    mapping(address => uint256) internal _assignedAgreements;
+    // escrow => agreement id => the assigned pool arbitrator
+    mapping(address => mapping(uint256 => Assignment)) internal _assignments;
+    // randomness request id => agreement waiting for a pool arbitrator
+    mapping(uint256 => Request) internal _requests;
+    // slashed stakes of the arbitrators to withdraw by the parties
+    mapping(address => uint256) internal _compensations;
+
+    // arbitrator is in the pool
+    error ArbitratorInPool(address arbitrator);
+    // arbitrator is not in the pool
+    error ArbitratorNotInPool(address arbitrator);
+    // arbitrator's stake is below MIN_ARBITRATOR_STAKE
+    error InsufficientStake(address arbitrator, uint96 stake);
+    // arbitrator's stake is locked by the assigned agreements
+    error StakeLocked(address arbitrator, uint256 assignedAgreements);
+
+    event EscrowSet(address indexed escrow, bool allowed);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event PoolManagerSet(address indexed poolManager);
+    event PoolArbitratorQueued(address indexed arbitrator, bool added, uint32 applyDate);
+    event PoolArbitratorCanceled(address indexed arbitrator);
+    event PoolArbitratorAdded(address indexed arbitrator);
+    event PoolArbitratorRemoved(address indexed arbitrator);
+    event StakeDeposited(address indexed arbitrator, uint96 amount, uint96 stake);
+    event StakeWithdrawn(address indexed arbitrator, uint96 amount, uint96 stake);
+    event ArbitratorSlashed(address indexed escrow, uint256 indexed agreementId, address indexed arbitrator, uint96 amount);
+    event CompensationWithdrawn(address indexed recipient, uint256 amount);
+
+    modifier onlyOwner() {
+        require(msg.sender == _owner, "You are not the owner.");
+        _;
+    }
+
+    modifier onlyPoolManager() {
+        require(msg.sender == _poolManager, "You are not the pool manager.");
+        _;
+    }
+
+    modifier onlyEscrow() {
+        require(_escrows[msg.sender], "You are not the escrow.");
+        _;
+    }
+
+    // an escrow removed from the pool still closes the assignments it has
+    modifier onlyAssigningEscrow(uint256 agreementId) {
+        require(_escrows[msg.sender] || _assignments[msg.sender][agreementId].arbitrator != address(0),
+            "You are not the escrow.");
+        _;
+    }
+
+    modifier checkAddress(address user) {
+        require(user != address(0), "Address is zero");
+        _;
+    }
+
+    // the owner is the pool manager until he/she hands the role over
+    constructor() {
+        _owner = msg.sender;
+        _poolManager = msg.sender;
+    }
+
+    function setEscrow(address escrow, bool allowed) public onlyOwner checkAddress(escrow) {
+        if (allowed && !_escrows[escrow]) {
+            _escrowCount++;
+        } else if (!allowed && _escrows[escrow]) {
+            _escrowCount--;
+        }
+        _escrows[escrow] = allowed;
+        emit EscrowSet(escrow, allowed);
+    }
+
+    function transferOwnership(address newOwner) public onlyOwner {
+        _pendingOwner = newOwner;
+        emit OwnershipTransferStarted(_owner, newOwner);
+    }
+
+    function acceptOwnership() public {
+        require(msg.sender == _pendingOwner, "You are not the pending owner.");
+        emit OwnershipTransferred(_owner, msg.sender);
+        _owner = msg.sender;
+        delete _pendingOwner;
+    }
+
+    function setPoolManager(address poolManager) public onlyOwner checkAddress(poolManager) {
+        _poolManager = poolManager;
+        emit PoolManagerSet(poolManager);
+    }
+
+    function setRandomnessCoordinator(address coordinator) public onlyOwner checkAddress(coordinator) {
+        _setRandomnessCoordinator(coordinator);
+    }
+
+    // the arbitrator must stake MIN_ARBITRATOR_STAKE first
+    function addPoolArbitrator(address arbitrator) public onlyPoolManager checkAddress(arbitrator) {
+        _changePool(arbitrator, true);
+    }
+
+    function removePoolArbitrator(address arbitrator) public onlyPoolManager checkAddress(arbitrator) {
+        _changePool(arbitrator, false);
+    }
+
+    // the change is checked again, e.g. the arbitrator could withdraw the stake meanwhile
+    function applyPoolArbitrator(address arbitrator) public onlyPoolManager {
+        PoolChange memory change = _poolChanges[arbitrator];
+        require(change.applyDate != 0, "No pool change is queued.");
+        require(block.timestamp >= change.applyDate, "Too early to apply the pool change");
+        delete _poolChanges[arbitrator];
+        _applyPoolChange(arbitrator, change.added);
+    }
+
+    // the owner vetoes a queued change too
+    function cancelPoolArbitrator(address arbitrator) public {
+        require(msg.sender == _poolManager || msg.sender == _owner, "You are not the owner/pool manager.");
+        require(_poolChanges[arbitrator].applyDate != 0, "No pool change is queued.");
+        delete _poolChanges[arbitrator];
+        emit PoolArbitratorCanceled(arbitrator);
+    }
+
+    function depositStake() public payable {
+        depositStakeFor(msg.sender);
+    }
+
+    // only the arbitrator withdraws the stake, so anyone can deposit it, e.g. an escrow forwarding the eth
+    function depositStakeFor(address arbitrator) public payable checkAddress(arbitrator) {
+        require(msg.value > 0, "No funds sent");
+        uint96 amount = SafeCast.toUint96(msg.value);
+        _arbitratorStats[arbitrator].stake += amount;
+        emit StakeDeposited(arbitrator, amount, _arbitratorStats[arbitrator].stake);
+    }
+
+    // arbitrators below MIN_ARBITRATOR_STAKE stay in the pool but aren't assigned
+    function withdrawStake(uint96 amount) public nonReentrant {
+        if (_assignedAgreements[msg.sender] > 0) {
+            revert StakeLocked(msg.sender, _assignedAgreements[msg.sender]);
+        }
+        require(amount > 0 && amount <= _arbitratorStats[msg.sender].stake, "Funds are not available");
+        _arbitratorStats[msg.sender].stake -= amount;
+        _send(msg.sender, amount);
+        emit StakeWithdrawn(msg.sender, amount, _arbitratorStats[msg.sender].stake);
+    }
+
+    function withdrawCompensation() public nonReentrant {
+        uint256 amount = _compensations[msg.sender];
+        require(amount > 0, "Funds are not available");
+        _compensations[msg.sender] = 0;
+        _send(msg.sender, amount);
+        emit CompensationWithdrawn(msg.sender, amount);
+    }
+
+    function requestArbitrator(uint256 agreementId) external onlyEscrow returns (uint256 requestId) {
+        require(_arbitratorsPool.length > 0, "Arbitrators pool is empty");
+        // the arbitrator is picked when the coordinator fulfills the request
+        requestId = _requestRandomness();
+        _requests[requestId] = Request({escrow: msg.sender, agreementId: agreementId});
+    }
+
+    function arbitratorResolved(uint256 agreementId) external onlyAssigningEscrow(agreementId) {
+        Assignment memory assignment = _assignments[msg.sender][agreementId];
+        if (assignment.arbitrator == address(0)) {
+            return;
+        }
+        delete _assignments[msg.sender][agreementId];
+        _assignedAgreements[assignment.arbitrator]--;
+        ArbitratorStats storage stats = _arbitratorStats[assignment.arbitrator];
+        stats.resolved++;
+        stats.totalResolutionTime += uint64(block.timestamp - assignment.assignedDate);
+    }
+
+    function arbitratorTimedOut(uint256 agreementId) external onlyAssigningEscrow(agreementId) {
+        _timeOut(msg.sender, agreementId);
+    }
+
+    // neither a resolution nor a timeout of the arbitrator
+    function arbitratorReleased(uint256 agreementId) external onlyAssigningEscrow(agreementId) {
+        address arbitrator = _assignments[msg.sender][agreementId].arbitrator;
+        if (arbitrator == address(0)) {
+            return;
+        }
+        delete _assignments[msg.sender][agreementId];
+        _assignedAgreements[arbitrator]--;
+    }
+
+    function _fulfillRandomness(uint256 requestId, uint256 randomness) internal override {
+        Request memory request = _requests[requestId];
+        require(request.escrow != address(0), "Unknown randomness request");
+        delete _requests[requestId];
+        // the pool arbitrator who let the dispute time out isn't picked again
+        address previous = _assignments[request.escrow][request.agreementId].arbitrator;
+        address arbitrator = _pickPoolArbitrator(randomness, previous);
+        // the dispute could be resolved while waiting for the coordinator,
+        // or nobody in the pool has enough stake and reputation and the parties request again later
+        if (!IArbitratorPoolClient(request.escrow).assignPoolArbitrator(request.agreementId, arbitrator) ||
+                arbitrator == address(0)) {
+            return;
+        }
+        if (previous != address(0)) {
+            _timeOut(request.escrow, request.agreementId);
+        }
+        _assignments[request.escrow][request.agreementId] = Assignment({
+            arbitrator: arbitrator,
+            assignedDate: uint32(block.timestamp)
+        });
+        _assignedAgreements[arbitrator]++;
+        _arbitratorStats[arbitrator].assigned++;
+    }
+
+    // the random word picks an eligible arbitrator with the probability proportional to the reputation
+    function _pickPoolArbitrator(uint256 randomness, address excluded) private view returns (address) {
+        uint256 total = 0;
+        uint256[] memory weights = new uint256[](_arbitratorsPool.length);
+        for (uint256 i = 0; i < _arbitratorsPool.length; i++) {
+            address arbitrator = _arbitratorsPool[i];
+            uint32 reputation = getArbitratorReputation(arbitrator);
+            if (arbitrator != excluded && _arbitratorStats[arbitrator].stake >= MIN_ARBITRATOR_STAKE &&
+                    reputation >= MIN_ARBITRATOR_REPUTATION) {
+                total += reputation;
+            }
+            weights[i] = total;
+        }
+        if (total == 0) {
+            return address(0);
+        }
+        uint256 point = randomness % total;
+        uint256 index = 0;
+        while (weights[index] <= point) {
+            index++;
+        }
+        return _arbitratorsPool[index];
+    }
+
+    // counts the timeout and slashes the stake to the parties in the unresolved dispute proportion
+    function _timeOut(address escrow, uint256 agreementId) private {
+        address arbitrator = _assignments[escrow][agreementId].arbitrator;
+        if (arbitrator == address(0)) {
+            return;
+        }
+        delete _assignments[escrow][agreementId];
+        _assignedAgreements[arbitrator]--;
+        ArbitratorStats storage stats = _arbitratorStats[arbitrator];
+        stats.unresolved++;
+        uint96 slashed = uint96(uint256(stats.stake) * UNRESOLVED_DISPUTE_SLASH_PERCENTAGE / 1_000_000);
+        if (slashed == 0) {
+            return;
+        }
+        stats.stake -= slashed;
+        (address depositor, address beneficiary, uint32 refundPercentage) =
+            IArbitratorPoolClient(escrow).getDisputeParties(agreementId);
+        uint96 refund = uint96(uint256(slashed) * refundPercentage / 1_000_000);
+        _compensations[depositor] += refund;
+        _compensations[beneficiary] += slashed - refund;
+        emit ArbitratorSlashed(escrow, agreementId, arbitrator, slashed);
+    }
+
+    // a queued change replaces the one queued before for the arbitrator and its delay starts over
+    function _changePool(address arbitrator, bool added) private {
+        if (_escrowCount == 0) {
+            _applyPoolChange(arbitrator, added);
+            return;
+        }
+        _checkPoolChange(arbitrator, added);
+        uint32 applyDate = uint32(block.timestamp + POOL_CHANGE_DELAY);
+        _poolChanges[arbitrator] = PoolChange({added: added, applyDate: applyDate});
+        emit PoolArbitratorQueued(arbitrator, added, applyDate);
+    }
+
+    function _applyPoolChange(address arbitrator, bool added) private {
+        uint256 index = _checkPoolChange(arbitrator, added);
+        if (added) {
+            _arbitratorsPool.push(arbitrator);
+            emit PoolArbitratorAdded(arbitrator);
+        } else {
+            _arbitratorsPool[index] = _arbitratorsPool[_arbitratorsPool.length - 1];
+            _arbitratorsPool.pop();
+            emit PoolArbitratorRemoved(arbitrator);
+        }
+    }
+
+    // returns the index of the removed arbitrator in the pool
+    function _checkPoolChange(address arbitrator, bool added) private view returns (uint256) {
+        if (added && _arbitratorStats[arbitrator].stake < MIN_ARBITRATOR_STAKE) {
+            revert InsufficientStake(arbitrator, _arbitratorStats[arbitrator].stake);
+        }
+        require(added || _assignedAgreements[arbitrator] == 0, "Arbitrator has active agreements");
+        for (uint256 i = 0; i < _arbitratorsPool.length; i++) {
+            if (_arbitratorsPool[i] == arbitrator) {
+                if (added) {
+                    revert ArbitratorInPool(arbitrator);
+                }
+                return i;
+            }
+        }
+        if (!added) {
+            revert ArbitratorNotInPool(arbitrator);
+        }
+        return 0;
+    }
+
+    // eth is sent with all the gas for the smart contract wallets
+    function _send(address recipient, uint256 amount) private {
+        (bool success, ) = payable(recipient).call{value: amount}("");
+        require(success, "Transfer failed");
+    }
+
+    function getArbitratorStats(address arbitrator) external view returns (ArbitratorStats memory) {
+        return _arbitratorStats[arbitrator];
+    }
+
+    function getAverageResolutionTime(address arbitrator) external view returns (uint256) {
+        ArbitratorStats memory stats = _arbitratorStats[arbitrator];
+        return stats.resolved == 0 ? 0 : stats.totalResolutionTime / stats.resolved;
+    }
+
+    // share of the resolved disputes in the 1_000_000 base, new arbitrators start with the full reputation
+    function getArbitratorReputation(address arbitrator) public view returns (uint32) {
+        ArbitratorStats memory stats = _arbitratorStats[arbitrator];
+        return uint32((uint256(stats.resolved) + 1) * 1_000_000 / (uint256(stats.resolved) + stats.unresolved + 1));
+    }
+
+    // disputes assigned to the arbitrator and not resolved or timed out yet
+    function getAssignedAgreementCount(address arbitrator) external view returns (uint256) {
+        return _assignedAgreements[arbitrator];
+    }
+
+    function getCompensation(address recipient) external view returns (uint256) {
+        return _compensations[recipient];
+    }
+
+    function getPoolArbitrators() external view returns (address[] memory) {
+        return _arbitratorsPool;
+    }
+
+    function getPoolManager() external view returns (address) {
+        return _poolManager;
+    }
+
+    function getGovernance() external view returns (address owner, address pendingOwner, address poolManager) {
+        return (_owner, _pendingOwner, _poolManager);
+    }
+
+    // the zero date if no change is queued for the arbitrator
+    function getQueuedPoolArbitrator(address arbitrator) external view returns (bool added, uint32 applyDate) {
+        PoolChange memory change = _poolChanges[arbitrator];
+        return (change.added, change.applyDate);
+    }
+
+    function isEscrow(address escrow) external view returns (bool) {
+        return _escrows[escrow];
+    }
+}
\ No newline at end of file
@@ -3,19 +3,69 @@
 pragma solidity ^0.8.26;
 
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
 
 import "./interfaces/IEscrowAgent.sol";
 
 contract BaseEscrowAgent is IEscrowAgent, ReentrancyGuard {
 
+    using SafeERC20 for IERC20;
+
+    // the default policy, agreements get their own policy on creation
     uint256 public constant RELEASE_FUNDS_AFTER_DEADLINE = 3 days;
     uint256 public constant AGREE_ON_ARBITRATOR_MAX_PERIOD = 2 days;
     uint256 public constant RESOLVE_DISPUTE_MAX_PERIOD = 2 days;
     uint32 public constant UNRESOLVED_DISPUTE_REFUND_PERCENTAGE = 500000;
     uint32 public constant DEFAULT_ARBITRATOR_PERCENTAGE = 10000;
+    uint256 public constant DEFAULT_DEADLINE_DATE = 30 days;
     
     modifier checkAddress(address user) {
         require(user != address(0), "Address is zero");
         _;
     }
+
+    // the default policy as a struct
+    function _policyDefaults() internal pure returns (Policy memory) {
+        return Policy({
+            releaseFundsAfterDeadline: uint32(RELEASE_FUNDS_AFTER_DEADLINE),
+            agreeOnArbitratorMaxPeriod: uint32(AGREE_ON_ARBITRATOR_MAX_PERIOD),
+            resolveDisputeMaxPeriod: uint32(RESOLVE_DISPUTE_MAX_PERIOD),
+            unresolvedDisputeRefundPercentage: UNRESOLVED_DISPUTE_REFUND_PERCENTAGE,
+            defaultArbitratorPercentage: DEFAULT_ARBITRATOR_PERCENTAGE,
+            defaultDeadlinePeriod: uint32(DEFAULT_DEADLINE_DATE)
+        });
+    }
+
+    // reverts while the period isn't over, the default period keeps the message naming its days
+    function _requirePeriod(bool over, uint32 period, uint256 defaultPeriod, 
+            string memory defaultMessage, string memory message) internal pure {
+        if (!over) {
+            revert(period == defaultPeriod ? defaultMessage : message);
+        }
+    }
+
+    // pulls tokens from the sender, returns the amount actually received (fee-on-transfer tokens),
+    // amounts above uint96 revert instead of being truncated
+    function _receiveFunds(address token, address from, uint256 amount) internal returns (uint96) {
+        uint256 balance = IERC20(token).balanceOf(address(this));
+        IERC20(token).safeTransferFrom(from, address(this), amount);
+        return SafeCast.toUint96(IERC20(token).balanceOf(address(this)) - balance);
+    }
+
+    // the sent eth, amounts above uint96 revert instead of being truncated
+    function _receivedValue() internal view returns (uint96) {
+        return SafeCast.toUint96(msg.value);
+    }
+
+    // sends eth or tokens to the recipient, eth is sent with all the gas for the smart contract wallets
+    function _sendFunds(address token, address payable recipient, uint256 amount) internal {
+        if (token == address(0)) {
+            (bool success, ) = recipient.call{value: amount}("");
+            require(success, "Transfer failed");
+        } else {
+            IERC20(token).safeTransfer(recipient, amount);
+        }
+    }
 }
\ No newline at end of file
@@ -2,157 +2,205 @@
 
 pragma solidity ^0.8.26;
 
-import "./BaseEscrowAgent.sol";
+import "@openzeppelin/contracts/proxy/Proxy.sol";
+
+import "./EscrowAgentExtension.sol";
+import "./EscrowPolicy.sol";
 
 // This contract is a "Escrow Agent" contract with the following features:
 // * Deposit funds in escrow
+// * Deposit ERC-20 tokens in escrow
 // * Reject/Cancel/Refund deposit if there was an error
 // * Release funds on successful delivery
+// * Split an agreement into ordered milestones released one by one
 // * Raise a dispute if needed
-// * Agree on arbitrator or get one assigned from the pool of arbitrators
-// * Withdraw funds from escrow
+// * Agree on arbitrator or get one assigned from the pool of staked arbitrators
+// * Timing and fees of every agreement follow its policy within the owner's bounds
+// * Parties sign the actions off-chain and any relayer submits them
+// * Amend the deadline, the amount or the document of the agreement by mutual consent
+// * Withdraw the credited funds of one or all agreements, to the party or another address
+// * Two-step ownership transfer, timelocked arbitrator pool changes and a guardian pause of new deposits
 // TODO:
 // - multiple agreements or escrow factory
-// - erc20 support
 // - min deposited funds
 // - optimize gas
 // 
-contract EscrowAgent is BaseEscrowAgent {
-
-    uint256 public constant DEFAULT_DEADLINE_DATE = 30 days;
-
-    address internal immutable _owner;
-    mapping(uint256 => Agreement) internal _escrow;
-    mapping(uint256 => Dispute) internal _disputes;
-    address[] internal _arbitratorsPool;
-    mapping(address => uint256[]) internal _assignedAgreements;
-    uint256 private _agreementCounter;
-
-    // arbitrator is in the pool
-    error ArbitratorInPool(address arbitrator);
-    // arbitrator is not in the pool
-    error ArbitratorNotInPool(address arbitrator);
+// The signed actions, the amendments, the batch withdrawals and the governance are implemented by 
+// EscrowAgentExtension and called at this contract address, see EscrowAgentStorage
+contract EscrowAgent is EscrowAgentStorage, IArbitratorPoolClient, Proxy {
 
-    event AgreementCreated(address indexed depositor, address indexed beneficiary, 
-        uint256 indexed agreementId, uint96 amount, uint32 deadlineDate, string detailsHash);
-    event AgreementCanceled(uint256 indexed agreementId);
-    event AgreementApproved(uint256 indexed agreementId);
-    event AgreementRejected(uint256 indexed agreementId);
-    event AgreementRefunded(uint256 indexed agreementId);
-    event FundsAdded(uint256 indexed agreementId, address indexed sender, uint96 amount, uint96 totalAmount);
-    event FundsWithdrawn(uint256 indexed agreementId, address indexed recipient, uint96 amount);
-    event FundsReleased(uint256 indexed agreementId);
-    event DisputeRaised(uint256 indexed agreementId);
-    event DisputeResolved(uint256 indexed agreementId, uint32 refundPercentage, 
-        uint96 feeAmount, uint96 refundAmount, uint96 releasedAmount);
-    event DisputeUnresolved(uint256 indexed agreementId, uint32 refundPercentage, uint96 refundAmount);
-    event ArbitratorAgreed(uint256 indexed agreementId, address indexed arbitrator, bool agreed);
-    event PoolArbitratorAssigned(uint256 indexed agreementId, address indexed arbitrator);
-    event PoolArbitratorAdded(address indexed arbitrator);
-    event PoolArbitratorRemoved(address indexed arbitrator);
+    address internal immutable _extension;
 
-    modifier onlyDepositor(uint256 agreementId) {
-        require(msg.sender == address(_escrow[agreementId].depositor), "You are not the depositor.");
-        _;
-    }
-
-    modifier onlyBeneficiary(uint256 agreementId) {
-        require(msg.sender == address(_escrow[agreementId].beneficiary), "You are not the beneficiary.");
-        _;
+    // the deployer holds all the roles until the owner hands them over
+    constructor() SignedActions("EscrowAgent") {
+        _owner = msg.sender;
+        _poolManager = msg.sender;
+        _guardian = msg.sender;
+        _extension = address(new EscrowAgentExtension());
+        _defaultPolicy = _policyDefaults();
+        _minPolicy = EscrowPolicy.minimum();
+        _maxPolicy = EscrowPolicy.maximum();
     }
 
-    modifier onlyDepositorOrBeneficiary(uint256 agreementId) {
-        require(msg.sender == address(_escrow[agreementId].depositor) || 
-            msg.sender == address(_escrow[agreementId].beneficiary), "You are not the depositor/beneficiary.");
-        _;
+    function createAgreement(address payable _beneficiary, string memory detailsHash) public payable {
+        createAgreement(_beneficiary, detailsHash, uint32(block.timestamp + _defaultPolicy.defaultDeadlinePeriod));
     }
 
-    modifier onlyArbitrator(uint256 agreementId) {
-        require(msg.sender == address(_disputes[agreementId].arbitrator) &&
-             _disputes[agreementId].agreed, "You are not the arbitrator.");
-        _;
+    function createAgreement(address payable _beneficiary, string memory detailsHash, uint32 deadlineDate) public payable {
+        _createAgreement(_beneficiary, detailsHash, deadlineDate, address(0), _receivedValue(), _defaultPolicy);
     }
 
-    modifier onlyOwner() {
-        require(msg.sender == _owner, "You are not the owner.");
-        _;
+    // the depositor must approve the amount of tokens to this contract first
+    function createAgreement(address payable _beneficiary, string memory detailsHash, uint32 deadlineDate, 
+            address token, uint96 amount) public checkAddress(token) {
+        _createAgreement(_beneficiary, detailsHash, deadlineDate, token, _receiveFunds(token, msg.sender, amount), 
+            _defaultPolicy);
     }
 
-    modifier inStatus(Status status, uint256 agreementId) {
-        require(_escrow[agreementId].status == status, "The agreement is in a wrong status.");
-        _;
+    // eth agreements ignore the amount and take the sent eth, the beneficiary accepts the policy on approval
+    function createAgreement(address payable _beneficiary, string memory detailsHash, uint32 deadlineDate, 
+            address token, uint96 amount, Policy calldata policy) public payable {
+        if (token != address(0) && msg.value > 0) {
+            revert WrongToken(token);
+        }
+        _createAgreement(_beneficiary, detailsHash, deadlineDate, token, 
+            token == address(0) ? _receivedValue() : _receiveFunds(token, msg.sender, amount), policy);
     }
 
-    constructor() {
-        _owner = msg.sender;
+    // milestones must be ordered by deadline, the last milestone deadline is the agreement deadline
+    // note: fee-on-transfer tokens aren't supported, the received amount must match the milestones
+    function createMilestoneAgreement(address payable _beneficiary, string calldata detailsHash, address token,
+            Milestone[] calldata milestones) public payable {
+        createMilestoneAgreementWithPolicy(_beneficiary, detailsHash, token, milestones, _defaultPolicy);
     }
 
-    function createAgreement(address payable _beneficiary, string memory detailsHash) public payable {
-        createAgreement(_beneficiary, detailsHash, uint32(block.timestamp + DEFAULT_DEADLINE_DATE));
+    function createMilestoneAgreementWithPolicy(address payable _beneficiary, string calldata detailsHash, 
+            address token, Milestone[] calldata milestones, Policy memory policy) public payable {
+        require(milestones.length > 0, "Wrong milestones");
+        if (token != address(0) && msg.value > 0) {
+            revert WrongToken(token);
+        }
+        uint96 total = 0;
+        for (uint256 i = 0; i < milestones.length; i++) {
+            require(i == 0 || milestones[i].deadlineDate > milestones[i - 1].deadlineDate, 
+                "Milestones must be ordered by deadline");
+            total += milestones[i].amount;
+        }
+        uint96 amount = token == address(0) ? _receivedValue() : _receiveFunds(token, msg.sender, total);
+        require(amount == total, "Milestones amount doesn't match the funds");
+        _createAgreement(_beneficiary, detailsHash, milestones[milestones.length - 1].deadlineDate, token, amount, policy);
+        for (uint256 i = 0; i < milestones.length; i++) {
+            _milestones[_agreementCounter].push(milestones[i]);
+            emit MilestoneCreated(_agreementCounter, i, milestones[i].amount, 
+                milestones[i].deadlineDate, milestones[i].detailsHash);
+        }
     }
 
-    function createAgreement(address payable _beneficiary, string memory detailsHash, uint32 deadlineDate) public payable checkAddress(_beneficiary) {
+    function _createAgreement(address payable _beneficiary, string memory detailsHash, uint32 deadlineDate, 
+            address token, uint96 amount, Policy memory policy) private checkAddress(_beneficiary) whenNotPaused {
+        EscrowPolicy.check(policy, _minPolicy, _maxPolicy);
         _agreementCounter++;
         // TODO: multiple agreements
-        emit AgreementCreated(msg.sender, _beneficiary, _agreementCounter, uint96(msg.value), deadlineDate, detailsHash);
+        emit AgreementCreated(msg.sender, _beneficiary, _agreementCounter, amount, deadlineDate, detailsHash, token);
         _escrow[_agreementCounter] = Agreement({
             status: Status.Funded,
             depositor: payable(msg.sender),
             beneficiary: _beneficiary,
-            amount: uint96(msg.value),
+            amount: amount,
             deadlineDate: deadlineDate,
             startDate: uint32(block.timestamp),
+            token: token,
             detailsHash: detailsHash
         });
+        _policies[_agreementCounter] = policy;
+        emit AgreementPolicySet(_agreementCounter, policy);
+        _addPartyAgreement(Party.Depositor, msg.sender, _agreementCounter);
+        _addPartyAgreement(Party.Beneficiary, _beneficiary, _agreementCounter);
     }
 
     function addFunds(uint256 agreementId) public payable
-            onlyDepositor(agreementId) inStatus(Status.Funded, agreementId) {
-        _escrow[agreementId].amount += uint96(msg.value);
-        emit FundsAdded(agreementId, msg.sender, uint96(msg.value), _escrow[agreementId].amount);
+            onlyDepositor(agreementId) inStatus(Status.Funded, agreementId) whenNotPaused {
+        require(_milestones[agreementId].length == 0, "Milestones amount is fixed");
+        Agreement storage agreement = _escrow[agreementId];
+        if (agreement.token != address(0)) {
+            revert WrongToken(agreement.token);
+        }
+        uint96 received = _receivedValue();
+        agreement.amount += received;
+        emit FundsAdded(agreementId, msg.sender, received, agreement.amount);
+    }
+
+    // the depositor must approve the amount of tokens to this contract first
+    function addTokenFunds(uint256 agreementId, uint96 amount) public
+            onlyDepositor(agreementId) inStatus(Status.Funded, agreementId) whenNotPaused {
+        require(_milestones[agreementId].length == 0, "Milestones amount is fixed");
+        Agreement storage agreement = _escrow[agreementId];
+        if (agreement.token == address(0)) {
+            revert WrongToken(agreement.token);
+        }
+        uint96 received = _receiveFunds(agreement.token, msg.sender, amount);
+        agreement.amount += received;
+        emit FundsAdded(agreementId, msg.sender, received, agreement.amount);
     }
 
     function cancelAgreement(uint256 agreementId) public 
             onlyDepositor(agreementId) inStatus(Status.Funded, agreementId) {
         _escrow[agreementId].status = Status.Canceled;
+        _credit(agreementId, msg.sender, _escrow[agreementId].amount);
         emit AgreementCanceled(agreementId);
     }
 
     function approveAgreement(uint256 agreementId) public 
             onlyBeneficiary(agreementId) inStatus(Status.Funded, agreementId) {
-        _escrow[agreementId].status = Status.Active;
-        emit AgreementApproved(agreementId);
+        _approveAgreement(agreementId);
     }
 
     function rejectAgreement(uint256 agreementId) public 
             onlyBeneficiary(agreementId) inStatus(Status.Funded, agreementId) {
-        _escrow[agreementId].status = Status.Rejected;
-        emit AgreementRejected(agreementId);
+        _rejectAgreement(agreementId);
     }
 
     function refundAgreement(uint256 agreementId) public 
             onlyBeneficiary(agreementId) inStatus(Status.Active, agreementId) {
-        _escrow[agreementId].status = Status.Refunded;
-        emit AgreementRefunded(agreementId);
+        _refundAgreement(agreementId);
     }
 
     function releaseFunds(uint256 agreementId) public 
             onlyDepositorOrBeneficiary(agreementId) inStatus(Status.Active, agreementId) {
-        // release funds if there is no dispute
-        if (msg.sender == _escrow[agreementId].beneficiary) {
-            require(block.timestamp >= _escrow[agreementId].deadlineDate + RELEASE_FUNDS_AFTER_DEADLINE, "Funds will be released in 3 days after the deadline");
+        _releaseFunds(agreementId, msg.sender);
+    }
+
+    // releases the next milestone, the beneficiary can claim it after its deadline and the release period
+    function releaseMilestone(uint256 agreementId, uint256 index) public 
+            onlyDepositorOrBeneficiary(agreementId) inStatus(Status.Active, agreementId) {
+        require(index < _milestones[agreementId].length && index == _releasedMilestones[agreementId], 
+            "Milestones are released in order");
+        Milestone storage milestone = _milestones[agreementId][index];
+        Agreement storage agreement = _escrow[agreementId];
+        if (msg.sender == agreement.beneficiary) {
+            uint32 period = _policies[agreementId].releaseFundsAfterDeadline;
+            _requirePeriod(block.timestamp >= milestone.deadlineDate + period, period, RELEASE_FUNDS_AFTER_DEADLINE,
+                "Milestone will be released in 3 days after its deadline",
+                "Milestone will be released after its deadline and the release period");
+        }
+        _releasedMilestones[agreementId]++;
+        agreement.amount -= milestone.amount;
+        _credit(agreementId, agreement.beneficiary, milestone.amount);
+        emit MilestoneReleased(agreementId, index, milestone.amount);
+        if (index == _milestones[agreementId].length - 1) {
+            agreement.status = Status.Closed;
+            emit FundsReleased(agreementId);
         }
-        _escrow[agreementId].status = Status.Closed;
-        emit FundsReleased(agreementId);
     }
 
+    // a dispute covers only the open milestones, so it can be raised after the next milestone deadline
     function raiseDispute(uint256 agreementId) public 
-            onlyDepositor(agreementId) inStatus(Status.Active, agreementId) {
-        require(block.timestamp > _escrow[agreementId].deadlineDate, "You cannot raise dispute before the deadline");
+            onlyDepositor(agreementId) inStatus(Status.Active, agreementId) whenNotPaused {
+        require(block.timestamp > _currentDeadline(agreementId), "You cannot raise dispute before the deadline");
         _escrow[agreementId].status = Status.Disputed;
         _disputes[agreementId] = Dispute({
             arbitrator: payable(0),
-            feePercentage: uint32(DEFAULT_ARBITRATOR_PERCENTAGE),
+            feePercentage: _policies[agreementId].defaultArbitratorPercentage,
             feeAmount: 0,
             agreed: false,
             startDate: uint32(block.timestamp),
@@ -165,209 +213,267 @@ contract EscrowAgent is BaseEscrowAgent {
 
     function registerArbitrator(uint256 agreementId, address payable arbitrator, uint32 feePercentage) public 
             onlyDepositorOrBeneficiary(agreementId) checkAddress(arbitrator) inStatus(Status.Disputed, agreementId) {
-        // After AGREE_ON_ARBITRATOR_PERIOD arbitrator forcefully assigned from the pool
-        if (block.timestamp >= _disputes[agreementId].startDate + AGREE_ON_ARBITRATOR_MAX_PERIOD){
-            assignArbitrator(agreementId);
-            return;
-        }
-        require(feePercentage >= 0 && feePercentage <= 1000000, 
-            "Fee percent should be between 0 and 1000000");
-        if (msg.sender == _escrow[agreementId].depositor) {
-            if (_disputes[agreementId].arbitrator != arbitrator) {
-                _disputes[agreementId].agreed = false;
-                _disputes[agreementId].arbitrator = arbitrator;
-                _disputes[agreementId].feePercentage = feePercentage;
-                emit ArbitratorAgreed(agreementId, arbitrator, false);
-            }
-        } else {
-            if (_disputes[agreementId].arbitrator != arbitrator ||
-                    _disputes[agreementId].feePercentage != feePercentage) {
-                revert WrongArbitrator(_disputes[agreementId].arbitrator, arbitrator,
-                    _disputes[agreementId].feePercentage, feePercentage);
-            }
-            // depositor set an arbitrator, beneficiary - agrees
-            _disputes[agreementId].agreed = true;
-            emit ArbitratorAgreed(agreementId, arbitrator, true);
-        }
+        _registerArbitrator(agreementId, msg.sender, arbitrator, feePercentage);
     }
 
     function assignArbitrator(uint256 agreementId) public 
             onlyDepositorOrBeneficiary(agreementId) inStatus(Status.Disputed, agreementId) {
-        if (_disputes[agreementId].agreed) {
-            // if arbitrator is agreed on but he/she does nothing after 2 days - trigger arbitrator assigment from the pool
-            require(block.timestamp >= _disputes[agreementId].startDate + AGREE_ON_ARBITRATOR_MAX_PERIOD + RESOLVE_DISPUTE_MAX_PERIOD, "Too early to assign artibrator from the pool");
-        } else {
-            // if arbitrator is not agreed we need to trigger assigment from the pool
-            require(block.timestamp >= _disputes[agreementId].startDate + AGREE_ON_ARBITRATOR_MAX_PERIOD, "Too early to assign artibrator from the pool");
+        _assignArbitrator(agreementId);
+    }
+
+    // the pool calls back with the arbitrator picked by the random word
+    function assignPoolArbitrator(uint256 agreementId, address arbitrator) external returns (bool) {
+        require(msg.sender == address(_disputePools[agreementId]), "You are not the arbitrator pool.");
+        delete _pendingAssignments[agreementId];
+        // the dispute could be resolved while waiting for the coordinator
+        if (_escrow[agreementId].status != Status.Disputed || arbitrator == address(0)) {
+            return false;
         }
-        uint randomIndex = uint256(keccak256(abi.encodePacked(block.timestamp, block.prevrandao, msg.sender))) % _arbitratorsPool.length;
-        _disputes[agreementId].arbitrator = payable(_arbitratorsPool[randomIndex]);
-        _disputes[agreementId].agreed = true;
-        _disputes[agreementId].assignedDate = uint32(block.timestamp);
-        _assignedAgreements[_arbitratorsPool[randomIndex]].push(agreementId);
-        emit PoolArbitratorAssigned(agreementId, _arbitratorsPool[randomIndex]);
+        Dispute storage dispute = _disputes[agreementId];
+        dispute.arbitrator = payable(arbitrator);
+        dispute.agreed = true;
+        dispute.assignedDate = uint32(block.timestamp);
+        _addArbitratorAgreement(arbitrator, agreementId);
+        emit PoolArbitratorAssigned(agreementId, arbitrator);
+        return true;
     }
 
     function resolveDispute(uint256 agreementId) public
             onlyDepositorOrBeneficiary(agreementId) inStatus(Status.Disputed, agreementId) {
         // if pool arbitrator doesn't resolve the dispute - set Unresolved status and split the escrow
-        require(_disputes[agreementId].assignedDate != 0 && block.timestamp >= _disputes[agreementId].assignedDate + RESOLVE_DISPUTE_MAX_PERIOD, 
-            "You can resolve dispute yourself in 2 days after the pool arbitrator assignment date");
-        _disputes[agreementId].refundAmount = uint96(_escrow[agreementId].amount * UNRESOLVED_DISPUTE_REFUND_PERCENTAGE / 1_000_000);
-        _disputes[agreementId].releasedAmount = _escrow[agreementId].amount - _disputes[agreementId].refundAmount;
-        _escrow[agreementId].status = Status.Unresolved;
-        // check and remove agreement from assigned to the pool arbitrator
-        if (_assignedAgreements[_disputes[agreementId].arbitrator].length > 0) {
-            removeAgreementFromAssigned(_disputes[agreementId].arbitrator, agreementId);
-        }
-        emit DisputeUnresolved(agreementId, uint32(UNRESOLVED_DISPUTE_REFUND_PERCENTAGE), _disputes[agreementId].refundAmount);
+        uint32 refundPercentage = _policies[agreementId].unresolvedDisputeRefundPercentage;
+        Agreement storage agreement = _escrow[agreementId];
+        Dispute storage dispute = _disputes[agreementId];
+        uint32 period = _policies[agreementId].resolveDisputeMaxPeriod;
+        _requirePeriod(dispute.assignedDate != 0 && block.timestamp >= dispute.assignedDate + period, period, 
+            RESOLVE_DISPUTE_MAX_PERIOD, "You can resolve dispute yourself in 2 days after the pool arbitrator assignment date",
+            "You can resolve dispute yourself after the resolution period of the pool arbitrator");
+        dispute.refundAmount = uint96(agreement.amount * refundPercentage / 1_000_000);
+        dispute.releasedAmount = agreement.amount - dispute.refundAmount;
+        agreement.status = Status.Unresolved;
+        _creditSplit(agreementId);
+        // the pool arbitrator didn't resolve the dispute in time
+        _disputePools[agreementId].arbitratorTimedOut(agreementId);
+        emit DisputeUnresolved(agreementId, refundPercentage, dispute.refundAmount);
     }
 
     function resolveDispute(uint256 agreementId, uint32 refundPercentage) public
             onlyArbitrator(agreementId) inStatus(Status.Disputed, agreementId) {
+        _resolveDispute(agreementId, refundPercentage);
+    }
+
+    // the arbitrator explains the resolution by the rationale CID
+    function resolveDispute(uint256 agreementId, uint32 refundPercentage, string calldata rationaleHash) public
+            onlyArbitrator(agreementId) inStatus(Status.Disputed, agreementId) {
+        _rulings[agreementId] = rationaleHash;
+        emit RulingSubmitted(agreementId, msg.sender, rationaleHash);
+        _resolveDispute(agreementId, refundPercentage);
+    }
+
+    function _resolveDispute(uint256 agreementId, uint32 refundPercentage) private {
         require(refundPercentage >= 0 && refundPercentage <= 1000000, "Refunded percent should be between 0 and 1000000");
-        _disputes[agreementId].feeAmount = _escrow[agreementId].amount *  _disputes[agreementId].feePercentage / 1_000_000;
-        _disputes[agreementId].refundAmount = (_escrow[agreementId].amount - _disputes[agreementId].feeAmount) * refundPercentage / 1_000_000;
-        _disputes[agreementId].releasedAmount = _escrow[agreementId].amount - _disputes[agreementId].feeAmount - _disputes[agreementId].refundAmount;
+        Dispute storage dispute = _disputes[agreementId];
+        uint96 amount = _escrow[agreementId].amount;
+        dispute.feeAmount = amount * dispute.feePercentage / 1_000_000;
+        dispute.refundAmount = (amount - dispute.feeAmount) * refundPercentage / 1_000_000;
+        dispute.releasedAmount = amount - dispute.feeAmount - dispute.refundAmount;
         _escrow[agreementId].status = Status.Resolved;
-        // check and remove agreement from assigned to the pool arbitrator
-        if (_assignedAgreements[_disputes[agreementId].arbitrator].length > 0) {
-            removeAgreementFromAssigned(_disputes[agreementId].arbitrator, agreementId);
+        _creditSplit(agreementId);
+        // the pool counts the resolution of the pool arbitrator
+        if (dispute.assignedDate != 0) {
+            _disputePools[agreementId].arbitratorResolved(agreementId);
         }
-        emit DisputeResolved(agreementId, refundPercentage, _disputes[agreementId].feeAmount, 
-            _disputes[agreementId].refundAmount, _disputes[agreementId].releasedAmount);
+        emit DisputeResolved(agreementId, refundPercentage, dispute.feeAmount, 
+            dispute.refundAmount, dispute.releasedAmount);
     }
 
-    function addPoolArbitrator(address arbitrator) public onlyOwner checkAddress(arbitrator) {
-        require(_assignedAgreements[arbitrator].length == 0, "Arbitrator already in the pool");
-        for (uint256 i = 0; i < _arbitratorsPool.length; i++) {
-            if (_arbitratorsPool[i] == arbitrator) {
-                revert ArbitratorInPool(arbitrator);
-            }
+    // the parties append their evidence while the dispute is open
+    function submitEvidence(uint256 agreementId, string calldata evidenceHash) public 
+            onlyDepositorOrBeneficiary(agreementId) inStatus(Status.Disputed, agreementId) {
+        _evidence[agreementId].push(Evidence({
+            submitter: msg.sender,
+            submittedDate: uint32(block.timestamp),
+            evidenceHash: evidenceHash
+        }));
+        emit EvidenceSubmitted(agreementId, msg.sender, _evidence[agreementId].length - 1, evidenceHash);
+    }
+
+    // the evidence and the ruling are public in the events anyway
+    function getEvidence(uint256 agreementId, uint256 index) external view returns (Evidence memory) {
+        return _evidence[agreementId][index];
+    }
+
+    function getEvidenceCount(uint256 agreementId) external view returns (uint256) {
+        return _evidence[agreementId].length;
+    }
+
+    // empty if the arbitrator gave no rationale
+    function getRuling(uint256 agreementId) external view returns (string memory) {
+        return _rulings[agreementId];
+    }
+
+    // either party proposes the depositor's share of the funds, the other party accepts or counter-proposes
+    function proposeSettlement(uint256 agreementId, uint32 refundPercentage) public 
+            onlyDepositorOrBeneficiary(agreementId) {
+        _checkSettlementStatus(agreementId);
+        require(refundPercentage <= 1000000, "Refunded percent should be between 0 and 1000000");
+        _settlements[agreementId] = Settlement({proposer: msg.sender, refundPercentage: refundPercentage});
+        emit SettlementProposed(agreementId, msg.sender, refundPercentage);
+    }
+
+    // the funds are split as the arbitrator resolution without the fee, 
+    // the percentage must match the proposal in case it's replaced meanwhile
+    function acceptSettlement(uint256 agreementId, uint32 refundPercentage) public 
+            onlyDepositorOrBeneficiary(agreementId) {
+        _checkSettlementStatus(agreementId);
+        Settlement memory settlement = _settlements[agreementId];
+        require(settlement.proposer != address(0) && settlement.proposer != msg.sender, 
+            "There is no settlement proposed by the other party.");
+        if (settlement.refundPercentage != refundPercentage) {
+            revert WrongSettlement(settlement.refundPercentage, refundPercentage);
         }
-        _arbitratorsPool.push(arbitrator);
-        emit PoolArbitratorAdded(arbitrator);
-    }
-
-    function removePoolArbitrator(address arbitrator) public onlyOwner checkAddress(arbitrator) {
-        require(_assignedAgreements[arbitrator].length == 0, "Arbitrator has active agreements");
-        for (uint256 i = 0; i < _arbitratorsPool.length; i++) {
-            if (_arbitratorsPool[i] == arbitrator) {
-                _arbitratorsPool[i] = _arbitratorsPool[_arbitratorsPool.length - 1];
-                _arbitratorsPool.pop();
-                delete _assignedAgreements[arbitrator];
-                emit PoolArbitratorRemoved(arbitrator);
-                return;
-            }
+        Agreement storage agreement = _escrow[agreementId];
+        Dispute storage dispute = _disputes[agreementId];
+        // the pool arbitrator of a dispute is released
+        if (agreement.status == Status.Disputed && dispute.assignedDate != 0) {
+            _disputePools[agreementId].arbitratorReleased(agreementId);
         }
-        revert ArbitratorNotInPool(arbitrator);
+        dispute.refundAmount = uint96(agreement.amount * refundPercentage / 1_000_000);
+        dispute.releasedAmount = agreement.amount - dispute.refundAmount;
+        agreement.status = Status.Settled;
+        _creditSplit(agreementId);
+        emit SettlementAccepted(agreementId, refundPercentage, dispute.refundAmount, dispute.releasedAmount);
     }
 
-    function removeAgreementFromAssigned(address arbitrator, uint256 agreementId) private {
-        for (uint256 i = 0; i < _assignedAgreements[arbitrator].length; i++) {
-            if (_assignedAgreements[arbitrator][i] == agreementId) {
-                _assignedAgreements[arbitrator][i] = _assignedAgreements[arbitrator][_assignedAgreements[arbitrator].length - 1];
-                _assignedAgreements[arbitrator].pop();
-                break;
-            }
+    function getSettlement(uint256 agreementId) external view returns (Settlement memory) {
+        return _settlements[agreementId];
+    }
+
+    // the first pool is set at once, the next ones are queued by the extension, the pool must register this escrow
+    function setArbitratorPool(address arbitratorPool) public onlyPoolManager checkAddress(arbitratorPool) {
+        require(address(_arbitratorPool) == address(0), "Arbitrator pool is set, queue the change.");
+        _arbitratorPool = IArbitratorPool(arbitratorPool);
+        emit ArbitratorPoolSet(arbitratorPool);
+    }
+
+    // the pool members and their stakes are kept by ArbitratorPool, the calls are forwarded
+    // to the current pool, which must have this escrow as its pool manager
+    function addPoolArbitrator(address arbitrator) public onlyPoolManager {
+        _currentArbitratorPool().addPoolArbitrator(arbitrator);
+    }
+
+    function removePoolArbitrator(address arbitrator) public onlyPoolManager {
+        _currentArbitratorPool().removePoolArbitrator(arbitrator);
+    }
+
+    function applyPoolArbitrator(address arbitrator) public onlyPoolManager {
+        _currentArbitratorPool().applyPoolArbitrator(arbitrator);
+    }
+
+    // the guardian vetoes a queued change of the members too
+    function cancelPoolArbitrator(address arbitrator) public {
+        require(msg.sender == _poolManager || msg.sender == _guardian, "You are not the pool manager/guardian.");
+        _currentArbitratorPool().cancelPoolArbitrator(arbitrator);
+    }
+
+    // the stake of the sender in the current pool, it's withdrawn from the pool
+    function depositStake() public payable {
+        _currentArbitratorPool().depositStakeFor{value: msg.value}(msg.sender);
+    }
+
+    function _currentArbitratorPool() private view returns (IArbitratorPool) {
+        require(address(_arbitratorPool) != address(0), "Arbitrator pool is not set");
+        return _arbitratorPool;
+    }
+
+    function _checkSettlementStatus(uint256 agreementId) private view {
+        Status status = _escrow[agreementId].status;
+        require(status == Status.Active || status == Status.Disputed, "The agreement is in a wrong status.");
+    }
+
+    // deadline of the next open milestone or the agreement deadline
+    function _currentDeadline(uint256 agreementId) private view returns (uint32) {
+        if (_releasedMilestones[agreementId] < _milestones[agreementId].length) {
+            return _milestones[agreementId][_releasedMilestones[agreementId]].deadlineDate;
         }
+        return _escrow[agreementId].deadlineDate;
     }
 
+    // withdraws the sender's claim of the agreement, withdrawAll of the extension withdraws all the claims
     function withdrawFunds(uint256 agreementId) public payable nonReentrant {
-        Agreement memory agreement = _escrow[agreementId];
-        if (agreement.beneficiary == msg.sender) {
-            if (agreement.status == Status.Closed) {
-                require(_escrow[agreementId].amount > 0, "Funds are not available");
-                uint96 amount = _escrow[agreementId].amount;
-                _escrow[agreementId].amount = 0;
-                agreement.beneficiary.transfer(amount);
-                emit FundsWithdrawn(agreementId, msg.sender, amount);
-                return;
-            } else if (agreement.status == Status.Resolved) {
-                require(_disputes[agreementId].releasedAmount > 0, "Funds are not available");
-                uint96 releasedAmount = _disputes[agreementId].releasedAmount;
-                _disputes[agreementId].releasedAmount = 0;
-                agreement.beneficiary.transfer(releasedAmount);
-                emit FundsWithdrawn(agreementId, msg.sender, releasedAmount);
-                return;
-            } else if (agreement.status == Status.Unresolved) {
-                require(_disputes[agreementId].releasedAmount > 0, "Funds are not available");
-                uint96 releasedAmount = _disputes[agreementId].releasedAmount;
-                _disputes[agreementId].releasedAmount = 0;
-                agreement.beneficiary.transfer(releasedAmount);
-                emit FundsWithdrawn(agreementId, msg.sender, releasedAmount);
-                return;
-            }
-        } else if (agreement.depositor == msg.sender) {
-            if (agreement.status == Status.Canceled || agreement.status == Status.Rejected || 
-                    agreement.status == Status.Refunded) {
-                require(_escrow[agreementId].amount > 0, "Funds are not available");
-                uint96 amount = _escrow[agreementId].amount;
-                _escrow[agreementId].amount = 0;
-                agreement.depositor.transfer(amount);
-                emit FundsWithdrawn(agreementId, msg.sender, amount);
-                return;
-            } else if(agreement.status == Status.Resolved || agreement.status == Status.Unresolved) {
-                require(_disputes[agreementId].refundAmount > 0, "Funds are not available");
-                uint96 refundAmount = _disputes[agreementId].refundAmount;
-                _disputes[agreementId].refundAmount = 0;
-                agreement.depositor.transfer(refundAmount);
-                emit FundsWithdrawn(agreementId, msg.sender, refundAmount);
-                return;
-            }
-        } else if (_disputes[agreementId].arbitrator == msg.sender) {
-            if (agreement.status == Status.Resolved) {
-                require(_disputes[agreementId].feeAmount > 0, "Funds are not available");
-                uint96 feeAmount = _disputes[agreementId].feeAmount;
-                _disputes[agreementId].feeAmount = 0;
-                _disputes[agreementId].arbitrator.transfer(feeAmount);
-                emit FundsWithdrawn(agreementId, msg.sender, feeAmount);
-                return;
-            }
-        }
-        revert WithdrawProhibited(msg.sender, agreement.status);
-    }
-
-    function getWithdrawBalance(uint256 agreementId) external view 
-            inStatus(Status.Disputed, agreementId) returns (uint256) {
-        Agreement memory agreement = _escrow[agreementId];
-        if (agreement.beneficiary == msg.sender) {
-            if (agreement.status == Status.Closed) {
-                require(_escrow[agreementId].amount > 0, "Funds are not available");
-                return _escrow[agreementId].amount;
-            } else if (agreement.status == Status.Resolved || agreement.status == Status.Unresolved) {
-                require(_disputes[agreementId].releasedAmount > 0, "Funds are not available");
-                return _disputes[agreementId].releasedAmount;
-            }
-        } else if (agreement.depositor == msg.sender) {
-            if (agreement.status == Status.Canceled || agreement.status == Status.Rejected || 
-                    agreement.status == Status.Refunded) {
-                require(_escrow[agreementId].amount > 0, "Funds are not available");
-                return _escrow[agreementId].amount;
-            } else if(agreement.status == Status.Resolved || agreement.status == Status.Unresolved) {
-                require(_disputes[agreementId].refundAmount > 0, "Funds are not available");
-                return _disputes[agreementId].refundAmount;
-            }
-        } else if (_disputes[agreementId].arbitrator == msg.sender) {
-            if (agreement.status == Status.Resolved) {
-                require(_disputes[agreementId].feeAmount > 0, "Funds are not available");
-                return _disputes[agreementId].feeAmount;
-            }
-        }
-        revert NoBalance(msg.sender, agreement.status);
+        _sendFunds(_escrow[agreementId].token, payable(msg.sender), _withdrawClaim(agreementId, msg.sender));
     }
 
     function getAgreementDetails(uint256 agreementId) external view 
-            returns (string memory, uint256, uint256, uint256) {
-        require(msg.sender == address(_escrow[agreementId].depositor) || 
-            msg.sender == address(_escrow[agreementId].beneficiary) ||
-            msg.sender == address(_disputes[agreementId].arbitrator), 
-            "You are not the depositor/beneficiary.");
-        return (_escrow[agreementId].detailsHash, _escrow[agreementId].amount, 
-            _escrow[agreementId].startDate, _escrow[agreementId].deadlineDate);
+            onlyParticipant(agreementId) returns (string memory, uint256, uint256, uint256, address) {
+        Agreement storage agreement = _escrow[agreementId];
+        return (agreement.detailsHash, agreement.amount, agreement.startDate, agreement.deadlineDate, agreement.token);
+    }
+
+    // returns the milestones and the number of released ones
+    function getMilestones(uint256 agreementId) external view 
+            onlyParticipant(agreementId) returns (Milestone[] memory, uint256) {
+        return (_milestones[agreementId], _releasedMilestones[agreementId]);
     }
 
     function getAgreementStatus(uint256 agreementId) external view returns (Status) {
         return _escrow[agreementId].status;
     }
+
+    function getAgreementPolicy(uint256 agreementId) external view returns (Policy memory) {
+        return _policies[agreementId];
+    }
+
+    function getPartyAgreementCount(address party, Party role) external view returns (uint256) {
+        return _partyAgreements[uint8(role)][party].length;
+    }
+
+    // up to the limit of the party agreements from the cursor position, oldest first,
+    // statuses is a bitmask of 1 << status to filter by, 0 for any status;
+    // the next cursor is 0 once all the agreements are listed
+    function getPartyAgreements(address party, Party role, uint256 statuses, uint256 cursor, uint256 limit) 
+            external view returns (uint256[] memory agreementIds, uint256 nextCursor) {
+        uint256[] storage all = _partyAgreements[uint8(role)][party];
+        uint256[] memory found = new uint256[](limit);
+        uint256 count;
+        for (; cursor < all.length && count < limit; cursor++) {
+            if (statuses == 0 || statuses & (1 << uint8(_escrow[all[cursor]].status)) != 0) {
+                found[count++] = all[cursor];
+            }
+        }
+        agreementIds = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            agreementIds[i] = found[i];
+        }
+        nextCursor = cursor < all.length ? cursor : 0;
+    }
+
+    // a pool arbitrator is requested and waits for the randomness coordinator
+    function isAssignmentPending(uint256 agreementId) external view returns (bool) {
+        return _pendingAssignments[agreementId];
+    }
+
+    function getDisputeParties(uint256 agreementId) external view 
+            returns (address depositor, address beneficiary, uint32 refundPercentage) {
+        return (_escrow[agreementId].depositor, _escrow[agreementId].beneficiary, 
+            _policies[agreementId].unresolvedDisputeRefundPercentage);
+    }
+
+    function getArbitratorPool() external view returns (address) {
+        return address(_arbitratorPool);
+    }
+
+    function getExtension() external view returns (address) {
+        return _extension;
+    }
+
+    // the extension has no receive function, so plain eth transfers are reverted as before
+    receive() external payable {
+        _fallback();
+    }
+
+    // the fallback delegates the calls of the extension functions
+    function _implementation() internal view override returns (address) {
+        return _extension;
+    }
 }
\ No newline at end of file
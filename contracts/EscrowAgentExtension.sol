@@ -0,0 +1,336 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+import "./EscrowAgentStorage.sol";
+import "./EscrowPolicy.sol";
+
+// Functions of EscrowAgent that don't fit into its contract size, EscrowAgent delegates the calls 
+// of unknown functions to its extension, the functions are called at the EscrowAgent address:
+// * Parties sign the actions off-chain and any relayer submits them
+// * Amend the deadline, the amount or the document of the agreement by mutual consent
+// * Withdraw the credited funds of all agreements or to another address
+// * Transfer the ownership, set the policy bounds, queue the arbitrator pool changes and pause the new deposits
+contract EscrowAgentExtension is EscrowAgentStorage {
+
+    // the parties of the open agreements have the delay to react to a new arbitrator pool
+    uint32 public constant ARBITRATOR_POOL_DELAY = 2 days;
+
+    bytes32 private constant APPROVE_AGREEMENT_TYPEHASH = 
+        keccak256("ApproveAgreement(uint256 agreementId,uint256 nonce,uint256 deadline)");
+    bytes32 private constant REJECT_AGREEMENT_TYPEHASH = 
+        keccak256("RejectAgreement(uint256 agreementId,uint256 nonce,uint256 deadline)");
+    bytes32 private constant REFUND_AGREEMENT_TYPEHASH = 
+        keccak256("RefundAgreement(uint256 agreementId,uint256 nonce,uint256 deadline)");
+    bytes32 private constant RELEASE_FUNDS_TYPEHASH = 
+        keccak256("ReleaseFunds(uint256 agreementId,uint256 nonce,uint256 deadline)");
+    bytes32 private constant REGISTER_ARBITRATOR_TYPEHASH = keccak256(
+        "RegisterArbitrator(uint256 agreementId,address arbitrator,uint32 feePercentage,uint256 nonce,uint256 deadline)");
+
+    modifier onlyGuardian() {
+        require(msg.sender == _guardian, "You are not the guardian.");
+        _;
+    }
+
+    constructor() SignedActions("EscrowAgent") {}
+
+    // the signed variants act on behalf of the signer, the relayer pays the gas
+    function approveAgreementBySig(uint256 agreementId, uint256 nonce, uint256 deadline, bytes calldata signature)
+            public inStatus(Status.Funded, agreementId) {
+        _checkBeneficiary(agreementId, 
+            _useActionSignature(APPROVE_AGREEMENT_TYPEHASH, agreementId, nonce, deadline, signature));
+        _approveAgreement(agreementId);
+    }
+
+    function rejectAgreementBySig(uint256 agreementId, uint256 nonce, uint256 deadline, bytes calldata signature)
+            public inStatus(Status.Funded, agreementId) {
+        _checkBeneficiary(agreementId, 
+            _useActionSignature(REJECT_AGREEMENT_TYPEHASH, agreementId, nonce, deadline, signature));
+        _rejectAgreement(agreementId);
+    }
+
+    function refundAgreementBySig(uint256 agreementId, uint256 nonce, uint256 deadline, bytes calldata signature)
+            public inStatus(Status.Active, agreementId) {
+        _checkBeneficiary(agreementId, 
+            _useActionSignature(REFUND_AGREEMENT_TYPEHASH, agreementId, nonce, deadline, signature));
+        _refundAgreement(agreementId);
+    }
+
+    function releaseFundsBySig(uint256 agreementId, uint256 nonce, uint256 deadline, bytes calldata signature)
+            public inStatus(Status.Active, agreementId) {
+        address signer = _useActionSignature(RELEASE_FUNDS_TYPEHASH, agreementId, nonce, deadline, signature);
+        _checkDepositorOrBeneficiary(agreementId, signer);
+        _releaseFunds(agreementId, signer);
+    }
+
+    function registerArbitratorBySig(uint256 agreementId, address payable arbitrator, uint32 feePercentage, 
+            uint256 nonce, uint256 deadline, bytes calldata signature) 
+            public checkAddress(arbitrator) inStatus(Status.Disputed, agreementId) {
+        address signer = _useSignature(keccak256(abi.encode(REGISTER_ARBITRATOR_TYPEHASH, agreementId, 
+            arbitrator, feePercentage, nonce, deadline)), nonce, deadline, signature);
+        _checkDepositorOrBeneficiary(agreementId, signer);
+        _registerArbitrator(agreementId, signer, arbitrator, feePercentage);
+    }
+
+    // either party proposes new terms, zero values keep the current ones, a new proposal replaces a pending one,
+    // the beneficiary can ask for more funds, the depositor adds them on acceptance, 
+    // the depositor offering more funds sends them with the proposal, they're returned if it's replaced
+    function proposeAmendment(uint256 agreementId, uint32 deadlineDate, uint96 addedAmount, 
+            string calldata detailsHash) public payable onlyDepositorOrBeneficiary(agreementId) nonReentrant {
+        _checkAmendmentStatus(agreementId);
+        require(deadlineDate != 0 || addedAmount != 0 || bytes(detailsHash).length != 0, "Nothing to amend");
+        require(deadlineDate == 0 || deadlineDate > block.timestamp, "Deadline should be in the future");
+        require(_milestones[agreementId].length == 0 || (deadlineDate == 0 && addedAmount == 0), 
+            "Milestones amount and deadlines are fixed");
+        _returnAmendmentFunds(agreementId);
+        Agreement storage agreement = _escrow[agreementId];
+        if (agreement.token != address(0) && msg.value > 0) {
+            revert WrongToken(agreement.token);
+        }
+        if (addedAmount != 0 && msg.sender == agreement.depositor) {
+            _checkNotPaused();
+            uint96 received = agreement.token == address(0) 
+                ? _receivedValue() : _receiveFunds(agreement.token, msg.sender, addedAmount);
+            require(received == addedAmount, "Added amount doesn't match the funds");
+            _amendmentFunds[agreementId] = received;
+        } else {
+            require(msg.value == 0, "Added amount doesn't match the funds");
+        }
+        _amendments[agreementId].push(Amendment({
+            proposer: msg.sender,
+            addedAmount: addedAmount,
+            deadlineDate: deadlineDate,
+            accepted: false,
+            detailsHash: detailsHash
+        }));
+        emit AmendmentProposed(agreementId, _amendments[agreementId].length, msg.sender, 
+            deadlineDate, addedAmount, detailsHash);
+    }
+
+    // the version must match the pending proposal in case it's replaced meanwhile, 
+    // the depositor sends the added eth or approves the added tokens to this contract first,
+    // the funds of the depositor's proposal are already sent
+    function acceptAmendment(uint256 agreementId, uint256 version) public payable 
+            onlyDepositorOrBeneficiary(agreementId) nonReentrant {
+        _checkAmendmentStatus(agreementId);
+        Amendment[] storage amendments = _amendments[agreementId];
+        require(amendments.length > 0 && !amendments[amendments.length - 1].accepted && 
+            amendments[amendments.length - 1].proposer != msg.sender, 
+            "There is no amendment proposed by the other party.");
+        if (version != amendments.length) {
+            revert WrongAmendment(amendments.length, version);
+        }
+        Amendment storage amendment = amendments[version - 1];
+        Agreement storage agreement = _escrow[agreementId];
+        amendment.accepted = true;
+        if (agreement.token != address(0) && msg.value > 0) {
+            revert WrongToken(agreement.token);
+        }
+        if (amendment.addedAmount != 0 && amendment.proposer == agreement.depositor) {
+            require(msg.value == 0 && _amendmentFunds[agreementId] == amendment.addedAmount, 
+                "Added amount doesn't match the funds");
+            delete _amendmentFunds[agreementId];
+            agreement.amount += amendment.addedAmount;
+            emit FundsAdded(agreementId, msg.sender, amendment.addedAmount, agreement.amount);
+        } else if (amendment.addedAmount != 0) {
+            _checkNotPaused();
+            uint96 received = agreement.token == address(0) 
+                ? _receivedValue() : _receiveFunds(agreement.token, msg.sender, amendment.addedAmount);
+            require(received == amendment.addedAmount, "Added amount doesn't match the funds");
+            agreement.amount += received;
+            emit FundsAdded(agreementId, msg.sender, received, agreement.amount);
+        } else {
+            require(msg.value == 0, "Added amount doesn't match the funds");
+        }
+        if (amendment.deadlineDate != 0) {
+            agreement.deadlineDate = amendment.deadlineDate;
+        }
+        if (bytes(amendment.detailsHash).length != 0) {
+            agreement.detailsHash = amendment.detailsHash;
+        }
+        emit AmendmentAccepted(agreementId, version);
+    }
+
+    // the depositor takes back the funds of the pending proposal as a claim, the proposal can't be accepted then
+    function reclaimAmendmentFunds(uint256 agreementId) public onlyDepositor(agreementId) {
+        require(_amendmentFunds[agreementId] != 0, "Funds are not available");
+        _returnAmendmentFunds(agreementId);
+    }
+
+    // all the proposals in the order of their versions, the accepted ones amended the agreement
+    function getAmendments(uint256 agreementId) external view returns (Amendment[] memory) {
+        return _amendments[agreementId];
+    }
+
+    function getAmendmentFunds(uint256 agreementId) external view returns (uint96) {
+        return _amendmentFunds[agreementId];
+    }
+
+    // withdraws the sender's claim of the agreement to another address, e.g. a wallet that isn't a party
+    function withdrawFundsTo(uint256 agreementId, address payable recipient) public 
+            checkAddress(recipient) nonReentrant {
+        address token = _escrow[agreementId].token;
+        uint96 amount = _withdrawClaim(agreementId, msg.sender);
+        _sendFunds(token, recipient, amount);
+        emit ClaimsWithdrawn(msg.sender, recipient, token, amount);
+    }
+
+    // withdraws all the sender's claims in the token with a single transfer, 
+    // FundsWithdrawn is emitted for every agreement
+    function withdrawAll(address token, address payable recipient) public checkAddress(recipient) nonReentrant {
+        uint256 amount = _claimableBalances[msg.sender][token];
+        require(amount > 0, "Funds are not available");
+        uint256[] storage agreementIds = _claimAgreements[msg.sender];
+        // a withdrawn claim is replaced by the last one, which is already checked
+        for (uint256 i = agreementIds.length; i > 0; i--) {
+            if (_escrow[agreementIds[i - 1]].token == token) {
+                _withdrawClaim(agreementIds[i - 1], msg.sender);
+            }
+        }
+        _sendFunds(token, recipient, amount);
+        emit ClaimsWithdrawn(msg.sender, recipient, token, amount);
+    }
+
+    // the sender's claim of the agreement, zero once it's withdrawn
+    function getWithdrawBalance(uint256 agreementId) external view returns (uint256) {
+        uint96 amount = _claims[agreementId][msg.sender];
+        if (amount == 0 && !_isClaimant(agreementId, msg.sender)) {
+            revert NoBalance(msg.sender, _escrow[agreementId].status);
+        }
+        return amount;
+    }
+
+    // the agreements the party can withdraw from and the claimed amounts
+    function getClaims(address party) external view 
+            returns (uint256[] memory agreementIds, uint256[] memory amounts) {
+        agreementIds = _claimAgreements[party];
+        amounts = new uint256[](agreementIds.length);
+        for (uint256 i = 0; i < agreementIds.length; i++) {
+            amounts[i] = _claims[agreementIds[i]][party];
+        }
+    }
+
+    function getClaimableBalance(address party, address token) external view returns (uint256) {
+        return _claimableBalances[party][token];
+    }
+
+    // the new owner accepts the ownership, the zero address cancels the pending transfer
+    function transferOwnership(address newOwner) public onlyOwner {
+        _pendingOwner = newOwner;
+        emit OwnershipTransferStarted(_owner, newOwner);
+    }
+
+    function acceptOwnership() public {
+        require(msg.sender == _pendingOwner, "You are not the pending owner.");
+        emit OwnershipTransferred(_owner, msg.sender);
+        _owner = msg.sender;
+        delete _pendingOwner;
+    }
+
+    function setPoolManager(address poolManager) public onlyOwner checkAddress(poolManager) {
+        _poolManager = poolManager;
+        emit PoolManagerSet(poolManager);
+    }
+
+    function setGuardian(address guardian) public onlyOwner checkAddress(guardian) {
+        _guardian = guardian;
+        emit GuardianSet(guardian);
+    }
+
+    // the default policy must be within the new bounds, existing agreements keep their policies
+    function setPolicyBounds(Policy calldata defaultPolicy, Policy calldata minPolicy, Policy calldata maxPolicy) 
+            public onlyOwner {
+        EscrowPolicy.check(minPolicy, EscrowPolicy.minimum(), EscrowPolicy.maximum());
+        EscrowPolicy.check(maxPolicy, EscrowPolicy.minimum(), EscrowPolicy.maximum());
+        EscrowPolicy.check(defaultPolicy, minPolicy, maxPolicy);
+        _defaultPolicy = defaultPolicy;
+        _minPolicy = minPolicy;
+        _maxPolicy = maxPolicy;
+        emit PolicyBoundsSet(defaultPolicy, minPolicy, maxPolicy);
+    }
+
+    // halts the new agreements, deposits and disputes, the withdrawals and the open disputes go on
+    function pause() public onlyGuardian {
+        _checkNotPaused();
+        _paused = true;
+        emit Paused(msg.sender);
+    }
+
+    function unpause() public onlyGuardian {
+        require(_paused, "The escrow is not paused.");
+        _paused = false;
+        emit Unpaused(msg.sender);
+    }
+
+    // a queued pool replaces the one queued before and its delay starts over
+    function queueArbitratorPool(address arbitratorPool) public onlyPoolManager checkAddress(arbitratorPool) {
+        _queuedArbitratorPool = arbitratorPool;
+        _queuedPoolDate = uint32(block.timestamp + ARBITRATOR_POOL_DELAY);
+        emit ArbitratorPoolQueued(arbitratorPool, _queuedPoolDate);
+    }
+
+    // the open disputes stay with the pool they requested the arbitrator from, the new disputes use the new one
+    function applyArbitratorPool() public onlyPoolManager {
+        address arbitratorPool = _queuedArbitratorPool;
+        require(arbitratorPool != address(0), "No arbitrator pool is queued.");
+        require(block.timestamp >= _queuedPoolDate, "Too early to apply the arbitrator pool");
+        _arbitratorPool = IArbitratorPool(arbitratorPool);
+        delete _queuedArbitratorPool;
+        delete _queuedPoolDate;
+        emit ArbitratorPoolSet(arbitratorPool);
+    }
+
+    // the guardian vetoes a queued pool too
+    function cancelArbitratorPool() public {
+        require(msg.sender == _poolManager || msg.sender == _guardian, "You are not the pool manager/guardian.");
+        address arbitratorPool = _queuedArbitratorPool;
+        require(arbitratorPool != address(0), "No arbitrator pool is queued.");
+        delete _queuedArbitratorPool;
+        delete _queuedPoolDate;
+        emit ArbitratorPoolCanceled(arbitratorPool);
+    }
+
+    function getGovernance() external view 
+            returns (address owner, address pendingOwner, address poolManager, address guardian) {
+        return (_owner, _pendingOwner, _poolManager, _guardian);
+    }
+
+    // the default policy and its bounds
+    function getPolicyBounds() external view returns (Policy memory, Policy memory, Policy memory) {
+        return (_defaultPolicy, _minPolicy, _maxPolicy);
+    }
+
+    function isPaused() external view returns (bool) {
+        return _paused;
+    }
+
+    // the zero address until the parties request a pool arbitrator
+    function getDisputePool(uint256 agreementId) external view returns (address) {
+        return address(_disputePools[agreementId]);
+    }
+
+    // the zero address if no pool is queued
+    function getQueuedArbitratorPool() external view returns (address arbitratorPool, uint32 applyDate) {
+        return (_queuedArbitratorPool, _queuedPoolDate);
+    }
+
+    function _returnAmendmentFunds(uint256 agreementId) private {
+        uint96 amount = _amendmentFunds[agreementId];
+        if (amount != 0) {
+            delete _amendmentFunds[agreementId];
+            _credit(agreementId, _escrow[agreementId].depositor, amount);
+            emit AmendmentFundsReturned(agreementId, amount);
+        }
+    }
+
+    function _checkAmendmentStatus(uint256 agreementId) private view {
+        Status status = _escrow[agreementId].status;
+        require(status == Status.Funded || status == Status.Active, "The agreement is in a wrong status.");
+    }
+
+    // signer of the actions typed by the agreement id only
+    function _useActionSignature(bytes32 typehash, uint256 agreementId, uint256 nonce, uint256 deadline, 
+            bytes calldata signature) private returns (address) {
+        return _useSignature(keccak256(abi.encode(typehash, agreementId, nonce, deadline)), nonce, deadline, signature);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,335 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+import "./BaseEscrowAgent.sol";
+import "./SignedActions.sol";
+import "./interfaces/IArbitratorPool.sol";
+
+// Storage, events and internal logic of EscrowAgent shared with EscrowAgentExtension,
+// the extension runs in the storage of EscrowAgent, so neither of them declares own state variables
+abstract contract EscrowAgentStorage is BaseEscrowAgent, SignedActions {
+
+    mapping(uint256 => Agreement) internal _escrow;
+    mapping(uint256 => Dispute) internal _disputes;
+    mapping(uint256 => Policy) internal _policies;
+    // policy of the agreements created without one and the bounds of the custom ones
+    Policy internal _defaultPolicy;
+    Policy internal _minPolicy;
+    Policy internal _maxPolicy;
+    IArbitratorPool internal _arbitratorPool;
+    mapping(uint256 => Milestone[]) internal _milestones;
+    // number of released milestones, the next one to release
+    mapping(uint256 => uint256) internal _releasedMilestones;
+    // agreement id => pool arbitrator assignment is requested but not fulfilled yet
+    mapping(uint256 => bool) internal _pendingAssignments;
+    uint256 internal _agreementCounter;
+    // agreement ids of the depositors, beneficiaries and arbitrators, indexed by Party
+    mapping(address => uint256[])[3] internal _partyAgreements;
+    // the last settlement proposal of the agreement
+    mapping(uint256 => Settlement) internal _settlements;
+    // evidence of the parties submitted during the dispute
+    mapping(uint256 => Evidence[]) internal _evidence;
+    // ipfs CID of the arbitrator's ruling rationale
+    mapping(uint256 => string) internal _rulings;
+    // proposed amendments of the agreement terms, the version of an amendment is its index + 1
+    mapping(uint256 => Amendment[]) internal _amendments;
+    // funds the parties can withdraw, credited by the final transitions and the released milestones
+    mapping(uint256 => mapping(address => uint96)) internal _claims;
+    // party => token => sum of the party's claims
+    mapping(address => mapping(address => uint256)) internal _claimableBalances;
+    // agreements with a claim of the party and their positions in the list + 1, withdrawals remove them
+    mapping(address => uint256[]) internal _claimAgreements;
+    mapping(address => mapping(uint256 => uint256)) internal _claimPositions;
+    // the owner sets the policy bounds and the roles, the pending owner accepts the ownership
+    address internal _owner;
+    address internal _pendingOwner;
+    // the pool manager changes the arbitrator pool, the changes are queued
+    address internal _poolManager;
+    // the guardian pauses the new agreements, deposits and disputes
+    address internal _guardian;
+    bool internal _paused;
+    // arbitrator pool replacing the current one from the date
+    address internal _queuedArbitratorPool;
+    uint32 internal _queuedPoolDate;
+    // funds the depositor sent with the pending amendment, added to the agreement on acceptance
+    mapping(uint256 => uint96) internal _amendmentFunds;
+    // pool of the first arbitrator request of the dispute, it calls back and is called back after a pool swap
+    mapping(uint256 => IArbitratorPool) internal _disputePools;
+    // agreement id => arbitrator => the agreement is in the arbitrator's list
+    mapping(uint256 => mapping(address => bool)) internal _listedArbitrators;
+
+    event AgreementCreated(address indexed depositor, address indexed beneficiary, 
+        uint256 indexed agreementId, uint96 amount, uint32 deadlineDate, string detailsHash, address token);
+    event AgreementPolicySet(uint256 indexed agreementId, Policy policy);
+    event AgreementCanceled(uint256 indexed agreementId);
+    event AgreementApproved(uint256 indexed agreementId);
+    event AgreementRejected(uint256 indexed agreementId);
+    event AgreementRefunded(uint256 indexed agreementId);
+    event FundsAdded(uint256 indexed agreementId, address indexed sender, uint96 amount, uint96 totalAmount);
+    event FundsWithdrawn(uint256 indexed agreementId, address indexed recipient, uint96 amount);
+    event ClaimsWithdrawn(address indexed party, address indexed recipient, address indexed token, uint256 amount);
+    event FundsReleased(uint256 indexed agreementId);
+    event MilestoneCreated(uint256 indexed agreementId, uint256 index, uint96 amount, uint32 deadlineDate, string detailsHash);
+    event MilestoneReleased(uint256 indexed agreementId, uint256 index, uint96 amount);
+    event DisputeRaised(uint256 indexed agreementId);
+    event DisputeResolved(uint256 indexed agreementId, uint32 refundPercentage, 
+        uint96 feeAmount, uint96 refundAmount, uint96 releasedAmount);
+    event DisputeUnresolved(uint256 indexed agreementId, uint32 refundPercentage, uint96 refundAmount);
+    event ArbitratorAgreed(uint256 indexed agreementId, address indexed arbitrator, bool agreed);
+    event PoolArbitratorRequested(uint256 indexed agreementId, uint256 requestId);
+    event PoolArbitratorAssigned(uint256 indexed agreementId, address indexed arbitrator);
+    event EvidenceSubmitted(uint256 indexed agreementId, address indexed submitter, uint256 index, 
+        string evidenceHash);
+    event RulingSubmitted(uint256 indexed agreementId, address indexed arbitrator, string rationaleHash);
+    event SettlementProposed(uint256 indexed agreementId, address indexed proposer, uint32 refundPercentage);
+    event SettlementAccepted(uint256 indexed agreementId, uint32 refundPercentage, 
+        uint96 refundAmount, uint96 releasedAmount);
+    event AmendmentProposed(uint256 indexed agreementId, uint256 indexed version, address indexed proposer, 
+        uint32 deadlineDate, uint96 addedAmount, string detailsHash);
+    event AmendmentAccepted(uint256 indexed agreementId, uint256 indexed version);
+    event AmendmentFundsReturned(uint256 indexed agreementId, uint96 amount);
+    event PolicyBoundsSet(Policy defaultPolicy, Policy minPolicy, Policy maxPolicy);
+    event ArbitratorPoolSet(address indexed arbitratorPool);
+    event ArbitratorPoolQueued(address indexed arbitratorPool, uint32 applyDate);
+    event ArbitratorPoolCanceled(address indexed arbitratorPool);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event PoolManagerSet(address indexed poolManager);
+    event GuardianSet(address indexed guardian);
+    event Paused(address indexed guardian);
+    event Unpaused(address indexed guardian);
+
+    modifier onlyOwner() {
+        _checkOwner();
+        _;
+    }
+
+    modifier onlyPoolManager() {
+        require(msg.sender == _poolManager, "You are not the pool manager.");
+        _;
+    }
+
+    modifier whenNotPaused() {
+        _checkNotPaused();
+        _;
+    }
+
+    modifier onlyDepositor(uint256 agreementId) {
+        _checkDepositor(agreementId, msg.sender);
+        _;
+    }
+
+    modifier onlyBeneficiary(uint256 agreementId) {
+        _checkBeneficiary(agreementId, msg.sender);
+        _;
+    }
+
+    modifier onlyDepositorOrBeneficiary(uint256 agreementId) {
+        _checkDepositorOrBeneficiary(agreementId, msg.sender);
+        _;
+    }
+
+    modifier onlyArbitrator(uint256 agreementId) {
+        require(msg.sender == address(_disputes[agreementId].arbitrator) &&
+             _disputes[agreementId].agreed, "You are not the arbitrator.");
+        _;
+    }
+
+    modifier onlyParticipant(uint256 agreementId) {
+        _checkParticipant(agreementId);
+        _;
+    }
+
+    modifier inStatus(Status status, uint256 agreementId) {
+        _checkStatus(status, agreementId);
+        _;
+    }
+
+    function _approveAgreement(uint256 agreementId) internal {
+        _escrow[agreementId].status = Status.Active;
+        emit AgreementApproved(agreementId);
+    }
+
+    function _rejectAgreement(uint256 agreementId) internal {
+        _escrow[agreementId].status = Status.Rejected;
+        _credit(agreementId, _escrow[agreementId].depositor, _escrow[agreementId].amount);
+        emit AgreementRejected(agreementId);
+    }
+
+    function _refundAgreement(uint256 agreementId) internal {
+        _escrow[agreementId].status = Status.Refunded;
+        _credit(agreementId, _escrow[agreementId].depositor, _escrow[agreementId].amount);
+        emit AgreementRefunded(agreementId);
+    }
+
+    function _releaseFunds(uint256 agreementId, address sender) internal {
+        // release funds if there is no dispute
+        Agreement storage agreement = _escrow[agreementId];
+        if (sender == agreement.beneficiary) {
+            uint32 period = _policies[agreementId].releaseFundsAfterDeadline;
+            _requirePeriod(block.timestamp >= agreement.deadlineDate + period, period, RELEASE_FUNDS_AFTER_DEADLINE,
+                "Funds will be released in 3 days after the deadline",
+                "Funds will be released after the deadline and the release period");
+        }
+        agreement.status = Status.Closed;
+        _credit(agreementId, agreement.beneficiary, agreement.amount);
+        emit FundsReleased(agreementId);
+    }
+
+    function _registerArbitrator(uint256 agreementId, address sender, address payable arbitrator, 
+            uint32 feePercentage) internal {
+        // After AGREE_ON_ARBITRATOR_PERIOD arbitrator forcefully assigned from the pool
+        Dispute storage dispute = _disputes[agreementId];
+        if (block.timestamp >= dispute.startDate + _policies[agreementId].agreeOnArbitratorMaxPeriod){
+            _assignArbitrator(agreementId);
+            return;
+        }
+        require(feePercentage >= 0 && feePercentage <= 1000000, 
+            "Fee percent should be between 0 and 1000000");
+        if (sender == _escrow[agreementId].depositor) {
+            if (dispute.arbitrator != arbitrator) {
+                dispute.agreed = false;
+                dispute.arbitrator = arbitrator;
+                dispute.feePercentage = feePercentage;
+                emit ArbitratorAgreed(agreementId, arbitrator, false);
+            }
+        } else {
+            if (dispute.arbitrator != arbitrator || dispute.feePercentage != feePercentage) {
+                revert WrongArbitrator(dispute.arbitrator, arbitrator, dispute.feePercentage, feePercentage);
+            }
+            // depositor set an arbitrator, beneficiary - agrees
+            if (!dispute.agreed) {
+                _addArbitratorAgreement(arbitrator, agreementId);
+            }
+            dispute.agreed = true;
+            emit ArbitratorAgreed(agreementId, arbitrator, true);
+        }
+    }
+
+    function _assignArbitrator(uint256 agreementId) internal {
+        Policy storage policy = _policies[agreementId];
+        Dispute storage dispute = _disputes[agreementId];
+        if (dispute.agreed) {
+            // if arbitrator is agreed on but he/she does nothing in the resolution period - trigger arbitrator assigment from the pool
+            require(block.timestamp >= dispute.startDate + policy.agreeOnArbitratorMaxPeriod + policy.resolveDisputeMaxPeriod, "Too early to assign artibrator from the pool");
+        } else {
+            // if arbitrator is not agreed we need to trigger assigment from the pool
+            require(block.timestamp >= dispute.startDate + policy.agreeOnArbitratorMaxPeriod, "Too early to assign artibrator from the pool");
+        }
+        // a pool arbitrator is reassigned only if he/she does nothing in the resolution period either
+        require(dispute.assignedDate == 0 || 
+            block.timestamp >= dispute.assignedDate + policy.resolveDisputeMaxPeriod, "Too early to assign artibrator from the pool");
+        require(!_pendingAssignments[agreementId], "Arbitrator assignment is pending");
+        IArbitratorPool pool = _disputePools[agreementId];
+        if (address(pool) == address(0)) {
+            pool = _arbitratorPool;
+            require(address(pool) != address(0), "Arbitrator pool is not set");
+            _disputePools[agreementId] = pool;
+        }
+        uint256 requestId = pool.requestArbitrator(agreementId);
+        _pendingAssignments[agreementId] = true;
+        emit PoolArbitratorRequested(agreementId, requestId);
+    }
+
+    // the parties pull the credited funds, so a reverting recipient doesn't block the others
+    function _credit(uint256 agreementId, address party, uint96 amount) internal {
+        if (amount == 0) {
+            return;
+        }
+        if (_claimPositions[party][agreementId] == 0) {
+            _claimAgreements[party].push(agreementId);
+            _claimPositions[party][agreementId] = _claimAgreements[party].length;
+        }
+        _claims[agreementId][party] += amount;
+        _claimableBalances[party][_escrow[agreementId].token] += amount;
+    }
+
+    // the refund, the released funds and the arbitrator fee of a resolved, unresolved or settled dispute
+    function _creditSplit(uint256 agreementId) internal {
+        Dispute storage dispute = _disputes[agreementId];
+        _credit(agreementId, _escrow[agreementId].depositor, dispute.refundAmount);
+        _credit(agreementId, _escrow[agreementId].beneficiary, dispute.releasedAmount);
+        _credit(agreementId, dispute.arbitrator, dispute.feeAmount);
+    }
+
+    // clears the claim of the party, the caller sends the funds
+    function _withdrawClaim(uint256 agreementId, address party) internal returns (uint96 amount) {
+        amount = _claims[agreementId][party];
+        if (amount == 0) {
+            require(!_isClaimant(agreementId, party), "Funds are not available");
+            revert WithdrawProhibited(party, _escrow[agreementId].status);
+        }
+        _claims[agreementId][party] = 0;
+        _claimableBalances[party][_escrow[agreementId].token] -= amount;
+        // the last agreement takes the place of the withdrawn one
+        uint256[] storage agreementIds = _claimAgreements[party];
+        uint256 position = _claimPositions[party][agreementId];
+        uint256 lastId = agreementIds[agreementIds.length - 1];
+        agreementIds[position - 1] = lastId;
+        _claimPositions[party][lastId] = position;
+        agreementIds.pop();
+        delete _claimPositions[party][agreementId];
+        emit FundsWithdrawn(agreementId, party, amount);
+    }
+
+    // whether the status credits the party, the claim may be withdrawn already
+    function _isClaimant(uint256 agreementId, address party) internal view returns (bool) {
+        Agreement storage agreement = _escrow[agreementId];
+        Status status = agreement.status;
+        bool split = status == Status.Resolved || status == Status.Unresolved || status == Status.Settled;
+        if (party == agreement.beneficiary) {
+            return status == Status.Closed || split;
+        } else if (party == agreement.depositor) {
+            return status == Status.Canceled || status == Status.Rejected || status == Status.Refunded || split;
+        }
+        return party == _disputes[agreementId].arbitrator && status == Status.Resolved;
+    }
+
+    // modifiers call these checks to avoid inlining them into every function
+    function _checkDepositor(uint256 agreementId, address sender) internal view {
+        require(sender == address(_escrow[agreementId].depositor), "You are not the depositor.");
+    }
+
+    function _checkBeneficiary(uint256 agreementId, address sender) internal view {
+        require(sender == address(_escrow[agreementId].beneficiary), "You are not the beneficiary.");
+    }
+
+    function _checkDepositorOrBeneficiary(uint256 agreementId, address sender) internal view {
+        Agreement storage agreement = _escrow[agreementId];
+        require(sender == address(agreement.depositor) || sender == address(agreement.beneficiary), 
+            "You are not the depositor/beneficiary.");
+    }
+
+    function _checkParticipant(uint256 agreementId) internal view {
+        Agreement storage agreement = _escrow[agreementId];
+        require(msg.sender == address(agreement.depositor) || msg.sender == address(agreement.beneficiary) ||
+            msg.sender == address(_disputes[agreementId].arbitrator), 
+            "You are not the depositor/beneficiary.");
+    }
+
+    function _checkOwner() internal view {
+        require(msg.sender == _owner, "You are not the owner.");
+    }
+
+    // the withdrawals and the disputes in progress go on while the escrow is paused
+    function _checkNotPaused() internal view {
+        require(!_paused, "The escrow is paused.");
+    }
+
+    function _checkStatus(Status status, uint256 agreementId) internal view {
+        require(_escrow[agreementId].status == status, "The agreement is in a wrong status.");
+    }
+
+    function _addPartyAgreement(Party role, address party, uint256 agreementId) internal {
+        _partyAgreements[uint8(role)][party].push(agreementId);
+    }
+
+    // an arbitrator agreed on and assigned again from the pool lists the agreement once
+    function _addArbitratorAgreement(address arbitrator, uint256 agreementId) internal {
+        if (!_listedArbitrators[agreementId][arbitrator]) {
+            _listedArbitrators[agreementId][arbitrator] = true;
+            _addPartyAgreement(Party.Arbitrator, arbitrator, agreementId);
+        }
+    }
+}
\ No newline at end of file
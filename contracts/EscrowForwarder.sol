@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+// ERC-2771 forwarder of the signed requests to MultisigEscrow, any relayer submits them and pays the gas
+contract EscrowForwarder is ERC2771Forwarder {
+
+    constructor() ERC2771Forwarder("EscrowForwarder") {}
+}
\ No newline at end of file
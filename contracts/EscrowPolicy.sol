@@ -0,0 +1,51 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+import "./interfaces/IEscrowAgent.sol";
+
+// Bounds of the agreement timing and fees, escrow agents and factories
+// narrow them down with their own bounds set by the owner or on deployment
+library EscrowPolicy {
+
+    function minimum() internal pure returns (IEscrowAgent.Policy memory) {
+        return IEscrowAgent.Policy({
+            releaseFundsAfterDeadline: 1 hours,
+            agreeOnArbitratorMaxPeriod: 1 hours,
+            resolveDisputeMaxPeriod: 1 hours,
+            unresolvedDisputeRefundPercentage: 0,
+            defaultArbitratorPercentage: 0,
+            defaultDeadlinePeriod: 1 hours
+        });
+    }
+
+    function maximum() internal pure returns (IEscrowAgent.Policy memory) {
+        return IEscrowAgent.Policy({
+            releaseFundsAfterDeadline: 90 days,
+            agreeOnArbitratorMaxPeriod: 30 days,
+            resolveDisputeMaxPeriod: 30 days,
+            unresolvedDisputeRefundPercentage: 1_000_000,
+            defaultArbitratorPercentage: 1_000_000,
+            defaultDeadlinePeriod: 3 * 365 days
+        });
+    }
+
+    // reverts unless every field of the policy is within the bounds
+    function check(IEscrowAgent.Policy memory policy, IEscrowAgent.Policy memory min, 
+            IEscrowAgent.Policy memory max) internal pure {
+        if (policy.releaseFundsAfterDeadline < min.releaseFundsAfterDeadline || 
+                policy.releaseFundsAfterDeadline > max.releaseFundsAfterDeadline ||
+                policy.agreeOnArbitratorMaxPeriod < min.agreeOnArbitratorMaxPeriod || 
+                policy.agreeOnArbitratorMaxPeriod > max.agreeOnArbitratorMaxPeriod ||
+                policy.resolveDisputeMaxPeriod < min.resolveDisputeMaxPeriod || 
+                policy.resolveDisputeMaxPeriod > max.resolveDisputeMaxPeriod ||
+                policy.unresolvedDisputeRefundPercentage < min.unresolvedDisputeRefundPercentage || 
+                policy.unresolvedDisputeRefundPercentage > max.unresolvedDisputeRefundPercentage ||
+                policy.defaultArbitratorPercentage < min.defaultArbitratorPercentage || 
+                policy.defaultArbitratorPercentage > max.defaultArbitratorPercentage ||
+                policy.defaultDeadlinePeriod < min.defaultDeadlinePeriod || 
+                policy.defaultDeadlinePeriod > max.defaultDeadlinePeriod) {
+            revert IEscrowAgent.WrongPolicy(policy);
+        }
+    }
+}
\ No newline at end of file
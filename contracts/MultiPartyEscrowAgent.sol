@@ -0,0 +1,391 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+
+import "./BaseEscrowAgent.sol";
+import "./EscrowPolicy.sol";
+import "./interfaces/IProtocolFees.sol";
+
+// An eth agreement of several depositors funding their contributions and several beneficiaries holding
+// shares of the funds in the 10_000 base. The refunds are split pro rata to the contributions,
+// the released funds by the shares, every participant withdraws their own part.
+// The beneficiaries approve and refund, the depositors release by a threshold of their votes.
+// The arbitrator is a part of the terms, a dispute without one is split by the policy.
+// Factories create the escrows as EIP-1167 clones of a single implementation.
+// The factory takes its protocol fee from the funds released to the beneficiaries on release or resolution.
+contract MultiPartyEscrowAgent is BaseEscrowAgent, Initializable {
+
+    struct Depositor {
+        address payable account;
+        // funds the depositor puts in the agreement
+        uint96 contribution;
+    }
+
+    struct Beneficiary {
+        address payable account;
+        // share of the released funds in the 10_000 base
+        uint16 share;
+    }
+
+    struct Terms {
+        Depositor[] depositors;
+        Beneficiary[] beneficiaries;
+        // beneficiaries approving or refunding the agreement, zero for all of them
+        uint8 beneficiaryThreshold;
+        // depositors releasing the funds, zero for all of them
+        uint8 depositorThreshold;
+        // end date for result delivery
+        uint32 deadlineDate;
+        // resolves the disputes, zero address leaves them to the policy split
+        address payable arbitrator;
+        // fees for arbitrator
+        uint32 feePercentage;
+        // ipfs CID
+        string detailsHash;
+    }
+
+    // the actions of a side taken by a threshold of votes
+    enum Action {
+        Approve,
+        Refund,
+        Release
+    }
+
+    uint256 public constant MAX_PARTICIPANTS = 20;
+
+    // the factory initializes its clones, the deployer initializes a standalone escrow,
+    // nobody can initialize the implementation of the clones
+    address private immutable _initializer;
+
+    Depositor[] internal _depositors;
+    Beneficiary[] internal _beneficiaries;
+    mapping(address => uint96) internal _contributions;
+    mapping(address => uint16) internal _shares;
+    // funds paid by the depositors so far
+    mapping(address => uint96) internal _deposits;
+    // funds the participants and the arbitrator can withdraw
+    mapping(address => uint96) internal _balances;
+    mapping(Action => mapping(address => bool)) internal _votes;
+    mapping(Action => uint8) internal _voteCounts;
+
+    // sum of the contributions and the funds paid so far
+    uint96 internal _amount;
+    uint96 internal _fundedAmount;
+    uint32 internal _deadlineDate;
+    uint32 internal _startDate;
+    Status internal _status;
+    uint8 internal _beneficiaryThreshold;
+    uint8 internal _depositorThreshold;
+    address payable internal _arbitrator;
+    uint32 internal _feePercentage;
+    uint32 internal _disputeDate;
+    string internal _detailsHash;
+    Policy internal _policy;
+    // protocol fee of the factory in the 10_000 base recorded on creation
+    uint16 internal _protocolFee;
+
+    event AgreementCreated(address indexed creator, uint96 amount, uint32 deadlineDate, string detailsHash);
+    event AgreementCanceled(address indexed depositor);
+    event AgreementApproved();
+    event AgreementRejected(address indexed beneficiary);
+    event AgreementRefunded();
+    event ActionVoted(address indexed voter, Action indexed action, uint8 votes);
+    event FundsAdded(address indexed depositor, uint96 amount, uint96 fundedAmount);
+    event FundsWithdrawn(address indexed recipient, uint96 amount);
+    event FundsReleased();
+    event DisputeRaised(address indexed depositor);
+    event DisputeResolved(uint32 refundPercentage,
+        uint96 feeAmount, uint96 refundAmount, uint96 releasedAmount);
+    event DisputeUnresolved(uint32 refundPercentage, uint96 refundAmount);
+    event ProtocolFeePaid(address indexed treasury, uint96 amount);
+
+    modifier onlyDepositor() {
+        require(_contributions[msg.sender] > 0, "You are not a depositor.");
+        _;
+    }
+
+    modifier onlyBeneficiary() {
+        require(_shares[msg.sender] > 0, "You are not a beneficiary.");
+        _;
+    }
+
+    modifier onlyDepositorOrBeneficiary() {
+        require(_contributions[msg.sender] > 0 || _shares[msg.sender] > 0,
+            "You are not a depositor/beneficiary.");
+        _;
+    }
+
+    modifier onlyArbitrator() {
+        require(msg.sender == _arbitrator && _arbitrator != address(0), "You are not the arbitrator.");
+        _;
+    }
+
+    modifier inStatus(Status status) {
+        require(_status == status, "The agreement is in a wrong status.");
+        _;
+    }
+
+    constructor() {
+        _initializer = msg.sender;
+    }
+
+    // factories pass the caller as the creator, the creator's funds count to its contribution,
+    // the other depositors fund theirs by deposit()
+    function initialize(address creator, Terms calldata terms, Policy calldata policy)
+            external payable initializer {
+        require(msg.sender == _initializer, "You are not the factory.");
+        // standalone escrows are initialized by their deployer and pay no fee
+        if (_initializer.code.length > 0) {
+            _protocolFee = IProtocolFees(_initializer).getFee(address(0));
+        }
+        EscrowPolicy.check(policy, EscrowPolicy.minimum(), EscrowPolicy.maximum());
+        _policy = policy;
+        _setParticipants(terms);
+        require(_contributions[terms.arbitrator] == 0 && _shares[terms.arbitrator] == 0,
+            "The arbitrator is a participant");
+        require(terms.feePercentage <= 1000000, "Fee percent should be between 0 and 1000000");
+        _arbitrator = terms.arbitrator;
+        _feePercentage = terms.feePercentage;
+        _deadlineDate = terms.deadlineDate;
+        _startDate = uint32(block.timestamp);
+        _detailsHash = terms.detailsHash;
+        _status = Status.Funded;
+        emit AgreementCreated(creator, _amount, terms.deadlineDate, terms.detailsHash);
+        if (msg.value > 0) {
+            _deposit(creator, _receivedValue());
+        }
+    }
+
+    function _setParticipants(Terms calldata terms) private {
+        require(terms.depositors.length > 0 && terms.depositors.length <= MAX_PARTICIPANTS &&
+            terms.beneficiaries.length > 0 && terms.beneficiaries.length <= MAX_PARTICIPANTS,
+            "Wrong number of participants");
+        require(terms.depositorThreshold <= terms.depositors.length &&
+            terms.beneficiaryThreshold <= terms.beneficiaries.length, "Threshold exceeds the participants");
+        for (uint256 i = 0; i < terms.depositors.length; i++) {
+            Depositor calldata depositor = terms.depositors[i];
+            _checkNewParticipant(depositor.account);
+            require(depositor.contribution > 0, "Contribution is zero");
+            _contributions[depositor.account] = depositor.contribution;
+            _amount += depositor.contribution;
+            _depositors.push(depositor);
+        }
+        uint256 shares;
+        for (uint256 i = 0; i < terms.beneficiaries.length; i++) {
+            Beneficiary calldata beneficiary = terms.beneficiaries[i];
+            _checkNewParticipant(beneficiary.account);
+            require(beneficiary.share > 0, "Share is zero");
+            _shares[beneficiary.account] = beneficiary.share;
+            shares += beneficiary.share;
+            _beneficiaries.push(beneficiary);
+        }
+        require(shares == 10_000, "Shares should sum up to 10000");
+        _depositorThreshold = terms.depositorThreshold == 0 ? uint8(terms.depositors.length) : terms.depositorThreshold;
+        _beneficiaryThreshold = terms.beneficiaryThreshold == 0
+            ? uint8(terms.beneficiaries.length) : terms.beneficiaryThreshold;
+    }
+
+    function _checkNewParticipant(address account) private view checkAddress(account) {
+        require(_contributions[account] == 0 && _shares[account] == 0, "Duplicate participant");
+    }
+
+    // a depositor pays its contribution at once or in parts
+    function deposit() public payable onlyDepositor inStatus(Status.Funded) {
+        require(msg.value > 0, "Deposit is zero");
+        _deposit(msg.sender, _receivedValue());
+    }
+
+    function _deposit(address depositor, uint96 amount) private {
+        require(_deposits[depositor] + amount <= _contributions[depositor], "Deposit exceeds the contribution");
+        _deposits[depositor] += amount;
+        _fundedAmount += amount;
+        emit FundsAdded(depositor, amount, _fundedAmount);
+    }
+
+    // any depositor backs out before the beneficiaries approve, the deposits are returned
+    function cancelAgreement() public onlyDepositor inStatus(Status.Funded) {
+        _status = Status.Canceled;
+        _returnDeposits();
+        emit AgreementCanceled(msg.sender);
+    }
+
+    // the agreement is active once it's fully funded and the threshold of the beneficiaries approves it
+    function approveAgreement() public onlyBeneficiary inStatus(Status.Funded) {
+        require(_fundedAmount == _amount, "The agreement is not fully funded.");
+        if (_vote(Action.Approve, _beneficiaryThreshold)) {
+            _status = Status.Active;
+            emit AgreementApproved();
+        }
+    }
+
+    // any beneficiary refuses the terms before the agreement is active
+    function rejectAgreement() public onlyBeneficiary inStatus(Status.Funded) {
+        _status = Status.Rejected;
+        _returnDeposits();
+        emit AgreementRejected(msg.sender);
+    }
+
+    function refundAgreement() public onlyBeneficiary inStatus(Status.Active) {
+        if (_vote(Action.Refund, _beneficiaryThreshold)) {
+            _status = Status.Refunded;
+            _returnDeposits();
+            emit AgreementRefunded();
+        }
+    }
+
+    // the threshold of the depositors releases the funds,
+    // any beneficiary claims them after the deadline and the policy period
+    function releaseFunds() public onlyDepositorOrBeneficiary inStatus(Status.Active) {
+        if (_shares[msg.sender] > 0) {
+            _requirePeriod(block.timestamp >= _deadlineDate + _policy.releaseFundsAfterDeadline,
+                _policy.releaseFundsAfterDeadline, RELEASE_FUNDS_AFTER_DEADLINE,
+                "Funds will be released in 3 days after the deadline",
+                "Funds will be released after the deadline and the release period");
+        } else if (!_vote(Action.Release, _depositorThreshold)) {
+            return;
+        }
+        _status = Status.Closed;
+        _distribute(0, _amount);
+        emit FundsReleased();
+    }
+
+    function raiseDispute() public onlyDepositor inStatus(Status.Active) {
+        require(block.timestamp > _deadlineDate, "You cannot raise dispute before the deadline");
+        _status = Status.Disputed;
+        _disputeDate = uint32(block.timestamp);
+        emit DisputeRaised(msg.sender);
+    }
+
+    function resolveDispute(uint32 refundPercentage) public onlyArbitrator inStatus(Status.Disputed) {
+        require(refundPercentage <= 1000000, "Refunded percent should be between 0 and 1000000");
+        uint96 feeAmount = uint96(uint256(_amount) * _feePercentage / 1_000_000);
+        uint96 refundAmount = uint96(uint256(_amount - feeAmount) * refundPercentage / 1_000_000);
+        uint96 releasedAmount = _amount - feeAmount - refundAmount;
+        _status = Status.Resolved;
+        _balances[_arbitrator] += feeAmount;
+        _distribute(refundAmount, releasedAmount);
+        emit DisputeResolved(refundPercentage, feeAmount, refundAmount, releasedAmount);
+    }
+
+    // the participants split the funds by the policy when the arbitrator doesn't resolve the dispute in time
+    function resolveDispute() public onlyDepositorOrBeneficiary inStatus(Status.Disputed) {
+        _requirePeriod(block.timestamp >= _disputeDate + _policy.resolveDisputeMaxPeriod,
+            _policy.resolveDisputeMaxPeriod, RESOLVE_DISPUTE_MAX_PERIOD,
+            "You can resolve dispute yourself in 2 days after the dispute",
+            "You can resolve dispute yourself after the resolution period of the dispute");
+        uint96 refundAmount = uint96(uint256(_amount) * _policy.unresolvedDisputeRefundPercentage / 1_000_000);
+        _status = Status.Unresolved;
+        _distribute(refundAmount, _amount - refundAmount);
+        emit DisputeUnresolved(_policy.unresolvedDisputeRefundPercentage, refundAmount);
+    }
+
+    function withdrawFunds() public payable nonReentrant {
+        uint96 amount = _balances[msg.sender];
+        if (amount == 0) {
+            revert WithdrawProhibited(msg.sender, _status);
+        }
+        _balances[msg.sender] = 0;
+        // the fee is taken on release and arbitration, a dispute nobody resolved is free of it
+        uint96 fee = _shares[msg.sender] > 0 && _status != Status.Unresolved
+            ? uint96(uint256(amount) * _protocolFee / 10_000) : 0;
+        if (fee > 0) {
+            _sendFunds(address(0), payable(_initializer), fee);
+            emit ProtocolFeePaid(_initializer, fee);
+        }
+        _sendFunds(address(0), payable(msg.sender), amount - fee);
+        emit FundsWithdrawn(msg.sender, amount - fee);
+    }
+
+    // counts the vote of the sender, true once the votes reach the threshold
+    function _vote(Action action, uint8 threshold) private returns (bool) {
+        require(!_votes[action][msg.sender], "You have already voted.");
+        _votes[action][msg.sender] = true;
+        uint8 votes = ++_voteCounts[action];
+        emit ActionVoted(msg.sender, action, votes);
+        return votes == threshold;
+    }
+
+    function _returnDeposits() private {
+        for (uint256 i = 0; i < _depositors.length; i++) {
+            _balances[_depositors[i].account] += _deposits[_depositors[i].account];
+        }
+    }
+
+    // credits the refund pro rata to the contributions and the released funds by the shares,
+    // the rounding remainders go to the last depositor and the last beneficiary
+    function _distribute(uint96 refundAmount, uint96 releasedAmount) private {
+        uint96 left = refundAmount;
+        for (uint256 i = 0; i < _depositors.length; i++) {
+            uint96 part = i == _depositors.length - 1
+                ? left : uint96(uint256(refundAmount) * _depositors[i].contribution / _amount);
+            _balances[_depositors[i].account] += part;
+            left -= part;
+        }
+        left = releasedAmount;
+        for (uint256 i = 0; i < _beneficiaries.length; i++) {
+            uint96 part = i == _beneficiaries.length - 1
+                ? left : uint96(uint256(releasedAmount) * _beneficiaries[i].share / 10_000);
+            _balances[_beneficiaries[i].account] += part;
+            left -= part;
+        }
+    }
+
+    // the funds of the sender before the protocol fee
+    function getWithdrawBalance() external view returns (uint256) {
+        if (_balances[msg.sender] == 0) {
+            revert NoBalance(msg.sender, _status);
+        }
+        return _balances[msg.sender];
+    }
+
+    function getAgreementDetails() external view
+            returns (string memory detailsHash, uint256 amount, uint256 fundedAmount,
+                uint256 startDate, uint256 deadlineDate) {
+        return (_detailsHash, _amount, _fundedAmount, _startDate, _deadlineDate);
+    }
+
+    function getAgreementStatus() external view returns (Status) {
+        return _status;
+    }
+
+    function getDepositors() external view returns (Depositor[] memory) {
+        return _depositors;
+    }
+
+    function getBeneficiaries() external view returns (Beneficiary[] memory) {
+        return _beneficiaries;
+    }
+
+    // funds the depositor paid so far
+    function getDeposit(address depositor) external view returns (uint256) {
+        return _deposits[depositor];
+    }
+
+    // the votes needed by the beneficiaries and the depositors
+    function getThresholds() external view returns (uint8 beneficiaryThreshold, uint8 depositorThreshold) {
+        return (_beneficiaryThreshold, _depositorThreshold);
+    }
+
+    function getVotes(Action action) external view returns (uint8) {
+        return _voteCounts[action];
+    }
+
+    function hasVoted(Action action, address participant) external view returns (bool) {
+        return _votes[action][participant];
+    }
+
+    function getArbitrator() external view returns (address arbitrator, uint32 feePercentage) {
+        return (_arbitrator, _feePercentage);
+    }
+
+    function getAgreementPolicy() external view returns (Policy memory) {
+        return _policy;
+    }
+
+    // the factory receiving the fee and the fee in the 10_000 base
+    function getProtocolFee() external view returns (address treasury, uint16 basisPoints) {
+        return (_initializer, _protocolFee);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,75 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/proxy/Clones.sol";
+
+import "./MultiPartyEscrowAgent.sol";
+import "./ProtocolFees.sol";
+
+// Escrows are EIP-1167 clones at CREATE2 addresses of the creator and the number of their escrows,
+// so the address of the next escrow is known before the other depositors fund it.
+// The escrows record the eth rate of the factory fee schedule on creation and pay the fees to the factory.
+contract MultiPartyEscrowFactory is ProtocolFees {
+
+    // policy of the escrows created without one and the bounds of the custom ones
+    IEscrowAgent.Policy internal _defaultPolicy;
+    IEscrowAgent.Policy internal _minPolicy;
+    IEscrowAgent.Policy internal _maxPolicy;
+    address internal immutable _implementation;
+    // number of the escrows created by the creator
+    mapping(address => uint256) internal _escrowCounts;
+
+    event EscrowCreated(address indexed escrow, address indexed creator);
+
+    constructor(
+        IEscrowAgent.Policy memory defaultPolicy,
+        IEscrowAgent.Policy memory minPolicy,
+        IEscrowAgent.Policy memory maxPolicy
+    ) {
+        EscrowPolicy.check(defaultPolicy, minPolicy, maxPolicy);
+        _defaultPolicy = defaultPolicy;
+        _minPolicy = minPolicy;
+        _maxPolicy = maxPolicy;
+        _implementation = address(new MultiPartyEscrowAgent());
+    }
+
+    // the sent funds count to the contribution of the creator
+    function createEscrow(MultiPartyEscrowAgent.Terms calldata terms) public payable returns (address) {
+        return _createEscrow(terms, _defaultPolicy);
+    }
+
+    function createEscrowWithPolicy(MultiPartyEscrowAgent.Terms calldata terms,
+            IEscrowAgent.Policy memory policy) public payable returns (address) {
+        EscrowPolicy.check(policy, _minPolicy, _maxPolicy);
+        return _createEscrow(terms, policy);
+    }
+
+    // address of the next escrow of the creator
+    function predictEscrowAddress(address creator) external view returns (address) {
+        return Clones.predictDeterministicAddress(_implementation, _salt(creator, _escrowCounts[creator]));
+    }
+
+    function getImplementation() external view returns (address) {
+        return _implementation;
+    }
+
+    // the default policy and its bounds
+    function getPolicyBounds() external view
+            returns (IEscrowAgent.Policy memory, IEscrowAgent.Policy memory, IEscrowAgent.Policy memory) {
+        return (_defaultPolicy, _minPolicy, _maxPolicy);
+    }
+
+    function _createEscrow(MultiPartyEscrowAgent.Terms calldata terms, IEscrowAgent.Policy memory policy)
+            private returns (address) {
+        MultiPartyEscrowAgent escrow = MultiPartyEscrowAgent(
+            Clones.cloneDeterministic(_implementation, _salt(msg.sender, _escrowCounts[msg.sender]++)));
+        escrow.initialize{value: msg.value}(msg.sender, terms, policy);
+        emit EscrowCreated(address(escrow), msg.sender);
+        return address(escrow);
+    }
+
+    function _salt(address creator, uint256 index) private pure returns (bytes32) {
+        return keccak256(abi.encode(creator, index));
+    }
+}
\ No newline at end of file
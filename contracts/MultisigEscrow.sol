@@ -5,14 +5,30 @@ pragma solidity ^0.8.26;
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/utils/Multicall.sol";
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
+
+import "./interfaces/IMultisigEscrowRegistry.sol";
+import "./interfaces/IProtocolFees.sol";
+import "./StreamSchedule.sol";
 
 /**
  * @title MultisigEscrow
  * @dev A contract for managing a multisig escrow agreement between a depositor and a beneficiary.
  * The contract allows the depositor to fund the agreement, the beneficiary to approve or reject it.
  * The parties agree on a multisig address for dispute resolution.
+ * The agreement is funded either with eth or with a single ERC20 token.
+ * The parties can act through the trusted forwarder, a relayer pays the gas for their signed requests.
+ * The factory creates the escrows as EIP-1167 clones of a single implementation.
+ * The factory takes the protocol fee from the funds the beneficiary withdraws at the rate recorded on creation.
+ * A streaming agreement vests the funds to the beneficiary until the deadline, see StreamSchedule.
  */
-contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall {
+contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall, ERC2771Context, Initializable {
+
+    using SafeERC20 for IERC20;
 
     struct Agreement {
 
@@ -37,6 +53,38 @@ contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall {
         // depositor approves multisig set by beneficiary
         // note: if needed this could approve arbitrator set by the beneficiary 
         bool approved;
+
+        // 4th slot (20 bytes)
+        // erc20 token, zero address for eth
+        address token;
+    }
+
+    struct Settlement {
+
+        // 1st slot (24 bytes)
+        // depositor or beneficiary, the other party accepts the proposal
+        address proposer;
+        // depositor's share of the funds in the 1_000_000 base
+        uint32 refundPercentage;
+    }
+
+    struct Amendment {
+
+        // 1st slot (32 bytes)
+        // depositor or beneficiary, the other party accepts the amendment
+        address proposer;
+        // funds the depositor adds on acceptance
+        uint96 addedAmount;
+
+        // 2nd slot (5 bytes)
+        // new deadline, zero keeps the deadline
+        uint32 deadlineDate;
+        // the other party accepted the amendment
+        bool accepted;
+
+        // 3rd slot (32 bytes)
+        // new agreement document CID, empty keeps the document
+        string detailsHash;
     }
 
     enum Status {
@@ -82,8 +130,32 @@ contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall {
 
     uint256 public constant RELEASE_FUNDS_AFTER_DEADLINE = 3 days;
 
+    // the factory initializes its clones, nobody can initialize the implementation
+    address private immutable _factory;
+
     Agreement internal _agreement;
 
+    // the last settlement proposal of the agreement
+    Settlement internal _settlement;
+
+    // the amendments of the agreement, the version of an amendment is its index + 1
+    Amendment[] internal _amendments;
+
+    // CID of the agreement document, set by the depositor before the beneficiary approves the terms
+    string internal _detailsHash;
+
+    // protocol fee of the factory in the 10_000 base, kept by the agreements of a reused escrow
+    uint16 internal _protocolFee;
+
+    // vesting of the funds of a streaming agreement
+    StreamSchedule.Stream internal _stream;
+
+    // funds the depositor sent with an amendment, out of the balance of the agreement until it's accepted
+    uint256 internal _amendmentFunds;
+
+    // the multisig the depositor chose on creation, the beneficiary accepted it with the terms
+    bool internal _multisigPreset;
+
     event AgreementCreated(address indexed depositor, address indexed beneficiary, 
         uint96 amount, uint32 deadlineDate);
     event AgreementRevoked();
@@ -97,6 +169,16 @@ contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall {
     event MultisigSet(address indexed multisig);
     event MultisigApproved(address indexed multisig);
     event FundsCompensated(uint256 amount);
+    event SettlementProposed(address indexed proposer, uint32 refundPercentage);
+    event SettlementAccepted(uint32 refundPercentage, uint256 refundAmount, uint256 releasedAmount);
+    event AmendmentProposed(uint256 indexed version, address indexed proposer, 
+        uint32 deadlineDate, uint96 addedAmount, string detailsHash);
+    event AmendmentAccepted(uint256 indexed version);
+    event AmendmentFundsReturned(uint256 amount);
+    event DetailsSet(string detailsHash);
+    event ProtocolFeePaid(address indexed treasury, uint256 amount);
+    event StreamSet(uint32 cliffDate);
+    event StreamFrozen(uint256 vestedAmount);
 
     modifier checkAddress(address user) {
         require(user != address(0), "zero address");
@@ -124,23 +206,39 @@ contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall {
         _;
     }
 
+    // the depositor approves the multisig set by the beneficiary before it compensates the agreement
     modifier onlyMultisig() {
-        require(_msgSender() == _agreement.multisig, "only multisig");
+        require(_msgSender() == _agreement.multisig && _agreement.approved, "only multisig");
         _;
     }
 
     /**
-     * @dev Constructor to initialize the escrow agreement.
+     * @dev Constructor of the implementation, the clones share the trusted forwarder.
+     * @param trustedForwarder The ERC-2771 forwarder of the signed requests, zero address to disable.
+     */
+    constructor(address trustedForwarder) ERC2771Context(trustedForwarder) {
+        _factory = msg.sender;
+    }
+
+    /**
+     * @dev Initialize the escrow agreement of a clone.
+     * @param depositor The address of the depositor who funds the agreement.
      * @param beneficiary The address of the beneficiary who will receive the funds.
      * @param deadlineDate The deadline date for the agreement in Unix timestamp format.
+     * @param token The ERC20 token of the agreement, zero address for eth.
+     * @notice Only the factory can call this function once.
      * @notice The contract must be funded with an initial amount of funds.
      * @notice The contract will emit an AgreementCreated event upon successful creation.
+     * @notice The escrow records the protocol fee of the token, escrows deployed without the factory have none.
      */
-    constructor(
+    function initialize(
         address payable depositor, 
         address payable beneficiary,
-        uint32 deadlineDate
-    ) payable checkAddress(beneficiary) {
+        uint32 deadlineDate,
+        address token
+    ) external payable initializer checkAddress(beneficiary) {
+        require(msg.sender == _factory, "only factory");
+        require(token == address(0) || msg.value == 0, "wrong token");
         _agreement = Agreement({
             depositor: depositor,
             beneficiary: beneficiary,
@@ -148,9 +246,13 @@ contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall {
             startDate: uint32(block.timestamp),
             status: Status.Funded,
             multisig: address(0),
-            approved: false
+            approved: false,
+            token: token
         });
-        emit AgreementCreated(_msgSender(), beneficiary, uint96(msg.value), deadlineDate);
+        if (_factory.code.length > 0) {
+            _protocolFee = IProtocolFees(_factory).getFee(token);
+        }
+        emit AgreementCreated(depositor, beneficiary, SafeCast.toUint96(_balance()), deadlineDate);
     }
 
     /**
@@ -159,9 +261,26 @@ contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall {
      * @notice It emits a FundsAdded event with the amount sent and the total balance of the contract.
      */
     receive() external payable onlyDepositor {
+        require(_agreement.token == address(0), "wrong token");
         require(_agreement.status == Status.Funded || _agreement.status == Status.Active, "wrong status");
         require(msg.value > 0, "no funds sent");
-        emit FundsAdded(uint96(msg.value), address(this).balance);
+        emit FundsAdded(SafeCast.toUint96(msg.value), address(this).balance);
+    }
+
+    /**
+     * @dev Add token funds. The depositor must approve the amount of tokens to this contract first.
+     * @param amount The amount of tokens to transfer from the depositor.
+     * @notice This function allows the depositor to add tokens when the status is Funded or Active.
+     * @notice It emits a FundsAdded event with the amount received and the total token balance of the contract.
+     */
+    function addFunds(uint256 amount) external onlyDepositor nonReentrant {
+        require(_agreement.token != address(0), "wrong token");
+        require(_agreement.status == Status.Funded || _agreement.status == Status.Active, "wrong status");
+        require(amount > 0, "no funds sent");
+        uint256 balance = _balance();
+        IERC20(_agreement.token).safeTransferFrom(_msgSender(), address(this), amount);
+        // fee-on-transfer tokens deliver less than the amount sent
+        emit FundsAdded(SafeCast.toUint96(_balance() - balance), _balance());
     }
 
     /**
@@ -200,6 +319,7 @@ contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall {
      * @notice It changes the status to Refunded and emits an AgreementRefunded event.
      */
     function refundAgreement() external onlyBeneficiary inStatus(Status.Active) {
+        _freezeStream();
         _agreement.status = Status.Refunded;
         emit AgreementRefunded();
     }
@@ -223,16 +343,65 @@ contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall {
     /**
      * @dev Withdraw funds. The beneficiary can call this function to withdraw the funds after the agreement is closed.
      * @notice Only the beneficiary can call this function when the status is Closed.
-     * @notice It transfers the entire balance of the contract to the beneficiary and emits a FundsWithdrawn event.
+     * @notice It transfers the entire balance of the contract less the protocol fee to the beneficiary 
+     * and emits a FundsWithdrawn event.
      */
     function withdrawFunds() external payable onlyBeneficiary inStatus(Status.Closed) nonReentrant {
-        require(address(this).balance > 0, "funds not available");
-        (bool success, ) =  _agreement.beneficiary.call{value: address(this).balance}("");
-        require(success, "transfer failed");
-        emit FundsWithdrawn(_msgSender(), address(this).balance);
+        uint256 amount = _balance();
+        require(amount > 0, "funds not available");
+        // the balance includes the frozen stream
+        if (_stream.frozenDate != 0) {
+            _stream.withdrawnAmount = _stream.frozenAmount;
+        }
+        _payBeneficiary(amount);
         _pause();
     }
 
+    /**
+     * @dev Stream the funds. The depositor streams the funds to the beneficiary before the beneficiary approves
+     * the terms, the funds vest linearly between the start date and the deadline.
+     * @param cliffDate Nothing vests before this date, zero streams from the start date.
+     * @notice Only the depositor can call this function when the status is Funded.
+     * @notice It emits a StreamSet event.
+     */
+    function setStream(uint32 cliffDate) external onlyDepositor inStatus(Status.Funded) {
+        require(cliffDate == 0 || (cliffDate >= _agreement.startDate && cliffDate <= _agreement.deadlineDate),
+            "wrong cliff");
+        _stream.enabled = true;
+        _stream.cliffDate = cliffDate;
+        emit StreamSet(cliffDate);
+    }
+
+    /**
+     * @dev Withdraw the streamed funds. The beneficiary withdraws the vested funds while the agreement is active
+     * and after the stream is frozen.
+     * @notice Only the beneficiary can call this function.
+     * @notice It transfers the vested funds less the protocol fee to the beneficiary and emits a FundsWithdrawn event.
+     */
+    function withdrawStreamed() external payable onlyBeneficiary nonReentrant {
+        uint256 amount = _streamBalance();
+        require(amount > 0, "funds not available");
+        _stream.withdrawnAmount += uint96(amount);
+        _payBeneficiary(amount);
+        if (_agreement.status != Status.Active && _agreement.status != Status.Locked && _balance() == 0) {
+            _pause();
+        }
+    }
+
+    /**
+     * @dev Get the stream of the agreement, disabled if the agreement doesn't stream the funds.
+     */
+    function getStream() external view returns (StreamSchedule.Stream memory) {
+        return _stream;
+    }
+
+    /**
+     * @dev Get the vested funds the beneficiary can withdraw.
+     */
+    function getStreamBalance() external view returns (uint256) {
+        return _streamBalance();
+    }
+
     /**
      * @dev Remove funds. The depositor can call this function to remove the funds if the agreement is revoked, rejected, or refunded.
      * @notice Only the depositor can call this function when the status is Revoked, Rejected, or Refunded.
@@ -241,22 +410,27 @@ contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall {
     function removeFunds() external payable onlyDepositor nonReentrant {
         require(_agreement.status == Status.Revoked || _agreement.status == Status.Rejected || 
             _agreement.status == Status.Refunded, "wrong status");
-        require(address(this).balance > 0, "funds not available");
-        (bool success, ) =  _agreement.depositor.call{value: address(this).balance}("");
-        require(success, "transfer failed");
-        emit FundsWithdrawn(_msgSender(), address(this).balance);
-        _pause();
+        // the vested funds of a refunded stream stay with the beneficiary
+        uint256 amount = _balance() - _streamBalance();
+        require(amount > 0, "funds not available");
+        _sendFunds(_agreement.depositor, amount);
+        emit FundsWithdrawn(_msgSender(), amount);
+        if (_balance() == 0) {
+            _pause();
+        }
     }
 
     /**
-     * @dev Lock funds. The depositor can call this function to lock the funds after the deadline.
+     * @dev Lock funds. The depositor can call this function to lock the funds after the deadline,
+     * a streaming agreement is locked any time before and the lock freezes the stream.
      * @notice Only the depositor can call this function when the status is Active.
      * @notice It changes the status to Locked and emits a FundsLocked event.
      */
     function lockFunds() external onlyDepositor inStatus(Status.Active) {
-        require(block.timestamp >= _agreement.deadlineDate &&
+        require((block.timestamp >= _agreement.deadlineDate || _stream.enabled) &&
             block.timestamp < _agreement.deadlineDate + RELEASE_FUNDS_AFTER_DEADLINE, 
             "can be locked after deadline during 3 days");
+        _freezeStream();
         _agreement.status = Status.Locked;
         emit FundsLocked();
     }
@@ -268,11 +442,30 @@ contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall {
      * @notice It requires that the multisig address is not zero and emits a MultisigSet event.
      * @notice The multisig address must be set before the depositor approves it.
      * @notice It also possible to set an arbitrator address instead of multisig.
+     * @notice A multisig preset on creation can't be replaced.
      */
     function setMultisig(address multisig) external 
             onlyBeneficiary checkAddress(multisig) inStatus(Status.Locked) {
+        require(!_multisigPreset, "multisig preset");
+        _agreement.multisig = multisig;
+        _agreement.approved = false;
+        emit MultisigSet(multisig);
+    }
+
+    /**
+     * @dev Preset the multisig the depositor chose on creation, e.g. a MultisigResolver panel.
+     * @param multisig The address of the multisig contract.
+     * @notice Only the factory can call this function when the status is Funded.
+     * @notice The multisig is approved, the beneficiary accepts it with the terms of the agreement
+     * and can't replace it later.
+     */
+    function presetMultisig(address multisig) external checkAddress(multisig) inStatus(Status.Funded) {
+        require(msg.sender == _factory, "only factory");
         _agreement.multisig = multisig;
+        _agreement.approved = true;
+        _multisigPreset = true;
         emit MultisigSet(multisig);
+        emit MultisigApproved(multisig);
     }
 
     /**
@@ -290,33 +483,208 @@ contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall {
 
     /**
      * @dev Compensate agreement. The multisig can call this function to compensate the agreement.
-     * @param amount The amount to compensate to the depositor.
-     * @notice Only the multisig can call this function when the status is Locked.
+     * @param amount The amount to compensate to the depositor, the vested funds of a stream aren't compensated.
+     * @notice Only the approved multisig can call this function when the status is Locked.
      * @notice It changes the status to Closed and emits a FundsCompensated event.
      */
     function compensateAgreement(uint256 amount) external payable 
             onlyMultisig inStatus(Status.Locked) nonReentrant {
-        require(address(this).balance >= amount, "not enough funds");
+        require(_balance() - _streamBalance() >= amount, "not enough funds");
         _agreement.status = Status.Closed;
         if (amount != 0) {
-            (bool success, ) =  _agreement.depositor.call{value: amount}("");
-            require(success, "transfer failed");
+            _sendFunds(_agreement.depositor, amount);
         }
         emit FundsCompensated(amount);
-        if (address(this).balance == 0) {
+        if (_balance() == 0) {
             _pause();
         }
     }
     
+    /**
+     * @dev Get the funds the multisig can compensate, the vested funds of a stream aren't compensated.
+     */
+    function getCompensableAmount() external view returns (uint256) {
+        return _balance() - _streamBalance();
+    }
+
+    /**
+     * @dev Propose a settlement. Either party can propose the split of the funds without a multisig,
+     * the other party accepts it or counter-proposes.
+     * @param refundPercentage The depositor's share of the funds in the 1_000_000 base.
+     * @notice Only the depositor or beneficiary can call this function when the status is Active or Locked.
+     * @notice It replaces the previous proposal and emits a SettlementProposed event.
+     */
+    function proposeSettlement(uint32 refundPercentage) external onlyDepositorOrBeneficiary {
+        _checkSettlementStatus();
+        require(refundPercentage <= 1_000_000, "wrong percentage");
+        _settlement = Settlement({proposer: _msgSender(), refundPercentage: refundPercentage});
+        emit SettlementProposed(_msgSender(), refundPercentage);
+    }
+
+    /**
+     * @dev Accept the settlement proposed by the other party.
+     * @param refundPercentage The proposed percentage, it must match in case the proposal is replaced meanwhile.
+     * @notice Only the depositor or beneficiary can call this function when the status is Active or Locked.
+     * @notice It sends the refund to the depositor, changes the status to Closed and emits a SettlementAccepted event.
+     * @notice The beneficiary withdraws the rest of the funds, the split applies to the funds a stream didn't vest.
+     */
+    function acceptSettlement(uint32 refundPercentage) external onlyDepositorOrBeneficiary nonReentrant {
+        _checkSettlementStatus();
+        require(_settlement.proposer != address(0) && _settlement.proposer != _msgSender(), "no settlement");
+        require(_settlement.refundPercentage == refundPercentage, "wrong settlement");
+        _freezeStream();
+        uint256 balance = _balance() - _streamBalance();
+        uint256 refundAmount = balance * refundPercentage / 1_000_000;
+        _agreement.status = Status.Closed;
+        if (refundAmount != 0) {
+            _sendFunds(_agreement.depositor, refundAmount);
+        }
+        emit SettlementAccepted(refundPercentage, refundAmount, balance - refundAmount);
+        if (_balance() == 0) {
+            _pause();
+        }
+    }
+
+    /**
+     * @dev Get the last settlement proposal, the proposer is zero address if there is none.
+     */
+    function getSettlement() external view returns (Settlement memory) {
+        return _settlement;
+    }
+
+    /**
+     * @dev Set the agreement document. The depositor attaches the terms after funding the escrow.
+     * @param detailsHash The CID of the agreement document.
+     * @notice Only the depositor can call this function when the status is Funded, the beneficiary approves the terms.
+     * @notice It replaces the previous document and emits a DetailsSet event, the amendments change it afterwards.
+     */
+    function setDetails(string calldata detailsHash) external onlyDepositor inStatus(Status.Funded) {
+        _detailsHash = detailsHash;
+        emit DetailsSet(detailsHash);
+    }
+
+    /**
+     * @dev Get the CID of the agreement document, empty if there is none.
+     */
+    function getDetailsHash() external view returns (string memory) {
+        return _detailsHash;
+    }
+
+    /**
+     * @dev Propose an amendment of the agreement terms. Zero values keep the current terms.
+     * @param deadlineDate The new deadline date, zero keeps the deadline.
+     * @param addedAmount The funds the depositor adds, with the depositor's proposal or on acceptance.
+     * @param detailsHash The CID of the amended agreement document, empty keeps the document.
+     * @notice Only the depositor or beneficiary can call this function when the status is Funded or Active.
+     * @notice A new proposal replaces a pending one, it emits an AmendmentProposed event with the new version.
+     * @notice The depositor sends the added eth or approves the added tokens to this contract first,
+     * the funds of an earlier proposal are returned.
+     */
+    function proposeAmendment(uint32 deadlineDate, uint96 addedAmount, string calldata detailsHash) external payable
+            onlyDepositorOrBeneficiary nonReentrant {
+        _checkAmendmentStatus();
+        require(deadlineDate != 0 || addedAmount != 0 || bytes(detailsHash).length != 0, "nothing to amend");
+        require(deadlineDate == 0 || deadlineDate > block.timestamp, "wrong deadline");
+        if (addedAmount != 0 && _msgSender() == _agreement.depositor) {
+            _returnAmendmentFunds();
+            _amendmentFunds = _receiveAddedFunds(addedAmount);
+        } else {
+            require(msg.value == 0, "wrong amount");
+        }
+        _amendments.push(Amendment({
+            proposer: _msgSender(),
+            addedAmount: addedAmount,
+            deadlineDate: deadlineDate,
+            accepted: false,
+            detailsHash: detailsHash
+        }));
+        emit AmendmentProposed(_amendments.length, _msgSender(), deadlineDate, addedAmount, detailsHash);
+    }
+
+    /**
+     * @dev Accept the amendment proposed by the other party.
+     * @param version The proposed version, it must match in case the proposal is replaced meanwhile.
+     * @notice Only the depositor or beneficiary can call this function when the status is Funded or Active.
+     * @notice The depositor sends the added eth or approves the added tokens to this contract first,
+     * the funds of the depositor's proposal are already sent.
+     * @notice It emits a FundsAdded event for the added funds and an AmendmentAccepted event.
+     */
+    function acceptAmendment(uint256 version) external payable onlyDepositorOrBeneficiary nonReentrant {
+        _checkAmendmentStatus();
+        require(_amendments.length > 0 && !_amendments[_amendments.length - 1].accepted &&
+            _amendments[_amendments.length - 1].proposer != _msgSender(), "no amendment");
+        require(version == _amendments.length, "wrong amendment");
+        Amendment storage amendment = _amendments[version - 1];
+        amendment.accepted = true;
+        if (amendment.addedAmount != 0 && amendment.proposer == _agreement.depositor) {
+            require(msg.value == 0 && _amendmentFunds == amendment.addedAmount, "wrong amount");
+            _amendmentFunds = 0;
+        } else {
+            _receiveAddedFunds(amendment.addedAmount);
+        }
+        if (amendment.addedAmount != 0) {
+            emit FundsAdded(amendment.addedAmount, _balance());
+        }
+        if (amendment.deadlineDate != 0) {
+            _agreement.deadlineDate = amendment.deadlineDate;
+        }
+        if (bytes(amendment.detailsHash).length != 0) {
+            _detailsHash = amendment.detailsHash;
+        }
+        emit AmendmentAccepted(version);
+    }
+
+    /**
+     * @dev Reclaim the funds of the depositor's proposal the beneficiary didn't accept.
+     * @notice Only the depositor can call this function, the proposal can't be accepted then.
+     * @notice It emits an AmendmentFundsReturned event.
+     */
+    function reclaimAmendmentFunds() external onlyDepositor nonReentrant {
+        require(_amendmentFunds != 0, "funds not available");
+        _returnAmendmentFunds();
+    }
+
+    /**
+     * @dev Get the funds of the depositor's proposal, zero once they're added or returned.
+     */
+    function getAmendmentFunds() external view returns (uint256) {
+        return _amendmentFunds;
+    }
+
+    /**
+     * @dev Get the amendments in the order of their versions, the accepted ones amended the agreement.
+     */
+    function getAmendments() external view returns (Amendment[] memory) {
+        return _amendments;
+    }
+
+    /**
+     * @dev Get the protocol fee the beneficiary pays on withdrawal.
+     * @return treasury The factory receiving the fee.
+     * @return basisPoints The fee in the 10_000 base.
+     */
+    function getProtocolFee() external view returns (address treasury, uint16 basisPoints) {
+        return (_factory, _protocolFee);
+    }
+
     /**
      * @dev Get agreement details. This function returns the details of the agreement.
-     * @return The balance of the contract, start date, deadline date, status, multisig address, and approval status.
+     * @return The balance of the contract, start date, deadline date, status, depositor, beneficiary, 
+     * multisig address, approval status and token address.
      * @notice Only the depositor or beneficiary can call this function.
      */
     function getAgreementDetails() external view 
-            onlyDepositorOrBeneficiary returns (uint256, uint256, uint256, Status, address, address, address, bool) {
-        return (address(this).balance, _agreement.startDate, _agreement.deadlineDate, 
-            _agreement.status, _agreement.depositor, _agreement.beneficiary, _agreement.multisig, _agreement.approved);
+            onlyDepositorOrBeneficiary returns (uint256, uint256, uint256, Status, address, address, address, bool, address) {
+        return (_balance(), _agreement.startDate, _agreement.deadlineDate, 
+            _agreement.status, _agreement.depositor, _agreement.beneficiary, _agreement.multisig, _agreement.approved,
+            _agreement.token);
+    }
+
+    /**
+     * @dev Check whether the multisig was preset on creation, the beneficiary can't replace it then.
+     */
+    function isMultisigPreset() external view returns (bool) {
+        return _multisigPreset;
     }
 
     /**
@@ -339,7 +707,7 @@ contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall {
                 _agreement.status == Status.Refunded ||
                 _agreement.status == Status.Closed,
             "must be in final state");
-        require (address(this).balance == 0, "withdraw funds to pause");
+        require (_balance() == 0, "withdraw funds to pause");
         _pause();
     }
 
@@ -347,19 +715,138 @@ contract MultisigEscrow is ReentrancyGuard, Pausable, Multicall {
      * @dev Create a new agreement. This function allows the depositor to create a new agreement and reuse current contract after it was paused.
      * @param beneficiary The address of the beneficiary who will receive the funds.
      * @param deadlineDate The deadline date for the agreement in Unix timestamp format.
-     * @notice Only the depositor can call this function when the contract is paused.
+     * @notice Only the depositor can call this function when the contract is paused, it unpauses the contract.
+     * @notice The token of the agreement stays the same, token funds are added with addFunds afterwards.
      * @notice It emits an AgreementCreated event.
      */
     function createAgreement(
         address payable beneficiary,
         uint32 deadlineDate
     ) external payable onlyDepositor whenPaused checkAddress(beneficiary) {
+        require(_agreement.token == address(0) || msg.value == 0, "wrong token");
         _agreement.beneficiary = beneficiary;
         _agreement.deadlineDate = deadlineDate;
         _agreement.startDate = uint32(block.timestamp);
         _agreement.status = Status.Funded;
         _agreement.multisig = address(0);
         _agreement.approved = false;
-        emit AgreementCreated(_msgSender(), beneficiary, uint96(msg.value), deadlineDate);
+        delete _multisigPreset;
+        delete _settlement;
+        delete _amendments;
+        delete _amendmentFunds;
+        delete _detailsHash;
+        delete _stream;
+        // the withdrawals of the new agreement pause the escrow again
+        _unpause();
+        // escrows deployed without the factory have no registry
+        if (_factory.code.length > 0) {
+            IMultisigEscrowRegistry(_factory).registerBeneficiary(beneficiary);
+        }
+        emit AgreementCreated(_msgSender(), beneficiary, SafeCast.toUint96(_balance()), deadlineDate);
+    }
+
+    function _checkAmendmentStatus() private view {
+        require(_agreement.status == Status.Funded || _agreement.status == Status.Active, "wrong status");
+    }
+
+    function _checkSettlementStatus() private view {
+        require(_agreement.status == Status.Active || _agreement.status == Status.Locked, "wrong status");
+    }
+
+    /**
+     * @dev Pay the funds less the protocol fee to the beneficiary.
+     */
+    function _payBeneficiary(uint256 amount) private {
+        uint256 fee = amount * _protocolFee / 10_000;
+        if (fee != 0) {
+            _sendFunds(payable(_factory), fee);
+            emit ProtocolFeePaid(_factory, fee);
+        }
+        _sendFunds(_agreement.beneficiary, amount - fee);
+        emit FundsWithdrawn(_msgSender(), amount - fee);
+    }
+
+    /**
+     * @dev Stop the vesting of a streaming agreement, the vested funds stay with the beneficiary.
+     */
+    function _freezeStream() private {
+        if (_stream.enabled && _stream.frozenDate == 0) {
+            StreamSchedule.freeze(_stream, _balance(), _agreement.startDate, _agreement.deadlineDate);
+            emit StreamFrozen(_stream.frozenAmount);
+        }
+    }
+
+    /**
+     * @dev Get the vested funds of the stream the beneficiary didn't withdraw, the released funds are withdrawn at once.
+     */
+    function _streamBalance() private view returns (uint256) {
+        if (_agreement.status != Status.Active && _stream.frozenDate == 0) {
+            return 0;
+        }
+        return StreamSchedule.balance(_stream, _balance(), _agreement.startDate, _agreement.deadlineDate);
+    }
+
+    /**
+     * @dev Receive the added eth or tokens of an amendment, eth is sent with the call.
+     */
+    function _receiveAddedFunds(uint256 amount) private returns (uint256) {
+        if (_agreement.token == address(0)) {
+            require(msg.value == amount, "wrong amount");
+        } else {
+            require(msg.value == 0, "wrong token");
+            if (amount != 0) {
+                uint256 balance = _balance();
+                IERC20(_agreement.token).safeTransferFrom(_msgSender(), address(this), amount);
+                require(_balance() - balance == amount, "wrong amount");
+            }
+        }
+        return amount;
+    }
+
+    /**
+     * @dev Return the funds of the depositor's proposal to the depositor.
+     */
+    function _returnAmendmentFunds() private {
+        uint256 amount = _amendmentFunds;
+        if (amount != 0) {
+            _amendmentFunds = 0;
+            _sendFunds(_agreement.depositor, amount);
+            emit AmendmentFundsReturned(amount);
+        }
+    }
+
+    /**
+     * @dev Get the balance of the agreement in eth or in the agreement token, 
+     * without the funds of a pending amendment.
+     */
+    function _balance() internal view returns (uint256) {
+        if (_agreement.token == address(0)) {
+            return address(this).balance - _amendmentFunds;
+        }
+        return IERC20(_agreement.token).balanceOf(address(this)) - _amendmentFunds;
+    }
+
+    /**
+     * @dev Send eth or tokens to the recipient.
+     */
+    function _sendFunds(address payable recipient, uint256 amount) internal {
+        if (_agreement.token == address(0)) {
+            (bool success, ) = recipient.call{value: amount}("");
+            require(success, "transfer failed");
+        } else {
+            IERC20(_agreement.token).safeTransfer(recipient, amount);
+        }
+    }
+
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
+    function _contextSuffixLength() internal view override(Context, ERC2771Context) returns (uint256) {
+        return ERC2771Context._contextSuffixLength();
     }
-} 
\ No newline at end of file
+}
\ No newline at end of file
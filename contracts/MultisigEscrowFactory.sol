@@ -2,30 +2,168 @@
 
 pragma solidity ^0.8.26;
 
+import "@openzeppelin/contracts/proxy/Clones.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
 import "./MultisigEscrow.sol";
+import "./MultisigResolver.sol";
+import "./ProtocolFees.sol";
+import "./interfaces/IMultisigEscrowRegistry.sol";
+
+/**
+ * @title MultisigEscrowFactory
+ * @dev Creates the escrows as EIP-1167 clones of a single implementation.
+ * The clones are at CREATE2 addresses of the depositor and the number of their escrows,
+ * so the address of the next escrow is known before funding it.
+ * The factory keeps the registry of the escrows of both parties.
+ * The escrows record the rate of their token on creation and pay the protocol fees to the factory.
+ * The factory creates the MultisigResolver panels resolving the disputes of its escrows.
+ */
+contract MultisigEscrowFactory is IMultisigEscrowRegistry, ProtocolFees {
 
-contract MultisigEscrowFactory {
+    using SafeERC20 for IERC20;
     
     event EscrowCreated(address indexed escrow, address indexed depositor, address indexed beneficiary);
+    event BeneficiaryRegistered(address indexed escrow, address indexed beneficiary);
+    event ResolverCreated(address indexed resolver, address indexed escrow);
+
+    // ERC-2771 forwarder trusted by the created escrows, zero address if there is none
+    address private immutable _trustedForwarder;
+
+    // implementation of the escrow clones
+    address private immutable _implementation;
+
+    // implementation of the resolver clones
+    address private immutable _resolverImplementation;
 
     // Mapping from depositor address to array of their escrow contracts
     mapping(address => address[]) private _depositorContracts;
 
+    // Mapping from beneficiary address to array of the escrow contracts they are or were the beneficiary of
+    mapping(address => address[]) private _beneficiaryContracts;
+    mapping(address => mapping(address => bool)) private _isBeneficiaryContract;
+
+    // escrows created by the factory
+    mapping(address => bool) private _escrows;
+
+    constructor(address trustedForwarder) {
+        _trustedForwarder = trustedForwarder;
+        _implementation = address(new MultisigEscrow(trustedForwarder));
+        _resolverImplementation = address(new MultisigResolver());
+    }
+
     function createEscrow(address payable beneficiary, uint32 deadlineDate) public payable returns (address) {
-        MultisigEscrow escrow = new MultisigEscrow{value: msg.value}(
+        MultisigEscrow escrow = _cloneEscrow();
+        escrow.initialize{value: msg.value}(
             payable(msg.sender),
             beneficiary,
-            deadlineDate
+            deadlineDate,
+            address(0)
         );
-        address escrowAddress = address(escrow);
-        
-        // Store the contract address in the mapping
+        return _registerEscrow(address(escrow), beneficiary);
+    }
+
+    /**
+     * @dev Create an escrow funded with ERC20 tokens
+     * @param beneficiary The address of the beneficiary
+     * @param deadlineDate The deadline date in Unix timestamp format
+     * @param token The ERC20 token address
+     * @param amount The amount of tokens, must be approved to the factory first
+     * @return The escrow contract address
+     */
+    function createTokenEscrow(address payable beneficiary, uint32 deadlineDate, 
+            address token, uint256 amount) public returns (address) {
+        require(token != address(0), "zero address");
+        MultisigEscrow escrow = _cloneEscrow();
+        // tokens go straight from the depositor to the escrow, before it records the funded amount
+        IERC20(token).safeTransferFrom(msg.sender, address(escrow), amount);
+        escrow.initialize(
+            payable(msg.sender),
+            beneficiary,
+            deadlineDate,
+            token
+        );
+        return _registerEscrow(address(escrow), beneficiary);
+    }
+
+    /**
+     * @dev Create an escrow with the resolver panel of its dispute, the panel is the approved multisig of the escrow
+     * @param beneficiary The address of the beneficiary
+     * @param deadlineDate The deadline date in Unix timestamp format
+     * @param token The ERC20 token address, zero address for eth
+     * @param amount The amount of tokens, must be approved to the factory first, eth escrows take the sent eth
+     * @param panel The signers, the threshold, the resolution period and the fallback refund percentage
+     * @return escrowAddress The escrow contract address
+     * @return resolverAddress The resolver contract address
+     */
+    function createEscrowWithResolver(address payable beneficiary, uint32 deadlineDate, address token, 
+            uint256 amount, MultisigResolver.Panel calldata panel) public payable 
+            returns (address escrowAddress, address resolverAddress) {
+        require(token == address(0) || msg.value == 0, "wrong token");
+        escrowAddress = token == address(0) 
+            ? createEscrow(beneficiary, deadlineDate) 
+            : createTokenEscrow(beneficiary, deadlineDate, token, amount);
+        resolverAddress = _createResolver(escrowAddress, panel);
+        MultisigEscrow(payable(escrowAddress)).presetMultisig(resolverAddress);
+    }
+
+    /**
+     * @dev Create a resolver panel for an escrow of the factory
+     * @param escrow The address of the escrow contract
+     * @param panel The signers, the threshold, the resolution period and the fallback refund percentage
+     * @return The resolver contract address
+     * @notice The beneficiary sets the resolver as the multisig of the locked escrow and the depositor approves it.
+     */
+    function createResolver(address escrow, MultisigResolver.Panel calldata panel) public returns (address) {
+        require(_escrows[escrow], "only escrow");
+        return _createResolver(escrow, panel);
+    }
+
+    function _createResolver(address escrow, MultisigResolver.Panel calldata panel) private returns (address) {
+        MultisigResolver resolver = MultisigResolver(Clones.clone(_resolverImplementation));
+        resolver.initialize(escrow, panel);
+        emit ResolverCreated(address(resolver), escrow);
+        return address(resolver);
+    }
+
+    function _cloneEscrow() private returns (MultisigEscrow) {
+        bytes32 salt = _salt(msg.sender, _depositorContracts[msg.sender].length);
+        return MultisigEscrow(payable(Clones.cloneDeterministic(_implementation, salt)));
+    }
+
+    function _salt(address depositor, uint256 index) private pure returns (bytes32) {
+        return keccak256(abi.encode(depositor, index));
+    }
+
+    function _registerEscrow(address escrowAddress, address beneficiary) private returns (address) {
+        // Store the contract address in the mappings
         _depositorContracts[msg.sender].push(escrowAddress);
+        _escrows[escrowAddress] = true;
+        _addBeneficiaryContract(escrowAddress, beneficiary);
         
         emit EscrowCreated(escrowAddress, msg.sender, beneficiary);
         return escrowAddress;
     }
 
+    function _addBeneficiaryContract(address escrowAddress, address beneficiary) private {
+        if (!_isBeneficiaryContract[beneficiary][escrowAddress]) {
+            _isBeneficiaryContract[beneficiary][escrowAddress] = true;
+            _beneficiaryContracts[beneficiary].push(escrowAddress);
+        }
+    }
+
+    /**
+     * @dev Register the new beneficiary of a reused escrow
+     * @param beneficiary The address of the beneficiary
+     * @notice Only the escrows created by the factory can call this function.
+     */
+    function registerBeneficiary(address beneficiary) external {
+        require(_escrows[msg.sender], "only escrow");
+        _addBeneficiaryContract(msg.sender, beneficiary);
+        emit BeneficiaryRegistered(msg.sender, beneficiary);
+    }
+
     /**
      * @dev Get all escrow contracts created by a specific depositor
      * @param depositor The address of the depositor
@@ -35,6 +173,82 @@ contract MultisigEscrowFactory {
         return _depositorContracts[depositor];
     }
 
+    /**
+     * @dev Get all escrow contracts a specific address is or was the beneficiary of
+     * @param beneficiary The address of the beneficiary
+     * @return Array of escrow contract addresses
+     */
+    function getBeneficiaryContracts(address beneficiary) external view returns (address[] memory) {
+        return _beneficiaryContracts[beneficiary];
+    }
+
+    /**
+     * @dev Get a page of the escrow contracts of a party, oldest first
+     * @param party The address of the depositor or the beneficiary
+     * @param asBeneficiary Whether to list the escrows of the party as the beneficiary or as the depositor
+     * @param statuses Bitmask of 1 << status of the current agreements to list, 0 for any status
+     * @param cursor Position in the escrows of the party to start from
+     * @param limit Maximum number of the listed escrows
+     * @return escrows The escrow contract addresses
+     * @return nextCursor The cursor of the next page, 0 once all the escrows are listed
+     */
+    function getEscrowsOf(address party, bool asBeneficiary, uint256 statuses, uint256 cursor, uint256 limit) 
+            external view returns (address[] memory escrows, uint256 nextCursor) {
+        address[] storage all = asBeneficiary ? _beneficiaryContracts[party] : _depositorContracts[party];
+        address[] memory found = new address[](limit);
+        uint256 count;
+        for (; cursor < all.length && count < limit; cursor++) {
+            MultisigEscrow.Status status = MultisigEscrow(payable(all[cursor])).getAgreementStatus();
+            if (statuses == 0 || statuses & (1 << uint8(status)) != 0) {
+                found[count++] = all[cursor];
+            }
+        }
+        escrows = new address[](count);
+        for (uint256 i = 0; i < count; i++) {
+            escrows[i] = found[i];
+        }
+        nextCursor = cursor < all.length ? cursor : 0;
+    }
+
+    /**
+     * @dev Check whether the factory created an escrow
+     * @param escrow The address of the escrow contract
+     */
+    function isEscrow(address escrow) external view returns (bool) {
+        return _escrows[escrow];
+    }
+
+    /**
+     * @dev Predict the address of the next escrow of a depositor
+     * @param depositor The address of the depositor
+     * @return The address of the escrow created by the next createEscrow or createTokenEscrow call of the depositor
+     */
+    function predictEscrowAddress(address depositor) external view returns (address) {
+        return Clones.predictDeterministicAddress(_implementation,
+            _salt(depositor, _depositorContracts[depositor].length));
+    }
+
+    /**
+     * @dev Get the implementation of the escrow clones
+     */
+    function getImplementation() external view returns (address) {
+        return _implementation;
+    }
+
+    /**
+     * @dev Get the implementation of the resolver clones
+     */
+    function getResolverImplementation() external view returns (address) {
+        return _resolverImplementation;
+    }
+
+    /**
+     * @dev Get the forwarder trusted by the created escrows
+     */
+    function getTrustedForwarder() external view returns (address) {
+        return _trustedForwarder;
+    }
+
     /**
      * @dev Get the number of escrow contracts created by a specific depositor
      * @param depositor The address of the depositor
@@ -43,4 +257,13 @@ contract MultisigEscrowFactory {
     function getDepositorContractCount(address depositor) external view returns (uint256) {
         return _depositorContracts[depositor].length;
     }
-} 
\ No newline at end of file
+
+    /**
+     * @dev Get the number of escrow contracts a specific address is or was the beneficiary of
+     * @param beneficiary The address of the beneficiary
+     * @return Number of contracts
+     */
+    function getBeneficiaryContractCount(address beneficiary) external view returns (uint256) {
+        return _beneficiaryContracts[beneficiary].length;
+    }
+}
\ No newline at end of file
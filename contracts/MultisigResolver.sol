@@ -0,0 +1,180 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+
+import "./MultisigEscrow.sol";
+
+/**
+ * @title MultisigResolver
+ * @dev A panel of N signers resolving the dispute of a MultisigEscrow, the multisig of the escrow.
+ * The signers submit the compensation of the depositor, the first amount submitted by M signers
+ * compensates the agreement. The panel resolves the dispute within the resolution period,
+ * after that anyone splits the funds by the fallback refund percentage of the panel.
+ * The factory creates the resolvers as EIP-1167 clones of a single implementation.
+ */
+contract MultisigResolver is Initializable {
+
+    struct Panel {
+        // the signers of the panel, without duplicates
+        address[] signers;
+        // number of the signers submitting the same amount to compensate the agreement
+        uint8 threshold;
+        // the panel resolves the dispute in the period after it's started
+        uint32 resolutionPeriod;
+        // depositor's share of the funds in the 1_000_000 base if the panel stalls
+        uint32 fallbackRefundPercentage;
+    }
+
+    struct Vote {
+        uint256 amount;
+        bool submitted;
+    }
+
+    uint256 public constant MAX_SIGNERS = 20;
+
+    // the factory initializes its clones, nobody can initialize the implementation
+    address private immutable _factory;
+
+    MultisigEscrow internal _escrow;
+
+    Panel internal _panel;
+
+    mapping(address => bool) internal _isSigner;
+
+    // the last amount submitted by the signer
+    mapping(address => Vote) internal _votes;
+
+    // the dispute is started by the first submission or by anyone once the escrow is locked
+    uint32 internal _startDate;
+
+    bool internal _resolved;
+
+    event PanelSet(address indexed escrow, address[] signers, uint8 threshold,
+        uint32 resolutionPeriod, uint32 fallbackRefundPercentage);
+    event ResolutionStarted(uint32 deadlineDate);
+    event CompensationSubmitted(address indexed signer, uint256 amount, uint256 approvals);
+    event CompensationResolved(uint256 amount);
+    event FallbackResolved(uint256 amount);
+
+    modifier onlySigner() {
+        require(_isSigner[msg.sender], "only signer");
+        _;
+    }
+
+    modifier unresolved() {
+        require(!_resolved, "already resolved");
+        _;
+    }
+
+    constructor() {
+        _factory = msg.sender;
+    }
+
+    /**
+     * @dev Initialize the panel of a clone.
+     * @param escrow The escrow the resolver is the multisig of.
+     * @param panel The signers, the threshold, the resolution period and the fallback refund percentage.
+     * @notice Only the factory can call this function once.
+     */
+    function initialize(address escrow, Panel calldata panel) external initializer {
+        require(msg.sender == _factory, "only factory");
+        require(escrow != address(0), "zero address");
+        require(panel.signers.length <= MAX_SIGNERS, "too many signers");
+        require(panel.threshold > 0 && panel.threshold <= panel.signers.length, "wrong threshold");
+        require(panel.resolutionPeriod > 0, "wrong resolution period");
+        require(panel.fallbackRefundPercentage <= 1_000_000, "wrong refund percentage");
+        for (uint256 i = 0; i < panel.signers.length; i++) {
+            address signer = panel.signers[i];
+            require(signer != address(0) && !_isSigner[signer], "wrong signer");
+            _isSigner[signer] = true;
+        }
+        _escrow = MultisigEscrow(payable(escrow));
+        _panel = panel;
+        emit PanelSet(escrow, panel.signers, panel.threshold, panel.resolutionPeriod, panel.fallbackRefundPercentage);
+    }
+
+    /**
+     * @dev Start the resolution period of the locked escrow.
+     * @notice Anyone can call this function once, so the fallback is available if the panel never acts.
+     */
+    function startResolution() public unresolved {
+        require(_startDate == 0, "already started");
+        require(_escrow.getAgreementStatus() == MultisigEscrow.Status.Locked, "wrong status");
+        _startDate = uint32(block.timestamp);
+        emit ResolutionStarted(_startDate + _panel.resolutionPeriod);
+    }
+
+    /**
+     * @dev Submit or co-sign the compensation of the depositor, a new amount replaces the signer's last one.
+     * @param amount The amount to compensate to the depositor, the rest of the funds goes to the beneficiary.
+     * @notice Only the signers can call this function until the resolution deadline.
+     * @notice The amount submitted by the threshold of the signers compensates the agreement.
+     */
+    function submitCompensation(uint256 amount) external onlySigner unresolved {
+        if (_startDate == 0) {
+            startResolution();
+        }
+        require(block.timestamp < _startDate + _panel.resolutionPeriod, "resolution period is over");
+        _votes[msg.sender] = Vote({amount: amount, submitted: true});
+        uint256 approvals = getApprovals(amount);
+        emit CompensationSubmitted(msg.sender, amount, approvals);
+        if (approvals >= _panel.threshold) {
+            _compensate(amount);
+            emit CompensationResolved(amount);
+        }
+    }
+
+    /**
+     * @dev Split the funds by the fallback refund percentage if the panel didn't resolve the dispute in time.
+     * @notice Anyone can call this function after the resolution deadline.
+     */
+    function resolveStalled() external unresolved {
+        require(_startDate != 0 && block.timestamp >= _startDate + _panel.resolutionPeriod,
+            "resolution period is not over");
+        uint256 amount = _escrow.getCompensableAmount() * _panel.fallbackRefundPercentage / 1_000_000;
+        _compensate(amount);
+        emit FallbackResolved(amount);
+    }
+
+    /**
+     * @dev Get the number of the signers whose last submission is the amount.
+     */
+    function getApprovals(uint256 amount) public view returns (uint256 approvals) {
+        address[] storage signers = _panel.signers;
+        for (uint256 i = 0; i < signers.length; i++) {
+            Vote storage vote = _votes[signers[i]];
+            if (vote.submitted && vote.amount == amount) {
+                approvals++;
+            }
+        }
+    }
+
+    function getEscrow() external view returns (address) {
+        return address(_escrow);
+    }
+
+    function getPanel() external view returns (Panel memory) {
+        return _panel;
+    }
+
+    function getVote(address signer) external view returns (Vote memory) {
+        return _votes[signer];
+    }
+
+    /**
+     * @dev Get the state of the resolution.
+     * @return startDate The start of the resolution period, zero until it's started.
+     * @return deadlineDate The end of the resolution period, zero until it's started.
+     * @return resolved Whether the agreement is compensated.
+     */
+    function getResolution() external view returns (uint32 startDate, uint32 deadlineDate, bool resolved) {
+        return (_startDate, _startDate == 0 ? 0 : _startDate + _panel.resolutionPeriod, _resolved);
+    }
+
+    function _compensate(uint256 amount) private {
+        _resolved = true;
+        _escrow.compensateAgreement(amount);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,161 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+
+import "./interfaces/IProtocolFees.sol";
+
+/**
+ * @title ProtocolFees
+ * @dev Fee schedule of an escrow factory, the factory is the treasury its escrows pay the fees to.
+ * The owner schedules the default rate and the rates of the tokens FEE_CHANGE_DELAY ahead,
+ * an escrow records the rate on creation and keeps it, so nobody changes the fee of an existing escrow.
+ * The escrows take the fee from the funds released to the beneficiary, never from the refunds.
+ */
+abstract contract ProtocolFees is IProtocolFees {
+
+    using SafeERC20 for IERC20;
+
+    struct FeeSchedule {
+        FeeRate current;
+        // replaces the current rate on its effective date
+        FeeRate scheduled;
+    }
+
+    uint16 public constant MAX_FEE_BASIS_POINTS = 500;
+    uint32 public constant FEE_CHANGE_DELAY = 7 days;
+
+    address internal immutable _owner;
+
+    FeeSchedule internal _defaultFee;
+    // token => its own rate, zero address for eth
+    mapping(address => FeeSchedule) internal _tokenFees;
+
+    modifier onlyOwner() {
+        require(msg.sender == _owner, "only owner");
+        _;
+    }
+
+    constructor() {
+        _owner = msg.sender;
+        _defaultFee.current.isSet = true;
+    }
+
+    /**
+     * @dev Escrows pay the eth fees to the factory.
+     */
+    receive() external payable {}
+
+    /**
+     * @dev Schedule the rate of the tokens without their own rate.
+     * @param basisPoints The fee in the 10_000 base, at most MAX_FEE_BASIS_POINTS.
+     * @notice Only the owner can call this function, the rate replaces a scheduled one.
+     */
+    function scheduleDefaultFee(uint16 basisPoints) external onlyOwner {
+        uint32 effectiveDate = _schedule(_defaultFee, basisPoints, true);
+        emit DefaultFeeScheduled(basisPoints, effectiveDate);
+    }
+
+    /**
+     * @dev Schedule the own rate of a token.
+     * @param token The ERC20 token, zero address for eth.
+     * @param basisPoints The fee in the 10_000 base, at most MAX_FEE_BASIS_POINTS.
+     * @notice Only the owner can call this function, the rate replaces a scheduled one.
+     */
+    function scheduleTokenFee(address token, uint16 basisPoints) external onlyOwner {
+        uint32 effectiveDate = _schedule(_tokenFees[token], basisPoints, true);
+        emit TokenFeeScheduled(token, basisPoints, true, effectiveDate);
+    }
+
+    /**
+     * @dev Schedule the removal of the own rate of a token, the default rate applies afterwards.
+     * @param token The ERC20 token, zero address for eth.
+     * @notice Only the owner can call this function.
+     */
+    function scheduleTokenFeeRemoval(address token) external onlyOwner {
+        uint32 effectiveDate = _schedule(_tokenFees[token], 0, false);
+        emit TokenFeeScheduled(token, 0, false, effectiveDate);
+    }
+
+    /**
+     * @dev Withdraw the accrued fees.
+     * @param token The ERC20 token, zero address for eth.
+     * @param recipient The address receiving the fees.
+     * @param amount The amount of the fees.
+     * @notice Only the owner can call this function.
+     */
+    function withdrawFees(address token, address payable recipient, uint256 amount) external onlyOwner {
+        require(recipient != address(0), "zero address");
+        if (token == address(0)) {
+            (bool success, ) = recipient.call{value: amount}("");
+            require(success, "transfer failed");
+        } else {
+            IERC20(token).safeTransfer(recipient, amount);
+        }
+        emit FeesWithdrawn(token, recipient, amount);
+    }
+
+    /**
+     * @dev Get the rate of the escrows created now.
+     * @param token The ERC20 token, zero address for eth.
+     */
+    function getFee(address token) public view returns (uint16) {
+        FeeRate memory rate = _effectiveRate(_tokenFees[token]);
+        return rate.isSet ? rate.basisPoints : _effectiveRate(_defaultFee).basisPoints;
+    }
+
+    /**
+     * @dev Get the rate in effect and the scheduled one of the tokens without their own rate,
+     * the scheduled rate has zero effective date if there is none.
+     */
+    function getDefaultFeeSchedule() external view returns (FeeRate memory current, FeeRate memory scheduled) {
+        return _rates(_defaultFee);
+    }
+
+    /**
+     * @dev Get the own rate in effect and the scheduled one of a token.
+     * @param token The ERC20 token, zero address for eth.
+     */
+    function getTokenFeeSchedule(address token) external view
+            returns (FeeRate memory current, FeeRate memory scheduled) {
+        return _rates(_tokenFees[token]);
+    }
+
+    /**
+     * @dev Get the fees accrued and not withdrawn yet.
+     * @param token The ERC20 token, zero address for eth.
+     */
+    function getAccruedFees(address token) external view returns (uint256) {
+        return token == address(0) ? address(this).balance : IERC20(token).balanceOf(address(this));
+    }
+
+    function getOwner() external view returns (address) {
+        return _owner;
+    }
+
+    function _schedule(FeeSchedule storage schedule, uint16 basisPoints, bool isSet) private returns (uint32) {
+        require(basisPoints <= MAX_FEE_BASIS_POINTS, "fee above the cap");
+        uint32 effectiveDate = uint32(block.timestamp) + FEE_CHANGE_DELAY;
+        schedule.current = _effectiveRate(schedule);
+        schedule.scheduled = FeeRate({basisPoints: basisPoints, isSet: isSet, effectiveDate: effectiveDate});
+        return effectiveDate;
+    }
+
+    // a due scheduled rate is current until the next schedule stores it
+    function _effectiveRate(FeeSchedule storage schedule) private view returns (FeeRate memory) {
+        if (schedule.scheduled.effectiveDate != 0 && block.timestamp >= schedule.scheduled.effectiveDate) {
+            return schedule.scheduled;
+        }
+        return schedule.current;
+    }
+
+    function _rates(FeeSchedule storage schedule) private view returns (FeeRate memory, FeeRate memory) {
+        FeeRate memory current = _effectiveRate(schedule);
+        if (current.effectiveDate == schedule.scheduled.effectiveDate) {
+            return (current, FeeRate({basisPoints: 0, isSet: false, effectiveDate: 0}));
+        }
+        return (current, schedule.scheduled);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,40 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+import "./interfaces/IRandomnessCoordinator.sol";
+
+// Requests random words from a pluggable coordinator, the random word arrives in a later transaction
+// so the caller of the request can't choose it
+abstract contract RandomnessConsumer is IRandomnessConsumer {
+
+    IRandomnessCoordinator internal _randomnessCoordinator;
+
+    // randomness is fulfilled by someone else than the coordinator
+    error OnlyCoordinator(address sender, address coordinator);
+
+    event RandomnessCoordinatorSet(address indexed coordinator);
+
+    function rawFulfillRandomness(uint256 requestId, uint256 randomness) external {
+        if (msg.sender != address(_randomnessCoordinator)) {
+            revert OnlyCoordinator(msg.sender, address(_randomnessCoordinator));
+        }
+        _fulfillRandomness(requestId, randomness);
+    }
+
+    function getRandomnessCoordinator() public view returns (address) {
+        return address(_randomnessCoordinator);
+    }
+
+    function _setRandomnessCoordinator(address coordinator) internal {
+        _randomnessCoordinator = IRandomnessCoordinator(coordinator);
+        emit RandomnessCoordinatorSet(coordinator);
+    }
+
+    function _requestRandomness() internal returns (uint256) {
+        require(address(_randomnessCoordinator) != address(0), "Randomness coordinator is not set");
+        return _randomnessCoordinator.requestRandomness();
+    }
+
+    function _fulfillRandomness(uint256 requestId, uint256 randomness) internal virtual;
+}
\ No newline at end of file
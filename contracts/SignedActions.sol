@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
+
+// EIP-712 signed actions of the parties, any relayer can submit them and pay the gas
+abstract contract SignedActions is Nonces {
+
+    bytes32 private constant DOMAIN_TYPEHASH = 
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    // domain of the contract name and version "1"
+    bytes32 private immutable _nameHash;
+
+    // the signed action is submitted after its deadline
+    error ExpiredSignature(uint256 deadline);
+
+    constructor(string memory name) {
+        _nameHash = keccak256(bytes(name));
+    }
+
+    // returns the signer of the struct, the caller checks the signer is allowed to act
+    function _useSignature(bytes32 structHash, uint256 nonce, uint256 deadline, bytes calldata signature) 
+            internal returns (address signer) {
+        if (block.timestamp > deadline) {
+            revert ExpiredSignature(deadline);
+        }
+        signer = ECDSA.recover(MessageHashUtils.toTypedDataHash(DOMAIN_SEPARATOR(), structHash), signature);
+        // a nonce is used once, so the relayer can't replay the action
+        _useCheckedNonce(signer, nonce);
+    }
+
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return keccak256(abi.encode(DOMAIN_TYPEHASH, _nameHash, keccak256("1"), block.chainid, address(this)));
+    }
+}
\ No newline at end of file
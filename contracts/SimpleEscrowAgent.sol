@@ -2,16 +2,54 @@
 
 pragma solidity ^0.8.26;
 
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+
 import "./BaseEscrowAgent.sol";
+import "./EscrowPolicy.sol";
+import "./RandomnessConsumer.sol";
+import "./SignedActions.sol";
+import "./StreamSchedule.sol";
+import "./interfaces/IProtocolFees.sol";
 
+// Factories create the escrows as EIP-1167 clones of a single implementation.
+// The factory takes its protocol fee from the funds released to the beneficiary on release or resolution.
+// A streaming agreement vests the funds to the beneficiary until the deadline, see StreamSchedule.
 // TODO:
-// - send predefined set of arbitrators
 // - add upgradability
-contract SimpleEscrowAgent is BaseEscrowAgent {
+contract SimpleEscrowAgent is BaseEscrowAgent, RandomnessConsumer, SignedActions, Initializable {
+
+    bytes32 private constant APPROVE_AGREEMENT_TYPEHASH = keccak256("ApproveAgreement(uint256 nonce,uint256 deadline)");
+    bytes32 private constant REJECT_AGREEMENT_TYPEHASH = keccak256("RejectAgreement(uint256 nonce,uint256 deadline)");
+    bytes32 private constant REFUND_AGREEMENT_TYPEHASH = keccak256("RefundAgreement(uint256 nonce,uint256 deadline)");
+    bytes32 private constant RELEASE_FUNDS_TYPEHASH = keccak256("ReleaseFunds(uint256 nonce,uint256 deadline)");
+    bytes32 private constant REGISTER_ARBITRATOR_TYPEHASH = keccak256(
+        "RegisterArbitrator(address arbitrator,uint32 feePercentage,uint256 nonce,uint256 deadline)");
+
+    // the factory initializes its clones, the deployer initializes a standalone escrow,
+    // nobody can initialize the implementation of the clones
+    address private immutable _initializer;
 
     Agreement internal _agreement;
     Dispute internal _dispute;
+    Policy internal _policy;
     address[] internal _arbitratorsPool;
+    // randomness request of the pool arbitrator assignment, zero if nothing is pending
+    uint256 internal _arbitratorRequest;
+    bool internal _assignmentPending;
+    // the last settlement proposal
+    Settlement internal _settlement;
+    // evidence of the parties submitted during the dispute
+    Evidence[] internal _evidence;
+    // ipfs CID of the arbitrator's ruling rationale
+    string internal _ruling;
+    // proposed amendments of the agreement terms, the version of an amendment is its index + 1
+    Amendment[] internal _amendments;
+    // protocol fee of the factory in the 10_000 base recorded on creation
+    uint16 internal _protocolFee;
+    // vesting of the funds of a streaming agreement
+    StreamSchedule.Stream internal _stream;
+    // funds the depositor sent with an amendment, added to the agreement on acceptance
+    uint96 internal _amendmentFunds;
 
     event AgreementCreated(address indexed depositor, address indexed beneficiary, 
         uint96 amount, uint32 deadlineDate, string detailsHash);
@@ -27,7 +65,19 @@ contract SimpleEscrowAgent is BaseEscrowAgent {
         uint96 feeAmount, uint96 refundAmount, uint96 releasedAmount);
     event DisputeUnresolved(uint32 refundPercentage, uint96 refundAmount);
     event ArbitratorAgreed(address indexed arbitrator, bool agreed);
+    event PoolArbitratorRequested(uint256 requestId);
     event PoolArbitratorAssigned(address indexed arbitrator);
+    event EvidenceSubmitted(address indexed submitter, uint256 index, string evidenceHash);
+    event RulingSubmitted(address indexed arbitrator, string rationaleHash);
+    event AmendmentProposed(uint256 indexed version, address indexed proposer, 
+        uint32 deadlineDate, uint96 addedAmount, string detailsHash);
+    event AmendmentAccepted(uint256 indexed version);
+    event AmendmentFundsReturned(uint96 amount);
+    event SettlementProposed(address indexed proposer, uint32 refundPercentage);
+    event SettlementAccepted(uint32 refundPercentage, uint96 refundAmount, uint96 releasedAmount);
+    event ProtocolFeePaid(address indexed treasury, uint96 amount);
+    event StreamSet(uint32 cliffDate);
+    event StreamFrozen(uint96 vestedAmount);
 
     modifier onlyDepositor() {
         require(msg.sender == address(_agreement.depositor), "You are not the depositor.");
@@ -35,13 +85,12 @@ contract SimpleEscrowAgent is BaseEscrowAgent {
     }
 
     modifier onlyBeneficiary() {
-        require(msg.sender == address(_agreement.beneficiary), "You are not the beneficiary.");
+        _checkBeneficiary(msg.sender);
         _;
     }
 
     modifier onlyDepositorOrBeneficiary() {
-        require(msg.sender == address(_agreement.depositor) || 
-            msg.sender == address(_agreement.beneficiary), "You are not the depositor/beneficiary.");
+        _checkDepositorOrBeneficiary(msg.sender);
         _;
     }
 
@@ -56,28 +105,63 @@ contract SimpleEscrowAgent is BaseEscrowAgent {
         _;
     }
 
-    constructor(
+    constructor() SignedActions("SimpleEscrowAgent") {
+        _initializer = msg.sender;
+    }
+
+    // factories pass the caller as the depositor, their arbitrators pool and randomness coordinator,
+    // the beneficiary accepts the policy on approval
+    function initialize(
+        address payable depositor,
+        address payable beneficiary,
+        string memory detailsHash,
+        uint32 deadlineDate,
+        address[] memory arbitratorsPool,
+        address randomnessCoordinator,
+        Policy memory policy
+    ) external payable initializer {
+        require(msg.sender == _initializer, "You are not the factory.");
+        // standalone escrows are initialized by their deployer and pay no fee
+        if (_initializer.code.length > 0) {
+            _protocolFee = IProtocolFees(_initializer).getFee(address(0));
+        }
+        _initialize(depositor, beneficiary, detailsHash, deadlineDate, arbitratorsPool, randomnessCoordinator, policy);
+    }
+
+    function _initialize(
+        address payable depositor,
         address payable beneficiary,
         string memory detailsHash,
-        uint32 deadlineDate
-    ) payable checkAddress(beneficiary) {
+        uint32 deadlineDate,
+        address[] memory arbitratorsPool,
+        address randomnessCoordinator,
+        Policy memory policy
+    ) private checkAddress(depositor) checkAddress(beneficiary) {
+        EscrowPolicy.check(policy, EscrowPolicy.minimum(), EscrowPolicy.maximum());
+        _policy = policy;
+        _arbitratorsPool = arbitratorsPool;
+        if (randomnessCoordinator != address(0)) {
+            _setRandomnessCoordinator(randomnessCoordinator);
+        }
         _agreement = Agreement({
-            depositor: payable(msg.sender),
+            depositor: depositor,
             beneficiary: beneficiary,
-            amount: uint96(msg.value),
+            amount: _receivedValue(),
             deadlineDate: deadlineDate,
             startDate: uint32(block.timestamp),
             status: Status.Funded,
+            token: address(0),
             detailsHash: detailsHash
         });
-        emit AgreementCreated(msg.sender, beneficiary, uint96(msg.value), deadlineDate, detailsHash);
+        emit AgreementCreated(depositor, beneficiary, _agreement.amount, deadlineDate, detailsHash);
     }
 
     receive() external payable {
         require(msg.sender == address(_agreement.depositor), "Only depositor can add funds");
         require(_agreement.status == Status.Funded, "Agreement must be in Funded state");
-        _agreement.amount += uint96(msg.value);
-        emit FundsAdded(uint96(msg.value), _agreement.amount);
+        uint96 received = _receivedValue();
+        _agreement.amount += received;
+        emit FundsAdded(received, _agreement.amount);
     }
 
     function cancelAgreement() public onlyDepositor inStatus(Status.Funded) {
@@ -86,35 +170,102 @@ contract SimpleEscrowAgent is BaseEscrowAgent {
     }
 
     function approveAgreement() public onlyBeneficiary inStatus(Status.Funded) {
+        _approveAgreement();
+    }
+
+    function rejectAgreement() public onlyBeneficiary inStatus(Status.Funded) {
+        _rejectAgreement();
+    }
+
+    // the depositor streams the funds before the beneficiary approves the terms,
+    // nothing vests before the cliff date, zero streams from the start date
+    function setStream(uint32 cliffDate) public onlyDepositor inStatus(Status.Funded) {
+        require(cliffDate == 0 || (cliffDate >= _agreement.startDate && cliffDate <= _agreement.deadlineDate), 
+            "Cliff should be between the start date and the deadline");
+        _stream.enabled = true;
+        _stream.cliffDate = cliffDate;
+        emit StreamSet(cliffDate);
+    }
+
+    function refundAgreement() public onlyBeneficiary inStatus(Status.Active) {
+        _refundAgreement();
+    }
+
+    function releaseFunds() public onlyDepositorOrBeneficiary inStatus(Status.Active) {
+        _releaseFunds(msg.sender);
+    }
+
+    // the signed variants act on behalf of the signer, the relayer pays the gas
+    function approveAgreementBySig(uint256 nonce, uint256 deadline, bytes calldata signature) 
+            public inStatus(Status.Funded) {
+        _checkBeneficiary(_useActionSignature(APPROVE_AGREEMENT_TYPEHASH, nonce, deadline, signature));
+        _approveAgreement();
+    }
+
+    function rejectAgreementBySig(uint256 nonce, uint256 deadline, bytes calldata signature) 
+            public inStatus(Status.Funded) {
+        _checkBeneficiary(_useActionSignature(REJECT_AGREEMENT_TYPEHASH, nonce, deadline, signature));
+        _rejectAgreement();
+    }
+
+    function refundAgreementBySig(uint256 nonce, uint256 deadline, bytes calldata signature) 
+            public inStatus(Status.Active) {
+        _checkBeneficiary(_useActionSignature(REFUND_AGREEMENT_TYPEHASH, nonce, deadline, signature));
+        _refundAgreement();
+    }
+
+    function releaseFundsBySig(uint256 nonce, uint256 deadline, bytes calldata signature) 
+            public inStatus(Status.Active) {
+        address signer = _useActionSignature(RELEASE_FUNDS_TYPEHASH, nonce, deadline, signature);
+        _checkDepositorOrBeneficiary(signer);
+        _releaseFunds(signer);
+    }
+
+    function registerArbitratorBySig(address payable arbitrator, uint32 feePercentage, 
+            uint256 nonce, uint256 deadline, bytes calldata signature) 
+            public checkAddress(arbitrator) inStatus(Status.Disputed) {
+        address signer = _useSignature(keccak256(abi.encode(REGISTER_ARBITRATOR_TYPEHASH, 
+            arbitrator, feePercentage, nonce, deadline)), nonce, deadline, signature);
+        _checkDepositorOrBeneficiary(signer);
+        _registerArbitrator(signer, arbitrator, feePercentage);
+    }
+
+    function _approveAgreement() private {
         _agreement.status = Status.Active;
         emit AgreementApproved();
     }
 
-    function rejectAgreement() public onlyBeneficiary inStatus(Status.Funded) {
+    function _rejectAgreement() private {
         _agreement.status = Status.Rejected;
         emit AgreementRejected();
     }
 
-    function refundAgreement() public onlyBeneficiary inStatus(Status.Active) {
+    function _refundAgreement() private {
+        _freezeStream();
         _agreement.status = Status.Refunded;
         emit AgreementRefunded();
     }
 
-    function releaseFunds() public onlyDepositorOrBeneficiary inStatus(Status.Active) {
-        if (msg.sender == _agreement.beneficiary) {
-            require(block.timestamp >= _agreement.deadlineDate + RELEASE_FUNDS_AFTER_DEADLINE, 
-                "Funds will be released in 3 days after the deadline");
+    function _releaseFunds(address sender) private {
+        if (sender == _agreement.beneficiary) {
+            _requirePeriod(block.timestamp >= _agreement.deadlineDate + _policy.releaseFundsAfterDeadline, 
+                _policy.releaseFundsAfterDeadline, RELEASE_FUNDS_AFTER_DEADLINE,
+                "Funds will be released in 3 days after the deadline",
+                "Funds will be released after the deadline and the release period");
         }
         _agreement.status = Status.Closed;
         emit FundsReleased();
     }
 
+    // a streaming agreement is disputed any time, the dispute freezes the stream
     function raiseDispute() public onlyDepositor inStatus(Status.Active) {
-        require(block.timestamp > _agreement.deadlineDate, "You cannot raise dispute before the deadline");
+        require(block.timestamp > _agreement.deadlineDate || _stream.enabled, 
+            "You cannot raise dispute before the deadline");
+        _freezeStream();
         _agreement.status = Status.Disputed;
         _dispute = Dispute({
             arbitrator: payable(0),
-            feePercentage: DEFAULT_ARBITRATOR_PERCENTAGE,
+            feePercentage: _policy.defaultArbitratorPercentage,
             feeAmount: 0,
             agreed: false,
             startDate: uint32(block.timestamp),
@@ -127,13 +278,17 @@ contract SimpleEscrowAgent is BaseEscrowAgent {
 
     function registerArbitrator(address payable arbitrator, uint32 feePercentage) public 
             onlyDepositorOrBeneficiary checkAddress(arbitrator) inStatus(Status.Disputed) {
-        if (block.timestamp >= _dispute.startDate + AGREE_ON_ARBITRATOR_MAX_PERIOD) {
-            assignArbitrator();
+        _registerArbitrator(msg.sender, arbitrator, feePercentage);
+    }
+
+    function _registerArbitrator(address sender, address payable arbitrator, uint32 feePercentage) private {
+        if (block.timestamp >= _dispute.startDate + _policy.agreeOnArbitratorMaxPeriod) {
+            _assignArbitrator();
             return;
         }
         require(feePercentage >= 0 && feePercentage <= 1000000, 
             "Fee percent should be between 0 and 1000000");
-        if (msg.sender == address(_agreement.depositor)) {
+        if (sender == address(_agreement.depositor)) {
             if (_dispute.arbitrator != arbitrator) {
                 _dispute.agreed = false;
                 _dispute.arbitrator = arbitrator;
@@ -152,30 +307,65 @@ contract SimpleEscrowAgent is BaseEscrowAgent {
     }
 
     function assignArbitrator() public onlyDepositorOrBeneficiary inStatus(Status.Disputed) {
+        _assignArbitrator();
+    }
+
+    function _assignArbitrator() private {
         if (_dispute.agreed) {
-            require(block.timestamp >= _dispute.startDate + AGREE_ON_ARBITRATOR_MAX_PERIOD + RESOLVE_DISPUTE_MAX_PERIOD, 
+            require(block.timestamp >= _dispute.startDate + _policy.agreeOnArbitratorMaxPeriod + _policy.resolveDisputeMaxPeriod, 
                 "Too early to assign arbitrator from the pool");
         } else {
-            require(block.timestamp >= _dispute.startDate + AGREE_ON_ARBITRATOR_MAX_PERIOD, 
+            require(block.timestamp >= _dispute.startDate + _policy.agreeOnArbitratorMaxPeriod, 
                 "Too early to assign arbitrator from the pool");
         }
-        uint randomIndex = uint256(keccak256(abi.encodePacked(block.timestamp, block.prevrandao, msg.sender))) % _arbitratorsPool.length;
-        _dispute.arbitrator = payable(_arbitratorsPool[randomIndex]);
+        require(_dispute.assignedDate == 0 || block.timestamp >= _dispute.assignedDate + _policy.resolveDisputeMaxPeriod, 
+            "Too early to assign arbitrator from the pool");
+        require(!_assignmentPending, "Arbitrator assignment is pending");
+        require(_arbitratorsPool.length > 0, "Arbitrators pool is empty");
+        // the arbitrator is picked when the coordinator fulfills the request
+        _arbitratorRequest = _requestRandomness();
+        _assignmentPending = true;
+        emit PoolArbitratorRequested(_arbitratorRequest);
+    }
+
+    function _fulfillRandomness(uint256 requestId, uint256 randomness) internal override {
+        require(_assignmentPending && requestId == _arbitratorRequest, "Unknown randomness request");
+        _assignmentPending = false;
+        // the dispute could be resolved while waiting for the coordinator
+        if (_agreement.status != Status.Disputed) {
+            return;
+        }
+        address arbitrator = _arbitratorsPool[randomness % _arbitratorsPool.length];
+        _dispute.arbitrator = payable(arbitrator);
         _dispute.agreed = true;
         _dispute.assignedDate = uint32(block.timestamp);
-        emit PoolArbitratorAssigned(_arbitratorsPool[randomIndex]);
+        emit PoolArbitratorAssigned(arbitrator);
     }
 
     function resolveDispute() public onlyDepositorOrBeneficiary inStatus(Status.Disputed) {
-        require(_dispute.assignedDate != 0 && block.timestamp >= _dispute.assignedDate + RESOLVE_DISPUTE_MAX_PERIOD, 
-            "You can resolve dispute yourself in 2 days after the pool arbitrator assignment date");
-        _dispute.refundAmount = uint96(_agreement.amount * UNRESOLVED_DISPUTE_REFUND_PERCENTAGE / 1_000_000);
+        _requirePeriod(_dispute.assignedDate != 0 && block.timestamp >= _dispute.assignedDate + _policy.resolveDisputeMaxPeriod, 
+            _policy.resolveDisputeMaxPeriod, RESOLVE_DISPUTE_MAX_PERIOD,
+            "You can resolve dispute yourself in 2 days after the pool arbitrator assignment date",
+            "You can resolve dispute yourself after the resolution period of the pool arbitrator");
+        _dispute.refundAmount = uint96(_agreement.amount * _policy.unresolvedDisputeRefundPercentage / 1_000_000);
         _dispute.releasedAmount = _agreement.amount - _dispute.refundAmount;
         _agreement.status = Status.Unresolved;
-        emit DisputeUnresolved(UNRESOLVED_DISPUTE_REFUND_PERCENTAGE, _dispute.refundAmount);
+        emit DisputeUnresolved(_policy.unresolvedDisputeRefundPercentage, _dispute.refundAmount);
     }
 
     function resolveDispute(uint32 refundPercentage) public onlyArbitrator inStatus(Status.Disputed) {
+        _resolveDispute(refundPercentage);
+    }
+
+    // the arbitrator explains the resolution by the rationale CID
+    function resolveDispute(uint32 refundPercentage, string calldata rationaleHash) public 
+            onlyArbitrator inStatus(Status.Disputed) {
+        _ruling = rationaleHash;
+        emit RulingSubmitted(msg.sender, rationaleHash);
+        _resolveDispute(refundPercentage);
+    }
+
+    function _resolveDispute(uint32 refundPercentage) private {
         require(refundPercentage >= 0 && refundPercentage <= 1000000, 
             "Refunded percent should be between 0 and 1000000");
         _dispute.feeAmount = uint96(_agreement.amount * _dispute.feePercentage / 1_000_000);
@@ -186,28 +376,154 @@ contract SimpleEscrowAgent is BaseEscrowAgent {
             _dispute.refundAmount, _dispute.releasedAmount);
     }
 
+    // the parties append their evidence while the dispute is open
+    function submitEvidence(string calldata evidenceHash) public 
+            onlyDepositorOrBeneficiary inStatus(Status.Disputed) {
+        _evidence.push(Evidence({
+            submitter: msg.sender,
+            submittedDate: uint32(block.timestamp),
+            evidenceHash: evidenceHash
+        }));
+        emit EvidenceSubmitted(msg.sender, _evidence.length - 1, evidenceHash);
+    }
+
+    // the evidence and the ruling are public in the events anyway
+    function getEvidence(uint256 index) external view returns (Evidence memory) {
+        return _evidence[index];
+    }
+
+    function getEvidenceCount() external view returns (uint256) {
+        return _evidence.length;
+    }
+
+    // empty if the arbitrator gave no rationale
+    function getRuling() external view returns (string memory) {
+        return _ruling;
+    }
+
+    // either party proposes the depositor's share of the funds, the other party accepts or counter-proposes
+    function proposeSettlement(uint32 refundPercentage) public onlyDepositorOrBeneficiary {
+        _checkSettlementStatus();
+        require(refundPercentage <= 1000000, "Refunded percent should be between 0 and 1000000");
+        _settlement = Settlement({proposer: msg.sender, refundPercentage: refundPercentage});
+        emit SettlementProposed(msg.sender, refundPercentage);
+    }
+
+    // the funds are split as the arbitrator resolution without the fee, 
+    // the percentage must match the proposal in case it's replaced meanwhile
+    function acceptSettlement(uint32 refundPercentage) public onlyDepositorOrBeneficiary {
+        _checkSettlementStatus();
+        require(_settlement.proposer != address(0) && _settlement.proposer != msg.sender, 
+            "There is no settlement proposed by the other party.");
+        if (_settlement.refundPercentage != refundPercentage) {
+            revert WrongSettlement(_settlement.refundPercentage, refundPercentage);
+        }
+        _freezeStream();
+        _dispute.refundAmount = uint96(_agreement.amount * refundPercentage / 1_000_000);
+        _dispute.releasedAmount = _agreement.amount - _dispute.refundAmount;
+        _agreement.status = Status.Settled;
+        emit SettlementAccepted(refundPercentage, _dispute.refundAmount, _dispute.releasedAmount);
+    }
+
+    function getSettlement() external view returns (Settlement memory) {
+        return _settlement;
+    }
+
+    // either party proposes new terms, zero values keep the current ones, a new proposal replaces a pending one,
+    // the beneficiary can ask for more funds, the depositor sends them on acceptance,
+    // the depositor offering more funds sends them with the proposal and reclaims them if it's not accepted
+    function proposeAmendment(uint32 deadlineDate, uint96 addedAmount, string calldata detailsHash) public payable
+            onlyDepositorOrBeneficiary nonReentrant {
+        _checkAmendmentStatus();
+        require(deadlineDate != 0 || addedAmount != 0 || bytes(detailsHash).length != 0, "Nothing to amend");
+        require(deadlineDate == 0 || deadlineDate > block.timestamp, "Deadline should be in the future");
+        if (addedAmount != 0 && msg.sender == _agreement.depositor) {
+            require(msg.value == addedAmount, "Added amount doesn't match the funds");
+            // the funds of an earlier proposal go back to the depositor
+            _returnAmendmentFunds();
+            _amendmentFunds = _receivedValue();
+        } else {
+            require(msg.value == 0, "Added amount doesn't match the funds");
+        }
+        _amendments.push(Amendment({
+            proposer: msg.sender,
+            addedAmount: addedAmount,
+            deadlineDate: deadlineDate,
+            accepted: false,
+            detailsHash: detailsHash
+        }));
+        emit AmendmentProposed(_amendments.length, msg.sender, deadlineDate, addedAmount, detailsHash);
+    }
+
+    // the version must match the pending proposal in case it's replaced meanwhile,
+    // the funds of the depositor's proposal are already sent
+    function acceptAmendment(uint256 version) public payable onlyDepositorOrBeneficiary {
+        _checkAmendmentStatus();
+        require(_amendments.length > 0 && !_amendments[_amendments.length - 1].accepted && 
+            _amendments[_amendments.length - 1].proposer != msg.sender, 
+            "There is no amendment proposed by the other party.");
+        if (version != _amendments.length) {
+            revert WrongAmendment(_amendments.length, version);
+        }
+        Amendment storage amendment = _amendments[version - 1];
+        amendment.accepted = true;
+        if (amendment.addedAmount != 0 && amendment.proposer == _agreement.depositor) {
+            require(msg.value == 0 && _amendmentFunds == amendment.addedAmount, 
+                "Added amount doesn't match the funds");
+            _amendmentFunds = 0;
+            _agreement.amount += amendment.addedAmount;
+            emit FundsAdded(amendment.addedAmount, _agreement.amount);
+        } else {
+            require(msg.value == amendment.addedAmount, "Added amount doesn't match the funds");
+            if (msg.value != 0) {
+                uint96 received = _receivedValue();
+                _agreement.amount += received;
+                emit FundsAdded(received, _agreement.amount);
+            }
+        }
+        if (amendment.deadlineDate != 0) {
+            _agreement.deadlineDate = amendment.deadlineDate;
+        }
+        if (bytes(amendment.detailsHash).length != 0) {
+            _agreement.detailsHash = amendment.detailsHash;
+        }
+        emit AmendmentAccepted(version);
+    }
+
+    // all the proposals in the order of their versions, the accepted ones amended the agreement
+    function getAmendments() external view returns (Amendment[] memory) {
+        return _amendments;
+    }
+
+    // the depositor takes back the funds of a proposal the beneficiary didn't accept
+    function reclaimAmendmentFunds() public onlyDepositor nonReentrant {
+        require(_amendmentFunds != 0, "Funds are not available");
+        _returnAmendmentFunds();
+    }
+
+    function getAmendmentFunds() external view returns (uint96) {
+        return _amendmentFunds;
+    }
+
     function withdrawFunds() public payable nonReentrant {
         if (msg.sender == _agreement.beneficiary) {
             if (_agreement.status == Status.Closed) {
                 require(_agreement.amount > 0, "Funds are not available");
                 uint96 amount = _agreement.amount;
                 _agreement.amount = 0;
-                _agreement.beneficiary.transfer(amount);
-                emit FundsWithdrawn(msg.sender, amount);
+                _payBeneficiary(amount, true);
                 return;
-            } else if (_agreement.status == Status.Resolved) {
+            } else if (_agreement.status == Status.Resolved || _agreement.status == Status.Settled) {
                 require(_dispute.releasedAmount > 0, "Funds are not available");
                 uint96 releasedAmount = _dispute.releasedAmount;
                 _dispute.releasedAmount = 0;
-                _agreement.beneficiary.transfer(releasedAmount);
-                emit FundsWithdrawn(msg.sender, releasedAmount);
+                _payBeneficiary(releasedAmount, true);
                 return;
             } else if (_agreement.status == Status.Unresolved) {
                 require(_dispute.releasedAmount > 0, "Funds are not available");
                 uint96 releasedAmount = _dispute.releasedAmount;
                 _dispute.releasedAmount = 0;
-                _agreement.beneficiary.transfer(releasedAmount);
-                emit FundsWithdrawn(msg.sender, releasedAmount);
+                _payBeneficiary(releasedAmount, false);
                 return;
             }
         } else if (msg.sender == _agreement.depositor) {
@@ -216,14 +532,15 @@ contract SimpleEscrowAgent is BaseEscrowAgent {
                 require(_agreement.amount > 0, "Funds are not available");
                 uint96 amount = _agreement.amount;
                 _agreement.amount = 0;
-                _agreement.depositor.transfer(amount);
+                _sendFunds(address(0), _agreement.depositor, amount);
                 emit FundsWithdrawn(msg.sender, amount);
                 return;
-            } else if(_agreement.status == Status.Resolved || _agreement.status == Status.Unresolved) {
+            } else if(_agreement.status == Status.Resolved || _agreement.status == Status.Unresolved || 
+                    _agreement.status == Status.Settled) {
                 require(_dispute.refundAmount > 0, "Funds are not available");
                 uint96 refundAmount = _dispute.refundAmount;
                 _dispute.refundAmount = 0;
-                _agreement.depositor.transfer(refundAmount);
+                _sendFunds(address(0), _agreement.depositor, refundAmount);
                 emit FundsWithdrawn(msg.sender, refundAmount);
                 return;
             }
@@ -232,7 +549,7 @@ contract SimpleEscrowAgent is BaseEscrowAgent {
                 require(_dispute.feeAmount > 0, "Funds are not available");
                 uint96 feeAmount = _dispute.feeAmount;
                 _dispute.feeAmount = 0;
-                _dispute.arbitrator.transfer(feeAmount);
+                _sendFunds(address(0), _dispute.arbitrator, feeAmount);
                 emit FundsWithdrawn(msg.sender, feeAmount);
                 return;
             }
@@ -240,12 +557,65 @@ contract SimpleEscrowAgent is BaseEscrowAgent {
         revert WithdrawProhibited(msg.sender, _agreement.status);
     }
 
-    function getWithdrawBalance() external view inStatus(Status.Disputed) returns (uint256) {
+    // the beneficiary withdraws the vested funds while the agreement is active and after the freeze
+    function withdrawStreamed() public payable onlyBeneficiary nonReentrant {
+        require(_agreement.status == Status.Active || _stream.frozenDate != 0, 
+            "The agreement is in a wrong status.");
+        uint96 amount = _streamBalance();
+        require(amount > 0, "Funds are not available");
+        // the frozen funds are out of the agreement amount already
+        if (_stream.frozenDate == 0) {
+            _agreement.amount -= amount;
+        }
+        _stream.withdrawnAmount += amount;
+        _payBeneficiary(amount, true);
+    }
+
+    // vested funds the beneficiary didn't withdraw leave the agreement amount,
+    // the refunds and the dispute splits apply to the rest
+    function _freezeStream() private {
+        if (_stream.enabled && _stream.frozenDate == 0) {
+            _agreement.amount -= StreamSchedule.freeze(_stream, _agreement.amount, 
+                _agreement.startDate, _agreement.deadlineDate);
+            emit StreamFrozen(_stream.frozenAmount);
+        }
+    }
+
+    function _streamBalance() private view returns (uint96) {
+        // the released funds are withdrawn at once
+        if (_agreement.status != Status.Active && _stream.frozenDate == 0) {
+            return 0;
+        }
+        return StreamSchedule.balance(_stream, _agreement.amount, _agreement.startDate, _agreement.deadlineDate);
+    }
+
+    function getStream() external view returns (StreamSchedule.Stream memory) {
+        return _stream;
+    }
+
+    // vested funds the beneficiary can withdraw
+    function getStreamBalance() external view returns (uint256) {
+        return _streamBalance();
+    }
+
+    // the fee is taken on release, arbitration and settlement, a dispute nobody resolved is free of it
+    function _payBeneficiary(uint96 amount, bool withFee) private {
+        uint96 fee = withFee ? uint96(uint256(amount) * _protocolFee / 10_000) : 0;
+        if (fee > 0) {
+            _sendFunds(address(0), payable(_initializer), fee);
+            emit ProtocolFeePaid(_initializer, fee);
+        }
+        _sendFunds(address(0), _agreement.beneficiary, amount - fee);
+        emit FundsWithdrawn(msg.sender, amount - fee);
+    }
+
+    function getWithdrawBalance() external view returns (uint256) {
         if (msg.sender == _agreement.beneficiary) {
             if (_agreement.status == Status.Closed) {
                 require(_agreement.amount > 0, "Funds are not available");
                 return _agreement.amount;
-            } else if (_agreement.status == Status.Resolved || _agreement.status == Status.Unresolved) {
+            } else if (_agreement.status == Status.Resolved || _agreement.status == Status.Unresolved || 
+                    _agreement.status == Status.Settled) {
                 require(_dispute.releasedAmount > 0, "Funds are not available");
                 return _dispute.releasedAmount;
             }
@@ -254,7 +624,8 @@ contract SimpleEscrowAgent is BaseEscrowAgent {
                     _agreement.status == Status.Refunded) {
                 require(_agreement.amount > 0, "Funds are not available");
                 return _agreement.amount;
-            } else if(_agreement.status == Status.Resolved || _agreement.status == Status.Unresolved) {
+            } else if(_agreement.status == Status.Resolved || _agreement.status == Status.Unresolved || 
+                    _agreement.status == Status.Settled) {
                 require(_dispute.refundAmount > 0, "Funds are not available");
                 return _dispute.refundAmount;
             }
@@ -267,6 +638,40 @@ contract SimpleEscrowAgent is BaseEscrowAgent {
         revert NoBalance(msg.sender, _agreement.status);
     }
 
+    function _returnAmendmentFunds() private {
+        uint96 amount = _amendmentFunds;
+        if (amount != 0) {
+            _amendmentFunds = 0;
+            _sendFunds(address(0), _agreement.depositor, amount);
+            emit AmendmentFundsReturned(amount);
+        }
+    }
+
+    function _checkAmendmentStatus() private view {
+        require(_agreement.status == Status.Funded || _agreement.status == Status.Active, 
+            "The agreement is in a wrong status.");
+    }
+
+    function _checkSettlementStatus() private view {
+        require(_agreement.status == Status.Active || _agreement.status == Status.Disputed, 
+            "The agreement is in a wrong status.");
+    }
+
+    function _checkBeneficiary(address sender) private view {
+        require(sender == address(_agreement.beneficiary), "You are not the beneficiary.");
+    }
+
+    function _checkDepositorOrBeneficiary(address sender) private view {
+        require(sender == address(_agreement.depositor) || 
+            sender == address(_agreement.beneficiary), "You are not the depositor/beneficiary.");
+    }
+
+    // signer of the actions typed by the nonce and deadline only
+    function _useActionSignature(bytes32 typehash, uint256 nonce, uint256 deadline, bytes calldata signature) 
+            private returns (address) {
+        return _useSignature(keccak256(abi.encode(typehash, nonce, deadline)), nonce, deadline, signature);
+    }
+
     function getAgreementDetails() external view returns (string memory, uint256, uint256, uint256) {
         require(msg.sender == _agreement.depositor || 
             msg.sender == _agreement.beneficiary ||
@@ -276,19 +681,38 @@ contract SimpleEscrowAgent is BaseEscrowAgent {
             _agreement.startDate, _agreement.deadlineDate);
     }
 
+    function getParties() external view returns (address depositor, address beneficiary) {
+        return (_agreement.depositor, _agreement.beneficiary);
+    }
+
     function getAgreementStatus() external view returns (Status) {
         return _agreement.status;
     }
 
+    // a pool arbitrator is requested and waits for the randomness coordinator
+    function isAssignmentPending() external view returns (bool) {
+        return _assignmentPending;
+    }
+
+    function getAgreementPolicy() external view returns (Policy memory) {
+        return _policy;
+    }
+
+    // the factory receiving the fee and the fee in the 10_000 base
+    function getProtocolFee() external view returns (address treasury, uint16 basisPoints) {
+        return (_initializer, _protocolFee);
+    }
+
     function destroy() external {
         require(_agreement.status == Status.Closed || 
                 _agreement.status == Status.Canceled || 
                 _agreement.status == Status.Rejected || 
                 _agreement.status == Status.Refunded ||
                 _agreement.status == Status.Resolved ||
-                _agreement.status == Status.Unresolved,
+                _agreement.status == Status.Unresolved ||
+                _agreement.status == Status.Settled,
             "Agreement must be in final state");
-        require(_dispute.feeAmount == 0 && _dispute.releasedAmount == 0,
+        require(_dispute.feeAmount == 0 && _dispute.releasedAmount == 0 && _streamBalance() == 0,
             "All funds must be withdrawn");
         selfdestruct(payable(_agreement.depositor));
     }
@@ -2,19 +2,88 @@
 
 pragma solidity ^0.8.26;
 
+import "@openzeppelin/contracts/proxy/Clones.sol";
+
+import "./ProtocolFees.sol";
 import "./SimpleEscrowAgent.sol";
 
-contract SimpleEscrowFactory {
+// Escrows are EIP-1167 clones at CREATE2 addresses of the depositor and the number of their escrows,
+// so the address of the next escrow is known before funding it.
+// The escrows record the eth rate of the factory fee schedule on creation and pay the fees to the factory.
+contract SimpleEscrowFactory is ProtocolFees {
+
+    // escrows get the predefined pool of arbitrators and the randomness coordinator assigning them
+    address[] internal _arbitratorsPool;
+    address internal immutable _randomnessCoordinator;
+    // policy of the escrows created without one and the bounds of the custom ones
+    IEscrowAgent.Policy internal _defaultPolicy;
+    IEscrowAgent.Policy internal _minPolicy;
+    IEscrowAgent.Policy internal _maxPolicy;
+    address internal immutable _implementation;
+    // number of the escrows created by the depositor
+    mapping(address => uint256) internal _escrowCounts;
     
     event EscrowCreated(address indexed escrow, address indexed depositor, address indexed beneficiary);
 
+    constructor(
+        address randomnessCoordinator,
+        address[] memory arbitratorsPool,
+        IEscrowAgent.Policy memory defaultPolicy,
+        IEscrowAgent.Policy memory minPolicy,
+        IEscrowAgent.Policy memory maxPolicy
+    ) {
+        EscrowPolicy.check(defaultPolicy, minPolicy, maxPolicy);
+        _randomnessCoordinator = randomnessCoordinator;
+        _arbitratorsPool = arbitratorsPool;
+        _defaultPolicy = defaultPolicy;
+        _minPolicy = minPolicy;
+        _maxPolicy = maxPolicy;
+        _implementation = address(new SimpleEscrowAgent());
+    }
+
     function createEscrow(address payable beneficiary, string memory detailsHash, uint32 deadlineDate) public payable returns (address) {
-        SimpleEscrowAgent escrow = new SimpleEscrowAgent{value: msg.value}(
+        return _createEscrow(beneficiary, detailsHash, deadlineDate, _defaultPolicy);
+    }
+
+    function createEscrowWithPolicy(address payable beneficiary, string memory detailsHash, uint32 deadlineDate, 
+            IEscrowAgent.Policy memory policy) public payable returns (address) {
+        EscrowPolicy.check(policy, _minPolicy, _maxPolicy);
+        return _createEscrow(beneficiary, detailsHash, deadlineDate, policy);
+    }
+
+    // address of the next escrow of the depositor
+    function predictEscrowAddress(address depositor) external view returns (address) {
+        return Clones.predictDeterministicAddress(_implementation, _salt(depositor, _escrowCounts[depositor]));
+    }
+
+    function getImplementation() external view returns (address) {
+        return _implementation;
+    }
+
+    // the default policy and its bounds
+    function getPolicyBounds() external view 
+            returns (IEscrowAgent.Policy memory, IEscrowAgent.Policy memory, IEscrowAgent.Policy memory) {
+        return (_defaultPolicy, _minPolicy, _maxPolicy);
+    }
+
+    function _createEscrow(address payable beneficiary, string memory detailsHash, uint32 deadlineDate, 
+            IEscrowAgent.Policy memory policy) private returns (address) {
+        SimpleEscrowAgent escrow = SimpleEscrowAgent(payable(
+            Clones.cloneDeterministic(_implementation, _salt(msg.sender, _escrowCounts[msg.sender]++))));
+        escrow.initialize{value: msg.value}(
+            payable(msg.sender),
             beneficiary,
             detailsHash,
-            deadlineDate
+            deadlineDate,
+            _arbitratorsPool,
+            _randomnessCoordinator,
+            policy
         );
         emit EscrowCreated(address(escrow), msg.sender, beneficiary);
         return address(escrow);
     }
-} 
\ No newline at end of file
+
+    function _salt(address depositor, uint256 index) private pure returns (bytes32) {
+        return keccak256(abi.encode(depositor, index));
+    }
+}
\ No newline at end of file
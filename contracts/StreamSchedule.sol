@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+// Streaming of the agreement funds to the beneficiary, the funds vest linearly between the start date
+// and the deadline. Nothing vests before the cliff, the vested amount jumps to the linear one on the cliff.
+// Leaving the active status freezes the stream, the funds vested until then stay with the beneficiary
+// and the refunds and the splits apply to the rest.
+library StreamSchedule {
+
+    struct Stream {
+
+        // 1st slot (21 bytes)
+        // the funds vest only for the streaming agreements
+        bool enabled;
+        // nothing vests before, zero streams from the start date
+        uint32 cliffDate;
+        // the stream stopped vesting at, zero while it streams
+        uint32 frozenDate;
+        // funds vested until the freeze
+        uint96 frozenAmount;
+
+        // 2nd slot (12 bytes)
+        // funds the beneficiary withdrew from the stream
+        uint96 withdrawnAmount;
+    }
+
+    function vestedAmount(uint256 totalAmount, uint32 startDate, uint32 cliffDate, uint32 endDate,
+            uint256 timestamp) internal pure returns (uint256) {
+        if (timestamp < cliffDate || timestamp <= startDate) {
+            return 0;
+        }
+        if (timestamp >= endDate) {
+            return totalAmount;
+        }
+        return totalAmount * (timestamp - startDate) / (endDate - startDate);
+    }
+
+    // vested funds the beneficiary didn't withdraw, the remaining amount excludes the withdrawn funds
+    function balance(Stream storage stream, uint256 remainingAmount, uint32 startDate, uint32 endDate)
+            internal view returns (uint96) {
+        if (!stream.enabled) {
+            return 0;
+        }
+        uint256 vested = stream.frozenDate != 0 ? stream.frozenAmount : vestedAmount(
+            remainingAmount + stream.withdrawnAmount, startDate, stream.cliffDate, endDate, block.timestamp);
+        // an amended deadline slows the vesting down
+        return vested > stream.withdrawnAmount ? uint96(vested - stream.withdrawnAmount) : 0;
+    }
+
+    // stops the vesting once, returns the vested funds the beneficiary didn't withdraw
+    function freeze(Stream storage stream, uint256 remainingAmount, uint32 startDate, uint32 endDate)
+            internal returns (uint96) {
+        if (!stream.enabled || stream.frozenDate != 0) {
+            return 0;
+        }
+        uint96 unwithdrawn = balance(stream, remainingAmount, startDate, endDate);
+        stream.frozenAmount = stream.withdrawnAmount + unwithdrawn;
+        stream.frozenDate = uint32(block.timestamp);
+        return unwithdrawn;
+    }
+}
\ No newline at end of file
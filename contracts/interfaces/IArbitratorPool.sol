@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+// Pool of staked arbitrators assigned to the disputes of the registered escrows
+interface IArbitratorPool {
+
+    struct ArbitratorStats {
+
+        // 1st slot (32 bytes)
+        // eth staked to join the pool of arbitrators
+        uint96 stake;
+        // disputes assigned from the pool
+        uint32 assigned;
+        // assigned disputes resolved by the arbitrator
+        uint32 resolved;
+        // assigned disputes timed out without a resolution
+        uint32 unresolved;
+        // sum of the resolution times of the resolved disputes
+        uint64 totalResolutionTime;
+    }
+
+    // the pool calls back IArbitratorPoolClient.assignPoolArbitrator of the escrow
+    function requestArbitrator(uint256 agreementId) external returns (uint256 requestId);
+
+    // the assigned arbitrator resolved the dispute
+    function arbitratorResolved(uint256 agreementId) external;
+
+    // the assigned arbitrator didn't resolve the dispute in time, the stake is slashed to the parties
+    function arbitratorTimedOut(uint256 agreementId) external;
+
+    // the parties settled the dispute themselves, the assigned arbitrator is released
+    function arbitratorReleased(uint256 agreementId) external;
+
+    // the pool manager queues the changes of the members, an escrow can forward the calls of its own pool manager
+    function addPoolArbitrator(address arbitrator) external;
+
+    function removePoolArbitrator(address arbitrator) external;
+
+    // the queued change of the members is applied after the delay or canceled
+    function applyPoolArbitrator(address arbitrator) external;
+
+    function cancelPoolArbitrator(address arbitrator) external;
+
+    // stakes the sent eth for the arbitrator, only the arbitrator withdraws it
+    function depositStakeFor(address arbitrator) external payable;
+}
+
+interface IArbitratorPoolClient {
+
+    // returns false if the dispute doesn't wait for an arbitrator anymore, the arbitrator is zero
+    // if nobody in the pool can be assigned
+    function assignPoolArbitrator(uint256 agreementId, address arbitrator) external returns (bool);
+
+    // parties of the dispute and the depositor's share of an unresolved dispute
+    function getDisputeParties(uint256 agreementId) external view
+        returns (address depositor, address beneficiary, uint32 refundPercentage);
+}
\ No newline at end of file
@@ -9,7 +9,7 @@ interface IEscrowAgent {
         // 1st slot (32 bytes)
         // aka "buyer"
         address payable depositor;
-        // eth amount 
+        // eth or token amount 
         uint96 amount;
 
         // 2nd slot (29 bytes)
@@ -22,14 +22,31 @@ interface IEscrowAgent {
         // agreement status
         Status status;
 
-        // 3rd slot (32 bytes)
+        // 3rd slot (20 bytes)
+        // erc20 token, zero address for eth
+        address token;
+
+        // 4th slot (32 bytes)
+        // ipfs CID
+        string detailsHash;
+    }
+
+    struct Milestone {
+
+        // 1st slot (16 bytes)
+        // eth or token amount of the milestone
+        uint96 amount;
+        // end date for the milestone delivery
+        uint32 deadlineDate;
+
+        // 2nd slot (32 bytes)
         // ipfs CID
         string detailsHash;
     }
 
     struct Dispute {
 
-        // 4th slot (32 bytes)
+        // 5th slot (32 bytes)
         // either parties agree on arbitrator or it must be assigned from the pool of arbitrators
         address payable arbitrator;
         // fees for arbitrator
@@ -39,19 +56,77 @@ interface IEscrowAgent {
         // arbitrator assignment from the pool
         uint32 assignedDate;
 
-        // 5th slot (24 bytes)
+        // 6th slot (24 bytes)
         // fees for arbitrator
         uint96 feeAmount;
         // refund for depositor
         uint96 refundAmount;
 
-        // 6th slot (13 bytes)
+        // 7th slot (13 bytes)
         // beneficiary's funds
         uint96 releasedAmount;
         // parties agree on arbitrator
         bool agreed;
     }
 
+    struct Policy {
+
+        // 1st slot (24 bytes)
+        // the beneficiary can release the funds himself/herself after the deadline and this period
+        uint32 releaseFundsAfterDeadline;
+        // parties agree on arbitrator during this period after the dispute is raised
+        uint32 agreeOnArbitratorMaxPeriod;
+        // arbitrator resolves the dispute during this period
+        uint32 resolveDisputeMaxPeriod;
+        // depositor's share of an unresolved dispute
+        uint32 unresolvedDisputeRefundPercentage;
+        // fees for arbitrator unless parties agree on others
+        uint32 defaultArbitratorPercentage;
+        // deadline of the agreements created without one
+        uint32 defaultDeadlinePeriod;
+    }
+
+    struct Evidence {
+
+        // 1st slot (24 bytes)
+        // depositor or beneficiary
+        address submitter;
+        // evidence submitted at
+        uint32 submittedDate;
+
+        // 2nd slot (32 bytes)
+        // ipfs CID
+        string evidenceHash;
+    }
+
+    struct Settlement {
+
+        // 1st slot (24 bytes)
+        // depositor or beneficiary, the other party accepts the proposal
+        address proposer;
+        // depositor's share of the funds
+        uint32 refundPercentage;
+    }
+
+    struct Amendment {
+
+        // 1st slot (32 bytes)
+        // depositor or beneficiary, the other party accepts the amendment
+        address proposer;
+        // funds the depositor adds, with the depositor's proposal or on acceptance
+        uint96 addedAmount;
+
+        // 2nd slot (5 bytes)
+        // new deadline, zero keeps the deadline
+        uint32 deadlineDate;
+        // the other party accepted the amendment, the next proposal replaces a pending one
+        bool accepted;
+
+        // 3rd slot (32 bytes)
+        // new agreement document CID, empty keeps the document
+        string detailsHash;
+    }
+
     enum Status {
         // The workflow for an "Agreement"
         //
@@ -100,7 +175,21 @@ interface IEscrowAgent {
         // ||
         // \/
         // The dispute wasn't resolved by the arbitrator
-        Unresolved // dep, ben
+        Unresolved, // dep, ben
+        //
+        // Active, Disputed
+        // ||
+        // \/
+        // The parties agreed on the split of the funds without an arbitrator
+        Settled // dep, ben
+    }
+
+    // role of an address in the agreements
+    enum Party {
+        Depositor,
+        Beneficiary,
+        // the agreed or assigned arbitrator
+        Arbitrator
     }
 
     // if beneficiary agrees on arbitrator with wrong address or fee percentage
@@ -109,4 +198,12 @@ interface IEscrowAgent {
     error NoBalance(address sender, Status status);
     // can't withdraw funds
     error WithdrawProhibited(address sender, Status status);
+    // eth sent to a token agreement or tokens sent to an eth agreement
+    error WrongToken(address token);
+    // the settlement is accepted with another refund percentage than proposed
+    error WrongSettlement(uint32 proposedPercentage, uint32 acceptedPercentage);
+    // the amendment is accepted with another version than proposed
+    error WrongAmendment(uint256 proposedVersion, uint256 acceptedVersion);
+    // policy is out of the bounds or the default policy is out of the new bounds
+    error WrongPolicy(Policy policy);
 }
\ No newline at end of file
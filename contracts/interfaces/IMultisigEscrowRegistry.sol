@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.26;
+
+// Registry of the parties of the MultisigEscrow clones, implemented by their factory
+interface IMultisigEscrowRegistry {
+
+    // a paused escrow reused for a new agreement registers its new beneficiary
+    function registerBeneficiary(address beneficiary) external;
+}
\ No newline at end of file
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+
+pragma solidity ^0.8.26;
+
+// Protocol fee schedule of the escrow factories, the escrows read the rate of their token on creation
+interface IProtocolFees {
+
+    struct FeeRate {
+        // fee taken from the funds released to the beneficiary in the 10_000 base
+        uint16 basisPoints;
+        // a token rate overrides the default rate, a default rate is always set
+        bool isSet;
+        // the escrows created from this date get the rate
+        uint32 effectiveDate;
+    }
+
+    event DefaultFeeScheduled(uint16 basisPoints, uint32 effectiveDate);
+    event TokenFeeScheduled(address indexed token, uint16 basisPoints, bool isSet, uint32 effectiveDate);
+    event FeesWithdrawn(address indexed token, address indexed recipient, uint256 amount);
+
+    // rate of the escrows created now, zero address for eth
+    function getFee(address token) external view returns (uint16);
+}
\ No newline at end of file
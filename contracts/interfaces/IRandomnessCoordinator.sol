@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+// VRF-style randomness source: a request is fulfilled later by a callback to the requesting contract
+interface IRandomnessCoordinator {
+
+    // the coordinator calls IRandomnessConsumer.rawFulfillRandomness with the returned request id
+    function requestRandomness() external returns (uint256 requestId);
+}
+
+interface IRandomnessConsumer {
+
+    function rawFulfillRandomness(uint256 requestId, uint256 randomness) external;
+}
\ No newline at end of file
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+// ERC20 token burning a fee on every transfer, so the recipient gets less than the amount sent
+contract FeeOnTransferERC20Mock is ERC20 {
+
+    // 1% in the 1_000_000 base used by the escrow contracts
+    uint256 public constant FEE_PERCENTAGE = 10000;
+
+    constructor() ERC20("Fee Token", "FEE") {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    function _update(address from, address to, uint256 value) internal override {
+        if (from == address(0) || to == address(0)) {
+            super._update(from, to, value);
+            return;
+        }
+        uint256 fee = value * FEE_PERCENTAGE / 1_000_000;
+        super._update(from, address(0), fee);
+        super._update(from, to, value - fee);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+import "../interfaces/IEscrowAgent.sol";
+import "../MultisigEscrow.sol";
+import "../SimpleEscrowAgent.sol";
+
+// The factories before the clones for the gas benchmark, every escrow is deployed in full with new.
+// One factory per escrow, the creation code of both doesn't fit the contract size limit
+abstract contract NewEscrowFactoryMock {
+
+    event EscrowCreated(address indexed escrow, address indexed depositor, address indexed beneficiary);
+
+    mapping(address => address[]) private _depositorContracts;
+
+    // the escrows initialized by a contract ask it for the protocol fee, there is none
+    function getFee(address) external pure returns (uint16) {
+        return 0;
+    }
+
+    function _registerEscrow(address escrowAddress, address beneficiary) internal returns (address) {
+        _depositorContracts[msg.sender].push(escrowAddress);
+        emit EscrowCreated(escrowAddress, msg.sender, beneficiary);
+        return escrowAddress;
+    }
+}
+
+contract NewMultisigEscrowFactoryMock is NewEscrowFactoryMock {
+
+    function createEscrow(address payable beneficiary, uint32 deadlineDate) external payable returns (address) {
+        MultisigEscrow escrow = new MultisigEscrow(address(0));
+        escrow.initialize{value: msg.value}(payable(msg.sender), beneficiary, deadlineDate, address(0));
+        return _registerEscrow(address(escrow), beneficiary);
+    }
+}
+
+contract NewSimpleEscrowFactoryMock is NewEscrowFactoryMock {
+
+    function createEscrow(address payable beneficiary, string memory detailsHash, uint32 deadlineDate,
+            IEscrowAgent.Policy memory policy) external payable returns (address) {
+        SimpleEscrowAgent escrow = new SimpleEscrowAgent();
+        escrow.initialize{value: msg.value}(payable(msg.sender), beneficiary, detailsHash, deadlineDate,
+            new address[](0), address(0), policy);
+        return _registerEscrow(address(escrow), beneficiary);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+import "../interfaces/IRandomnessCoordinator.sol";
+
+// Randomness coordinator for tests, anyone fulfills a request with any random word
+contract RandomnessCoordinatorMock is IRandomnessCoordinator {
+
+    uint256 public requestCount;
+    mapping(uint256 => address) public consumers;
+
+    event RandomnessRequested(uint256 indexed requestId, address indexed consumer);
+
+    function requestRandomness() external returns (uint256 requestId) {
+        requestId = ++requestCount;
+        consumers[requestId] = msg.sender;
+        emit RandomnessRequested(requestId, msg.sender);
+    }
+
+    function fulfillRandomness(uint256 requestId, uint256 randomness) external {
+        address consumer = consumers[requestId];
+        require(consumer != address(0), "Unknown request");
+        delete consumers[requestId];
+        IRandomnessConsumer(consumer).rawFulfillRandomness(requestId, randomness);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: GPL-3.0-or-later
+
+pragma solidity ^0.8.26;
+
+// Smart contract wallet for tests, receiving eth costs more than the 2300 gas of transfer()
+contract WalletMock {
+
+    address public immutable owner;
+    uint256 public received;
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    function execute(address target, uint256 value, bytes calldata data) external returns (bytes memory) {
+        require(msg.sender == owner, "Not the owner");
+        (bool success, bytes memory result) = target.call{value: value}(data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+        return result;
+    }
+
+    receive() external payable {
+        received += msg.value;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { BaseContract } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { findNetwork } from "./networks";
+
+export interface ContractDeployment {
+  address: string;
+  abi: readonly unknown[];
+}
+
+export interface ChainDeployment {
+  network: string;
+  explorer?: string;
+  // the web app adds the chain to a wallet that doesn't know it by the public RPC url
+  rpcUrl?: string;
+  // deployed contracts by their contract names
+  contracts: Record<string, ContractDeployment>;
+}
+
+// deployments by the chain id, the web app picks the one of the wallet's chain
+export type DeploymentManifest = Record<string, ChainDeployment>;
+
+// ignition modules of the deployments and the contract names of their results
+export const DEPLOYMENT_MODULES = {
+  EscrowAgent: {
+    load: () => import("../ignition/modules/EscrowAgent"),
+    contracts: { escrow: "EscrowAgent", arbitratorPool: "ArbitratorPool" },
+  },
+  MultisigEscrowFactory: {
+    load: () => import("../ignition/modules/MultisigEscrowFactory"),
+    contracts: { escrow: "MultisigEscrowFactory", forwarder: "EscrowForwarder" },
+  },
+  SimpleEscrowFactory: {
+    load: () => import("../ignition/modules/SimpleEscrowFactory"),
+    contracts: { escrow: "SimpleEscrowFactory" },
+  },
+  MultiPartyEscrowFactory: {
+    load: () => import("../ignition/modules/MultiPartyEscrowFactory"),
+    contracts: { escrow: "MultiPartyEscrowFactory" },
+  },
+} as const;
+
+export type DeploymentModuleName = keyof typeof DEPLOYMENT_MODULES;
+
+type IgnitionDeploy = HardhatRuntimeEnvironment["ignition"]["deploy"];
+// ignition parameters of the modules or the path of their JSON file
+type DeploymentParameters = NonNullable<Parameters<IgnitionDeploy>[1]>["parameters"];
+
+// the clones and the delegated extension aren't deployed by the modules, they are called by the ABIs of
+// the implementations the deployed contracts point to
+const IMPLEMENTATIONS: Record<string, { contract: string; getter: string }> = {
+  EscrowAgent: { contract: "EscrowAgentExtension", getter: "getExtension" },
+  MultisigEscrowFactory: { contract: "MultisigEscrow", getter: "getImplementation" },
+  SimpleEscrowFactory: { contract: "SimpleEscrowAgent", getter: "getImplementation" },
+  MultiPartyEscrowFactory: { contract: "MultiPartyEscrowAgent", getter: "getImplementation" },
+};
+
+// deploys the modules, ignition resumes the earlier deployments of the live networks
+export async function deployModules(hre: HardhatRuntimeEnvironment, modules: readonly DeploymentModuleName[],
+    parameters?: DeploymentParameters): Promise<Record<string, BaseContract>> {
+  const deployed: Record<string, BaseContract> = {};
+  for (const name of modules) {
+    const { load, contracts } = DEPLOYMENT_MODULES[name];
+    const ignitionModule: Parameters<IgnitionDeploy>[0] = (await load()).default;
+    const result: Record<string, BaseContract> = await hre.ignition.deploy(ignitionModule, { parameters });
+    for (const [key, contract] of Object.entries(contracts)) {
+      deployed[contract] = result[key];
+    }
+  }
+  return deployed;
+}
+
+export async function describeDeployment(hre: HardhatRuntimeEnvironment,
+    deployed: Record<string, BaseContract>): Promise<ChainDeployment> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const contracts: Record<string, ContractDeployment> = {};
+  const describe = async (name: string, address: string) => {
+    contracts[name] = { address, abi: (await hre.artifacts.readArtifact(name)).abi };
+  };
+  for (const [name, contract] of Object.entries(deployed)) {
+    await describe(name, await contract.getAddress());
+    const implementation = IMPLEMENTATIONS[name];
+    if (implementation) {
+      await describe(implementation.contract, await contract.getFunction(implementation.getter)());
+    }
+  }
+  const network = findNetwork(Number(chainId));
+  return { network: hre.network.name, explorer: network?.explorer, rpcUrl: network?.publicRpcUrl, contracts };
+}
+
+// a deployment of some of the modules keeps the other contracts of the chain
+export function recordDeployment(manifest: DeploymentManifest, chainId: bigint | number,
+    deployment: ChainDeployment): DeploymentManifest {
+  const recorded = manifest[chainId.toString()];
+  return {
+    ...manifest,
+    [chainId.toString()]: { ...deployment, contracts: { ...recorded?.contracts, ...deployment.contracts } },
+  };
+}
+
+export async function readManifest(filePath: string): Promise<DeploymentManifest> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf8")) as DeploymentManifest;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return {};
+    }
+    throw error;
+  }
+}
+
+export async function writeManifest(filePath: string, manifest: DeploymentManifest) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(manifest, null, 2) + "\n");
+}
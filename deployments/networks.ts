@@ -0,0 +1,27 @@
+// networks of the deployments, the live ones are configured by the RPC url in the environment variable
+export interface NetworkInfo {
+  name: string;
+  chainId: number;
+  // environment variable with the RPC url, unset for the local node
+  rpcUrlVariable?: string;
+  // block explorer of the web app links
+  explorer?: string;
+  // public RPC url the web app adds the chain to the wallets with, the deployment RPC url may hold a key
+  publicRpcUrl: string;
+}
+
+export const NETWORKS: readonly NetworkInfo[] = [
+  { name: "localhost", chainId: 31337, publicRpcUrl: "http://127.0.0.1:8545" },
+  { name: "mainnet", chainId: 1, rpcUrlVariable: "MAINNET_RPC_URL", explorer: "https://etherscan.io",
+    publicRpcUrl: "https://ethereum-rpc.publicnode.com" },
+  { name: "sepolia", chainId: 11155111, rpcUrlVariable: "SEPOLIA_RPC_URL", explorer: "https://sepolia.etherscan.io",
+    publicRpcUrl: "https://ethereum-sepolia-rpc.publicnode.com" },
+  { name: "base", chainId: 8453, rpcUrlVariable: "BASE_RPC_URL", explorer: "https://basescan.org",
+    publicRpcUrl: "https://mainnet.base.org" },
+  { name: "baseSepolia", chainId: 84532, rpcUrlVariable: "BASE_SEPOLIA_RPC_URL",
+    explorer: "https://sepolia.basescan.org", publicRpcUrl: "https://sepolia.base.org" },
+];
+
+export function findNetwork(chainId: number): NetworkInfo | undefined {
+  return NETWORKS.find((network) => network.chainId === chainId);
+}
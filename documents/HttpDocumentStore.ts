@@ -0,0 +1,50 @@
+import { DocumentError, DocumentNotFoundError } from "./errors";
+import { DocumentStore } from "./stores";
+
+// client of the document server, it works in the browser too
+export class HttpDocumentStore implements DocumentStore {
+  private readonly url: string;
+
+  constructor(url: string) {
+    this.url = url.replace(/\/+$/, "");
+  }
+
+  async put(bytes: Uint8Array) {
+    const response = await this.request("/documents", { method: "POST", body: bytes,
+      headers: { "Content-Type": "application/octet-stream" } });
+    return String((await response.json()).cid);
+  }
+
+  async get(cid: string) {
+    const response = await fetch(`${this.url}/documents/${encodeURIComponent(cid)}`);
+    if (response.status === 404) {
+      return undefined;
+    }
+    await this.check(response);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  async pin(cid: string) {
+    const response = await fetch(`${this.url}/pins/${encodeURIComponent(cid)}`, { method: "POST" });
+    if (response.status === 404) {
+      throw new DocumentNotFoundError(cid);
+    }
+    await this.check(response);
+  }
+
+  async unpin(cid: string) {
+    await this.request(`/pins/${encodeURIComponent(cid)}`, { method: "DELETE" });
+  }
+
+  private async request(path: string, init: RequestInit) {
+    return this.check(await fetch(`${this.url}${path}`, init));
+  }
+
+  private async check(response: Response) {
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new DocumentError(body.message ?? `The document server answered ${response.status}`);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,93 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { computeCid, isDocumentCid } from "./cid";
+import { DocumentError, DocumentNotFoundError } from "./errors";
+import { DocumentStore } from "./stores";
+
+// keeps the documents as files named by their CIDs, a stand-in for an IPFS node in development,
+// the pins are empty files in the pins directory
+export class LocalDocumentStore implements DocumentStore {
+  constructor(readonly directory: string) {}
+
+  async put(bytes: Uint8Array) {
+    const cid = await computeCid(bytes);
+    await fs.mkdir(this.directory, { recursive: true });
+    // the file is replaced atomically, a reader never gets a part of the document
+    const tmpPath = `${this.blockPath(cid)}.tmp`;
+    await fs.writeFile(tmpPath, bytes);
+    await fs.rename(tmpPath, this.blockPath(cid));
+    return cid;
+  }
+
+  async get(cid: string) {
+    if (!isDocumentCid(cid)) {
+      return undefined;
+    }
+    try {
+      return new Uint8Array(await fs.readFile(this.blockPath(cid)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async pin(cid: string) {
+    if (!await this.get(cid)) {
+      throw new DocumentNotFoundError(cid);
+    }
+    await fs.mkdir(this.pinsDirectory, { recursive: true });
+    await fs.writeFile(path.join(this.pinsDirectory, cid), "");
+  }
+
+  async unpin(cid: string) {
+    await fs.rm(path.join(this.pinsDirectory, this.checkCid(cid)), { force: true });
+  }
+
+  async isPinned(cid: string) {
+    try {
+      await fs.access(path.join(this.pinsDirectory, this.checkCid(cid)));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // removes the unpinned documents, e.g. uploaded for an escrow that was never created
+  async collectGarbage(): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    const removed: string[] = [];
+    for (const cid of files.filter(isDocumentCid)) {
+      if (!await this.isPinned(cid)) {
+        await fs.rm(this.blockPath(cid), { force: true });
+        removed.push(cid);
+      }
+    }
+    return removed;
+  }
+
+  private get pinsDirectory() {
+    return path.join(this.directory, "pins");
+  }
+
+  private blockPath(cid: string) {
+    return path.join(this.directory, this.checkCid(cid));
+  }
+
+  // the CID names a file, so anything else is refused
+  private checkCid(cid: string) {
+    if (!isDocumentCid(cid)) {
+      throw new DocumentError(`${cid} is not a document CID`);
+    }
+    return cid;
+  }
+}
@@ -0,0 +1,87 @@
+import { DocumentError } from "./errors";
+import { AgreementDocument, assertDocument } from "./schema";
+
+// documents fit a single IPFS block, so their CID is the CID of the raw block
+export const MAX_DOCUMENT_SIZE = 256 * 1024;
+
+const CID_VERSION = 0x01;
+const RAW_CODEC = 0x55;
+const SHA2_256 = 0x12;
+const SHA2_256_LENGTH = 0x20;
+// multibase prefix of the lowercase RFC 4648 base32 without padding
+const BASE32_PREFIX = "b";
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+// JSON with sorted keys and without whitespace, equal documents have equal bytes and CIDs
+export function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => item === undefined ? "null" : canonicalize(item)).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalize(item)}`).join(",")}}`;
+  }
+  if (typeof value === "number" && !Number.isFinite(value)) {
+    throw new DocumentError(`${value} is not a JSON number`);
+  }
+  if (typeof value === "bigint" || typeof value === "function" || typeof value === "symbol") {
+    throw new DocumentError(`${typeof value} is not a JSON value`);
+  }
+  return JSON.stringify(value);
+}
+
+// the canonical bytes of a valid document
+export function encodeDocument(document: AgreementDocument): Uint8Array {
+  assertDocument(document);
+  const bytes = new TextEncoder().encode(canonicalize(document));
+  if (bytes.length > MAX_DOCUMENT_SIZE) {
+    throw new DocumentError(`The document is ${bytes.length} bytes, at most ${MAX_DOCUMENT_SIZE} are stored`);
+  }
+  return bytes;
+}
+
+export function decodeDocument(bytes: Uint8Array): AgreementDocument {
+  let document: unknown;
+  try {
+    document = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error) {
+    throw new DocumentError("The document is not JSON", error);
+  }
+  assertDocument(document);
+  return document;
+}
+
+function base32(bytes: Uint8Array): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+// CIDv1 of the raw sha2-256 block, the same as `ipfs add --cid-version 1 --raw-leaves` gives for a single block
+export async function computeCid(bytes: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await globalThis.crypto.subtle.digest("SHA-256", bytes));
+  return BASE32_PREFIX + base32(new Uint8Array([CID_VERSION, RAW_CODEC, SHA2_256, SHA2_256_LENGTH, ...digest]));
+}
+
+export async function documentCid(document: AgreementDocument): Promise<string> {
+  return computeCid(encodeDocument(document));
+}
+
+// the CIDs computed by computeCid, other detailsHash values are opaque strings
+export function isDocumentCid(value: string): boolean {
+  return /^bafkrei[a-z2-7]{52}$/.test(value);
+}
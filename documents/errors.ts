@@ -0,0 +1,20 @@
+// the documents are used by the dapp too, so they don't depend on the sdk and ethers
+export class DocumentError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class DocumentNotFoundError extends DocumentError {
+  constructor(readonly cid: string) {
+    super(`Document ${cid} is not found`);
+  }
+}
+
+// the stored bytes don't hash to the CID, e.g. the on-chain hash of another document
+export class DocumentMismatchError extends DocumentError {
+  constructor(readonly expectedCid: string, readonly actualCid: string) {
+    super(`Document ${actualCid} doesn't match ${expectedCid}`);
+  }
+}
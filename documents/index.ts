@@ -0,0 +1,7 @@
+export * from "./errors";
+export * from "./schema";
+export * from "./cid";
+export * from "./stores";
+export * from "./HttpDocumentStore";
+export * from "./LocalDocumentStore";
+export * from "./server";
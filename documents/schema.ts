@@ -0,0 +1,205 @@
+import { DocumentError } from "./errors";
+
+// the version of the schema the document follows, a new version gets a new schema $id
+export const AGREEMENT_DOCUMENT_VERSION = 1;
+
+export interface DocumentParty {
+  address: string;
+  name?: string;
+  // email, telegram or any other way to reach the party
+  contact?: string;
+}
+
+export interface Deliverable {
+  title: string;
+  description?: string;
+}
+
+export interface DocumentMilestone {
+  title: string;
+  // wei or token units as a decimal string, the on-chain milestone is authoritative
+  amount?: string;
+  deadlineDate?: number;
+  // indexes of the deliverables due by the milestone
+  deliverables?: number[];
+}
+
+export interface Jurisdiction {
+  // e.g. "England and Wales"
+  governingLaw: string;
+  // court or arbitration body beyond the escrow arbitrator
+  disputeVenue?: string;
+}
+
+export interface AgreementDocument {
+  version: typeof AGREEMENT_DOCUMENT_VERSION;
+  title: string;
+  parties: {
+    depositor: DocumentParty;
+    beneficiary: DocumentParty;
+  };
+  scope: string;
+  deliverables: Deliverable[];
+  milestones?: DocumentMilestone[];
+  acceptanceCriteria: string[];
+  jurisdiction: Jurisdiction;
+}
+
+// the subset of JSON Schema the documents are validated with
+export interface JsonSchema {
+  $id?: string;
+  $schema?: string;
+  type?: "object" | "array" | "string" | "integer";
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+}
+
+const text = (maxLength: number): JsonSchema => ({ type: "string", minLength: 1, maxLength });
+
+const party: JsonSchema = {
+  type: "object",
+  required: ["address"],
+  additionalProperties: false,
+  properties: {
+    address: { type: "string", pattern: "^0x[0-9a-fA-F]{40}$" },
+    name: text(200),
+    contact: text(200),
+  },
+};
+
+// published for other tools, validateDocument checks the documents against it
+export const AGREEMENT_DOCUMENT_SCHEMA: JsonSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: `urn:escrow-agent:agreement-document:v${AGREEMENT_DOCUMENT_VERSION}`,
+  type: "object",
+  required: ["version", "title", "parties", "scope", "deliverables", "acceptanceCriteria", "jurisdiction"],
+  additionalProperties: false,
+  properties: {
+    version: { const: AGREEMENT_DOCUMENT_VERSION },
+    title: text(200),
+    parties: {
+      type: "object",
+      required: ["depositor", "beneficiary"],
+      additionalProperties: false,
+      properties: { depositor: party, beneficiary: party },
+    },
+    scope: text(10_000),
+    deliverables: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: ["title"],
+        additionalProperties: false,
+        properties: { title: text(200), description: text(10_000) },
+      },
+    },
+    milestones: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["title"],
+        additionalProperties: false,
+        properties: {
+          title: text(200),
+          amount: { type: "string", pattern: "^(0|[1-9][0-9]*)$" },
+          deadlineDate: { type: "integer", minimum: 0 },
+          deliverables: { type: "array", items: { type: "integer", minimum: 0 } },
+        },
+      },
+    },
+    acceptanceCriteria: { type: "array", minItems: 1, items: text(2_000) },
+    jurisdiction: {
+      type: "object",
+      required: ["governingLaw"],
+      additionalProperties: false,
+      properties: { governingLaw: text(200), disputeVenue: text(200) },
+    },
+  },
+};
+
+export class InvalidDocumentError extends DocumentError {
+  constructor(readonly errors: readonly string[]) {
+    super(`Invalid agreement document: ${errors.join(", ")}`);
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (Number.isInteger(value)) {
+    return "integer";
+  }
+  return value === null ? "null" : typeof value;
+}
+
+function check(value: unknown, schema: JsonSchema, path: string, errors: string[]) {
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${path} should be ${JSON.stringify(schema.const)}`);
+    return;
+  }
+  if (schema.type && typeOf(value) !== schema.type) {
+    errors.push(`${path} should be ${/^[aeiou]/.test(schema.type) ? "an" : "a"} ${schema.type}`);
+    return;
+  }
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+      errors.push(`${path} should not be empty`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} should be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path} should match ${schema.pattern}`);
+    }
+  } else if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} should be at least ${schema.minimum}`);
+    }
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} should have at least ${schema.minItems} item${schema.minItems > 1 ? "s" : ""}`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => check(item, schema.items!, `${path}[${index}]`, errors));
+    }
+  } else if (typeof value === "object" && value !== null) {
+    const object = value as Record<string, unknown>;
+    for (const name of schema.required ?? []) {
+      if (object[name] === undefined) {
+        errors.push(`${path}.${name} is required`);
+      }
+    }
+    for (const [name, property] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[name];
+      if (propertySchema) {
+        check(property, propertySchema, `${path}.${name}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${name} is not allowed`);
+      }
+    }
+  }
+}
+
+// the paths of the invalid fields, empty for a valid document
+export function validateDocument(document: unknown): string[] {
+  const errors: string[] = [];
+  check(document, AGREEMENT_DOCUMENT_SCHEMA, "document", errors);
+  return errors;
+}
+
+export function assertDocument(document: unknown): asserts document is AgreementDocument {
+  const errors = validateDocument(document);
+  if (errors.length > 0) {
+    throw new InvalidDocumentError(errors);
+  }
+}
@@ -0,0 +1,73 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { MAX_DOCUMENT_SIZE } from "./cid";
+import { DocumentError, DocumentNotFoundError } from "./errors";
+import { DocumentStore } from "./stores";
+
+// the body is larger than a document
+class BodyTooLargeError extends Error {}
+
+function readBytes(request: IncomingMessage): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_DOCUMENT_SIZE) {
+        reject(new BodyTooLargeError(`The document is larger than ${MAX_DOCUMENT_SIZE} bytes`));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on("end", () => resolve(new Uint8Array(Buffer.concat(chunks))));
+    request.on("error", reject);
+  });
+}
+
+function send(response: ServerResponse, status: number, body: Record<string, unknown>) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+// POST /documents stores the body and answers with its CID, GET /documents/:cid answers with the stored bytes,
+// POST and DELETE /pins/:cid pin and unpin a document, the dapp calls the server from another origin
+export function createDocumentServer(store: DocumentStore): Server {
+  return createServer(async (request, response) => {
+    response.setHeader("Access-Control-Allow-Origin", "*");
+    response.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE");
+    response.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    try {
+      const [, resource, cid] = (request.url ?? "").split("?")[0].split("/").map(decodeURIComponent);
+      if (request.method === "OPTIONS") {
+        response.writeHead(204).end();
+      } else if (request.method === "POST" && resource === "documents" && cid === undefined) {
+        send(response, 200, { cid: await store.put(await readBytes(request)) });
+      } else if (request.method === "GET" && resource === "documents" && cid) {
+        const bytes = await store.get(cid);
+        if (!bytes) {
+          send(response, 404, { error: "NotFound", message: `Document ${cid} is not found` });
+          return;
+        }
+        response.writeHead(200, { "Content-Type": "application/json", "Cache-Control": "immutable" });
+        response.end(bytes);
+      } else if (request.method === "POST" && resource === "pins" && cid) {
+        await store.pin(cid);
+        send(response, 200, { cid, pinned: true });
+      } else if (request.method === "DELETE" && resource === "pins" && cid) {
+        await store.unpin(cid);
+        send(response, 200, { cid, pinned: false });
+      } else {
+        send(response, 404, { error: "NotFound", message: `${request.method} ${request.url} is not supported` });
+      }
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        send(response, 413, { error: "TooLarge", message: error.message });
+      } else if (error instanceof DocumentError) {
+        const status = error instanceof DocumentNotFoundError ? 404 : 422;
+        send(response, status, { error: error.name, message: error.message });
+      } else {
+        send(response, 500, { error: "InternalError", message: (error as Error).message });
+      }
+    }
+  });
+}
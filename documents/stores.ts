@@ -0,0 +1,70 @@
+import { computeCid, decodeDocument, encodeDocument } from "./cid";
+import { DocumentMismatchError, DocumentNotFoundError } from "./errors";
+import { AgreementDocument } from "./schema";
+
+// content addressed storage of the documents, an IPFS node or a local stand-in
+export interface DocumentStore {
+  // stores the bytes and resolves to their CID
+  put(bytes: Uint8Array): Promise<string>;
+  // undefined if the store doesn't have the CID
+  get(cid: string): Promise<Uint8Array | undefined>;
+  // keeps the document until unpinned, the unpinned documents may be removed
+  pin(cid: string): Promise<void>;
+  unpin(cid: string): Promise<void>;
+}
+
+export class MemoryDocumentStore implements DocumentStore {
+  private readonly blocks = new Map<string, Uint8Array>();
+  private readonly pins = new Set<string>();
+
+  async put(bytes: Uint8Array) {
+    const cid = await computeCid(bytes);
+    this.blocks.set(cid, bytes.slice());
+    return cid;
+  }
+
+  async get(cid: string) {
+    return this.blocks.get(cid)?.slice();
+  }
+
+  async pin(cid: string) {
+    if (!this.blocks.has(cid)) {
+      throw new DocumentNotFoundError(cid);
+    }
+    this.pins.add(cid);
+  }
+
+  async unpin(cid: string) {
+    this.pins.delete(cid);
+  }
+
+  isPinned(cid: string) {
+    return this.pins.has(cid);
+  }
+}
+
+// stores and pins a valid document, the CID is the detailsHash of the agreement
+export async function publishDocument(store: DocumentStore, document: AgreementDocument): Promise<string> {
+  const bytes = encodeDocument(document);
+  const cid = await computeCid(bytes);
+  const storedCid = await store.put(bytes);
+  // a store hashing another way would return another CID
+  if (storedCid !== cid) {
+    throw new DocumentMismatchError(cid, storedCid);
+  }
+  await store.pin(cid);
+  return cid;
+}
+
+// fetches the document of the on-chain CID, the store isn't trusted so the bytes are verified against it
+export async function fetchDocument(store: DocumentStore, cid: string): Promise<AgreementDocument> {
+  const bytes = await store.get(cid);
+  if (!bytes) {
+    throw new DocumentNotFoundError(cid);
+  }
+  const actualCid = await computeCid(bytes);
+  if (actualCid !== cid) {
+    throw new DocumentMismatchError(cid, actualCid);
+  }
+  return decodeDocument(bytes);
+}
@@ -1,22 +1,41 @@
 import { HardhatUserConfig } from "hardhat/config";
+import type { NetworksUserConfig } from "hardhat/types";
 import "@nomicfoundation/hardhat-toolbox";
+import { NETWORKS } from "./deployments/networks";
+import "./tasks/escrow";
+import "./tasks/relayer";
+import "./tasks/documents";
+import "./tasks/watcher";
+import "./tasks/arbitrator";
+import "./tasks/deploy";
+
+// the live networks are available once their RPC url is set, the deployer key signs the deployments
+const DEPLOYER_KEY = process.env.DEPLOYER_PRIVATE_KEY;
+const networks: NetworksUserConfig = {
+  localhost: {
+    chainId: 31337,
+    url: "http://127.0.0.1:8545",
+  },
+};
+for (const { name, chainId, rpcUrlVariable } of NETWORKS) {
+  const url = rpcUrlVariable && process.env[rpcUrlVariable];
+  if (url) {
+    networks[name] = { chainId, url, accounts: DEPLOYER_KEY ? [DEPLOYER_KEY] : [] };
+  }
+}
 
 const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.28",
     settings: {
+      viaIR: true,
       optimizer: {
         enabled: true,
         runs: 200,
       },
     },
   },
-  networks: {
-    Hardhat: {
-      chainId: 31337,
-      url: "http://127.0.0.1:8545"
-    }
-  }
+  networks,
 };
 
 export default config;
@@ -3,8 +3,14 @@ import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 const EscrowAgentModule = buildModule("EscrowAgentModule", (m) => {
 
   const escrow = m.contract("EscrowAgent");
+  // the randomness coordinator is set on the pool by the owner
+  const arbitratorPool = m.contract("ArbitratorPool");
+  m.call(arbitratorPool, "setEscrow", [escrow, true]);
+  // the pool members are changed through the escrow by its pool manager
+  m.call(arbitratorPool, "setPoolManager", [escrow]);
+  m.call(escrow, "setArbitratorPool", [arbitratorPool]);
 
-  return { escrow };
+  return { escrow, arbitratorPool };
 });
 
 export default EscrowAgentModule;
@@ -0,0 +1,15 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { DEFAULT_POLICY, MAX_POLICY, MIN_POLICY } from "../../sdk/policy";
+
+const MultiPartyEscrowFactoryModule = buildModule("MultiPartyEscrowFactoryModule", (m) => {
+
+  // the custom policies of the escrows are bounded by the min and max policies
+  const defaultPolicy = m.getParameter("defaultPolicy", { ...DEFAULT_POLICY });
+  const minPolicy = m.getParameter("minPolicy", { ...MIN_POLICY });
+  const maxPolicy = m.getParameter("maxPolicy", { ...MAX_POLICY });
+  const escrow = m.contract("MultiPartyEscrowFactory", [defaultPolicy, minPolicy, maxPolicy]);
+
+  return { escrow };
+});
+
+export default MultiPartyEscrowFactoryModule;
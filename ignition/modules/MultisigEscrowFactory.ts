@@ -2,9 +2,11 @@ import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 
 const MultisigEscrowFactoryModule = buildModule("MultisigEscrowFactoryModule", (m) => {
 
-  const escrow = m.contract("MultisigEscrowFactory");
+  // the created escrows trust the forwarder of the relayed requests
+  const forwarder = m.contract("EscrowForwarder");
+  const escrow = m.contract("MultisigEscrowFactory", [forwarder]);
 
-  return { escrow };
+  return { escrow, forwarder };
 });
 
 export default MultisigEscrowFactoryModule;
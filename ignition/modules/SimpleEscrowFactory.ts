@@ -0,0 +1,20 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { DEFAULT_POLICY, MAX_POLICY, MIN_POLICY } from "../../sdk/policy";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+const SimpleEscrowFactoryModule = buildModule("SimpleEscrowFactoryModule", (m) => {
+
+  // the escrows assign their dispute arbitrators from the pool by the randomness of the coordinator
+  const randomnessCoordinator = m.getParameter("randomnessCoordinator", ZERO_ADDRESS);
+  const poolArbitrators = m.getParameter<string[]>("poolArbitrators", []);
+  const defaultPolicy = m.getParameter("defaultPolicy", { ...DEFAULT_POLICY });
+  const minPolicy = m.getParameter("minPolicy", { ...MIN_POLICY });
+  const maxPolicy = m.getParameter("maxPolicy", { ...MAX_POLICY });
+  const escrow = m.contract("SimpleEscrowFactory",
+    [randomnessCoordinator, poolArbitrators, defaultPolicy, minPolicy, maxPolicy]);
+
+  return { escrow };
+});
+
+export default SimpleEscrowFactoryModule;
@@ -0,0 +1,248 @@
+import { Interface, Log, Provider } from "ethers";
+import {
+  EscrowAgent__factory,
+  MultisigEscrow__factory,
+  MultisigEscrowFactory__factory,
+  SimpleEscrowAgent__factory,
+  SimpleEscrowFactory__factory,
+} from "../typechain-types";
+import { EscrowStatus } from "../sdk";
+import { AgreementProjection, currentDeadline, discoverEscrows } from "./AgreementProjection";
+import { IndexerStore } from "./stores";
+import {
+  AgreementListener,
+  BlockRef,
+  ContractKind,
+  IndexedAgreement,
+  IndexedEvent,
+  IndexerSnapshot,
+} from "./types";
+
+export interface IndexerOptions {
+  escrowAgents?: string[];
+  simpleEscrowAgents?: string[];
+  multisigEscrows?: string[];
+  // escrows created by the factories are indexed as they appear
+  simpleEscrowFactories?: string[];
+  multisigEscrowFactories?: string[];
+  // deployment block of the contracts
+  startBlock?: number;
+  batchSize?: number;
+  // blocks behind the head which are not indexed yet
+  confirmations?: number;
+  // how deep a reorg can be rolled back, deeper ones reindex from the start block
+  reorgDepth?: number;
+}
+
+const INTERFACES: Readonly<Record<ContractKind, Interface>> = {
+  EscrowAgent: EscrowAgent__factory.createInterface(),
+  SimpleEscrowAgent: SimpleEscrowAgent__factory.createInterface(),
+  MultisigEscrow: MultisigEscrow__factory.createInterface(),
+  SimpleEscrowFactory: SimpleEscrowFactory__factory.createInterface(),
+  MultisigEscrowFactory: MultisigEscrowFactory__factory.createInterface(),
+};
+
+const OPEN_STATUSES: readonly EscrowStatus[] = ["Funded", "Active"];
+
+// indexes escrow events into a local store, call sync() to catch up with the chain
+export class AgreementIndexer {
+  private readonly sources: [string, ContractKind][];
+  private snapshot!: IndexerSnapshot;
+  private projection!: AgreementProjection;
+  private readonly listeners: AgreementListener[] = [];
+
+  private constructor(readonly provider: Provider, readonly store: IndexerStore,
+      readonly options: IndexerOptions) {
+    const sources: [string[] | undefined, ContractKind][] = [
+      [options.escrowAgents, "EscrowAgent"],
+      [options.simpleEscrowAgents, "SimpleEscrowAgent"],
+      [options.multisigEscrows, "MultisigEscrow"],
+      [options.simpleEscrowFactories, "SimpleEscrowFactory"],
+      [options.multisigEscrowFactories, "MultisigEscrowFactory"],
+    ];
+    this.sources = sources.flatMap(([addresses, kind]) =>
+      (addresses ?? []).map((address): [string, ContractKind] => [address.toLowerCase(), kind]));
+  }
+
+  static async open(provider: Provider, store: IndexerStore, options: IndexerOptions): Promise<AgreementIndexer> {
+    const indexer = new AgreementIndexer(provider, store, options);
+    const sources = indexer.sources.map(([address, kind]) => `${kind}:${address}`).sort();
+    const snapshot = await store.load();
+    // a checkpoint of other contracts would skip their history
+    if (snapshot && snapshot.sources.join() === sources.join()) {
+      indexer.snapshot = snapshot;
+    } else {
+      indexer.snapshot = { sources, recentBlocks: [], events: [] };
+    }
+    indexer.rebuild();
+    return indexer;
+  }
+
+  get checkpoint(): BlockRef | undefined {
+    return this.snapshot.checkpoint;
+  }
+
+  // the events indexed by sync() from now on, the events of the rolled back blocks are indexed again
+  addListener(listener: AgreementListener) {
+    this.listeners.push(listener);
+  }
+
+  // indexes new blocks and returns the last indexed block number
+  async sync(): Promise<number> {
+    const { startBlock = 0, batchSize = 2000, confirmations = 0 } = this.options;
+    await this.rollbackReorg();
+    const head = await this.provider.getBlockNumber() - confirmations;
+    let fromBlock = this.snapshot.checkpoint ? this.snapshot.checkpoint.blockNumber + 1 : startBlock;
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + batchSize - 1, head);
+      const events = await this.fetchEvents(fromBlock, toBlock);
+      const block = await this.provider.getBlock(toBlock);
+      if (!block?.hash) {
+        throw new Error(`Block ${toBlock} not found`);
+      }
+      this.snapshot.events.push(...events);
+      const applied: { event: IndexedEvent; agreement: IndexedAgreement }[] = [];
+      this.projection.applyEvents(events, (event, agreement) =>
+        applied.push({ event, agreement: structuredClone(agreement) }));
+      for (const listener of applied.length > 0 ? this.listeners : []) {
+        await listener(applied);
+      }
+      this.remember([...events, { blockNumber: toBlock, blockHash: block.hash }]);
+      this.snapshot.checkpoint = { blockNumber: toBlock, blockHash: block.hash };
+      await this.store.save(this.snapshot);
+      fromBlock = toBlock + 1;
+    }
+    return this.snapshot.checkpoint?.blockNumber ?? startBlock - 1;
+  }
+
+  getAgreement(contract: string, agreementId: number | bigint = 1): IndexedAgreement | undefined {
+    return this.projection.agreements.get(`${contract.toLowerCase()}:${agreementId}`);
+  }
+
+  getAgreements(): IndexedAgreement[] {
+    return [...this.projection.agreements.values()];
+  }
+
+  getAgreementsByParty(address: string): IndexedAgreement[] {
+    return this.filter((agreement) => sameAddress(agreement.depositor, address) ||
+      sameAddress(agreement.beneficiary, address));
+  }
+
+  getAgreementsByStatus(...statuses: EscrowStatus[]): IndexedAgreement[] {
+    return this.filter((agreement) => statuses.includes(agreement.status));
+  }
+
+  getAgreementsByArbitrator(address: string): IndexedAgreement[] {
+    return this.filter((agreement) => agreement.arbitrator !== undefined &&
+      sameAddress(agreement.arbitrator, address));
+  }
+
+  // open agreements with the next deadline in [from, from + within), soonest first
+  getUpcomingDeadlines(from: number, within: number): IndexedAgreement[] {
+    return this.filter((agreement) => {
+      const deadline = currentDeadline(agreement);
+      return OPEN_STATUSES.includes(agreement.status) && deadline >= from && deadline < from + within;
+    }).sort((a, b) => currentDeadline(a) - currentDeadline(b));
+  }
+
+  private filter(predicate: (agreement: IndexedAgreement) => boolean) {
+    return this.getAgreements().filter(predicate);
+  }
+
+  private rebuild() {
+    this.projection = new AgreementProjection(this.sources);
+    this.projection.applyEvents(this.snapshot.events);
+  }
+
+  private remember(blocks: BlockRef[]) {
+    const known = new Map(this.snapshot.recentBlocks.map((block) => [block.blockNumber, block]));
+    for (const { blockNumber, blockHash } of blocks) {
+      known.set(blockNumber, { blockNumber, blockHash });
+    }
+    const last = Math.max(...known.keys());
+    const { reorgDepth = 64 } = this.options;
+    this.snapshot.recentBlocks = [...known.values()]
+      .filter((block) => block.blockNumber > last - reorgDepth)
+      .sort((a, b) => a.blockNumber - b.blockNumber);
+  }
+
+  // drops the events of blocks which are not on the chain anymore
+  private async rollbackReorg() {
+    const { checkpoint, recentBlocks } = this.snapshot;
+    if (!checkpoint || await this.isCanonical(checkpoint)) {
+      return;
+    }
+    let forkPoint: BlockRef | undefined;
+    for (const block of [...recentBlocks].reverse()) {
+      if (block.blockNumber < checkpoint.blockNumber && await this.isCanonical(block)) {
+        forkPoint = block;
+        break;
+      }
+    }
+    this.snapshot.checkpoint = forkPoint;
+    this.snapshot.events = forkPoint
+      ? this.snapshot.events.filter((event) => event.blockNumber <= forkPoint.blockNumber)
+      : [];
+    this.snapshot.recentBlocks = forkPoint
+      ? recentBlocks.filter((block) => block.blockNumber <= forkPoint.blockNumber)
+      : [];
+    this.rebuild();
+    await this.store.save(this.snapshot);
+  }
+
+  private async isCanonical(block: BlockRef) {
+    return (await this.provider.getBlock(block.blockNumber))?.hash === block.blockHash;
+  }
+
+  private async fetchEvents(fromBlock: number, toBlock: number): Promise<IndexedEvent[]> {
+    const factories = this.addressesOf("SimpleEscrowFactory", "MultisigEscrowFactory");
+    const factoryLogs = factories.length > 0
+      ? await this.provider.getLogs({ address: factories, fromBlock, toBlock })
+      : [];
+    // escrows created in this range emit events in the same range
+    const contracts = new Map(this.projection.contracts);
+    const factoryEvents = this.decode(factoryLogs, contracts);
+    discoverEscrows(factoryEvents, contracts);
+    const escrows = [...contracts].filter(([, kind]) => !kind.endsWith("Factory")).map(([address]) => address);
+    const escrowLogs = escrows.length > 0
+      ? await this.provider.getLogs({ address: escrows, fromBlock, toBlock })
+      : [];
+    return [...factoryEvents, ...this.decode(escrowLogs, contracts)]
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  private addressesOf(...kinds: ContractKind[]) {
+    return [...this.projection.contracts].filter(([, kind]) => kinds.includes(kind)).map(([address]) => address);
+  }
+
+  private decode(logs: readonly Log[], contracts: ReadonlyMap<string, ContractKind>): IndexedEvent[] {
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const address = log.address.toLowerCase();
+      const kind = contracts.get(address);
+      const parsed = kind ? INTERFACES[kind].parseLog(log) : null;
+      if (!parsed) {
+        continue;
+      }
+      const args: Record<string, string | boolean> = {};
+      parsed.fragment.inputs.forEach((input, i) => {
+        const value = parsed.args[i];
+        args[input.name] = typeof value === "boolean" ? value : String(value);
+      });
+      events.push({
+        address,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        logIndex: log.index,
+        transactionHash: log.transactionHash,
+        name: parsed.name,
+        args,
+      });
+    }
+    return events;
+  }
+}
+
+function sameAddress(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
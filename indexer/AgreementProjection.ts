@@ -0,0 +1,210 @@
+import { EscrowStatus, EscrowVariant, ETH } from "../sdk";
+import { ContractKind, IndexedAgreement, IndexedEvent } from "./types";
+
+const STATUS_EVENTS: Readonly<Record<string, EscrowStatus>> = {
+  AgreementCanceled: "Canceled",
+  AgreementRevoked: "Revoked",
+  AgreementApproved: "Active",
+  AgreementRejected: "Rejected",
+  AgreementRefunded: "Refunded",
+  FundsReleased: "Closed",
+  FundsLocked: "Locked",
+  FundsCompensated: "Closed",
+  DisputeRaised: "Disputed",
+  DisputeResolved: "Resolved",
+  DisputeUnresolved: "Unresolved",
+  // MultisigEscrow closes the agreement instead
+  SettlementAccepted: "Settled",
+};
+
+// folds escrow events into the current state of the agreements
+export class AgreementProjection {
+  readonly agreements = new Map<string, IndexedAgreement>();
+  readonly contracts: Map<string, ContractKind>;
+  // the current agreement of the single agreement contracts
+  private readonly rounds = new Map<string, number>();
+
+  constructor(contracts: Iterable<[string, ContractKind]>) {
+    this.contracts = new Map(contracts);
+  }
+
+  // factories emit EscrowCreated after the escrow constructor emitted AgreementCreated,
+  // the callback gets the agreement of every applied escrow event right after the event
+  applyEvents(events: readonly IndexedEvent[],
+      onApplied?: (event: IndexedEvent, agreement: IndexedAgreement) => void) {
+    discoverEscrows(events, this.contracts);
+    for (const event of events) {
+      const kind = this.contracts.get(event.address);
+      if (kind !== undefined && kind !== "SimpleEscrowFactory" && kind !== "MultisigEscrowFactory") {
+        const agreement = this.applyEscrowEvent(event, kind);
+        if (agreement && onApplied) {
+          onApplied(event, agreement);
+        }
+      }
+    }
+  }
+
+  private applyEscrowEvent(event: IndexedEvent, variant: EscrowVariant): IndexedAgreement | undefined {
+    const { args } = event;
+    if (event.name === "AgreementCreated") {
+      return this.create(event, variant);
+    }
+    const agreementId = variant === "EscrowAgent" ? Number(args.agreementId) : this.rounds.get(event.address);
+    const agreement = this.agreements.get(`${event.address}:${agreementId}`);
+    if (!agreement) {
+      return undefined;
+    }
+    agreement.updatedBlock = event.blockNumber;
+    const status = STATUS_EVENTS[event.name];
+    if (status) {
+      agreement.status = status;
+      // a late randomness fulfillment doesn't assign arbitrators to a settled dispute
+      agreement.assignmentPending = false;
+    }
+    switch (event.name) {
+      case "FundsAdded":
+        agreement.amount = BigInt(args.totalAmount as string);
+        break;
+      case "FundsWithdrawn":
+        agreement.withdrawn += BigInt(args.amount as string);
+        break;
+      case "ProtocolFeePaid":
+        agreement.protocolFeePaid += BigInt(args.amount as string);
+        break;
+      case "MilestoneCreated":
+        agreement.milestoneDeadlines.push(Number(args.deadlineDate));
+        break;
+      case "MilestoneReleased":
+        agreement.releasedMilestones = Number(args.index) + 1;
+        break;
+      case "ArbitratorAgreed":
+        agreement.arbitrator = String(args.arbitrator);
+        agreement.arbitratorAgreed = Boolean(args.agreed);
+        break;
+      case "PoolArbitratorRequested":
+        agreement.assignmentPending = true;
+        break;
+      case "PoolArbitratorAssigned":
+        agreement.arbitrator = String(args.arbitrator);
+        agreement.arbitratorAgreed = true;
+        agreement.assignmentPending = false;
+        agreement.assignedBlock = event.blockNumber;
+        break;
+      case "DisputeRaised":
+        agreement.disputedBlock = event.blockNumber;
+        break;
+      // a multisig resolves MultisigEscrow disputes
+      case "MultisigSet":
+        agreement.arbitrator = String(args.multisig);
+        agreement.arbitratorAgreed = false;
+        break;
+      case "MultisigApproved":
+        agreement.arbitratorAgreed = true;
+        break;
+      case "SettlementProposed":
+        agreement.settlementProposer = String(args.proposer);
+        agreement.settlementPercentage = Number(args.refundPercentage);
+        break;
+      case "EvidenceSubmitted":
+        agreement.evidence.push({
+          submitter: String(args.submitter),
+          evidenceHash: String(args.evidenceHash),
+          blockNumber: event.blockNumber,
+        });
+        break;
+      case "RulingSubmitted":
+        agreement.rulingHash = String(args.rationaleHash);
+        break;
+      case "DetailsSet":
+        agreement.detailsHash = String(args.detailsHash);
+        break;
+      case "AmendmentProposed":
+        agreement.amendments.push({
+          version: Number(args.version),
+          proposer: String(args.proposer),
+          deadlineDate: Number(args.deadlineDate),
+          addedAmount: BigInt(args.addedAmount as string),
+          detailsHash: String(args.detailsHash),
+          accepted: false,
+          blockNumber: event.blockNumber,
+        });
+        break;
+      // the added funds come with FundsAdded
+      case "AmendmentAccepted": {
+        const amendment = agreement.amendments[Number(args.version) - 1];
+        if (amendment) {
+          amendment.accepted = true;
+          agreement.deadlineDate = amendment.deadlineDate || agreement.deadlineDate;
+          agreement.detailsHash = amendment.detailsHash || agreement.detailsHash;
+        }
+        break;
+      }
+      case "StreamSet":
+        agreement.streamCliffDate = Number(args.cliffDate);
+        break;
+      case "StreamFrozen":
+        agreement.streamFrozenAmount = BigInt(args.vestedAmount as string);
+        break;
+      case "SettlementAccepted":
+        if (variant === "MultisigEscrow") {
+          agreement.status = "Closed";
+        }
+        break;
+    }
+    return agreement;
+  }
+
+  private create(event: IndexedEvent, variant: EscrowVariant): IndexedAgreement {
+    const { args } = event;
+    let agreementId: number;
+    if (variant === "EscrowAgent") {
+      agreementId = Number(args.agreementId);
+    } else {
+      // a paused MultisigEscrow can be reused for a new agreement
+      agreementId = (this.rounds.get(event.address) ?? 0) + 1;
+      this.rounds.set(event.address, agreementId);
+    }
+    const key = `${event.address}:${agreementId}`;
+    const agreement: IndexedAgreement = {
+      key,
+      variant,
+      contract: event.address,
+      agreementId,
+      depositor: String(args.depositor),
+      beneficiary: String(args.beneficiary),
+      arbitratorAgreed: false,
+      assignmentPending: false,
+      token: variant === "MultisigEscrow" ? undefined : (args.token as string | undefined) ?? ETH,
+      detailsHash: args.detailsHash as string | undefined,
+      amount: BigInt(args.amount as string),
+      withdrawn: 0n,
+      protocolFeePaid: 0n,
+      deadlineDate: Number(args.deadlineDate),
+      milestoneDeadlines: [],
+      releasedMilestones: 0,
+      evidence: [],
+      amendments: [],
+      status: "Funded",
+      createdBlock: event.blockNumber,
+      updatedBlock: event.blockNumber,
+    };
+    this.agreements.set(key, agreement);
+    return agreement;
+  }
+}
+
+// registers the escrows created by known factories
+export function discoverEscrows(events: readonly IndexedEvent[], contracts: Map<string, ContractKind>) {
+  for (const event of events) {
+    const kind = contracts.get(event.address);
+    if (event.name === "EscrowCreated" && (kind === "SimpleEscrowFactory" || kind === "MultisigEscrowFactory")) {
+      contracts.set(String(event.args.escrow).toLowerCase(),
+        kind === "SimpleEscrowFactory" ? "SimpleEscrowAgent" : "MultisigEscrow");
+    }
+  }
+}
+
+// the deadline of the next milestone or of the whole agreement
+export function currentDeadline(agreement: IndexedAgreement): number {
+  return agreement.milestoneDeadlines[agreement.releasedMilestones] ?? agreement.deadlineDate;
+}
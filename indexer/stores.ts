@@ -0,0 +1,43 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { IndexerSnapshot } from "./types";
+
+export interface IndexerStore {
+  load(): Promise<IndexerSnapshot | undefined>;
+  save(snapshot: IndexerSnapshot): Promise<void>;
+}
+
+export class MemoryStore implements IndexerStore {
+  private snapshot?: string;
+
+  async load() {
+    return this.snapshot === undefined ? undefined : JSON.parse(this.snapshot) as IndexerSnapshot;
+  }
+
+  async save(snapshot: IndexerSnapshot) {
+    this.snapshot = JSON.stringify(snapshot);
+  }
+}
+
+// keeps the snapshot in a JSON file, the file is replaced atomically so a crash leaves the last checkpoint
+export class JsonFileStore implements IndexerStore {
+  constructor(readonly filePath: string) {}
+
+  async load() {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf8")) as IndexerSnapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async save(snapshot: IndexerSnapshot) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(snapshot));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,90 @@
+import { EscrowStatus, EscrowVariant } from "../sdk";
+
+export type ContractKind = EscrowVariant | "SimpleEscrowFactory" | "MultisigEscrowFactory";
+
+export interface BlockRef {
+  blockNumber: number;
+  blockHash: string;
+}
+
+// a decoded log, numbers are kept as decimal strings to be stored as JSON
+export interface IndexedEvent extends BlockRef {
+  address: string;
+  logIndex: number;
+  transactionHash: string;
+  name: string;
+  args: Record<string, string | boolean>;
+}
+
+// new events of a batch with the agreement right after each event, called before the checkpoint is saved
+export type AgreementListener =
+  (events: readonly { event: IndexedEvent; agreement: IndexedAgreement }[]) => Promise<void>;
+
+// everything the store persists, agreements are rebuilt from the events
+export interface IndexerSnapshot {
+  // configured contracts, the index is rebuilt when they change
+  sources: string[];
+  checkpoint?: BlockRef;
+  // hashes of recently indexed blocks to find the fork point of a reorg
+  recentBlocks: BlockRef[];
+  events: IndexedEvent[];
+}
+
+// the events carry no timestamp, the block tells when the evidence was submitted
+export interface IndexedEvidence {
+  submitter: string;
+  evidenceHash: string;
+  blockNumber: number;
+}
+
+// zero values keep the terms, the accepted amendments changed the agreement
+export interface IndexedAmendment {
+  version: number;
+  proposer: string;
+  deadlineDate: number;
+  addedAmount: bigint;
+  detailsHash: string;
+  accepted: boolean;
+  blockNumber: number;
+}
+
+export interface IndexedAgreement {
+  // `${contract}:${agreementId}`, single agreement contracts count agreements from 1
+  key: string;
+  variant: EscrowVariant;
+  contract: string;
+  agreementId: number;
+  depositor: string;
+  beneficiary: string;
+  arbitrator?: string;
+  arbitratorAgreed: boolean;
+  // a pool arbitrator is requested and waits for the randomness coordinator
+  assignmentPending: boolean;
+  // blocks of the arbitrated dispute and of the pool arbitrator assignment, their timestamps start the policy periods
+  disputedBlock?: number;
+  assignedBlock?: number;
+  // MultisigEscrow events don't carry the token, its document is set after the creation
+  token?: string;
+  detailsHash?: string;
+  amount: bigint;
+  withdrawn: bigint;
+  // protocol fee the escrows created by the factories pay on the beneficiary's withdrawal
+  protocolFeePaid: bigint;
+  deadlineDate: number;
+  milestoneDeadlines: number[];
+  releasedMilestones: number;
+  // the last settlement proposal, the depositor's share in the 1_000_000 base
+  settlementProposer?: string;
+  settlementPercentage?: number;
+  // the dispute evidence in the submission order and the rationale CID of the ruling
+  evidence: IndexedEvidence[];
+  rulingHash?: string;
+  // all the proposed amendments in the order of their versions
+  amendments: IndexedAmendment[];
+  // cliff of a streaming agreement, zero streams from the start, and the funds vested until the freeze
+  streamCliffDate?: number;
+  streamFrozenAmount?: bigint;
+  status: EscrowStatus;
+  createdBlock: number;
+  updatedBlock: number;
+}
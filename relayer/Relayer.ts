@@ -0,0 +1,110 @@
+import { Signer, TransactionReceipt } from "ethers";
+import { EscrowAgent__factory, EscrowForwarder__factory, MultisigEscrow__factory } from "../typechain-types";
+import {
+  actionInterface,
+  decodeEscrowError,
+  encodeSignedAction,
+  EscrowError,
+  ForwardRequest,
+  forwardedCallData,
+  InvalidSignatureError,
+  recoverActionSigner,
+  SignedAction,
+  submitForwardRequest,
+  submitSignedAction,
+} from "../sdk";
+
+export interface RelayerOptions {
+  // targets of the actions and forward requests, any contract if not set
+  contracts?: string[];
+  // ERC-2771 forwarder of the MultisigEscrow requests, forward requests are rejected without it
+  forwarder?: string;
+  // forward requests asking for more gas are rejected
+  maxGas?: bigint;
+}
+
+// the relayer refuses to pay for the request
+export class RelayRejectedError extends EscrowError {}
+
+// checks the signed requests and submits them from the relayer signer, which pays the gas
+export class Relayer {
+  private readonly contracts?: Set<string>;
+
+  constructor(readonly signer: Signer, readonly options: RelayerOptions = {}) {
+    if (options.contracts) {
+      this.contracts = new Set(options.contracts.map((address) => address.toLowerCase()));
+    }
+  }
+
+  async relayAction(action: SignedAction): Promise<TransactionReceipt> {
+    this.checkTarget(action.contract);
+    await this.checkDeadline(action.deadline);
+    const chainId = (await this.provider.getNetwork()).chainId;
+    let signer: string;
+    try {
+      signer = recoverActionSigner(action, chainId);
+    } catch (error) {
+      throw new InvalidSignatureError("Invalid signature", error);
+    }
+    if (signer.toLowerCase() !== action.signer.toLowerCase()) {
+      throw new InvalidSignatureError(`Action of ${action.signer} is signed by ${signer}`);
+    }
+    // both agents share the Nonces interface
+    const nonce = await EscrowAgent__factory.connect(action.contract, this.provider).nonces(signer);
+    if (nonce !== action.nonce) {
+      throw new InvalidSignatureError(`Nonce of ${signer} is ${nonce}`);
+    }
+    // a reverting action would cost the gas, so it's simulated first
+    try {
+      await this.provider.call({ from: await this.signer.getAddress(), to: action.contract,
+        data: encodeSignedAction(action) });
+    } catch (error) {
+      throw decodeEscrowError(error, actionInterface(action.variant));
+    }
+    return submitSignedAction(this.signer, action);
+  }
+
+  async relayForwardRequest(request: ForwardRequest): Promise<TransactionReceipt> {
+    const { forwarder, maxGas } = this.options;
+    if (!forwarder) {
+      throw new RelayRejectedError("The relayer has no forwarder");
+    }
+    this.checkTarget(request.to);
+    await this.checkDeadline(request.deadline);
+    if (maxGas !== undefined && request.gas > maxGas) {
+      throw new RelayRejectedError(`Request gas ${request.gas} is above ${maxGas}`);
+    }
+    const contract = EscrowForwarder__factory.connect(forwarder, this.provider);
+    if (!await contract.verify(request)) {
+      throw new InvalidSignatureError(`Request of ${request.from} is not valid`);
+    }
+    // the forwarder hides the revert reason of the call, so the call is simulated from the forwarder first
+    try {
+      await this.provider.call({ from: forwarder, to: request.to, data: forwardedCallData(request),
+        value: request.value, gasLimit: request.gas });
+    } catch (error) {
+      throw decodeEscrowError(error, MultisigEscrow__factory.createInterface());
+    }
+    return submitForwardRequest(this.signer, forwarder, request);
+  }
+
+  private get provider() {
+    if (!this.signer.provider) {
+      throw new EscrowError("The relayer signer requires a provider");
+    }
+    return this.signer.provider;
+  }
+
+  private checkTarget(address: string) {
+    if (this.contracts && !this.contracts.has(address.toLowerCase())) {
+      throw new RelayRejectedError(`Contract ${address} is not relayed`);
+    }
+  }
+
+  private async checkDeadline(deadline: number) {
+    const latest = await this.provider.getBlock("latest");
+    if (deadline < latest!.timestamp) {
+      throw new InvalidSignatureError(`Signature expired at ${deadline}`);
+    }
+  }
+}
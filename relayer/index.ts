@@ -0,0 +1,2 @@
+export * from "./Relayer";
+export * from "./server";
@@ -0,0 +1,121 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { EscrowError, ForwardRequest, SignedAction } from "../sdk";
+import { Relayer } from "./Relayer";
+
+const MAX_BODY_SIZE = 64 * 1024;
+
+// bad JSON or fields of a request
+class BadRequestError extends Error {}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.setEncoding("utf8");
+    request.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        reject(new BadRequestError("The request body is too large"));
+        request.destroy();
+      }
+    });
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
+
+function field<T>(body: Record<string, unknown>, name: string, parse: (value: unknown) => T, optional = false): T {
+  const value = body[name];
+  if (value === undefined || value === null) {
+    if (optional) {
+      return undefined as T;
+    }
+    throw new BadRequestError(`${name} is required`);
+  }
+  try {
+    return parse(value);
+  } catch {
+    throw new BadRequestError(`${name} is invalid`);
+  }
+}
+
+const string = (value: unknown) => {
+  if (typeof value !== "string") {
+    throw new TypeError();
+  }
+  return value;
+};
+
+const bigint = (value: unknown) => {
+  if (typeof value !== "string" && typeof value !== "number") {
+    throw new TypeError();
+  }
+  return BigInt(value);
+};
+
+// bigints are sent as decimal strings
+export function parseSignedAction(body: Record<string, unknown>): SignedAction {
+  return {
+    variant: field(body, "variant", string) as SignedAction["variant"],
+    contract: field(body, "contract", string),
+    action: field(body, "action", string) as SignedAction["action"],
+    agreementId: field(body, "agreementId", bigint, true),
+    arbitrator: field(body, "arbitrator", string, true),
+    feePercentage: field(body, "feePercentage", Number, true),
+    nonce: field(body, "nonce", bigint),
+    deadline: field(body, "deadline", Number),
+    signer: field(body, "signer", string),
+    signature: field(body, "signature", string),
+  };
+}
+
+export function parseForwardRequest(body: Record<string, unknown>): ForwardRequest {
+  return {
+    from: field(body, "from", string),
+    to: field(body, "to", string),
+    value: field(body, "value", bigint),
+    gas: field(body, "gas", bigint),
+    deadline: field(body, "deadline", Number),
+    data: field(body, "data", string),
+    signature: field(body, "signature", string),
+  };
+}
+
+function send(response: ServerResponse, status: number, body: Record<string, unknown>) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body, (_, value) => typeof value === "bigint" ? value.toString() : value));
+}
+
+// POST /actions takes a SignedAction, POST /forward a ForwardRequest of the forwarder,
+// both answer with the transaction or the error
+export function createRelayerServer(relayer: Relayer): Server {
+  return createServer(async (request, response) => {
+    try {
+      if (request.method === "GET" && request.url === "/health") {
+        send(response, 200, { relayer: await relayer.signer.getAddress(), forwarder: relayer.options.forwarder });
+        return;
+      }
+      if (request.method !== "POST" || (request.url !== "/actions" && request.url !== "/forward")) {
+        send(response, 404, { error: "NotFound", message: `${request.method} ${request.url} is not supported` });
+        return;
+      }
+      let body: Record<string, unknown>;
+      try {
+        body = JSON.parse(await readBody(request));
+      } catch (error) {
+        throw error instanceof BadRequestError ? error : new BadRequestError("The request body is not JSON");
+      }
+      const receipt = request.url === "/actions"
+        ? await relayer.relayAction(parseSignedAction(body))
+        : await relayer.relayForwardRequest(parseForwardRequest(body));
+      send(response, 200, { transaction: receipt.hash, block: receipt.blockNumber });
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        send(response, 400, { error: "BadRequest", message: error.message });
+      } else if (error instanceof EscrowError) {
+        send(response, 422, { error: error.name, message: error.message });
+      } else {
+        send(response, 500, { error: "InternalError", message: (error as Error).message });
+      }
+    }
+  });
+}
@@ -0,0 +1,357 @@
+import { ContractRunner, TransactionReceipt } from "ethers";
+import { EscrowAgent, EscrowAgentExtension__factory } from "../typechain-types";
+import {
+  AgreementDetails,
+  AmendmentParams,
+  approveToken,
+  ArbitratedEscrowClient,
+  BaseEscrowClient,
+  CreateEscrowParams,
+  decodeAmendments,
+  decodeEvidence,
+  decodeSettlement,
+  DEFAULT_PAGE_SIZE,
+  ETH,
+  EscrowParty,
+  findEvent,
+  PARTIES,
+  PartyQuery,
+  sendTransaction,
+} from "./EscrowClient";
+import { decodeEscrowError } from "./errors";
+import { decodePolicy, EscrowPolicy } from "./policy";
+import { decodeStatus, encodeStatusMask, EscrowStatus } from "./status";
+
+export interface MilestoneParams {
+  amount: bigint;
+  deadlineDate: number;
+  detailsHash?: string;
+}
+
+export interface CreateMilestoneEscrowParams {
+  beneficiary: string;
+  milestones: MilestoneParams[];
+  detailsHash?: string;
+  token?: string;
+  policy?: EscrowPolicy;
+}
+
+export interface Milestone extends Required<MilestoneParams> {
+  released: boolean;
+}
+
+// funds the party can withdraw from an agreement, credited when the agreement is over or a milestone is released
+export interface Claim {
+  agreementId: bigint;
+  amount: bigint;
+}
+
+const TRANSITIONS: Readonly<Record<string, readonly EscrowStatus[]>> = {
+  addFunds: ["Funded"],
+  approve: ["Funded"],
+  reject: ["Funded"],
+  cancel: ["Funded"],
+  refund: ["Active"],
+  release: ["Active"],
+  releaseMilestone: ["Active"],
+  dispute: ["Active"],
+  registerArbitrator: ["Disputed"],
+  assignArbitrator: ["Disputed"],
+  resolveDispute: ["Disputed"],
+  submitEvidence: ["Disputed"],
+  proposeSettlement: ["Active", "Disputed"],
+  acceptSettlement: ["Active", "Disputed"],
+  proposeAmendment: ["Funded", "Active"],
+  acceptAmendment: ["Funded", "Active"],
+};
+
+// an agreement of the shared EscrowAgent contract
+export class EscrowAgentClient extends BaseEscrowClient implements ArbitratedEscrowClient {
+  readonly variant = "EscrowAgent";
+  protected readonly transitions = TRANSITIONS;
+
+  constructor(readonly contract: EscrowAgent, readonly agreementId: bigint) {
+    super();
+  }
+
+  protected get contractInterface() {
+    return this.contract.interface;
+  }
+
+  protected get runner() {
+    return this.contract.runner;
+  }
+
+  // the functions of EscrowAgentExtension are called at the EscrowAgent address
+  get extension() {
+    return EscrowAgentClient.extensionOf(this.contract);
+  }
+
+  // the depositor is the signer of the contract runner, tokens are approved before creating
+  static async create(contract: EscrowAgent, params: CreateEscrowParams): Promise<EscrowAgentClient> {
+    const { beneficiary, amount, deadlineDate, detailsHash = "", token = ETH, policy } = params;
+    if (token !== ETH) {
+      await approveToken(contract.runner, token, await contract.getAddress(), amount);
+    }
+    const receipt = await sendTransaction(() => policy
+      ? contract["createAgreement(address,string,uint32,address,uint96,(uint32,uint32,uint32,uint32,uint32,uint32))"](
+        beneficiary, detailsHash, deadlineDate, token, amount, policy, { value: token === ETH ? amount : 0n })
+      : token === ETH
+      ? contract["createAgreement(address,string,uint32)"](beneficiary, detailsHash, deadlineDate, { value: amount })
+      : contract["createAgreement(address,string,uint32,address,uint96)"](
+        beneficiary, detailsHash, deadlineDate, token, amount), contract.interface);
+    return EscrowAgentClient.fromReceipt(contract, receipt);
+  }
+
+  static async createWithMilestones(contract: EscrowAgent,
+      params: CreateMilestoneEscrowParams): Promise<EscrowAgentClient> {
+    const { beneficiary, milestones, detailsHash = "", token = ETH, policy } = params;
+    const total = milestones.reduce((sum, milestone) => sum + milestone.amount, 0n);
+    if (token !== ETH) {
+      await approveToken(contract.runner, token, await contract.getAddress(), total);
+    }
+    const structs = milestones.map(({ amount, deadlineDate, detailsHash = "" }) =>
+      ({ amount, deadlineDate, detailsHash }));
+    const value = token === ETH ? total : 0n;
+    const receipt = await sendTransaction(() => policy
+      ? contract.createMilestoneAgreementWithPolicy(beneficiary, detailsHash, token, structs, policy, { value })
+      : contract.createMilestoneAgreement(beneficiary, detailsHash, token, structs, { value }), contract.interface);
+    return EscrowAgentClient.fromReceipt(contract, receipt);
+  }
+
+  // agreements of the party in the role, oldest first, the arbitrators keep their resolved agreements
+  static async findByParty(contract: EscrowAgent, party: string, role: EscrowParty,
+      query: PartyQuery = {}): Promise<EscrowAgentClient[]> {
+    const mask = encodeStatusMask("EscrowAgent", query.statuses);
+    const clients: EscrowAgentClient[] = [];
+    let cursor = 0n;
+    do {
+      let agreementIds: bigint[];
+      try {
+        [agreementIds, cursor] = await contract.getPartyAgreements(party, PARTIES.indexOf(role), mask, cursor,
+          query.pageSize ?? DEFAULT_PAGE_SIZE);
+      } catch (error) {
+        throw decodeEscrowError(error, contract.interface);
+      }
+      clients.push(...agreementIds.map((agreementId) => new EscrowAgentClient(contract, agreementId)));
+    } while (cursor !== 0n);
+    return clients;
+  }
+
+  // the claims of the party in all the agreements of the contract
+  static async getClaims(contract: EscrowAgent, party: string): Promise<Claim[]> {
+    const extension = EscrowAgentClient.extensionOf(contract);
+    try {
+      const [agreementIds, amounts] = await extension.getClaims(party);
+      return agreementIds.map((agreementId, index) => ({ agreementId, amount: amounts[index] }));
+    } catch (error) {
+      throw decodeEscrowError(error, extension.interface);
+    }
+  }
+
+  static async getClaimableBalance(contract: EscrowAgent, party: string, token = ETH): Promise<bigint> {
+    const extension = EscrowAgentClient.extensionOf(contract);
+    try {
+      return await extension.getClaimableBalance(party, token);
+    } catch (error) {
+      throw decodeEscrowError(error, extension.interface);
+    }
+  }
+
+  // withdraws all the claims of the runner in the token with a single transfer to the recipient
+  static withdrawAll(contract: EscrowAgent, recipient: string, token = ETH): Promise<TransactionReceipt> {
+    const extension = EscrowAgentClient.extensionOf(contract);
+    return sendTransaction(() => extension.withdrawAll(token, recipient), extension.interface);
+  }
+
+  private static extensionOf(contract: EscrowAgent) {
+    return EscrowAgentExtension__factory.connect(contract.target as string, contract.runner);
+  }
+
+  private static fromReceipt(contract: EscrowAgent, receipt: TransactionReceipt) {
+    const event = findEvent(receipt.logs, contract.interface, "AgreementCreated");
+    return new EscrowAgentClient(contract, event.args.agreementId);
+  }
+
+  connect(runner: ContractRunner): EscrowAgentClient {
+    return new EscrowAgentClient(this.contract.connect(runner), this.agreementId);
+  }
+
+  getAddress() {
+    return this.contract.getAddress();
+  }
+
+  async getStatus() {
+    const status = await this.read(() => this.contract.getAgreementStatus(this.agreementId));
+    return decodeStatus(this.variant, status);
+  }
+
+  // only the depositor, beneficiary or arbitrator can read the details
+  async getDetails(): Promise<AgreementDetails> {
+    const [detailsHash, amount, startDate, deadlineDate, token] =
+      await this.read(() => this.contract.getAgreementDetails(this.agreementId));
+    return {
+      amount,
+      startDate: Number(startDate),
+      deadlineDate: Number(deadlineDate),
+      status: await this.getStatus(),
+      token,
+      detailsHash,
+    };
+  }
+
+  async getMilestones(): Promise<Milestone[]> {
+    const [milestones, released] = await this.read(() => this.contract.getMilestones(this.agreementId));
+    return milestones.map((milestone, index) => ({
+      amount: milestone.amount,
+      deadlineDate: Number(milestone.deadlineDate),
+      detailsHash: milestone.detailsHash,
+      released: index < released,
+    }));
+  }
+
+  async addFunds(amount: bigint) {
+    const { token } = await this.getDetails();
+    if (token !== ETH) {
+      await approveToken(this.runner, token, await this.getAddress(), amount);
+      return this.send("addFunds", () => this.contract.addTokenFunds(this.agreementId, amount));
+    }
+    return this.send("addFunds", () => this.contract.addFunds(this.agreementId, { value: amount }));
+  }
+
+  approve() {
+    return this.send("approve", () => this.contract.approveAgreement(this.agreementId));
+  }
+
+  reject() {
+    return this.send("reject", () => this.contract.rejectAgreement(this.agreementId));
+  }
+
+  cancel() {
+    return this.send("cancel", () => this.contract.cancelAgreement(this.agreementId));
+  }
+
+  refund() {
+    return this.send("refund", () => this.contract.refundAgreement(this.agreementId));
+  }
+
+  release() {
+    return this.send("release", () => this.contract.releaseFunds(this.agreementId));
+  }
+
+  releaseMilestone(index: number) {
+    return this.send("releaseMilestone", () => this.contract.releaseMilestone(this.agreementId, index));
+  }
+
+  dispute() {
+    return this.send("dispute", () => this.contract.raiseDispute(this.agreementId));
+  }
+
+  withdraw() {
+    return this.send("withdraw", () => this.contract.withdrawFunds(this.agreementId));
+  }
+
+  // withdraws the claim of the signer to another address
+  withdrawTo(recipient: string) {
+    return this.send("withdraw", () => this.extension.withdrawFundsTo(this.agreementId, recipient));
+  }
+
+  // the claim of the signer, zero once it's withdrawn
+  getWithdrawBalance() {
+    return this.read(() => this.extension.getWithdrawBalance(this.agreementId));
+  }
+
+  proposeSettlement(refundPercentage: number) {
+    return this.send("proposeSettlement",
+      () => this.contract.proposeSettlement(this.agreementId, refundPercentage));
+  }
+
+  acceptSettlement(refundPercentage: number) {
+    return this.send("acceptSettlement", () => this.contract.acceptSettlement(this.agreementId, refundPercentage));
+  }
+
+  async getSettlement() {
+    return decodeSettlement(await this.read(() => this.contract.getSettlement(this.agreementId)));
+  }
+
+  // the milestone agreements amend the document only
+  async proposeAmendment({ deadlineDate = 0, addedAmount = 0n, detailsHash = "" }: AmendmentParams) {
+    const amount = await this.proposalAmount(addedAmount);
+    const { token } = await this.getDetails();
+    if (token !== ETH && amount > 0n) {
+      await approveToken(this.runner, token, await this.getAddress(), amount);
+    }
+    return this.send("proposeAmendment", () => this.extension.proposeAmendment(this.agreementId, deadlineDate,
+      addedAmount, detailsHash, { value: token === ETH ? amount : 0n }));
+  }
+
+  async acceptAmendment(version: number) {
+    const amount = await this.amendmentAmount(version);
+    const { token } = await this.getDetails();
+    if (token !== ETH && amount > 0n) {
+      await approveToken(this.runner, token, await this.getAddress(), amount);
+    }
+    return this.send("acceptAmendment", () => this.extension.acceptAmendment(this.agreementId, version,
+      { value: token === ETH ? amount : 0n }));
+  }
+
+  async getAmendments() {
+    return decodeAmendments(await this.read(() => this.extension.getAmendments(this.agreementId)));
+  }
+
+  // the funds are credited to the depositor's claim of the agreement
+  reclaimAmendmentFunds() {
+    return this.send("reclaimAmendmentFunds", () => this.extension.reclaimAmendmentFunds(this.agreementId));
+  }
+
+  getAmendmentFunds() {
+    return this.read(() => this.extension.getAmendmentFunds(this.agreementId));
+  }
+
+  protected async getDepositor() {
+    const [depositor] = await this.read(() => this.contract.getDisputeParties(this.agreementId));
+    return depositor;
+  }
+
+  registerArbitrator(arbitrator: string, feePercentage: number) {
+    return this.send("registerArbitrator",
+      () => this.contract.registerArbitrator(this.agreementId, arbitrator, feePercentage));
+  }
+
+  assignArbitrator() {
+    return this.send("assignArbitrator", () => this.contract.assignArbitrator(this.agreementId));
+  }
+
+  isAssignmentPending() {
+    return this.read(() => this.contract.isAssignmentPending(this.agreementId));
+  }
+
+  async getPolicy() {
+    return decodePolicy(await this.read(() => this.contract.getAgreementPolicy(this.agreementId)));
+  }
+
+  resolveDispute(refundPercentage?: number, rationaleHash?: string) {
+    return this.send("resolveDispute", () => refundPercentage === undefined
+      ? this.contract["resolveDispute(uint256)"](this.agreementId)
+      : rationaleHash === undefined
+      ? this.contract["resolveDispute(uint256,uint32)"](this.agreementId, refundPercentage)
+      : this.contract["resolveDispute(uint256,uint32,string)"](this.agreementId, refundPercentage, rationaleHash));
+  }
+
+  submitEvidence(evidenceHash: string) {
+    return this.send("submitEvidence", () => this.contract.submitEvidence(this.agreementId, evidenceHash));
+  }
+
+  async getEvidence() {
+    const count = await this.read(() => this.contract.getEvidenceCount(this.agreementId));
+    const evidence = [];
+    for (let index = 0n; index < count; index++) {
+      evidence.push(decodeEvidence(await this.read(() => this.contract.getEvidence(this.agreementId, index))));
+    }
+    return evidence;
+  }
+
+  async getRuling() {
+    return (await this.read(() => this.contract.getRuling(this.agreementId))) || undefined;
+  }
+}
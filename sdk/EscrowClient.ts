@@ -0,0 +1,306 @@
+import { ContractRunner, Interface, Log, Signer, TransactionReceipt, TransactionResponse } from "ethers";
+import { IERC20__factory } from "../typechain-types";
+import { decodeEscrowError, EscrowError, InvalidTransitionError } from "./errors";
+import { EscrowPolicy } from "./policy";
+import { EscrowStatus, EscrowVariant } from "./status";
+
+export const ETH = "0x0000000000000000000000000000000000000000";
+
+export type EscrowAction =
+  "addFunds" | "approve" | "reject" | "cancel" | "refund" | "release" | "dispute" | "withdraw" |
+  "proposeSettlement" | "acceptSettlement" | "proposeAmendment" | "acceptAmendment";
+
+export interface CreateEscrowParams {
+  beneficiary: string;
+  amount: bigint;
+  deadlineDate: number;
+  // agreement document CID, see documents/, MultisigEscrow sets it after the creation
+  detailsHash?: string;
+  // erc20 token, ETH by default
+  token?: string;
+  // timing and fees accepted by the beneficiary on approval, the contract default otherwise,
+  // MultisigEscrow has no policy
+  policy?: EscrowPolicy;
+}
+
+export interface AgreementDetails {
+  amount: bigint;
+  startDate: number;
+  deadlineDate: number;
+  status: EscrowStatus;
+  token: string;
+  detailsHash?: string;
+}
+
+// split of the funds proposed by one party to the other
+export interface Settlement {
+  proposer: string;
+  // depositor's share in the 1_000_000 base
+  refundPercentage: number;
+}
+
+// new terms proposed by one party to the other, the omitted terms stay the same,
+// the depositor sends the added funds with the own proposal or accepting the beneficiary's one
+export interface AmendmentParams {
+  deadlineDate?: number;
+  addedAmount?: bigint;
+  detailsHash?: string;
+}
+
+// zero values keep the terms, the version is the position of the proposal starting from 1
+export interface Amendment {
+  version: number;
+  proposer: string;
+  deadlineDate: number;
+  addedAmount: bigint;
+  detailsHash: string;
+  accepted: boolean;
+}
+
+// fee the factory takes from the funds released to the beneficiary at the rate recorded on creation,
+// escrows deployed without a factory pay none
+export interface ProtocolFee {
+  treasury: string;
+  // in the 10_000 base
+  basisPoints: number;
+}
+
+// roles of IEscrowAgent.Party, MultisigEscrow has no arbitrator
+export type EscrowParty = "depositor" | "beneficiary" | "arbitrator";
+
+export const PARTIES: readonly EscrowParty[] = ["depositor", "beneficiary", "arbitrator"];
+
+export interface PartyQuery {
+  // any status by default
+  statuses?: readonly EscrowStatus[];
+  // agreements listed per contract call
+  pageSize?: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+// a CID submitted by the depositor or beneficiary while the dispute is open
+export interface Evidence {
+  submitter: string;
+  submittedDate: number;
+  evidenceHash: string;
+}
+
+// linear vesting of the funds between the start date and the deadline, nothing vests before the cliff,
+// leaving the active status freezes the stream and the splits apply to the funds it didn't vest
+export interface Stream {
+  cliffDate: number;
+  // zero while it streams
+  frozenDate: number;
+  // funds vested until the freeze
+  frozenAmount: bigint;
+  withdrawnAmount: bigint;
+}
+
+// common workflow of all escrow variants, every transaction resolves to its receipt
+export interface EscrowClient {
+  readonly variant: EscrowVariant;
+  connect(runner: ContractRunner): EscrowClient;
+  getAddress(): Promise<string>;
+  getStatus(): Promise<EscrowStatus>;
+  getDetails(): Promise<AgreementDetails>;
+  // whether the current status allows the action
+  canSend(action: EscrowAction): Promise<boolean>;
+  // adds ETH or approves and adds tokens of the agreement
+  addFunds(amount: bigint): Promise<TransactionReceipt>;
+  approve(): Promise<TransactionReceipt>;
+  reject(): Promise<TransactionReceipt>;
+  cancel(): Promise<TransactionReceipt>;
+  refund(): Promise<TransactionReceipt>;
+  release(): Promise<TransactionReceipt>;
+  dispute(): Promise<TransactionReceipt>;
+  withdraw(): Promise<TransactionReceipt>;
+  // the other party accepts the proposal or counter-proposes another one
+  proposeSettlement(refundPercentage: number): Promise<TransactionReceipt>;
+  // the percentage must match the proposal of the other party
+  acceptSettlement(refundPercentage: number): Promise<TransactionReceipt>;
+  // the last proposal, undefined if there is none
+  getSettlement(): Promise<Settlement | undefined>;
+  // a new proposal replaces the pending one
+  proposeAmendment(amendment: AmendmentParams): Promise<TransactionReceipt>;
+  // the version must match the pending proposal of the other party, the depositor adds the asked funds
+  acceptAmendment(version: number): Promise<TransactionReceipt>;
+  // all the proposals in the order of their versions
+  getAmendments(): Promise<Amendment[]>;
+  // the depositor takes back the funds of the own proposal the beneficiary didn't accept
+  reclaimAmendmentFunds(): Promise<TransactionReceipt>;
+  // funds the depositor sent with a proposal, zero once they're added or returned
+  getAmendmentFunds(): Promise<bigint>;
+}
+
+// variants with an arbitrated dispute resolution
+export interface ArbitratedEscrowClient extends EscrowClient {
+  connect(runner: ContractRunner): ArbitratedEscrowClient;
+  registerArbitrator(arbitrator: string, feePercentage: number): Promise<TransactionReceipt>;
+  // requests a random pool arbitrator, it's assigned when the randomness coordinator fulfills the request
+  assignArbitrator(): Promise<TransactionReceipt>;
+  isAssignmentPending(): Promise<boolean>;
+  getPolicy(): Promise<EscrowPolicy>;
+  // without the percentage the depositor or beneficiary split an unresolved dispute,
+  // the arbitrator may explain the resolution by the rationale CID
+  resolveDispute(refundPercentage?: number, rationaleHash?: string): Promise<TransactionReceipt>;
+  submitEvidence(evidenceHash: string): Promise<TransactionReceipt>;
+  // the evidence log in the submission order
+  getEvidence(): Promise<Evidence[]>;
+  // the rationale CID of the resolution, undefined if the arbitrator gave none
+  getRuling(): Promise<string | undefined>;
+}
+
+// variants streaming the funds to the beneficiary
+export interface StreamingEscrowClient extends EscrowClient {
+  // the depositor streams the funds before the beneficiary approves, zero cliff streams from the start date
+  setStream(cliffDate?: number): Promise<TransactionReceipt>;
+  // the beneficiary withdraws the vested funds
+  withdrawStreamed(): Promise<TransactionReceipt>;
+  // undefined if the agreement doesn't stream the funds
+  getStream(): Promise<Stream | undefined>;
+  // vested funds the beneficiary can withdraw
+  getStreamBalance(): Promise<bigint>;
+}
+
+export abstract class BaseEscrowClient implements EscrowClient {
+  abstract readonly variant: EscrowVariant;
+
+  // statuses an action can be sent in, actions without an entry are checked by the contract only
+  protected abstract readonly transitions: Readonly<Record<string, readonly EscrowStatus[]>>;
+
+  protected abstract readonly contractInterface: Interface;
+
+  abstract connect(runner: ContractRunner): EscrowClient;
+  abstract getAddress(): Promise<string>;
+  abstract getStatus(): Promise<EscrowStatus>;
+  abstract getDetails(): Promise<AgreementDetails>;
+  abstract addFunds(amount: bigint): Promise<TransactionReceipt>;
+  abstract approve(): Promise<TransactionReceipt>;
+  abstract reject(): Promise<TransactionReceipt>;
+  abstract cancel(): Promise<TransactionReceipt>;
+  abstract refund(): Promise<TransactionReceipt>;
+  abstract release(): Promise<TransactionReceipt>;
+  abstract dispute(): Promise<TransactionReceipt>;
+  abstract withdraw(): Promise<TransactionReceipt>;
+  abstract proposeSettlement(refundPercentage: number): Promise<TransactionReceipt>;
+  abstract acceptSettlement(refundPercentage: number): Promise<TransactionReceipt>;
+  abstract getSettlement(): Promise<Settlement | undefined>;
+  abstract proposeAmendment(amendment: AmendmentParams): Promise<TransactionReceipt>;
+  abstract acceptAmendment(version: number): Promise<TransactionReceipt>;
+  abstract getAmendments(): Promise<Amendment[]>;
+  abstract reclaimAmendmentFunds(): Promise<TransactionReceipt>;
+  abstract getAmendmentFunds(): Promise<bigint>;
+
+  protected abstract getDepositor(): Promise<string>;
+
+  // funds the depositor adds accepting the version, zero for an unknown version rejected by the contract
+  // and for the depositor's own proposal, its funds are sent with it
+  protected async amendmentAmount(version: number): Promise<bigint> {
+    const amendment = (await this.getAmendments())[version - 1];
+    if (!amendment || amendment.proposer.toLowerCase() === (await this.getDepositor()).toLowerCase()) {
+      return 0n;
+    }
+    return amendment.addedAmount;
+  }
+
+  // funds the signer sends with the proposal, only the depositor sends the added amount
+  protected async proposalAmount(addedAmount: bigint): Promise<bigint> {
+    if (addedAmount === 0n) {
+      return 0n;
+    }
+    const signer = await this.signer.getAddress();
+    return signer.toLowerCase() === (await this.getDepositor()).toLowerCase() ? addedAmount : 0n;
+  }
+
+  async canSend(action: string): Promise<boolean> {
+    const allowed = this.transitions[action];
+    return !allowed || allowed.includes(await this.getStatus());
+  }
+
+  protected async send(action: string,
+      transaction: () => Promise<TransactionResponse>): Promise<TransactionReceipt> {
+    const allowed = this.transitions[action];
+    if (allowed) {
+      const status = await this.getStatus();
+      if (!allowed.includes(status)) {
+        throw new InvalidTransitionError(action, status, allowed);
+      }
+    }
+    return sendTransaction(transaction, this.contractInterface);
+  }
+
+  protected get signer(): Signer {
+    const runner = this.runner;
+    if (!runner || !("getAddress" in runner)) {
+      throw new EscrowError("The transaction requires a signer");
+    }
+    return runner as Signer;
+  }
+
+  protected abstract readonly runner: ContractRunner | null;
+
+  protected async read<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      throw decodeEscrowError(error, this.contractInterface);
+    }
+  }
+}
+
+export async function sendTransaction(transaction: () => Promise<TransactionResponse>,
+    contractInterface: Interface): Promise<TransactionReceipt> {
+  try {
+    const response = await transaction();
+    return (await response.wait()) as TransactionReceipt;
+  } catch (error) {
+    throw decodeEscrowError(error, contractInterface);
+  }
+}
+
+export async function approveToken(runner: ContractRunner | null, token: string,
+    spender: string, amount: bigint): Promise<void> {
+  const erc20 = IERC20__factory.connect(token, runner);
+  await sendTransaction(() => erc20.approve(spender, amount), erc20.interface);
+}
+
+// the contracts return the zero proposer without a proposal
+export function decodeSettlement(settlement: { proposer: string; refundPercentage: bigint }): Settlement | undefined {
+  const { proposer, refundPercentage } = settlement;
+  return proposer === ETH ? undefined : { proposer, refundPercentage: Number(refundPercentage) };
+}
+
+export function decodeAmendments(amendments: readonly { proposer: string; addedAmount: bigint;
+    deadlineDate: bigint; accepted: boolean; detailsHash: string }[]): Amendment[] {
+  return amendments.map(({ proposer, addedAmount, deadlineDate, accepted, detailsHash }, index) =>
+    ({ version: index + 1, proposer, deadlineDate: Number(deadlineDate), addedAmount, detailsHash, accepted }));
+}
+
+export function decodeStream(stream: { enabled: boolean; cliffDate: bigint; frozenDate: bigint;
+    frozenAmount: bigint; withdrawnAmount: bigint }): Stream | undefined {
+  const { enabled, cliffDate, frozenDate, frozenAmount, withdrawnAmount } = stream;
+  return enabled
+    ? { cliffDate: Number(cliffDate), frozenDate: Number(frozenDate), frozenAmount, withdrawnAmount }
+    : undefined;
+}
+
+export function decodeEvidence(
+    evidence: { submitter: string; submittedDate: bigint; evidenceHash: string }): Evidence {
+  const { submitter, submittedDate, evidenceHash } = evidence;
+  return { submitter, submittedDate: Number(submittedDate), evidenceHash };
+}
+
+export function decodeProtocolFee([treasury, basisPoints]: [string, bigint]): ProtocolFee {
+  return { treasury, basisPoints: Number(basisPoints) };
+}
+
+export function findEvent(logs: readonly Log[], contractInterface: Interface, name: string) {
+  for (const log of logs) {
+    const parsed = contractInterface.parseLog(log);
+    if (parsed?.name === name) {
+      return parsed;
+    }
+  }
+  throw new Error(`${name} event not found`);
+}
@@ -0,0 +1,256 @@
+import { ContractRunner } from "ethers";
+import { MultisigEscrow, MultisigEscrow__factory, MultisigEscrowFactory } from "../typechain-types";
+import {
+  AgreementDetails,
+  AmendmentParams,
+  approveToken,
+  BaseEscrowClient,
+  CreateEscrowParams,
+  decodeAmendments,
+  decodeProtocolFee,
+  decodeSettlement,
+  decodeStream,
+  DEFAULT_PAGE_SIZE,
+  ETH,
+  EscrowParty,
+  findEvent,
+  PartyQuery,
+  sendTransaction,
+  StreamingEscrowClient,
+} from "./EscrowClient";
+import { decodeEscrowError } from "./errors";
+import { decodeStatus, encodeStatusMask, EscrowStatus } from "./status";
+
+export interface MultisigAgreementDetails extends AgreementDetails {
+  depositor: string;
+  beneficiary: string;
+  multisig: string;
+  approved: boolean;
+}
+
+const TRANSITIONS: Readonly<Record<string, readonly EscrowStatus[]>> = {
+  addFunds: ["Funded", "Active"],
+  approve: ["Funded"],
+  reject: ["Funded"],
+  cancel: ["Funded"],
+  refund: ["Active"],
+  release: ["Active"],
+  dispute: ["Active"],
+  withdrawFunds: ["Closed"],
+  setDetails: ["Funded"],
+  setStream: ["Funded"],
+  proposeSettlement: ["Active", "Locked"],
+  acceptSettlement: ["Active", "Locked"],
+  proposeAmendment: ["Funded", "Active"],
+  acceptAmendment: ["Funded", "Active"],
+  removeFunds: ["Revoked", "Rejected", "Refunded"],
+};
+
+// a MultisigEscrow contract, a dispute locks the funds until a multisig compensates the agreement
+export class MultisigEscrowClient extends BaseEscrowClient implements StreamingEscrowClient {
+  readonly variant = "MultisigEscrow";
+  protected readonly transitions = TRANSITIONS;
+
+  constructor(readonly contract: MultisigEscrow) {
+    super();
+  }
+
+  protected get contractInterface() {
+    return this.contract.interface;
+  }
+
+  protected get runner() {
+    return this.contract.runner;
+  }
+
+  // the depositor is the signer of the factory runner, tokens are approved to the factory before creating,
+  // the document is attached by another transaction
+  static async create(factory: MultisigEscrowFactory, params: CreateEscrowParams): Promise<MultisigEscrowClient> {
+    const { beneficiary, amount, deadlineDate, detailsHash, token = ETH } = params;
+    if (token !== ETH) {
+      await approveToken(factory.runner, token, await factory.getAddress(), amount);
+    }
+    const receipt = await sendTransaction(() => token === ETH
+      ? factory.createEscrow(beneficiary, deadlineDate, { value: amount })
+      : factory.createTokenEscrow(beneficiary, deadlineDate, token, amount), factory.interface);
+    const event = findEvent(receipt.logs, factory.interface, "EscrowCreated");
+    const client = new MultisigEscrowClient(MultisigEscrow__factory.connect(event.args.escrow, factory.runner));
+    if (detailsHash) {
+      await client.setDetails(detailsHash);
+    }
+    return client;
+  }
+
+  // address of the next escrow the depositor creates with the factory
+  static predictAddress(factory: MultisigEscrowFactory, depositor: string): Promise<string> {
+    return factory.predictEscrowAddress(depositor);
+  }
+
+  // escrows of the factory the party is the depositor or the beneficiary of, oldest first
+  static async findByParty(factory: MultisigEscrowFactory, party: string, role: Exclude<EscrowParty, "arbitrator">,
+      query: PartyQuery = {}): Promise<MultisigEscrowClient[]> {
+    const mask = encodeStatusMask("MultisigEscrow", query.statuses);
+    const clients: MultisigEscrowClient[] = [];
+    let cursor = 0n;
+    do {
+      let escrows: string[];
+      try {
+        [escrows, cursor] = await factory.getEscrowsOf(party, role === "beneficiary", mask, cursor,
+          query.pageSize ?? DEFAULT_PAGE_SIZE);
+      } catch (error) {
+        throw decodeEscrowError(error, factory.interface);
+      }
+      clients.push(...escrows.map((escrow) =>
+        new MultisigEscrowClient(MultisigEscrow__factory.connect(escrow, factory.runner))));
+    } while (cursor !== 0n);
+    return clients;
+  }
+
+  connect(runner: ContractRunner): MultisigEscrowClient {
+    return new MultisigEscrowClient(this.contract.connect(runner));
+  }
+
+  getAddress() {
+    return this.contract.getAddress();
+  }
+
+  async getStatus() {
+    return decodeStatus(this.variant, await this.read(() => this.contract.getAgreementStatus()));
+  }
+
+  // only the depositor or beneficiary can read the details
+  async getDetails(): Promise<MultisigAgreementDetails> {
+    const [amount, startDate, deadlineDate, status, depositor, beneficiary, multisig, approved, token] =
+      await this.read(() => this.contract.getAgreementDetails());
+    return {
+      amount,
+      startDate: Number(startDate),
+      deadlineDate: Number(deadlineDate),
+      status: decodeStatus(this.variant, status),
+      token,
+      depositor,
+      beneficiary,
+      multisig,
+      approved,
+      detailsHash: await this.read(() => this.contract.getDetailsHash()) || undefined,
+    };
+  }
+
+  // the depositor attaches the document until the beneficiary approves the agreement
+  setDetails(detailsHash: string) {
+    return this.send("setDetails", () => this.contract.setDetails(detailsHash));
+  }
+
+  async addFunds(amount: bigint) {
+    const { token } = await this.getDetails();
+    if (token !== ETH) {
+      await approveToken(this.runner, token, await this.getAddress(), amount);
+      return this.send("addFunds", () => this.contract.addFunds(amount));
+    }
+    const to = await this.getAddress();
+    return this.send("addFunds", () => this.signer.sendTransaction({ to, value: amount }));
+  }
+
+  approve() {
+    return this.send("approve", () => this.contract.approveAgreement());
+  }
+
+  reject() {
+    return this.send("reject", () => this.contract.rejectAgreement());
+  }
+
+  cancel() {
+    return this.send("cancel", () => this.contract.revokeAgreement());
+  }
+
+  refund() {
+    return this.send("refund", () => this.contract.refundAgreement());
+  }
+
+  release() {
+    return this.send("release", () => this.contract.releaseFunds());
+  }
+
+  dispute() {
+    return this.send("dispute", () => this.contract.lockFunds());
+  }
+
+  proposeSettlement(refundPercentage: number) {
+    return this.send("proposeSettlement", () => this.contract.proposeSettlement(refundPercentage));
+  }
+
+  // the refund is sent to the depositor, the beneficiary withdraws the rest
+  acceptSettlement(refundPercentage: number) {
+    return this.send("acceptSettlement", () => this.contract.acceptSettlement(refundPercentage));
+  }
+
+  async getSettlement() {
+    return decodeSettlement(await this.read(() => this.contract.getSettlement()));
+  }
+
+  // the contract keeps no document, the accepted amendments record its CID
+  async proposeAmendment({ deadlineDate = 0, addedAmount = 0n, detailsHash = "" }: AmendmentParams) {
+    const amount = await this.proposalAmount(addedAmount);
+    const { token } = await this.getDetails();
+    if (token !== ETH && amount > 0n) {
+      await approveToken(this.runner, token, await this.getAddress(), amount);
+    }
+    return this.send("proposeAmendment", () => this.contract.proposeAmendment(deadlineDate, addedAmount,
+      detailsHash, { value: token === ETH ? amount : 0n }));
+  }
+
+  async acceptAmendment(version: number) {
+    const amount = await this.amendmentAmount(version);
+    const { token } = await this.getDetails();
+    if (token !== ETH && amount > 0n) {
+      await approveToken(this.runner, token, await this.getAddress(), amount);
+    }
+    return this.send("acceptAmendment",
+      () => this.contract.acceptAmendment(version, { value: token === ETH ? amount : 0n }));
+  }
+
+  async getAmendments() {
+    return decodeAmendments(await this.read(() => this.contract.getAmendments()));
+  }
+
+  reclaimAmendmentFunds() {
+    return this.send("reclaimAmendmentFunds", () => this.contract.reclaimAmendmentFunds());
+  }
+
+  getAmendmentFunds() {
+    return this.read(() => this.contract.getAmendmentFunds());
+  }
+
+  protected async getDepositor() {
+    return (await this.getDetails()).depositor;
+  }
+
+  async getProtocolFee() {
+    return decodeProtocolFee(await this.read(() => this.contract.getProtocolFee()));
+  }
+
+  setStream(cliffDate = 0) {
+    return this.send("setStream", () => this.contract.setStream(cliffDate));
+  }
+
+  withdrawStreamed() {
+    return this.send("withdrawStreamed", () => this.contract.withdrawStreamed());
+  }
+
+  async getStream() {
+    return decodeStream(await this.read(() => this.contract.getStream()));
+  }
+
+  getStreamBalance() {
+    return this.read(() => this.contract.getStreamBalance());
+  }
+
+  // the beneficiary withdraws released funds, the depositor removes returned ones
+  async withdraw() {
+    const { beneficiary } = await this.getDetails();
+    if ((await this.signer.getAddress()).toLowerCase() === beneficiary.toLowerCase()) {
+      return this.send("withdrawFunds", () => this.contract.withdrawFunds());
+    }
+    return this.send("removeFunds", () => this.contract.removeFunds());
+  }
+}
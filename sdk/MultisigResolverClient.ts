@@ -0,0 +1,111 @@
+import { ContractRunner, TransactionReceipt } from "ethers";
+import { MultisigEscrow__factory, MultisigEscrowFactory, MultisigResolver, MultisigResolver__factory }
+  from "../typechain-types";
+import { approveToken, CreateEscrowParams, ETH, findEvent, sendTransaction } from "./EscrowClient";
+import { decodeEscrowError } from "./errors";
+import { MultisigEscrowClient } from "./MultisigEscrowClient";
+
+export interface ResolverPanel {
+  signers: string[];
+  // number of the signers submitting the same amount to compensate the agreement
+  threshold: number;
+  resolutionPeriod: number;
+  // depositor's share of the funds in the 1_000_000 base if the panel stalls
+  fallbackRefundPercentage: number;
+}
+
+export interface Resolution {
+  // undefined until the resolution is started
+  startDate?: number;
+  deadlineDate?: number;
+  resolved: boolean;
+}
+
+// a MultisigResolver panel, the multisig compensating the agreement of a MultisigEscrow by M of N signers
+export class MultisigResolverClient {
+
+  constructor(readonly contract: MultisigResolver) {}
+
+  // the depositor is the signer of the factory runner, the panel is the approved multisig of the escrow
+  static async createWithEscrow(factory: MultisigEscrowFactory, params: CreateEscrowParams,
+      panel: ResolverPanel): Promise<{ escrow: MultisigEscrowClient; resolver: MultisigResolverClient }> {
+    const { beneficiary, amount, deadlineDate, detailsHash, token = ETH } = params;
+    if (token !== ETH) {
+      await approveToken(factory.runner, token, await factory.getAddress(), amount);
+    }
+    const receipt = await sendTransaction(() => factory.createEscrowWithResolver(beneficiary, deadlineDate, token,
+      amount, panel, { value: token === ETH ? amount : 0n }), factory.interface);
+    const event = findEvent(receipt.logs, factory.interface, "ResolverCreated");
+    const escrow = new MultisigEscrowClient(MultisigEscrow__factory.connect(event.args.escrow, factory.runner));
+    if (detailsHash) {
+      await escrow.setDetails(detailsHash);
+    }
+    return { escrow, resolver: MultisigResolverClient.fromEvent(factory, event.args.resolver) };
+  }
+
+  // a panel for an existing escrow, the beneficiary sets it as the multisig and the depositor approves it
+  static async create(factory: MultisigEscrowFactory, escrow: string,
+      panel: ResolverPanel): Promise<MultisigResolverClient> {
+    const receipt = await sendTransaction(() => factory.createResolver(escrow, panel), factory.interface);
+    const event = findEvent(receipt.logs, factory.interface, "ResolverCreated");
+    return MultisigResolverClient.fromEvent(factory, event.args.resolver);
+  }
+
+  private static fromEvent(factory: MultisigEscrowFactory, resolver: string) {
+    return new MultisigResolverClient(MultisigResolver__factory.connect(resolver, factory.runner));
+  }
+
+  connect(runner: ContractRunner): MultisigResolverClient {
+    return new MultisigResolverClient(this.contract.connect(runner));
+  }
+
+  getAddress() {
+    return this.contract.getAddress();
+  }
+
+  async getPanel(): Promise<ResolverPanel> {
+    const { signers, threshold, resolutionPeriod, fallbackRefundPercentage } =
+      await this.read(() => this.contract.getPanel());
+    return {
+      signers: [...signers],
+      threshold: Number(threshold),
+      resolutionPeriod: Number(resolutionPeriod),
+      fallbackRefundPercentage: Number(fallbackRefundPercentage),
+    };
+  }
+
+  async getResolution(): Promise<Resolution> {
+    const [startDate, deadlineDate, resolved] = await this.read(() => this.contract.getResolution());
+    return startDate === 0n
+      ? { resolved }
+      : { startDate: Number(startDate), deadlineDate: Number(deadlineDate), resolved };
+  }
+
+  // the signers whose last submission is the amount
+  getApprovals(amount: bigint): Promise<bigint> {
+    return this.read(() => this.contract.getApprovals(amount));
+  }
+
+  // starts the resolution period of the locked escrow, so the fallback is available if the panel never acts
+  startResolution(): Promise<TransactionReceipt> {
+    return sendTransaction(() => this.contract.startResolution(), this.contract.interface);
+  }
+
+  // the amount submitted by the threshold of the signers compensates the agreement
+  submitCompensation(amount: bigint): Promise<TransactionReceipt> {
+    return sendTransaction(() => this.contract.submitCompensation(amount), this.contract.interface);
+  }
+
+  // splits the funds by the fallback refund percentage after the resolution deadline
+  resolveStalled(): Promise<TransactionReceipt> {
+    return sendTransaction(() => this.contract.resolveStalled(), this.contract.interface);
+  }
+
+  private async read<T>(call: () => Promise<T>): Promise<T> {
+    try {
+      return await call();
+    } catch (error) {
+      throw decodeEscrowError(error, this.contract.interface);
+    }
+  }
+}
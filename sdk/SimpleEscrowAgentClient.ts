@@ -0,0 +1,258 @@
+import { ContractRunner, Signer, ZeroAddress } from "ethers";
+import { SimpleEscrowAgent, SimpleEscrowAgent__factory, SimpleEscrowFactory } from "../typechain-types";
+import {
+  AgreementDetails,
+  AmendmentParams,
+  ArbitratedEscrowClient,
+  BaseEscrowClient,
+  CreateEscrowParams,
+  decodeAmendments,
+  decodeEvidence,
+  decodeProtocolFee,
+  decodeSettlement,
+  decodeStream,
+  ETH,
+  findEvent,
+  sendTransaction,
+  StreamingEscrowClient,
+} from "./EscrowClient";
+import { WrongTokenError } from "./errors";
+import { decodePolicy, DEFAULT_POLICY } from "./policy";
+import { decodeStatus, EscrowStatus } from "./status";
+
+// pool arbitrators are assigned only with a randomness coordinator
+export interface SimpleEscrowOptions {
+  arbitratorsPool?: string[];
+  randomnessCoordinator?: string;
+}
+
+const TRANSITIONS: Readonly<Record<string, readonly EscrowStatus[]>> = {
+  addFunds: ["Funded"],
+  approve: ["Funded"],
+  reject: ["Funded"],
+  cancel: ["Funded"],
+  refund: ["Active"],
+  release: ["Active"],
+  dispute: ["Active"],
+  registerArbitrator: ["Disputed"],
+  assignArbitrator: ["Disputed"],
+  resolveDispute: ["Disputed"],
+  submitEvidence: ["Disputed"],
+  proposeSettlement: ["Active", "Disputed"],
+  acceptSettlement: ["Active", "Disputed"],
+  proposeAmendment: ["Funded", "Active"],
+  acceptAmendment: ["Funded", "Active"],
+  setStream: ["Funded"],
+};
+
+// a SimpleEscrowAgent contract holding a single agreement
+export class SimpleEscrowAgentClient extends BaseEscrowClient
+    implements ArbitratedEscrowClient, StreamingEscrowClient {
+  readonly variant = "SimpleEscrowAgent";
+  protected readonly transitions = TRANSITIONS;
+
+  constructor(readonly contract: SimpleEscrowAgent) {
+    super();
+  }
+
+  protected get contractInterface() {
+    return this.contract.interface;
+  }
+
+  protected get runner() {
+    return this.contract.runner;
+  }
+
+  // the depositor is the signer of the factory runner, SimpleEscrowAgent holds ETH only
+  static async create(factory: SimpleEscrowFactory, params: CreateEscrowParams): Promise<SimpleEscrowAgentClient> {
+    const { beneficiary, amount, deadlineDate, detailsHash = "", token = ETH, policy } = params;
+    if (token !== ETH) {
+      throw new WrongTokenError(token);
+    }
+    const receipt = await sendTransaction(() => policy
+      ? factory.createEscrowWithPolicy(beneficiary, detailsHash, deadlineDate, policy, { value: amount })
+      : factory.createEscrow(beneficiary, detailsHash, deadlineDate, { value: amount }), factory.interface);
+    const event = findEvent(receipt.logs, factory.interface, "EscrowCreated");
+    return new SimpleEscrowAgentClient(SimpleEscrowAgent__factory.connect(event.args.escrow, factory.runner));
+  }
+
+  // deploys a standalone escrow with the deployer as the depositor, the default policy if there's none
+  static async deploy(depositor: Signer, params: CreateEscrowParams,
+      options: SimpleEscrowOptions = {}): Promise<SimpleEscrowAgentClient> {
+    const { beneficiary, amount, deadlineDate, detailsHash = "", token = ETH, policy = DEFAULT_POLICY } = params;
+    const { arbitratorsPool = [], randomnessCoordinator = ZeroAddress } = options;
+    if (token !== ETH) {
+      throw new WrongTokenError(token);
+    }
+    const contract = await new SimpleEscrowAgent__factory(depositor).deploy();
+    await contract.waitForDeployment();
+    // only the deployer can initialize it
+    await sendTransaction(() => contract.initialize(depositor.getAddress(), beneficiary, detailsHash, deadlineDate,
+      arbitratorsPool, randomnessCoordinator, policy, { value: amount }), contract.interface);
+    return new SimpleEscrowAgentClient(contract);
+  }
+
+  // address of the next escrow the depositor creates with the factory
+  static predictAddress(factory: SimpleEscrowFactory, depositor: string): Promise<string> {
+    return factory.predictEscrowAddress(depositor);
+  }
+
+  connect(runner: ContractRunner): SimpleEscrowAgentClient {
+    return new SimpleEscrowAgentClient(this.contract.connect(runner));
+  }
+
+  getAddress() {
+    return this.contract.getAddress();
+  }
+
+  async getStatus() {
+    return decodeStatus(this.variant, await this.read(() => this.contract.getAgreementStatus()));
+  }
+
+  async getDetails(): Promise<AgreementDetails> {
+    const [detailsHash, amount, startDate, deadlineDate] = await this.read(() => this.contract.getAgreementDetails());
+    return {
+      amount,
+      startDate: Number(startDate),
+      deadlineDate: Number(deadlineDate),
+      status: await this.getStatus(),
+      token: ETH,
+      detailsHash,
+    };
+  }
+
+  // the contract receives ETH from the depositor
+  async addFunds(amount: bigint) {
+    const to = await this.getAddress();
+    return this.send("addFunds", () => this.signer.sendTransaction({ to, value: amount }));
+  }
+
+  approve() {
+    return this.send("approve", () => this.contract.approveAgreement());
+  }
+
+  reject() {
+    return this.send("reject", () => this.contract.rejectAgreement());
+  }
+
+  cancel() {
+    return this.send("cancel", () => this.contract.cancelAgreement());
+  }
+
+  refund() {
+    return this.send("refund", () => this.contract.refundAgreement());
+  }
+
+  release() {
+    return this.send("release", () => this.contract.releaseFunds());
+  }
+
+  dispute() {
+    return this.send("dispute", () => this.contract.raiseDispute());
+  }
+
+  withdraw() {
+    return this.send("withdraw", () => this.contract.withdrawFunds());
+  }
+
+  proposeSettlement(refundPercentage: number) {
+    return this.send("proposeSettlement", () => this.contract.proposeSettlement(refundPercentage));
+  }
+
+  acceptSettlement(refundPercentage: number) {
+    return this.send("acceptSettlement", () => this.contract.acceptSettlement(refundPercentage));
+  }
+
+  async getSettlement() {
+    return decodeSettlement(await this.read(() => this.contract.getSettlement()));
+  }
+
+  async proposeAmendment({ deadlineDate = 0, addedAmount = 0n, detailsHash = "" }: AmendmentParams) {
+    const value = await this.proposalAmount(addedAmount);
+    return this.send("proposeAmendment",
+      () => this.contract.proposeAmendment(deadlineDate, addedAmount, detailsHash, { value }));
+  }
+
+  async acceptAmendment(version: number) {
+    const value = await this.amendmentAmount(version);
+    return this.send("acceptAmendment", () => this.contract.acceptAmendment(version, { value }));
+  }
+
+  async getAmendments() {
+    return decodeAmendments(await this.read(() => this.contract.getAmendments()));
+  }
+
+  reclaimAmendmentFunds() {
+    return this.send("reclaimAmendmentFunds", () => this.contract.reclaimAmendmentFunds());
+  }
+
+  getAmendmentFunds() {
+    return this.read(() => this.contract.getAmendmentFunds());
+  }
+
+  protected async getDepositor() {
+    const [depositor] = await this.read(() => this.contract.getParties());
+    return depositor;
+  }
+
+  setStream(cliffDate = 0) {
+    return this.send("setStream", () => this.contract.setStream(cliffDate));
+  }
+
+  withdrawStreamed() {
+    return this.send("withdrawStreamed", () => this.contract.withdrawStreamed());
+  }
+
+  async getStream() {
+    return decodeStream(await this.read(() => this.contract.getStream()));
+  }
+
+  getStreamBalance() {
+    return this.read(() => this.contract.getStreamBalance());
+  }
+
+  registerArbitrator(arbitrator: string, feePercentage: number) {
+    return this.send("registerArbitrator", () => this.contract.registerArbitrator(arbitrator, feePercentage));
+  }
+
+  assignArbitrator() {
+    return this.send("assignArbitrator", () => this.contract.assignArbitrator());
+  }
+
+  isAssignmentPending() {
+    return this.read(() => this.contract.isAssignmentPending());
+  }
+
+  async getPolicy() {
+    return decodePolicy(await this.read(() => this.contract.getAgreementPolicy()));
+  }
+
+  async getProtocolFee() {
+    return decodeProtocolFee(await this.read(() => this.contract.getProtocolFee()));
+  }
+
+  resolveDispute(refundPercentage?: number, rationaleHash?: string) {
+    return this.send("resolveDispute", () => refundPercentage === undefined
+      ? this.contract["resolveDispute()"]()
+      : rationaleHash === undefined
+      ? this.contract["resolveDispute(uint32)"](refundPercentage)
+      : this.contract["resolveDispute(uint32,string)"](refundPercentage, rationaleHash));
+  }
+
+  submitEvidence(evidenceHash: string) {
+    return this.send("submitEvidence", () => this.contract.submitEvidence(evidenceHash));
+  }
+
+  async getEvidence() {
+    const count = await this.read(() => this.contract.getEvidenceCount());
+    const evidence = [];
+    for (let index = 0n; index < count; index++) {
+      evidence.push(decodeEvidence(await this.read(() => this.contract.getEvidence(index))));
+    }
+    return evidence;
+  }
+
+  async getRuling() {
+    return (await this.read(() => this.contract.getRuling())) || undefined;
+  }
+}
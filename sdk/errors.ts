@@ -0,0 +1,172 @@
+import { Interface, isHexString } from "ethers";
+import { decodePolicy, EscrowPolicy } from "./policy";
+import { decodeStatus, EscrowStatus } from "./status";
+
+export class EscrowError extends Error {
+  constructor(message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// thrown by the client before sending a transaction that the contract would reject
+export class InvalidTransitionError extends EscrowError {
+  constructor(readonly action: string, readonly status: EscrowStatus, readonly allowed: readonly EscrowStatus[]) {
+    super(`Cannot ${action} the agreement in ${status} status, expected ${allowed.join(" or ")}`);
+  }
+}
+
+// a revert with a string reason, the concrete classes below group the contracts' require messages
+export class EscrowRevertError extends EscrowError {
+  constructor(readonly reason: string, cause?: unknown) {
+    super(reason, cause);
+  }
+}
+
+export class AccessDeniedError extends EscrowRevertError {}
+
+export class WrongStatusError extends EscrowRevertError {}
+
+export class FundsNotAvailableError extends EscrowRevertError {}
+
+// the action is not allowed yet or anymore at the current block time
+export class DeadlineError extends EscrowRevertError {}
+
+// there is no settlement of the other party or it's accepted with another percentage
+export class SettlementError extends EscrowRevertError {}
+
+// the guardian paused the new agreements, deposits and disputes of the EscrowAgent
+export class EscrowPausedError extends EscrowRevertError {}
+
+export class WrongArbitratorError extends EscrowError {
+  constructor(
+    readonly oldArbitrator: string,
+    readonly newArbitrator: string,
+    readonly oldFeePercentage: bigint,
+    readonly newFeePercentage: bigint,
+    cause?: unknown
+  ) {
+    super(`Arbitrator ${newArbitrator} (fee ${newFeePercentage}) doesn't match ` +
+      `${oldArbitrator} (fee ${oldFeePercentage}) set by the depositor`, cause);
+  }
+}
+
+export class WithdrawProhibitedError extends EscrowError {
+  constructor(readonly sender: string, readonly status: EscrowStatus, cause?: unknown) {
+    super(`${sender} cannot withdraw funds in ${status} status`, cause);
+  }
+}
+
+export class NoBalanceError extends EscrowError {
+  constructor(readonly sender: string, readonly status: EscrowStatus, cause?: unknown) {
+    super(`${sender} has no balance in ${status} status`, cause);
+  }
+}
+
+export class WrongTokenError extends EscrowError {
+  constructor(readonly token: string, cause?: unknown) {
+    super(`Wrong token ${token}`, cause);
+  }
+}
+
+export class PoolArbitratorError extends EscrowError {
+  constructor(readonly arbitrator: string, readonly inPool: boolean, cause?: unknown) {
+    super(`Arbitrator ${arbitrator} is ${inPool ? "already" : "not"} in the pool`, cause);
+  }
+}
+
+// require messages of EscrowAgent, SimpleEscrowAgent, MultisigEscrow and MultisigResolver
+const REASONS: [RegExp, new (reason: string, cause?: unknown) => EscrowRevertError][] = [
+  [/^You are not the|^only |^Only /, AccessDeniedError],
+  [/wrong status|must be in .* state/i, WrongStatusError],
+  [/funds (are )?not available|no funds sent/i, FundsNotAvailableError],
+  [/too early|before the deadline|after (the |its )?deadline|resolve dispute yourself in|resolution period/i,
+    DeadlineError],
+  [/settlement/i, SettlementError],
+  [/escrow is paused/i, EscrowPausedError],
+];
+
+function findRevertData(error: unknown, depth = 0): string | undefined {
+  if (typeof error !== "object" || error === null || depth > 4) {
+    return undefined;
+  }
+  const { data, error: inner, info, cause } = error as Record<string, unknown>;
+  if (typeof data === "string" && isHexString(data) && data.length >= 10) {
+    return data;
+  }
+  const infoError = typeof info === "object" && info !== null ? (info as Record<string, unknown>).error : undefined;
+  return findRevertData(inner, depth + 1) ?? findRevertData(infoError, depth + 1) ??
+    findRevertData(cause, depth + 1);
+}
+
+export function errorFromReason(reason: string, cause?: unknown): EscrowRevertError {
+  const match = REASONS.find(([pattern]) => pattern.test(reason));
+  return new (match ? match[1] : EscrowRevertError)(reason, cause);
+}
+
+export class WrongPolicyError extends EscrowError {
+  constructor(readonly policy: EscrowPolicy, cause?: unknown) {
+    super(`Policy ${JSON.stringify(policy)} is out of the bounds`, cause);
+  }
+}
+
+export class ArbitratorStakeError extends EscrowError {
+  constructor(readonly arbitrator: string, readonly locked: boolean, readonly detail: bigint, cause?: unknown) {
+    super(locked
+      ? `Stake of ${arbitrator} is locked by ${detail} assigned agreements`
+      : `Stake of ${arbitrator} (${detail}) is below the minimal stake`, cause);
+  }
+}
+
+// a signed action or forward request is expired, already used or signed by someone else
+export class InvalidSignatureError extends EscrowError {}
+
+// maps a revert of an escrow contract call to a typed error, other errors are returned as is
+export function decodeEscrowError(error: unknown, contractInterface: Interface): Error {
+  if (error instanceof EscrowError) {
+    return error;
+  }
+  const data = findRevertData(error);
+  const parsed = data ? contractInterface.parseError(data) : null;
+  if (!parsed) {
+    const reason = (error as { reason?: unknown })?.reason;
+    return typeof reason === "string" ? errorFromReason(reason, error) : error as Error;
+  }
+  const args = parsed.args;
+  switch (parsed.name) {
+    case "Error":
+      return errorFromReason(args[0], error);
+    case "WrongArbitrator":
+      return new WrongArbitratorError(args[0], args[1], args[2], args[3], error);
+    case "WrongSettlement":
+      return new SettlementError(`Settlement of ${args[0]} is accepted as ${args[1]}`, error);
+    case "WithdrawProhibited":
+      // only the agreement agents declare the status errors
+      return new WithdrawProhibitedError(args[0], decodeStatus("EscrowAgent", args[1]), error);
+    case "NoBalance":
+      return new NoBalanceError(args[0], decodeStatus("EscrowAgent", args[1]), error);
+    case "WrongToken":
+      return new WrongTokenError(args[0], error);
+    case "ArbitratorInPool":
+    case "ArbitratorNotInPool":
+      return new PoolArbitratorError(args[0], parsed.name === "ArbitratorInPool", error);
+    case "StakeLocked":
+    case "InsufficientStake":
+      return new ArbitratorStakeError(args[0], parsed.name === "StakeLocked", args[1], error);
+    case "WrongPolicy":
+      return new WrongPolicyError(decodePolicy(args[0]), error);
+    case "ExpiredSignature":
+    case "ERC2771ForwarderExpiredRequest":
+      return new InvalidSignatureError(`Signature expired at ${args[0]}`, error);
+    case "InvalidAccountNonce":
+      return new InvalidSignatureError(`Nonce of ${args[0]} is ${args[1]}`, error);
+    case "ERC2771ForwarderInvalidSigner":
+      return new InvalidSignatureError(`Request of ${args[1]} is signed by ${args[0]}`, error);
+    case "ECDSAInvalidSignature":
+    case "ECDSAInvalidSignatureLength":
+    case "ECDSAInvalidSignatureS":
+      return new InvalidSignatureError("Invalid signature", error);
+    default:
+      return new EscrowError(`${parsed.name}(${args.join(", ")})`, error);
+  }
+}
@@ -0,0 +1,9 @@
+export * from "./status";
+export * from "./errors";
+export * from "./policy";
+export * from "./EscrowClient";
+export * from "./EscrowAgentClient";
+export * from "./SimpleEscrowAgentClient";
+export * from "./MultisigEscrowClient";
+export * from "./MultisigResolverClient";
+export * from "./signing";
@@ -0,0 +1,60 @@
+// timing in seconds and fees in the 1_000_000 base of an agreement, see contracts/EscrowPolicy.sol
+export interface EscrowPolicy {
+  releaseFundsAfterDeadline: number;
+  agreeOnArbitratorMaxPeriod: number;
+  resolveDisputeMaxPeriod: number;
+  unresolvedDisputeRefundPercentage: number;
+  defaultArbitratorPercentage: number;
+  defaultDeadlinePeriod: number;
+}
+
+const HOUR = 3600;
+const DAY = 24 * HOUR;
+
+// policy of the agreements created without one
+export const DEFAULT_POLICY: Readonly<EscrowPolicy> = {
+  releaseFundsAfterDeadline: 3 * DAY,
+  agreeOnArbitratorMaxPeriod: 2 * DAY,
+  resolveDisputeMaxPeriod: 2 * DAY,
+  unresolvedDisputeRefundPercentage: 500_000,
+  defaultArbitratorPercentage: 10_000,
+  defaultDeadlinePeriod: 30 * DAY,
+};
+
+// bounds of any policy, escrow owners and factories narrow them down
+export const MIN_POLICY: Readonly<EscrowPolicy> = {
+  releaseFundsAfterDeadline: HOUR,
+  agreeOnArbitratorMaxPeriod: HOUR,
+  resolveDisputeMaxPeriod: HOUR,
+  unresolvedDisputeRefundPercentage: 0,
+  defaultArbitratorPercentage: 0,
+  defaultDeadlinePeriod: HOUR,
+};
+
+export const MAX_POLICY: Readonly<EscrowPolicy> = {
+  releaseFundsAfterDeadline: 90 * DAY,
+  agreeOnArbitratorMaxPeriod: 30 * DAY,
+  resolveDisputeMaxPeriod: 30 * DAY,
+  unresolvedDisputeRefundPercentage: 1_000_000,
+  defaultArbitratorPercentage: 1_000_000,
+  defaultDeadlinePeriod: 3 * 365 * DAY,
+};
+
+// fields of the policy outside the bounds, empty if the contract accepts it
+export function checkPolicy(policy: EscrowPolicy, min: EscrowPolicy = MIN_POLICY,
+    max: EscrowPolicy = MAX_POLICY): (keyof EscrowPolicy)[] {
+  return (Object.keys(DEFAULT_POLICY) as (keyof EscrowPolicy)[])
+    .filter((field) => policy[field] < min[field] || policy[field] > max[field]);
+}
+
+// converts the policy struct returned by the contracts
+export function decodePolicy(policy: { [K in keyof EscrowPolicy]: bigint }): EscrowPolicy {
+  return {
+    releaseFundsAfterDeadline: Number(policy.releaseFundsAfterDeadline),
+    agreeOnArbitratorMaxPeriod: Number(policy.agreeOnArbitratorMaxPeriod),
+    resolveDisputeMaxPeriod: Number(policy.resolveDisputeMaxPeriod),
+    unresolvedDisputeRefundPercentage: Number(policy.unresolvedDisputeRefundPercentage),
+    defaultArbitratorPercentage: Number(policy.defaultArbitratorPercentage),
+    defaultDeadlinePeriod: Number(policy.defaultDeadlinePeriod),
+  };
+}
@@ -0,0 +1,211 @@
+import {
+  concat,
+  Interface,
+  Signer,
+  TransactionReceipt,
+  TypedDataDomain,
+  TypedDataField,
+  verifyTypedData,
+} from "ethers";
+import {
+  EscrowAgent__factory,
+  EscrowAgentExtension__factory,
+  EscrowForwarder__factory,
+  SimpleEscrowAgent__factory,
+} from "../typechain-types";
+import { sendTransaction } from "./EscrowClient";
+import { EscrowError } from "./errors";
+import { EscrowVariant } from "./status";
+
+// actions the parties sign off-chain and any relayer submits
+export type SignedActionName = "approve" | "reject" | "refund" | "release" | "registerArbitrator";
+
+// MultisigEscrow takes the signed requests through the trusted forwarder instead
+export type SignedEscrowVariant = Exclude<EscrowVariant, "MultisigEscrow">;
+
+export interface SignActionParams {
+  variant: SignedEscrowVariant;
+  contract: string;
+  action: SignedActionName;
+  // EscrowAgent agreements only
+  agreementId?: bigint;
+  // registerArbitrator only
+  arbitrator?: string;
+  feePercentage?: number;
+  // the next nonce of the signer by default
+  nonce?: bigint;
+  // unix timestamp, in an hour by default
+  deadline?: number;
+}
+
+export interface SignedAction extends SignActionParams {
+  nonce: bigint;
+  deadline: number;
+  signer: string;
+  signature: string;
+}
+
+export interface ForwardRequestParams {
+  to: string;
+  data: string;
+  value?: bigint;
+  // gas of the forwarded call
+  gas?: bigint;
+  deadline?: number;
+}
+
+// ForwardRequestData of ERC2771Forwarder.execute
+export interface ForwardRequest {
+  from: string;
+  to: string;
+  value: bigint;
+  gas: bigint;
+  deadline: number;
+  data: string;
+  signature: string;
+}
+
+export const DEFAULT_SIGNATURE_PERIOD = 3600;
+export const DEFAULT_FORWARD_GAS = 300_000n;
+
+const PRIMARY_TYPES: Readonly<Record<SignedActionName, string>> = {
+  approve: "ApproveAgreement",
+  reject: "RejectAgreement",
+  refund: "RefundAgreement",
+  release: "ReleaseFunds",
+  registerArbitrator: "RegisterArbitrator",
+};
+
+const FUNCTIONS: Readonly<Record<SignedActionName, string>> = {
+  approve: "approveAgreementBySig",
+  reject: "rejectAgreementBySig",
+  refund: "refundAgreementBySig",
+  release: "releaseFundsBySig",
+  registerArbitrator: "registerArbitratorBySig",
+};
+
+const FORWARD_REQUEST_TYPES: Record<string, TypedDataField[]> = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+// the domain name is the contract name, see SignedActions.sol
+export function actionDomain(variant: SignedEscrowVariant, contract: string, chainId: bigint): TypedDataDomain {
+  return { name: variant, version: "1", chainId, verifyingContract: contract };
+}
+
+// SimpleEscrowAgent holds a single agreement and doesn't sign its id
+export function actionTypes(variant: SignedEscrowVariant, action: SignedActionName): Record<string, TypedDataField[]> {
+  const fields: TypedDataField[] = variant === "EscrowAgent" ? [{ name: "agreementId", type: "uint256" }] : [];
+  if (action === "registerArbitrator") {
+    fields.push({ name: "arbitrator", type: "address" }, { name: "feePercentage", type: "uint32" });
+  }
+  fields.push({ name: "nonce", type: "uint256" }, { name: "deadline", type: "uint256" });
+  return { [PRIMARY_TYPES[action]]: fields };
+}
+
+function actionValue(action: SignActionParams & { nonce: bigint; deadline: number }) {
+  const { variant, agreementId, arbitrator, feePercentage, nonce, deadline } = action;
+  if (variant === "EscrowAgent" && agreementId === undefined) {
+    throw new EscrowError("EscrowAgent actions require the agreement id");
+  }
+  if (action.action === "registerArbitrator" && (arbitrator === undefined || feePercentage === undefined)) {
+    throw new EscrowError("registerArbitrator requires the arbitrator and the fee percentage");
+  }
+  return { agreementId, arbitrator, feePercentage, nonce, deadline };
+}
+
+function nonceContract(variant: SignedEscrowVariant, contract: string, signer: Signer) {
+  return variant === "EscrowAgent"
+    ? EscrowAgent__factory.connect(contract, signer)
+    : SimpleEscrowAgent__factory.connect(contract, signer);
+}
+
+async function chainIdOf(signer: Signer): Promise<bigint> {
+  if (!signer.provider) {
+    throw new EscrowError("The signer requires a provider");
+  }
+  return (await signer.provider.getNetwork()).chainId;
+}
+
+async function defaultDeadline(signer: Signer): Promise<number> {
+  const latest = await signer.provider!.getBlock("latest");
+  return latest!.timestamp + DEFAULT_SIGNATURE_PERIOD;
+}
+
+// signs the action of the signer, the signature is valid once until the deadline
+export async function signAction(signer: Signer, params: SignActionParams): Promise<SignedAction> {
+  const chainId = await chainIdOf(signer);
+  const address = await signer.getAddress();
+  const nonce = params.nonce ?? await nonceContract(params.variant, params.contract, signer).nonces(address);
+  const deadline = params.deadline ?? await defaultDeadline(signer);
+  const value = actionValue({ ...params, nonce, deadline });
+  const signature = await signer.signTypedData(actionDomain(params.variant, params.contract, chainId),
+    actionTypes(params.variant, params.action), value);
+  return { ...params, nonce, deadline, signer: address, signature };
+}
+
+export function recoverActionSigner(action: SignedAction, chainId: bigint): string {
+  return verifyTypedData(actionDomain(action.variant, action.contract, chainId),
+    actionTypes(action.variant, action.action), actionValue(action), action.signature);
+}
+
+// the BySig functions of EscrowAgent are in its extension
+export function actionInterface(variant: SignedEscrowVariant): Interface {
+  return variant === "EscrowAgent"
+    ? EscrowAgentExtension__factory.createInterface()
+    : SimpleEscrowAgent__factory.createInterface();
+}
+
+// calldata of the BySig function of the action
+export function encodeSignedAction(action: SignedAction): string {
+  const { variant, agreementId, arbitrator, feePercentage, nonce, deadline, signature } = action;
+  const args = [
+    ...(variant === "EscrowAgent" ? [agreementId] : []),
+    ...(action.action === "registerArbitrator" ? [arbitrator, feePercentage] : []),
+    nonce,
+    deadline,
+    signature,
+  ];
+  return actionInterface(variant).encodeFunctionData(FUNCTIONS[action.action], args);
+}
+
+// the runner pays the gas, the contract acts on behalf of the signer
+export function submitSignedAction(runner: Signer, action: SignedAction): Promise<TransactionReceipt> {
+  return sendTransaction(() => runner.sendTransaction({ to: action.contract, data: encodeSignedAction(action) }),
+    actionInterface(action.variant));
+}
+
+// signs a call of a contract trusting the forwarder, e.g. a MultisigEscrow call encoded by its interface
+export async function signForwardRequest(signer: Signer, forwarder: string,
+    params: ForwardRequestParams): Promise<ForwardRequest> {
+  const chainId = await chainIdOf(signer);
+  const from = await signer.getAddress();
+  const contract = EscrowForwarder__factory.connect(forwarder, signer);
+  const nonce = await contract.nonces(from);
+  const { to, data, value = 0n, gas = DEFAULT_FORWARD_GAS } = params;
+  const deadline = params.deadline ?? await defaultDeadline(signer);
+  const signature = await signer.signTypedData(
+    { name: "EscrowForwarder", version: "1", chainId, verifyingContract: forwarder },
+    FORWARD_REQUEST_TYPES, { from, to, value, gas, nonce, deadline, data });
+  return { from, to, value, gas, deadline, data, signature };
+}
+
+// the runner pays the gas and the value of the request
+export function submitForwardRequest(runner: Signer, forwarder: string,
+    request: ForwardRequest): Promise<TransactionReceipt> {
+  const contract = EscrowForwarder__factory.connect(forwarder, runner);
+  return sendTransaction(() => contract.execute(request, { value: request.value }), contract.interface);
+}
+
+// calldata of the forwarded call, the target reads the signer from its last 20 bytes
+export function forwardedCallData(request: Pick<ForwardRequest, "from" | "data">): string {
+  return concat([request.data, request.from]);
+}
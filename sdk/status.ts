@@ -0,0 +1,65 @@
+// Status names of all escrow variants, EscrowAgent and SimpleEscrowAgent share IEscrowAgent.Status
+export type EscrowStatus =
+  | "Funded"
+  | "Canceled"
+  | "Revoked"
+  | "Rejected"
+  | "Active"
+  | "Refunded"
+  | "Closed"
+  | "Disputed"
+  | "Resolved"
+  | "Unresolved"
+  | "Settled"
+  | "Locked";
+
+export type EscrowVariant = "EscrowAgent" | "SimpleEscrowAgent" | "MultisigEscrow";
+
+// the order must match the Status enums in the contracts
+const AGENT_STATUSES: readonly EscrowStatus[] = [
+  "Funded",
+  "Canceled",
+  "Rejected",
+  "Active",
+  "Refunded",
+  "Closed",
+  "Disputed",
+  "Resolved",
+  "Unresolved",
+  "Settled",
+];
+
+const MULTISIG_STATUSES: readonly EscrowStatus[] = [
+  "Funded",
+  "Revoked",
+  "Rejected",
+  "Active",
+  "Refunded",
+  "Closed",
+  "Locked",
+];
+
+export function statusesOf(variant: EscrowVariant): readonly EscrowStatus[] {
+  return variant === "MultisigEscrow" ? MULTISIG_STATUSES : AGENT_STATUSES;
+}
+
+export function decodeStatus(variant: EscrowVariant, value: bigint | number): EscrowStatus {
+  const status = statusesOf(variant)[Number(value)];
+  if (status === undefined) {
+    throw new RangeError(`Unknown ${variant} status: ${value}`);
+  }
+  return status;
+}
+
+export function encodeStatus(variant: EscrowVariant, status: EscrowStatus): number {
+  const value = statusesOf(variant).indexOf(status);
+  if (value < 0) {
+    throw new RangeError(`${variant} has no ${status} status`);
+  }
+  return value;
+}
+
+// bitmask of 1 << status of the paginated party views, 0 for any status
+export function encodeStatusMask(variant: EscrowVariant, statuses: readonly EscrowStatus[] = []): bigint {
+  return statuses.reduce((mask, status) => mask | (1n << BigInt(encodeStatus(variant, status))), 0n);
+}
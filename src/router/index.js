@@ -2,6 +2,7 @@ import { createRouter, createWebHistory } from 'vue-router'
 import InitView from '../components/InitView.vue'
 import CreateEscrow from '../components/CreateEscrow.vue'
 import ViewEscrow from '../components/ViewEscrow.vue'
+import MyEscrows from '../components/MyEscrows.vue'
 
 const routes = [
   {
@@ -14,11 +15,16 @@ const routes = [
     name: 'create',
     component: CreateEscrow
   },
+  {
+    path: '/escrows',
+    name: 'escrows',
+    component: MyEscrows
+  },
   {
     path: '/view/:address',
     name: 'view',
     component: ViewEscrow,
-    props: true
+    props: route => ({ address: route.params.address, agreementId: route.query.agreement || null })
   }
 ]
 
@@ -0,0 +1,85 @@
+import manifest from "../../deployments/manifest.json" with { type: "json" };
+
+/**
+ * Get the deployment of the wallet's chain from the manifest of the escrow:deploy task
+ * @param {Web3} web3 - The web3 instance
+ * @returns {Promise<Object>} - The chain id, network, explorer and contracts of the deployment
+ */
+export const getDeployment = async (web3) => {
+  const chainId = Number(await web3.eth.getChainId());
+  const deployment = manifest[chainId];
+  if (!deployment) {
+    throw new Error(getDeployedChains().length === 0
+      ? "The escrows are not deployed on any chain yet, the escrow:deploy task records them in the manifest"
+      : `The escrows are not deployed on the chain ${chainId}`);
+  }
+  return { chainId, ...deployment };
+};
+
+/**
+ * Get the chains of the manifest, the wallet is offered to switch to them
+ * @returns {Array<Object>} - The chain ids and network names
+ */
+export const getDeployedChains = () => Object.entries(manifest)
+  .map(([chainId, deployment]) => ({ chainId: Number(chainId), network: deployment.network }));
+
+/**
+ * Get the address and the ABI of a contract of the deployment
+ * @param {Object} deployment - The deployment of getDeployment
+ * @param {string} name - The contract name
+ * @returns {Object} - The address and the ABI
+ */
+export const getDeployedContract = (deployment, name) => {
+  const contract = deployment.contracts[name];
+  if (!contract) {
+    throw new Error(`${name} is not deployed on ${deployment.network}`);
+  }
+  return contract;
+};
+
+/**
+ * Ask the wallet to switch to a chain of the manifest, a chain the wallet doesn't know is added first
+ * @param {number} chainId - The chain id
+ */
+export const switchChain = async (chainId) => {
+  const hexChainId = `0x${chainId.toString(16)}`;
+  try {
+    await window.ethereum.request({
+      method: "wallet_switchEthereumChain",
+      params: [{ chainId: hexChainId }]
+    });
+  } catch (error) {
+    // 4902 is the unknown chain, some wallets wrap it in the original error
+    if ((error.code ?? error.data?.originalError?.code) !== 4902) {
+      throw error;
+    }
+    await addChain(hexChainId, manifest[chainId]);
+  }
+};
+
+// the wallet asks the user to add the chain and switches to it
+const addChain = async (hexChainId, deployment) => {
+  if (!deployment?.rpcUrl) {
+    throw new Error(`The wallet doesn't know the chain ${Number(hexChainId)} and the manifest has no RPC url of it`);
+  }
+  await window.ethereum.request({
+    method: "wallet_addEthereumChain",
+    params: [{
+      chainId: hexChainId,
+      chainName: deployment.network,
+      rpcUrls: [deployment.rpcUrl],
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      blockExplorerUrls: deployment.explorer ? [deployment.explorer] : undefined
+    }]
+  });
+};
+
+/**
+ * Get the explorer page of an address, the local networks have no explorer
+ * @param {Object} deployment - The deployment of getDeployment
+ * @param {string} address - The address
+ * @returns {string|null} - The page url
+ */
+export const getExplorerUrl = (deployment, address) => {
+  return deployment?.explorer ? `${deployment.explorer}/address/${address}` : null;
+};
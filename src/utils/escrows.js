@@ -0,0 +1,201 @@
+import { getContract } from "./web3";
+import { getDeployment, getDeployedContract } from "./deployments";
+
+export const VARIANTS = {
+  MULTISIG: "MultisigEscrow",
+  SIMPLE: "SimpleEscrowAgent",
+  AGENT: "EscrowAgent"
+};
+
+// the Escrow Agent creates the agreements itself, the other variants are created by their factories
+const CREATORS = {
+  [VARIANTS.MULTISIG]: "MultisigEscrowFactory",
+  [VARIANTS.SIMPLE]: "SimpleEscrowFactory",
+  [VARIANTS.AGENT]: VARIANTS.AGENT
+};
+
+const MULTISIG_STATUSES = ['FUNDED', 'REVOKED', 'REJECTED', 'ACTIVE', 'REFUNDED', 'CLOSED', 'LOCKED'];
+
+// the Escrow Agent and the Simple Escrow Agent share the statuses
+const AGREEMENT_STATUSES = [
+  'FUNDED', 'CANCELED', 'REJECTED', 'ACTIVE', 'REFUNDED', 'CLOSED', 'DISPUTED', 'RESOLVED', 'UNRESOLVED', 'SETTLED'
+];
+
+// roles of the Party enum of the Escrow Agent
+export const ROLES = ['depositor', 'beneficiary', 'arbitrator'];
+
+const PAGE_SIZE = 50;
+
+/**
+ * Get the status name of an escrow variant
+ * @param {string} variant - The escrow variant
+ * @param {number} statusInt - The status enum value
+ * @returns {string} - The status name
+ */
+export const getStatusString = (variant, statusInt) => {
+  const statuses = variant === VARIANTS.MULTISIG ? MULTISIG_STATUSES : AGREEMENT_STATUSES;
+  return statuses[statusInt] || 'UNKNOWN';
+};
+
+// the Escrow Agent delegates the functions of its extension, they are called at the same address
+const getAgentABI = (deployment) => {
+  const agentABI = getDeployedContract(deployment, "EscrowAgent").abi;
+  const extensionABI = getDeployedContract(deployment, "EscrowAgentExtension").abi;
+  return [
+    ...agentABI,
+    ...extensionABI.filter((item) => item.type === 'function' &&
+      !agentABI.some((core) => core.type === 'function' && core.name === item.name))
+  ];
+};
+
+// the clones of the factories are called by the ABIs of their implementations
+const getABI = (deployment, name) => {
+  return name === VARIANTS.AGENT ? getAgentABI(deployment) : getDeployedContract(deployment, name).abi;
+};
+
+export const getEscrowContract = async (web3, variant, address) => {
+  return getContract(web3, getABI(await getDeployment(web3), variant), address);
+};
+
+/**
+ * Get the factory of an escrow variant or the Escrow Agent creating the agreements
+ * @param {Web3} web3 - The web3 instance
+ * @param {string} variant - The escrow variant
+ * @returns {Promise<Contract>} - The contract of the deployment
+ */
+export const getCreatorContract = async (web3, variant) => {
+  const deployment = await getDeployment(web3);
+  const name = CREATORS[variant];
+  return getContract(web3, getABI(deployment, name), getDeployedContract(deployment, name).address);
+};
+
+const hasFunction = async (web3, address, signature) => {
+  try {
+    await web3.eth.call({ to: address, data: web3.eth.abi.encodeFunctionSignature(signature) });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Detect the escrow variant by the views only the variant has,
+ * the escrows have no fallback functions so the calls of the missing ones revert
+ * @param {Web3} web3 - The web3 instance
+ * @param {string} address - The escrow contract address
+ * @returns {Promise<string>} - The escrow variant
+ */
+export const detectVariant = async (web3, address) => {
+  const code = await web3.eth.getCode(address);
+  if (code === '0x' || code === '') {
+    throw new Error("No contract at the address");
+  }
+  if (await hasFunction(web3, address, 'getExtension()')) {
+    return VARIANTS.AGENT;
+  }
+  if (await hasFunction(web3, address, 'isAssignmentPending()')) {
+    return VARIANTS.SIMPLE;
+  }
+  return VARIANTS.MULTISIG;
+};
+
+const toEntries = (variant, addresses) => addresses.map((address) => ({ variant, address, agreementId: null }));
+
+const unique = (addresses) => [...new Map(addresses.map((address) => [address.toLowerCase(), address])).values()];
+
+const getMultisigEscrows = async (web3, deployment, account) => {
+  if (!deployment.contracts.MultisigEscrowFactory) {
+    return { depositor: [], beneficiary: [], arbitrator: [] };
+  }
+  const factory = await getCreatorContract(web3, VARIANTS.MULTISIG);
+  return {
+    depositor: toEntries(VARIANTS.MULTISIG, await factory.methods.getDepositorContracts(account).call()),
+    beneficiary: toEntries(VARIANTS.MULTISIG, await factory.methods.getBeneficiaryContracts(account).call()),
+    // the multisig escrows have no arbitrators
+    arbitrator: []
+  };
+};
+
+// the simple escrows are found by the creation events of the factory and by the arbitrator events of the escrows
+const getSimpleEscrows = async (web3, deployment, account) => {
+  if (!deployment.contracts.SimpleEscrowFactory) {
+    return { depositor: [], beneficiary: [], arbitrator: [] };
+  }
+  const factory = await getCreatorContract(web3, VARIANTS.SIMPLE);
+  const created = await factory.getPastEvents('EscrowCreated', { fromBlock: 0 });
+  const escrows = new Set(created.map((event) => event.returnValues.escrow.toLowerCase()));
+  const createdBy = (role) => created
+    .filter((event) => event.returnValues[role].toLowerCase() === account.toLowerCase())
+    .map((event) => event.returnValues.escrow);
+
+  // the proposed arbitrators are listed too, the beneficiary agrees on them later
+  const arbitratorTopic = web3.eth.abi.encodeParameter('address', account);
+  const arbitratorLogs = [];
+  for (const signature of ['ArbitratorAgreed(address,bool)', 'PoolArbitratorAssigned(address)']) {
+    arbitratorLogs.push(...await web3.eth.getPastLogs({
+      fromBlock: 0,
+      topics: [web3.utils.sha3(signature), arbitratorTopic]
+    }));
+  }
+  const arbitrated = arbitratorLogs
+    .map((log) => log.address)
+    .filter((address) => escrows.has(address.toLowerCase()));
+
+  return {
+    depositor: toEntries(VARIANTS.SIMPLE, createdBy('depositor')),
+    beneficiary: toEntries(VARIANTS.SIMPLE, createdBy('beneficiary')),
+    arbitrator: toEntries(VARIANTS.SIMPLE, unique(arbitrated))
+  };
+};
+
+const getAgentAgreements = async (web3, deployment, account) => {
+  const result = { depositor: [], beneficiary: [], arbitrator: [] };
+  if (!deployment.contracts.EscrowAgent) {
+    return result;
+  }
+  const agent = await getCreatorContract(web3, VARIANTS.AGENT);
+  const agentAddress = agent.options.address;
+  for (const [role, name] of ROLES.entries()) {
+    let cursor = 0;
+    do {
+      const page = await agent.methods.getPartyAgreements(account, role, 0, cursor, PAGE_SIZE).call();
+      result[name].push(...page.agreementIds.map((agreementId) => ({
+        variant: VARIANTS.AGENT,
+        address: agentAddress,
+        agreementId: agreementId.toString()
+      })));
+      cursor = parseInt(page.nextCursor);
+    } while (cursor !== 0);
+  }
+  return result;
+};
+
+/**
+ * Get the escrows of an account by its role in them,
+ * the contracts missing in the deployment of the chain are skipped
+ * @param {Web3} web3 - The web3 instance
+ * @param {string} account - The account address
+ * @returns {Promise<Object>} - The escrow entries by the depositor, beneficiary and arbitrator roles
+ */
+export const getPartyEscrows = async (web3, account) => {
+  const deployment = await getDeployment(web3);
+  const sources = await Promise.all([
+    getMultisigEscrows(web3, deployment, account),
+    getSimpleEscrows(web3, deployment, account),
+    getAgentAgreements(web3, deployment, account)
+  ]);
+  return Object.fromEntries(ROLES.map((role) => [role, sources.flatMap((source) => source[role])]));
+};
+
+/**
+ * Get the current status of an escrow entry
+ * @param {Web3} web3 - The web3 instance
+ * @param {Object} entry - The escrow entry of getPartyEscrows
+ * @returns {Promise<string>} - The status name
+ */
+export const getEntryStatus = async (web3, entry) => {
+  const contract = await getEscrowContract(web3, entry.variant, entry.address);
+  const args = entry.agreementId ? [entry.agreementId] : [];
+  const status = await contract.methods.getAgreementStatus(...args).call();
+  return getStatusString(entry.variant, parseInt(status));
+};
@@ -0,0 +1,64 @@
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+
+// the arbitrator agent and the indexer are loaded in the action, typechain types don't exist before the first
+// compilation
+
+const PLUGIN = "escrow";
+
+function addresses(list?: string): string[] | undefined {
+  return list?.split(",").map((address) => address.trim()).filter((address) => address !== "");
+}
+
+task("escrow:arbitrate", "Resolve the disputes of an arbitrator with the rule-based decision engine")
+  .addOptionalParam("agents", "Comma separated EscrowAgent addresses")
+  .addOptionalParam("simple", "Comma separated SimpleEscrowAgent addresses")
+  .addOptionalParam("simpleFactories", "Comma separated SimpleEscrowFactory addresses")
+  .addOptionalParam("startBlock", "Deployment block of the contracts", 0, types.int)
+  .addOptionalParam("from", "Arbitrator address, the first account by default")
+  .addOptionalParam("pool", "ArbitratorPool to stake in")
+  .addOptionalParam("store", "Document server URL or local store directory", ".documents")
+  .addOptionalParam("directory", "Directory of the indexer state and the audit log", ".arbitrator")
+  .addOptionalParam("evidencePeriod", "Seconds after the dispute the parties have to submit evidence", 0, types.int)
+  .addOptionalParam("pollInterval", "Milliseconds between the ticks", 5_000, types.int)
+  .addFlag("publishRationale", "Store the rationale of the decisions and submit their CIDs with the rulings")
+  .setAction(async (args: { agents?: string; simple?: string; simpleFactories?: string; startBlock: number;
+      from?: string; pool?: string; store: string; directory: string; evidencePeriod: number; pollInterval: number;
+      publishRationale: boolean }, hre) => {
+    const path = await import("path");
+    const { AgreementIndexer, JsonFileStore } = await import("../indexer");
+    const { HttpDocumentStore, LocalDocumentStore } = await import("../documents");
+    const { ArbitratorAgent, JsonLinesAuditLog, RuleBasedEngine } = await import("../arbitrator");
+    const options = {
+      escrowAgents: addresses(args.agents),
+      simpleEscrowAgents: addresses(args.simple),
+      simpleEscrowFactories: addresses(args.simpleFactories),
+      startBlock: args.startBlock,
+    };
+    if (![options.escrowAgents, options.simpleEscrowAgents, options.simpleEscrowFactories]
+        .some((list) => list?.length)) {
+      throw new HardhatPluginError(PLUGIN, "No contracts to arbitrate");
+    }
+    const signer = args.from ? await hre.ethers.getSigner(args.from) : (await hre.ethers.getSigners())[0];
+    const documents = /^https?:\/\//.test(args.store)
+      ? new HttpDocumentStore(args.store) : new LocalDocumentStore(args.store);
+    const indexer = await AgreementIndexer.open(hre.ethers.provider,
+      new JsonFileStore(path.join(args.directory, "indexer.json")), options);
+    const auditLog = new JsonLinesAuditLog(path.join(args.directory, "audit.jsonl"));
+    const agent = await ArbitratorAgent.open(indexer, signer, new RuleBasedEngine(), documents, auditLog, {
+      evidencePeriod: args.evidencePeriod,
+      pollInterval: args.pollInterval,
+      publishRationale: args.publishRationale,
+    });
+    if (args.pool) {
+      const inPool = await agent.register(args.pool);
+      console.log(inPool ? `Arbitrator ${signer.address} is in the pool ${args.pool}`
+        : `Arbitrator ${signer.address} is staked, the owner of ${args.pool} has to add it to the pool`);
+    }
+    console.log(`Arbitrator ${signer.address} with ${agent.engine.name}, audit log ${auditLog.filePath}`);
+    // runs until interrupted
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    process.once("SIGTERM", () => controller.abort());
+    await agent.run(controller.signal);
+  });
@@ -0,0 +1,45 @@
+import { task } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { DeploymentModuleName } from "../deployments";
+
+// the deployments are loaded in the action, the ignition modules need the compiled artifacts
+
+const PLUGIN = "escrow";
+
+task("escrow:deploy", "Deploy the escrow contracts and record their addresses and ABIs in the deployment manifest")
+  .addOptionalParam("modules", "Comma separated modules: EscrowAgent, MultisigEscrowFactory, SimpleEscrowFactory, "
+    + "MultiPartyEscrowFactory, all of them by default")
+  .addOptionalParam("parameters", "Ignition parameters file, ignition/parameters/<network>.json if it exists")
+  .addOptionalParam("manifest", "Deployment manifest of the web app", "deployments/manifest.json")
+  .setAction(async (args: { modules?: string; parameters?: string; manifest: string }, hre) => {
+    const path = await import("path");
+    const { existsSync } = await import("fs");
+    const { DEPLOYMENT_MODULES, deployModules, describeDeployment, readManifest, recordDeployment, writeManifest } =
+      await import("../deployments");
+    if (hre.network.name === "hardhat") {
+      throw new HardhatPluginError(PLUGIN, "The hardhat network ends with the task, deploy to a node with --network");
+    }
+    const modules = args.modules
+      ? args.modules.split(",").map((name) => name.trim()).filter((name) => name !== "")
+      : Object.keys(DEPLOYMENT_MODULES);
+    const unknown = modules.filter((name) => !(name in DEPLOYMENT_MODULES));
+    if (unknown.length > 0) {
+      throw new HardhatPluginError(PLUGIN, `Unknown modules: ${unknown.join(", ")}`);
+    }
+    // the per-network configuration, for example the pool arbitrators of the simple escrows
+    const networkParameters = path.join(hre.config.paths.ignition, "parameters", `${hre.network.name}.json`);
+    const parameters = args.parameters ? path.resolve(args.parameters)
+      : existsSync(networkParameters) ? networkParameters : undefined;
+
+    await hre.run("compile", { quiet: true });
+    const deployed = await deployModules(hre, modules as DeploymentModuleName[], parameters);
+    const deployment = await describeDeployment(hre, deployed);
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const manifestPath = path.resolve(hre.config.paths.root, args.manifest);
+    await writeManifest(manifestPath, recordDeployment(await readManifest(manifestPath), chainId, deployment));
+
+    for (const [name, { address }] of Object.entries(deployment.contracts)) {
+      console.log(`${name.padEnd(24)}${address}`);
+    }
+    console.log(`Chain ${chainId} of ${hre.network.name} is recorded in ${manifestPath}`);
+  });
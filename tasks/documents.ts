@@ -0,0 +1,60 @@
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { AgreementDocument } from "../documents";
+
+// the documents are loaded in the actions like the other tooling
+
+const PLUGIN = "escrow";
+const DEFAULT_DIRECTORY = ".documents";
+
+task("escrow:document", "Validate an agreement document and print its CID, the detailsHash of the agreement")
+  .addPositionalParam("file", "JSON agreement document")
+  .addFlag("publish", "Store and pin the document")
+  .addOptionalParam("store", "Document server URL or local store directory", DEFAULT_DIRECTORY)
+  .setAction(async (args: { file: string; publish: boolean; store: string }) => {
+    const { promises: fs } = await import("fs");
+    const { DocumentError, documentCid, encodeDocument, HttpDocumentStore, LocalDocumentStore, publishDocument,
+      validateDocument } = await import("../documents");
+    let document: unknown;
+    try {
+      document = JSON.parse(await fs.readFile(args.file, "utf8"));
+    } catch (error) {
+      throw new HardhatPluginError(PLUGIN, `${args.file} is not a JSON file: ${(error as Error).message}`);
+    }
+    const errors = validateDocument(document);
+    if (errors.length > 0) {
+      throw new HardhatPluginError(PLUGIN, `Invalid agreement document:\n  ${errors.join("\n  ")}`);
+    }
+    try {
+      const valid = document as AgreementDocument;
+      const store = /^https?:\/\//.test(args.store)
+        ? new HttpDocumentStore(args.store) : new LocalDocumentStore(args.store);
+      const cid = args.publish ? await publishDocument(store, valid) : await documentCid(valid);
+      console.log(`${"cid".padEnd(16)}${cid}`);
+      console.log(`${"size".padEnd(16)}${encodeDocument(valid).length} bytes`);
+      if (args.publish) {
+        console.log(`${"pinned".padEnd(16)}${args.store}`);
+      }
+    } catch (error) {
+      if (error instanceof DocumentError) {
+        throw new HardhatPluginError(PLUGIN, error.message);
+      }
+      throw error;
+    }
+  });
+
+task("escrow:documents", "Run a local document server standing in for IPFS")
+  .addOptionalParam("port", "HTTP port", 8547, types.int)
+  .addOptionalParam("directory", "Directory of the stored documents", DEFAULT_DIRECTORY)
+  .setAction(async (args: { port: number; directory: string }) => {
+    const { createDocumentServer, LocalDocumentStore } = await import("../documents");
+    const server = createDocumentServer(new LocalDocumentStore(args.directory));
+    await new Promise<void>((resolve) => server.listen(args.port, resolve));
+    console.log(`Document server of ${args.directory} listening on http://127.0.0.1:${args.port}`);
+    // runs until interrupted
+    await new Promise<void>((resolve) => {
+      process.once("SIGINT", resolve);
+      process.once("SIGTERM", resolve);
+    });
+    await new Promise((resolve) => server.close(resolve));
+  });
@@ -0,0 +1,362 @@
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { ConfigurableTaskDefinition, HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Signer, TransactionReceipt } from "ethers";
+import type { ArbitratedEscrowClient, EscrowClient } from "../sdk";
+
+// the sdk is loaded in the actions, typechain types don't exist before the first compilation
+
+const PLUGIN = "escrow";
+const ETH = "0x0000000000000000000000000000000000000000";
+const DEFAULT_DEADLINE_PERIOD = 30 * 24 * 3600;
+
+type Variant = "agent" | "simple" | "multisig";
+
+interface CommonArgs {
+  variant: Variant;
+  from?: string;
+  json: boolean;
+}
+
+interface EscrowArgs extends CommonArgs {
+  contract: string;
+  id?: string;
+}
+
+type Output = Record<string, unknown>;
+
+function withCommonParams(definition: ConfigurableTaskDefinition) {
+  return definition
+    .addOptionalParam("variant", "Escrow variant: agent, simple or multisig", "agent")
+    .addOptionalParam("from", "Signer address, the first account by default")
+    .addFlag("json", "Print the result as JSON");
+}
+
+// a task working on an existing agreement
+function escrowTask(name: string, description: string) {
+  return withCommonParams(task(`escrow:${name}`, description)
+    .addParam("contract", "EscrowAgent address or the escrow contract address")
+    .addOptionalParam("id", "EscrowAgent agreement id"));
+}
+
+function print(output: Output, json: boolean) {
+  if (json) {
+    console.log(JSON.stringify(output, (_, value) => typeof value === "bigint" ? value.toString() : value, 2));
+    return;
+  }
+  for (const [key, value] of Object.entries(output)) {
+    if (value !== undefined) {
+      console.log(`${key.padEnd(16)}${value}`);
+    }
+  }
+}
+
+// escrow reverts are reported without the stack trace
+async function run(json: boolean, action: () => Promise<Output>) {
+  const { EscrowError } = await import("../sdk");
+  try {
+    print(await action(), json);
+  } catch (error) {
+    if (error instanceof EscrowError) {
+      throw new HardhatPluginError(PLUGIN, `${error.name}: ${error.message}`, error);
+    }
+    throw error;
+  }
+}
+
+async function getSigner(hre: HardhatRuntimeEnvironment, from?: string) {
+  return from ? hre.ethers.getSigner(from) : (await hre.ethers.getSigners())[0];
+}
+
+async function getClient(hre: HardhatRuntimeEnvironment, args: EscrowArgs): Promise<EscrowClient> {
+  const { EscrowAgentClient, MultisigEscrowClient, SimpleEscrowAgentClient } = await import("../sdk");
+  const signer = await getSigner(hre, args.from);
+  switch (args.variant) {
+    case "agent":
+      if (args.id === undefined) {
+        throw new HardhatPluginError(PLUGIN, "--id is required for EscrowAgent agreements");
+      }
+      return new EscrowAgentClient(await hre.ethers.getContractAt("EscrowAgent", args.contract, signer),
+        BigInt(args.id));
+    case "simple":
+      return new SimpleEscrowAgentClient(await hre.ethers.getContractAt("SimpleEscrowAgent", args.contract, signer));
+    case "multisig":
+      return new MultisigEscrowClient(await hre.ethers.getContractAt("MultisigEscrow", args.contract, signer));
+    default:
+      throw new HardhatPluginError(PLUGIN, `Unknown variant ${args.variant}, use agent, simple or multisig`);
+  }
+}
+
+function arbitrated(client: EscrowClient): ArbitratedEscrowClient {
+  if (!("resolveDispute" in client)) {
+    throw new HardhatPluginError(PLUGIN, `${client.variant} disputes are resolved by a multisig`);
+  }
+  return client as ArbitratedEscrowClient;
+}
+
+async function getDecimals(hre: HardhatRuntimeEnvironment, token: string): Promise<number> {
+  if (token === ETH) {
+    return 18;
+  }
+  const erc20 = new hre.ethers.Contract(token, ["function decimals() view returns (uint8)"], hre.ethers.provider);
+  return Number(await erc20.decimals());
+}
+
+// percents with up to 4 decimals to the contracts' 1_000_000 base
+function parsePercentage(value: string): number {
+  const percentage = Number(value);
+  if (!Number.isFinite(percentage) || percentage < 0 || percentage > 100) {
+    throw new HardhatPluginError(PLUGIN, `Wrong percentage ${value}, expected a number between 0 and 100`);
+  }
+  return Math.round(percentage * 10_000);
+}
+
+function agreementOf(client: EscrowClient) {
+  return "agreementId" in client ? (client as { agreementId: bigint }).agreementId : undefined;
+}
+
+async function transactionOutput(client: EscrowClient, receipt: TransactionReceipt): Promise<Output> {
+  return {
+    contract: await client.getAddress(),
+    agreementId: agreementOf(client),
+    status: await client.getStatus(),
+    transaction: receipt.hash,
+    block: receipt.blockNumber,
+  };
+}
+
+// agreement workflow tasks without parameters
+const ACTIONS: [string, string, (client: EscrowClient) => Promise<TransactionReceipt>][] = [
+  ["approve", "Approve the agreement as the beneficiary", (client) => client.approve()],
+  ["reject", "Reject the agreement as the beneficiary", (client) => client.reject()],
+  ["cancel", "Cancel the agreement as the depositor before it's approved", (client) => client.cancel()],
+  ["refund", "Refund the depositor as the beneficiary", (client) => client.refund()],
+  ["release", "Release the funds to the beneficiary", (client) => client.release()],
+  ["raise-dispute", "Raise a dispute after the deadline as the depositor", (client) => client.dispute()],
+  ["assign-arbitrator", "Assign an arbitrator from the pool", (client) => arbitrated(client).assignArbitrator()],
+  ["withdraw", "Withdraw the funds available to the signer", (client) => client.withdraw()],
+];
+
+for (const [name, description, action] of ACTIONS) {
+  escrowTask(name, description).setAction(async (args: EscrowArgs, hre) => {
+    await run(args.json, async () => {
+      const client = await getClient(hre, args);
+      return transactionOutput(client, await action(client));
+    });
+  });
+}
+
+withCommonParams(task("escrow:create", "Create an agreement, the signer is the depositor"))
+  .addParam("contract", "EscrowAgent address or the factory address")
+  .addParam("beneficiary", "Beneficiary address")
+  .addParam("amount", "Amount in ETH or in token units")
+  .addOptionalParam("deadline", "Deadline unix timestamp, in 30 days by default", undefined, types.int)
+  .addOptionalParam("details", "Agreement details CID", "")
+  .addOptionalParam("token", "ERC-20 token address, ETH by default", ETH)
+  .setAction(async (args: CommonArgs & { contract: string; beneficiary: string; amount: string;
+      deadline?: number; details: string; token: string }, hre) => {
+    await run(args.json, async () => {
+      const { EscrowAgentClient, MultisigEscrowClient, SimpleEscrowAgentClient } = await import("../sdk");
+      const signer = await getSigner(hre, args.from);
+      const latest = await hre.ethers.provider.getBlock("latest");
+      const params = {
+        beneficiary: args.beneficiary,
+        amount: hre.ethers.parseUnits(args.amount, await getDecimals(hre, args.token)),
+        deadlineDate: args.deadline ?? latest!.timestamp + DEFAULT_DEADLINE_PERIOD,
+        detailsHash: args.details,
+        token: args.token,
+      };
+      let client: EscrowClient;
+      if (args.variant === "agent") {
+        client = await EscrowAgentClient.create(
+          await hre.ethers.getContractAt("EscrowAgent", args.contract, signer), params);
+      } else if (args.variant === "simple") {
+        client = await SimpleEscrowAgentClient.create(
+          await hre.ethers.getContractAt("SimpleEscrowFactory", args.contract, signer), params);
+      } else {
+        client = await MultisigEscrowClient.create(
+          await hre.ethers.getContractAt("MultisigEscrowFactory", args.contract, signer), params);
+      }
+      return {
+        variant: client.variant,
+        contract: await client.getAddress(),
+        agreementId: agreementOf(client),
+        status: await client.getStatus(),
+        deadline: params.deadlineDate,
+      };
+    });
+  });
+
+escrowTask("add-funds", "Add funds to the agreement as the depositor")
+  .addParam("amount", "Amount in ETH or in token units")
+  .setAction(async (args: EscrowArgs & { amount: string }, hre) => {
+    await run(args.json, async () => {
+      const client = await getClient(hre, args);
+      const { token } = await client.getDetails();
+      const amount = hre.ethers.parseUnits(args.amount, await getDecimals(hre, token));
+      return transactionOutput(client, await client.addFunds(amount));
+    });
+  });
+
+escrowTask("release-milestone", "Release the next milestone of an EscrowAgent agreement")
+  .addParam("index", "Milestone index", undefined, types.int)
+  .setAction(async (args: EscrowArgs & { index: number }, hre) => {
+    await run(args.json, async () => {
+      const { EscrowAgentClient } = await import("../sdk");
+      const client = await getClient(hre, args);
+      if (!(client instanceof EscrowAgentClient)) {
+        throw new HardhatPluginError(PLUGIN, "Milestones are supported by EscrowAgent only");
+      }
+      return transactionOutput(client, await client.releaseMilestone(args.index));
+    });
+  });
+
+escrowTask("register-arbitrator", "Propose an arbitrator as the depositor or agree on it as the beneficiary")
+  .addParam("arbitrator", "Arbitrator address")
+  .addParam("fee", "Arbitrator fee in percent of the agreement amount")
+  .setAction(async (args: EscrowArgs & { arbitrator: string; fee: string }, hre) => {
+    await run(args.json, async () => {
+      const client = arbitrated(await getClient(hre, args));
+      const receipt = await client.registerArbitrator(args.arbitrator, parsePercentage(args.fee));
+      return transactionOutput(client, receipt);
+    });
+  });
+
+escrowTask("resolve", "Resolve the dispute as the arbitrator, or split an unresolved one as a party")
+  .addOptionalParam("refund", "Refund to the depositor in percent, arbitrator only")
+  .setAction(async (args: EscrowArgs & { refund?: string }, hre) => {
+    await run(args.json, async () => {
+      const client = arbitrated(await getClient(hre, args));
+      const refund = args.refund === undefined ? undefined : parsePercentage(args.refund);
+      return transactionOutput(client, await client.resolveDispute(refund));
+    });
+  });
+
+escrowTask("status", "Print the agreement status").setAction(async (args: EscrowArgs, hre) => {
+  await run(args.json, async () => {
+    const client = await getClient(hre, args);
+    return { contract: await client.getAddress(), agreementId: agreementOf(client), status: await client.getStatus() };
+  });
+});
+
+escrowTask("details", "Print the agreement details, the signer must be a party")
+  .setAction(async (args: EscrowArgs, hre) => {
+    await run(args.json, async () => {
+      const client = await getClient(hre, args);
+      const details = await client.getDetails();
+      const decimals = await getDecimals(hre, details.token);
+      return {
+        variant: client.variant,
+        contract: await client.getAddress(),
+        agreementId: agreementOf(client),
+        ...details,
+        amount: args.json ? details.amount : hre.ethers.formatUnits(details.amount, decimals),
+        startDate: args.json ? details.startDate : new Date(details.startDate * 1000).toISOString(),
+        deadlineDate: args.json ? details.deadlineDate : new Date(details.deadlineDate * 1000).toISOString(),
+      };
+    });
+  });
+
+// the arbitrator pool contract serving the EscrowAgent
+async function getArbitratorPool(hre: HardhatRuntimeEnvironment, contract: string, signer?: Signer) {
+  const escrow = await hre.ethers.getContractAt("EscrowAgent", contract);
+  return hre.ethers.getContractAt("ArbitratorPool", await escrow.getArbitratorPool(), signer);
+}
+
+// the pool serving an escrow queues the changes of the members, they're applied after the delay
+for (const [name, description] of [
+  ["add-pool-arbitrator", "Add an arbitrator to the EscrowAgent pool as the owner"],
+  ["remove-pool-arbitrator", "Remove an arbitrator from the EscrowAgent pool as the owner"],
+  ["apply-pool-arbitrator", "Apply the queued change of an arbitrator in the EscrowAgent pool as the owner"],
+  ["cancel-pool-arbitrator", "Cancel the queued change of an arbitrator in the EscrowAgent pool as the owner"],
+]) {
+  task(`escrow:${name}`, description)
+    .addParam("contract", "EscrowAgent address")
+    .addParam("arbitrator", "Arbitrator address")
+    .addOptionalParam("from", "Owner address, the first account by default")
+    .addFlag("json", "Print the result as JSON")
+    .setAction(async (args: { contract: string; arbitrator: string; from?: string; json: boolean }, hre) => {
+      await run(args.json, async () => {
+        const { sendTransaction } = await import("../sdk");
+        // the EscrowAgent forwards the calls to its pool, the custom errors come from the pool
+        const escrow = await hre.ethers.getContractAt("EscrowAgent", args.contract, await getSigner(hre, args.from));
+        const pool = await getArbitratorPool(hre, args.contract);
+        const receipt = await sendTransaction(() => {
+          switch (name) {
+            case "add-pool-arbitrator": return escrow.addPoolArbitrator(args.arbitrator);
+            case "remove-pool-arbitrator": return escrow.removePoolArbitrator(args.arbitrator);
+            case "apply-pool-arbitrator": return escrow.applyPoolArbitrator(args.arbitrator);
+            default: return escrow.cancelPoolArbitrator(args.arbitrator);
+          }
+        }, pool.interface);
+        const [added, applyDate] = await pool.getQueuedPoolArbitrator(args.arbitrator);
+        return { contract: args.contract, arbitrator: args.arbitrator, transaction: receipt.hash,
+          block: receipt.blockNumber,
+          ...(applyDate === 0n ? {} : { queued: added ? "add" : "remove",
+            applyDate: args.json ? Number(applyDate) : new Date(Number(applyDate) * 1000).toISOString() }) };
+      });
+    });
+}
+
+// pool arbitrators stake eth to join the arbitrator pool of the EscrowAgent
+function poolTask(name: string, description: string) {
+  return task(`escrow:${name}`, description)
+    .addParam("contract", "EscrowAgent address")
+    .addOptionalParam("from", "Signer address, the first account by default")
+    .addFlag("json", "Print the result as JSON");
+}
+
+for (const [name, description] of [
+  ["stake", "Deposit the stake of a pool arbitrator"],
+  ["unstake", "Withdraw the stake of a pool arbitrator without assigned agreements"],
+]) {
+  poolTask(name, description)
+    .addParam("amount", "Amount in ETH")
+    .setAction(async (args: { contract: string; amount: string; from?: string; json: boolean }, hre) => {
+      await run(args.json, async () => {
+        const { sendTransaction } = await import("../sdk");
+        const signer = await getSigner(hre, args.from);
+        const pool = await getArbitratorPool(hre, args.contract, signer);
+        const amount = hre.ethers.parseEther(args.amount);
+        const receipt = await sendTransaction(() => name === "stake"
+          ? pool.depositStake({ value: amount })
+          : pool.withdrawStake(amount), pool.interface);
+        const { stake } = await pool.getArbitratorStats(signer.address);
+        return { contract: args.contract, arbitrator: signer.address,
+          stake: args.json ? stake : hre.ethers.formatEther(stake), transaction: receipt.hash,
+          block: receipt.blockNumber };
+      });
+    });
+}
+
+poolTask("withdraw-compensation", "Withdraw the slashed stakes of the pool arbitrators paid to the signer")
+  .setAction(async (args: { contract: string; from?: string; json: boolean }, hre) => {
+    await run(args.json, async () => {
+      const { sendTransaction } = await import("../sdk");
+      const pool = await getArbitratorPool(hre, args.contract, await getSigner(hre, args.from));
+      const receipt = await sendTransaction(() => pool.withdrawCompensation(), pool.interface);
+      return { contract: args.contract, transaction: receipt.hash, block: receipt.blockNumber };
+    });
+  });
+
+task("escrow:arbitrator", "Print the stake and the statistics of an EscrowAgent pool arbitrator")
+  .addParam("contract", "EscrowAgent address")
+  .addParam("arbitrator", "Arbitrator address")
+  .addFlag("json", "Print the result as JSON")
+  .setAction(async (args: { contract: string; arbitrator: string; json: boolean }, hre) => {
+    await run(args.json, async () => {
+      const pool = await getArbitratorPool(hre, args.contract);
+      const stats = await pool.getArbitratorStats(args.arbitrator);
+      const reputation = await pool.getArbitratorReputation(args.arbitrator);
+      return {
+        arbitrator: args.arbitrator,
+        stake: args.json ? stats.stake : hre.ethers.formatEther(stats.stake),
+        assigned: stats.assigned,
+        resolved: stats.resolved,
+        unresolved: stats.unresolved,
+        averageResolutionTime: await pool.getAverageResolutionTime(args.arbitrator),
+        // percents in the text output
+        reputation: args.json ? reputation : `${Number(reputation) / 10_000}%`,
+      };
+    });
+  });
@@ -0,0 +1,29 @@
+import { task, types } from "hardhat/config";
+
+// the relayer and the sdk are loaded in the action, typechain types don't exist before the first compilation
+
+task("escrow:relayer", "Run a local relayer of the signed escrow actions and forward requests")
+  .addOptionalParam("port", "HTTP port", 8546, types.int)
+  .addOptionalParam("contracts", "Comma separated addresses of the relayed contracts, any contract by default")
+  .addOptionalParam("forwarder", "EscrowForwarder address of the MultisigEscrow requests")
+  .addOptionalParam("maxGas", "Max gas of the forwarded calls", undefined, types.string)
+  .addOptionalParam("from", "Relayer address paying the gas, the first account by default")
+  .setAction(async (args: { port: number; contracts?: string; forwarder?: string; maxGas?: string;
+      from?: string }, hre) => {
+    const { createRelayerServer, Relayer } = await import("../relayer");
+    const signer = args.from ? await hre.ethers.getSigner(args.from) : (await hre.ethers.getSigners())[0];
+    const relayer = new Relayer(signer, {
+      contracts: args.contracts?.split(",").map((address) => address.trim()),
+      forwarder: args.forwarder,
+      maxGas: args.maxGas === undefined ? undefined : BigInt(args.maxGas),
+    });
+    const server = createRelayerServer(relayer);
+    await new Promise<void>((resolve) => server.listen(args.port, resolve));
+    console.log(`Relayer ${signer.address} listening on http://127.0.0.1:${args.port}`);
+    // runs until interrupted
+    await new Promise<void>((resolve) => {
+      process.once("SIGINT", resolve);
+      process.once("SIGTERM", resolve);
+    });
+    await new Promise((resolve) => server.close(resolve));
+  });
@@ -0,0 +1,65 @@
+import { task, types } from "hardhat/config";
+import { HardhatPluginError } from "hardhat/plugins";
+import type { NotificationChannel } from "../watcher";
+
+// the watcher and the indexer are loaded in the action, typechain types don't exist before the first compilation
+
+const PLUGIN = "escrow";
+
+function addresses(list?: string): string[] | undefined {
+  return list?.split(",").map((address) => address.trim()).filter((address) => address !== "");
+}
+
+task("escrow:watch", "Follow the escrows and notify the subscribed addresses of their events and deadlines")
+  .addOptionalParam("agents", "Comma separated EscrowAgent addresses")
+  .addOptionalParam("simple", "Comma separated SimpleEscrowAgent addresses")
+  .addOptionalParam("multisig", "Comma separated MultisigEscrow addresses")
+  .addOptionalParam("simpleFactories", "Comma separated SimpleEscrowFactory addresses")
+  .addOptionalParam("multisigFactories", "Comma separated MultisigEscrowFactory addresses")
+  .addOptionalParam("startBlock", "Deployment block of the contracts", 0, types.int)
+  .addOptionalParam("directory", "Directory of the indexer and watcher state", ".watcher")
+  .addOptionalParam("port", "HTTP port of the subscriptions API", 8548, types.int)
+  .addOptionalParam("pollInterval", "Milliseconds between the ticks", 5_000, types.int)
+  .addOptionalParam("claimNotice", "Seconds before the claim the beneficiary is reminded", 24 * 3600, types.int)
+  .addOptionalParam("telegramApi", "Telegram Bot API URL", "https://api.telegram.org")
+  .setAction(async (args: { agents?: string; simple?: string; multisig?: string; simpleFactories?: string;
+      multisigFactories?: string; startBlock: number; directory: string; port: number; pollInterval: number;
+      claimNotice: number; telegramApi: string }, hre) => {
+    const path = await import("path");
+    const { AgreementIndexer, JsonFileStore } = await import("../indexer");
+    const { createWatcherServer, EscrowWatcher, JsonFileWatcherStore, TelegramChannel, WebhookChannel } =
+      await import("../watcher");
+    const options = {
+      escrowAgents: addresses(args.agents),
+      simpleEscrowAgents: addresses(args.simple),
+      multisigEscrows: addresses(args.multisig),
+      simpleEscrowFactories: addresses(args.simpleFactories),
+      multisigEscrowFactories: addresses(args.multisigFactories),
+      startBlock: args.startBlock,
+    };
+    if (![options.escrowAgents, options.simpleEscrowAgents, options.multisigEscrows, options.simpleEscrowFactories,
+        options.multisigEscrowFactories].some((list) => list?.length)) {
+      throw new HardhatPluginError(PLUGIN, "No contracts to watch");
+    }
+    const channels: NotificationChannel[] = [new WebhookChannel()];
+    // the token is a secret, so it's read from the environment
+    const botToken = process.env.TELEGRAM_BOT_TOKEN;
+    if (botToken) {
+      channels.push(new TelegramChannel(botToken, args.telegramApi));
+    }
+    const indexer = await AgreementIndexer.open(hre.ethers.provider,
+      new JsonFileStore(path.join(args.directory, "indexer.json")), options);
+    const store = new JsonFileWatcherStore(path.join(args.directory, "watcher.json"));
+    const watcher = await EscrowWatcher.open(indexer, store, channels,
+      { pollInterval: args.pollInterval, claimNotice: args.claimNotice });
+    const server = createWatcherServer(watcher);
+    await new Promise<void>((resolve) => server.listen(args.port, resolve));
+    console.log(`Watcher at block ${indexer.checkpoint?.blockNumber}, ` +
+      `channels ${channels.map((channel) => channel.name).join(", ")}, API on http://127.0.0.1:${args.port}`);
+    // runs until interrupted
+    const controller = new AbortController();
+    process.once("SIGINT", () => controller.abort());
+    process.once("SIGTERM", () => controller.abort());
+    await watcher.run(controller.signal);
+    await new Promise((resolve) => server.close(resolve));
+  });
@@ -0,0 +1,195 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import { promises as fs } from "fs";
+  import os from "os";
+  import path from "path";
+  import hre from "hardhat";
+  import { AgreementIndexer, JsonFileStore, MemoryStore } from "../indexer";
+  import { DEFAULT_POLICY, MAX_POLICY, MIN_POLICY } from "../sdk";
+
+
+  describe("AgreementIndexer", function () {
+
+    const CID = "0xB45165ED3CD437B9FFAD02A2AAD22A4DDC69162470E2622982889CE5826F6E3D";
+    const AMOUNT = hre.ethers.parseEther("1");
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, arbitrator, someone] = await hre.ethers.getSigners();
+      const startBlock = await hre.ethers.provider.getBlockNumber() + 1;
+      const agent = await hre.ethers.deployContract("EscrowAgent");
+      const multisigFactory = await hre.ethers.deployContract("MultisigEscrowFactory", [hre.ethers.ZeroAddress]);
+      const simpleFactory = await hre.ethers.deployContract("SimpleEscrowFactory",
+        [hre.ethers.ZeroAddress, [], DEFAULT_POLICY, MIN_POLICY, MAX_POLICY]);
+      const deadlineDate = (await time.latest()) + 30 * 24 * 3600;
+      const options = {
+        escrowAgents: [await agent.getAddress()],
+        multisigEscrowFactories: [await multisigFactory.getAddress()],
+        simpleEscrowFactories: [await simpleFactory.getAddress()],
+        startBlock,
+      };
+      return { agent, multisigFactory, simpleFactory, owner, depositor, beneficiary, arbitrator, someone,
+        deadlineDate, options };
+    }
+
+    async function agreementsFixture() {
+      const fixture = await loadFixture(deployFixture);
+      const { agent, multisigFactory, simpleFactory, depositor, beneficiary, someone, deadlineDate } = fixture;
+      await agent.connect(depositor)["createAgreement(address,string,uint32)"](
+        beneficiary, CID, deadlineDate, { value: AMOUNT });
+      await agent.connect(someone)["createAgreement(address,string,uint32)"](
+        beneficiary, CID, deadlineDate + 3600, { value: AMOUNT });
+      await multisigFactory.connect(depositor).createEscrow(beneficiary, deadlineDate + 7200, { value: AMOUNT });
+      await simpleFactory.connect(depositor).createEscrow(beneficiary, CID, deadlineDate, { value: AMOUNT });
+      const multisig = await hre.ethers.getContractAt("MultisigEscrow",
+        (await multisigFactory.getDepositorContracts(depositor))[0]);
+      return { ...fixture, multisig };
+    }
+
+    it("Should index agreements of all contracts", async () => {
+      const { agent, multisig, depositor, beneficiary, someone, deadlineDate, options } =
+        await loadFixture(agreementsFixture);
+      const indexer = await AgreementIndexer.open(hre.ethers.provider, new MemoryStore(), options);
+      expect(await indexer.sync()).to.equal(await hre.ethers.provider.getBlockNumber());
+      expect(indexer.getAgreements()).to.have.lengthOf(4);
+
+      const agreement = indexer.getAgreement(await agent.getAddress(), 1)!;
+      expect(agreement.variant).to.equal("EscrowAgent");
+      expect(agreement.depositor).to.equal(depositor.address);
+      expect(agreement.amount).to.equal(AMOUNT);
+      expect(agreement.deadlineDate).to.equal(deadlineDate);
+      expect(agreement.detailsHash).to.equal(CID);
+      expect(agreement.status).to.equal("Funded");
+      expect(indexer.getAgreement(await multisig.getAddress())!.variant).to.equal("MultisigEscrow");
+
+      expect(indexer.getAgreementsByParty(depositor.address)).to.have.lengthOf(3);
+      expect(indexer.getAgreementsByParty(someone.address)).to.have.lengthOf(1);
+      expect(indexer.getAgreementsByParty(beneficiary.address)).to.have.lengthOf(4);
+      // the factory records its caller as the simple escrow depositor
+      const simple = indexer.getAgreements().find((a) => a.variant === "SimpleEscrowAgent")!;
+      expect(simple.depositor).to.equal(depositor.address);
+    });
+
+    it("Should record the caller of the factories as the depositor", async () => {
+      const { simpleFactory, multisig, depositor } = await loadFixture(agreementsFixture);
+      const [created] = await simpleFactory.queryFilter(simpleFactory.filters.EscrowCreated());
+      const simple = await hre.ethers.getContractAt("SimpleEscrowAgent", created.args.escrow);
+      for (const escrow of [simple, multisig]) {
+        const [event] = await escrow.queryFilter(escrow.filters.AgreementCreated());
+        expect(event.args.depositor).to.equal(depositor.address);
+      }
+      // the caller runs the simple escrow, not the factory
+      await expect(simple.connect(depositor).cancelAgreement()).to.emit(simple, "AgreementCanceled");
+    });
+
+    it("Should follow the agreement lifecycle", async () => {
+      const { agent, multisig, depositor, beneficiary, arbitrator, deadlineDate, options } =
+        await loadFixture(agreementsFixture);
+      const indexer = await AgreementIndexer.open(hre.ethers.provider, new MemoryStore(), options);
+      await indexer.sync();
+
+      await agent.connect(depositor).addFunds(1, { value: AMOUNT });
+      await agent.connect(beneficiary).approveAgreement(1);
+      await multisig.connect(depositor).revokeAgreement();
+      await multisig.connect(depositor).removeFunds();
+      await time.increaseTo(deadlineDate + 1);
+      await agent.connect(depositor).raiseDispute(1);
+      await agent.connect(depositor).registerArbitrator(1, arbitrator, 10000);
+      await indexer.sync();
+      expect(indexer.getAgreementsByStatus("Disputed").map((a) => a.agreementId)).to.deep.equal([1]);
+      expect(indexer.getAgreementsByArbitrator(arbitrator.address)[0].arbitratorAgreed).to.be.false;
+
+      await agent.connect(beneficiary).registerArbitrator(1, arbitrator, 10000);
+      await agent.connect(arbitrator)["resolveDispute(uint256,uint32)"](1, 0);
+      await agent.connect(beneficiary).withdrawFunds(1);
+      await indexer.sync();
+      const agreement = indexer.getAgreement(await agent.getAddress(), 1)!;
+      expect(agreement.status).to.equal("Resolved");
+      expect(agreement.amount).to.equal(AMOUNT * 2n);
+      expect(agreement.withdrawn).to.equal(AMOUNT * 2n * 99n / 100n);
+      expect(indexer.getAgreementsByArbitrator(arbitrator.address)[0].arbitratorAgreed).to.be.true;
+      const revoked = indexer.getAgreement(await multisig.getAddress())!;
+      expect(revoked.status).to.equal("Revoked");
+      expect(revoked.withdrawn).to.equal(AMOUNT);
+      expect(indexer.getAgreementsByStatus("Funded", "Revoked")).to.have.lengthOf(3);
+    });
+
+    it("Should find upcoming deadlines", async () => {
+      const { agent, depositor, beneficiary, deadlineDate, options } = await loadFixture(agreementsFixture);
+      await agent.connect(depositor).createMilestoneAgreement(beneficiary, CID, hre.ethers.ZeroAddress, [
+        { amount: AMOUNT, deadlineDate: deadlineDate - 3600, detailsHash: CID },
+        { amount: AMOUNT, deadlineDate: deadlineDate + 10 * 3600, detailsHash: CID },
+      ], { value: AMOUNT * 2n });
+      const indexer = await AgreementIndexer.open(hre.ethers.provider, new MemoryStore(), options);
+      await indexer.sync();
+      const upcoming = indexer.getUpcomingDeadlines(deadlineDate - 3600, 2 * 3600);
+      // the milestone agreement comes first with its first milestone deadline, the window end is excluded
+      expect(upcoming.map((a) => a.agreementId)).to.deep.equal([3, 1, 1]);
+      expect(upcoming.map((a) => a.variant)).to.deep.equal(["EscrowAgent", "EscrowAgent", "SimpleEscrowAgent"]);
+
+      await agent.connect(beneficiary).approveAgreement(3);
+      await agent.connect(depositor).releaseMilestone(3, 0);
+      await agent.connect(depositor).cancelAgreement(1);
+      await indexer.sync();
+      expect(indexer.getUpcomingDeadlines(deadlineDate - 3600, 2 * 3600).map((a) => a.variant))
+        .to.deep.equal(["SimpleEscrowAgent"]);
+      expect(indexer.getUpcomingDeadlines(deadlineDate, 24 * 3600)).to.have.lengthOf(4);
+    });
+
+    it("Should resume from the checkpoint", async () => {
+      const { agent, depositor, beneficiary, deadlineDate, options } = await loadFixture(agreementsFixture);
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "escrow-indexer-"));
+      try {
+        const store = new JsonFileStore(path.join(dir, "index.json"));
+        const indexer = await AgreementIndexer.open(hre.ethers.provider, store, { ...options, batchSize: 2 });
+        const checkpoint = await indexer.sync();
+
+        await agent.connect(depositor)["createAgreement(address,string,uint32)"](
+          beneficiary, CID, deadlineDate, { value: AMOUNT });
+        const resumed = await AgreementIndexer.open(hre.ethers.provider, store, options);
+        expect(resumed.checkpoint!.blockNumber).to.equal(checkpoint);
+        expect(resumed.getAgreements()).to.have.lengthOf(4);
+        await resumed.sync();
+        expect(resumed.getAgreements()).to.have.lengthOf(5);
+        expect((await store.load())!.events.filter((e) => e.name === "AgreementCreated")).to.have.lengthOf(5);
+
+        // other contracts start from scratch
+        const other = await AgreementIndexer.open(hre.ethers.provider, store, { ...options, simpleEscrowFactories: [] });
+        expect(other.checkpoint).to.be.undefined;
+        await other.sync();
+        expect(other.getAgreements()).to.have.lengthOf(4);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("Should roll back reorged blocks", async () => {
+      const { agent, depositor, beneficiary, someone, deadlineDate, options } = await loadFixture(agreementsFixture);
+      const indexer = await AgreementIndexer.open(hre.ethers.provider, new MemoryStore(), options);
+      await indexer.sync();
+      const forkBlock = await hre.ethers.provider.getBlockNumber();
+
+      const snapshotId = await hre.network.provider.send("evm_snapshot");
+      await agent.connect(beneficiary).approveAgreement(1);
+      await agent.connect(depositor)["createAgreement(address,string,uint32)"](
+        beneficiary, CID, deadlineDate, { value: AMOUNT });
+      await indexer.sync();
+      expect(indexer.getAgreementsByStatus("Active")).to.have.lengthOf(1);
+      expect(indexer.getAgreements()).to.have.lengthOf(5);
+
+      // the other branch is longer and has another agreement 3
+      await hre.network.provider.send("evm_revert", [snapshotId]);
+      await hre.network.provider.send("hardhat_mine", ["0x2"]);
+      await agent.connect(someone)["createAgreement(address,string,uint32)"](
+        depositor, CID, deadlineDate, { value: AMOUNT * 3n });
+      await indexer.sync();
+      expect(indexer.getAgreementsByStatus("Active")).to.have.lengthOf(0);
+      const agreement = indexer.getAgreement(await agent.getAddress(), 3)!;
+      expect(agreement.depositor).to.equal(someone.address);
+      expect(agreement.amount).to.equal(AMOUNT * 3n);
+      expect(agreement.createdBlock).to.equal(forkBlock + 3);
+      expect(indexer.checkpoint!.blockNumber).to.equal(forkBlock + 3);
+    });
+  });
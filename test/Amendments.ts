@@ -0,0 +1,215 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import {
+    EscrowAgentClient,
+    InvalidTransitionError,
+    MultisigEscrowClient,
+    SimpleEscrowAgentClient,
+  } from "../sdk";
+  import { AgreementIndexer, MemoryStore } from "../indexer";
+
+
+  describe("Amendments", function () {
+
+    const AMOUNT = hre.ethers.parseEther("1");
+    const ADDED = hre.ethers.parseEther("0.5");
+    const DAY = 24 * 3600;
+    const CID = "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku";
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, someone] = await hre.ethers.getSigners();
+      const agent = await hre.ethers.deployContract("EscrowAgent");
+      const extension = await hre.ethers.getContractAt("EscrowAgentExtension", await agent.getAddress());
+      const factory = await hre.ethers.deployContract("MultisigEscrowFactory", [hre.ethers.ZeroAddress]);
+      const token = await hre.ethers.deployContract("ERC20Mock");
+      const deadlineDate = (await time.latest()) + 30 * DAY;
+      const params = { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate };
+      return { agent, extension, factory, token, params, owner, depositor, beneficiary, someone, deadlineDate };
+    }
+
+    it("Should amend the deadline, the amount and the document by mutual consent", async () => {
+      const { agent, extension, params, depositor, beneficiary, someone, deadlineDate } =
+        await loadFixture(deployFixture);
+      const client = await EscrowAgentClient.create(agent.connect(depositor), params);
+      const { agreementId } = client;
+      await client.connect(beneficiary).approve();
+      const newDeadline = deadlineDate + 10 * DAY;
+
+      await expect(client.connect(beneficiary).proposeAmendment({ deadlineDate: newDeadline, addedAmount: ADDED }))
+        .to.emit(agent, "AmendmentProposed")
+        .withArgs(agreementId, 1, beneficiary.address, newDeadline, ADDED, "");
+      // the depositor counter-proposes the longer deadline only
+      await client.proposeAmendment({ deadlineDate: newDeadline, detailsHash: CID });
+      await expect(client.acceptAmendment(2)).to.be.rejectedWith("There is no amendment proposed by the other party.");
+      await expect(extension.connect(beneficiary).acceptAmendment(agreementId, 1))
+        .to.be.revertedWithCustomError(extension, "WrongAmendment").withArgs(2, 1);
+      await expect(extension.connect(someone).acceptAmendment(agreementId, 2))
+        .to.be.revertedWith("You are not the depositor/beneficiary.");
+      await expect(client.connect(beneficiary).acceptAmendment(2)).to.emit(agent, "AmendmentAccepted")
+        .withArgs(agreementId, 2);
+      let details = await client.getDetails();
+      expect(details.deadlineDate).to.equal(newDeadline);
+      expect(details.detailsHash).to.equal(CID);
+      expect(details.amount).to.equal(AMOUNT);
+
+      await client.connect(beneficiary).proposeAmendment({ addedAmount: ADDED });
+      await expect(extension.connect(depositor).acceptAmendment(agreementId, 3))
+        .to.be.revertedWith("Added amount doesn't match the funds");
+      await expect(client.acceptAmendment(3)).to.emit(agent, "FundsAdded")
+        .withArgs(agreementId, depositor.address, ADDED, AMOUNT + ADDED);
+      details = await client.getDetails();
+      expect(details.amount).to.equal(AMOUNT + ADDED);
+      expect(details.deadlineDate).to.equal(newDeadline);
+      const amendments = await client.getAmendments();
+      expect(amendments.map((amendment) => amendment.accepted)).to.deep.equal([false, true, true]);
+      expect(amendments[0]).to.deep.equal({ version: 1, proposer: beneficiary.address, deadlineDate: newDeadline,
+        addedAmount: ADDED, detailsHash: "", accepted: false });
+
+      await expect(extension.connect(depositor).proposeAmendment(agreementId, 0, 0, ""))
+        .to.be.revertedWith("Nothing to amend");
+      await expect(extension.connect(depositor).proposeAmendment(agreementId, 0, ADDED, ""))
+        .to.be.revertedWith("Added amount doesn't match the funds");
+      await expect(extension.connect(depositor).proposeAmendment(agreementId, await time.latest(), 0, ""))
+        .to.be.revertedWith("Deadline should be in the future");
+      await time.increaseTo(newDeadline + 1);
+      await client.dispute();
+      await expect(client.proposeAmendment({ detailsHash: CID })).to.be.rejectedWith(InvalidTransitionError);
+    });
+
+    it("Should add the funds the depositor proposes once the beneficiary accepts", async () => {
+      const { agent, extension, token, params, depositor, beneficiary } = await loadFixture(deployFixture);
+      const client = await EscrowAgentClient.create(agent.connect(depositor), params);
+      const { agreementId } = client;
+      await expect(extension.connect(beneficiary).proposeAmendment(agreementId, 0, ADDED, "", { value: ADDED }))
+        .to.be.revertedWith("Added amount doesn't match the funds");
+      // the depositor sends the funds with the proposal
+      await expect(extension.connect(depositor).proposeAmendment(agreementId, 0, ADDED, "", { value: ADDED }))
+        .to.changeEtherBalances([depositor, agent], [-ADDED, ADDED]);
+      expect(await client.getAmendmentFunds()).to.equal(ADDED);
+      await expect(extension.connect(beneficiary).acceptAmendment(agreementId, 1, { value: ADDED }))
+        .to.be.revertedWith("Added amount doesn't match the funds");
+      await expect(client.connect(beneficiary).acceptAmendment(1)).to.emit(agent, "FundsAdded")
+        .withArgs(agreementId, beneficiary.address, ADDED, AMOUNT + ADDED);
+      expect((await client.getDetails()).amount).to.equal(AMOUNT + ADDED);
+      expect(await client.getAmendmentFunds()).to.equal(0n);
+
+      // the funds of a replaced proposal are credited back, a reclaimed proposal can't be accepted
+      await client.proposeAmendment({ addedAmount: ADDED });
+      await expect(client.connect(beneficiary).proposeAmendment({ detailsHash: CID }))
+        .to.emit(agent, "AmendmentFundsReturned").withArgs(agreementId, ADDED);
+      expect(await client.getWithdrawBalance()).to.equal(ADDED);
+      await client.proposeAmendment({ addedAmount: ADDED });
+      await expect(client.connect(beneficiary).reclaimAmendmentFunds())
+        .to.be.rejectedWith("You are not the depositor.");
+      await client.reclaimAmendmentFunds();
+      await expect(client.reclaimAmendmentFunds()).to.be.rejectedWith("Funds are not available");
+      await expect(client.connect(beneficiary).acceptAmendment(4)).to.be.rejectedWith("doesn't match the funds");
+      await expect(agent.connect(depositor).withdrawFunds(agreementId)).to.changeEtherBalance(depositor, ADDED * 2n);
+
+      // the tokens are approved and sent with the proposal
+      await token.mint(depositor, AMOUNT + ADDED);
+      const tokenClient = await EscrowAgentClient.create(agent.connect(depositor),
+        { ...params, token: await token.getAddress() });
+      await expect(extension.connect(depositor).proposeAmendment(tokenClient.agreementId, 0, ADDED, "",
+        { value: ADDED })).to.be.revertedWithCustomError(extension, "WrongToken");
+      await tokenClient.proposeAmendment({ addedAmount: ADDED });
+      await tokenClient.connect(beneficiary).acceptAmendment(1);
+      expect((await tokenClient.getDetails()).amount).to.equal(AMOUNT + ADDED);
+      expect(await token.balanceOf(agent)).to.equal(AMOUNT + ADDED);
+    });
+
+    it("Should amend the document of a milestone agreement and add tokens", async () => {
+      const { agent, extension, token, depositor, beneficiary, deadlineDate } = await loadFixture(deployFixture);
+      const milestones = [{ amount: AMOUNT, deadlineDate }];
+      const milestoneClient = await EscrowAgentClient.createWithMilestones(agent.connect(depositor),
+        { beneficiary: beneficiary.address, milestones });
+      await expect(extension.connect(beneficiary)
+        .proposeAmendment(milestoneClient.agreementId, deadlineDate + DAY, 0, "")).to.be.revertedWith("Milestones amount and deadlines are fixed");
+      await milestoneClient.connect(beneficiary).proposeAmendment({ detailsHash: CID });
+      await milestoneClient.acceptAmendment(1);
+      expect((await milestoneClient.getDetails()).detailsHash).to.equal(CID);
+
+      await token.mint(depositor, AMOUNT + ADDED);
+      const tokenAddress = await token.getAddress();
+      const client = await EscrowAgentClient.create(agent.connect(depositor),
+        { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate, token: tokenAddress });
+      await client.connect(beneficiary).proposeAmendment({ addedAmount: ADDED });
+      await expect(extension.connect(depositor).acceptAmendment(client.agreementId, 1, { value: ADDED }))
+        .to.be.revertedWithCustomError(extension, "WrongToken");
+      await client.acceptAmendment(1);
+      expect((await client.getDetails()).amount).to.equal(AMOUNT + ADDED);
+      expect(await token.balanceOf(agent)).to.equal(AMOUNT + ADDED);
+    });
+
+    it("Should amend the single agreement escrows", async () => {
+      const { factory, params, depositor, beneficiary, deadlineDate } = await loadFixture(deployFixture);
+      const simple = await SimpleEscrowAgentClient.deploy(depositor, params);
+      await simple.proposeAmendment({ deadlineDate: deadlineDate + DAY, detailsHash: CID });
+      await expect(simple.connect(beneficiary).acceptAmendment(1)).to.emit(simple.contract, "AmendmentAccepted")
+        .withArgs(1);
+      expect(await simple.getDetails()).to.include({ deadlineDate: deadlineDate + DAY, detailsHash: CID });
+      await simple.connect(beneficiary).proposeAmendment({ addedAmount: ADDED });
+      await expect(simple.acceptAmendment(2)).to.emit(simple.contract, "FundsAdded").withArgs(ADDED, AMOUNT + ADDED);
+      await simple.proposeAmendment({ addedAmount: ADDED });
+      // a new proposal of the depositor returns the funds of the former one
+      await expect(simple.contract.connect(depositor).proposeAmendment(0, ADDED * 2n, "", { value: ADDED * 2n }))
+        .to.changeEtherBalances([depositor, simple.contract], [-ADDED, ADDED]);
+      await expect(simple.connect(beneficiary).acceptAmendment(4)).to.emit(simple.contract, "FundsAdded")
+        .withArgs(ADDED * 2n, AMOUNT + ADDED * 3n);
+
+      const multisig = await MultisigEscrowClient.create(factory.connect(depositor), params);
+      const escrow = multisig.contract;
+      await multisig.connect(beneficiary).approve();
+      await multisig.connect(beneficiary).proposeAmendment({ deadlineDate: deadlineDate + DAY, addedAmount: ADDED });
+      await expect(escrow.connect(depositor).acceptAmendment(1)).to.be.revertedWith("wrong amount");
+      await expect(escrow.connect(beneficiary).acceptAmendment(1)).to.be.revertedWith("no amendment");
+      await expect(escrow.connect(depositor).acceptAmendment(2)).to.be.revertedWith("wrong amendment");
+      await expect(escrow.connect(depositor).acceptAmendment(1, { value: ADDED }))
+        .to.changeEtherBalances([depositor, escrow], [-ADDED, ADDED]);
+      const details = await multisig.getDetails();
+      expect(details.deadlineDate).to.equal(deadlineDate + DAY);
+      expect(details.amount).to.equal(AMOUNT + ADDED);
+
+      // the depositor proposes more funds, they're out of the agreement until accepted
+      await expect(escrow.connect(depositor).proposeAmendment(0, ADDED, "", { value: ADDED }))
+        .to.changeEtherBalances([depositor, escrow], [-ADDED, ADDED]);
+      expect((await multisig.getDetails()).amount).to.equal(AMOUNT + ADDED);
+      await expect(multisig.reclaimAmendmentFunds()).to.emit(escrow, "AmendmentFundsReturned").withArgs(ADDED);
+      await expect(multisig.connect(beneficiary).acceptAmendment(2)).to.be.rejectedWith("wrong amount");
+      await multisig.proposeAmendment({ addedAmount: ADDED });
+      await expect(multisig.connect(beneficiary).acceptAmendment(3)).to.emit(escrow, "FundsAdded")
+        .withArgs(ADDED, AMOUNT + ADDED * 2n);
+      expect(await multisig.getAmendmentFunds()).to.equal(0n);
+
+      // a reused escrow starts without amendments
+      await multisig.release();
+      await multisig.connect(beneficiary).withdraw();
+      await escrow.connect(depositor).createAgreement(beneficiary, deadlineDate, { value: AMOUNT });
+      expect(await multisig.getAmendments()).to.be.empty;
+    });
+
+    it("Should index the amendments", async () => {
+      const { agent, params, depositor, beneficiary, deadlineDate } = await loadFixture(deployFixture);
+      const startBlock = await hre.ethers.provider.getBlockNumber() + 1;
+      const client = await EscrowAgentClient.create(agent.connect(depositor), params);
+      const indexer = await AgreementIndexer.open(hre.ethers.provider, new MemoryStore(),
+        { escrowAgents: [await agent.getAddress()], startBlock });
+      await client.connect(beneficiary).proposeAmendment({ deadlineDate: deadlineDate + DAY, addedAmount: ADDED });
+      await indexer.sync();
+      let agreement = indexer.getAgreement(await agent.getAddress(), Number(client.agreementId))!;
+      expect(agreement.amendments).to.have.length(1);
+      expect(agreement.amendments[0].accepted).to.be.false;
+      expect(agreement.deadlineDate).to.equal(deadlineDate);
+
+      await client.acceptAmendment(1);
+      await indexer.sync();
+      agreement = indexer.getAgreement(await agent.getAddress(), Number(client.agreementId))!;
+      expect(agreement.amendments[0].accepted).to.be.true;
+      expect(agreement.deadlineDate).to.equal(deadlineDate + DAY);
+      expect(agreement.amount).to.equal(AMOUNT + ADDED);
+    });
+  });
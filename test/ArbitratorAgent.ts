@@ -0,0 +1,179 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import { AgreementIndexer, MemoryStore } from "../indexer";
+  import { AgreementDocument, MemoryDocumentStore, publishDocument } from "../documents";
+  import { DEFAULT_POLICY } from "../sdk";
+  import {
+    ArbitratorAgent, Decision, DecisionEngine, DisputeCase, MemoryAuditLog, RuleBasedEngine,
+  } from "../arbitrator";
+
+
+  describe("ArbitratorAgent", function () {
+
+    const AMOUNT = hre.ethers.parseEther("1");
+    const DAY = 24 * 3600;
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, arbitrator] = await hre.ethers.getSigners();
+      const startBlock = await hre.ethers.provider.getBlockNumber() + 1;
+      const coordinator = await hre.ethers.deployContract("RandomnessCoordinatorMock");
+      const escrow = await hre.ethers.deployContract("EscrowAgent");
+      const pool = await hre.ethers.deployContract("ArbitratorPool");
+      await pool.connect(owner).setRandomnessCoordinator(coordinator);
+      await pool.connect(owner).setEscrow(escrow, true);
+      await escrow.connect(owner).setArbitratorPool(pool);
+      const documents = new MemoryDocumentStore();
+      const document: AgreementDocument = {
+        version: 1,
+        title: "Website redesign",
+        parties: { depositor: { address: depositor.address }, beneficiary: { address: beneficiary.address } },
+        scope: "Redesign of the landing page",
+        deliverables: [{ title: "Mockups" }, { title: "Implementation" }],
+        acceptanceCriteria: ["The page passes the accessibility audit"],
+        jurisdiction: { governingLaw: "England and Wales" },
+      };
+      const cid = await publishDocument(documents, document);
+      const deadlineDate = (await time.latest()) + 30 * DAY;
+      await escrow.connect(depositor)["createAgreement(address,string,uint32)"](
+        beneficiary, cid, deadlineDate, { value: AMOUNT });
+      await escrow.connect(beneficiary).approveAgreement(1);
+      await time.increaseTo(deadlineDate + 1);
+      await escrow.connect(depositor).raiseDispute(1);
+      const options = { escrowAgents: [await escrow.getAddress()], startBlock };
+      return { escrow, pool, coordinator, owner, depositor, beneficiary, arbitrator, documents, cid, options };
+    }
+
+    async function submitEvidence(documents: MemoryDocumentStore, submit: (cid: string) => Promise<unknown>,
+        evidence: unknown) {
+      await submit(await documents.put(new TextEncoder().encode(JSON.stringify(evidence))));
+    }
+
+    function disputeCase(evidence: Partial<DisputeCase["evidence"][number]>[] = []): DisputeCase {
+      return {
+        key: "0x0:1", variant: "EscrowAgent", contract: "0x0", agreementId: 1, depositor: "0x1", beneficiary: "0x2",
+        arbitrator: "0x3", poolAssigned: true, amount: "1", deadlineDate: 0, policy: DEFAULT_POLICY,
+        disputedDate: 0, dueDate: 0,
+        evidence: evidence.map((item) => ({ submitter: "0x1", role: "depositor", evidenceHash: "", blockNumber: 0,
+          ...item })),
+      };
+    }
+
+    it("Should resolve a pool dispute by the rules and collect the fee", async () => {
+      const { escrow, pool, coordinator, owner, depositor, beneficiary, arbitrator, documents, options } =
+        await loadFixture(deployFixture);
+      const indexer = await AgreementIndexer.open(hre.ethers.provider, new MemoryStore(), options);
+      const auditLog = new MemoryAuditLog();
+      const agent = await ArbitratorAgent.open(indexer, arbitrator, new RuleBasedEngine(), documents, auditLog,
+        { publishRationale: true });
+      // the agent stakes, the pool owner adds it after the delay
+      expect(await agent.register(await pool.getAddress())).to.be.false;
+      await pool.connect(owner).addPoolArbitrator(arbitrator);
+      await time.increase(Number(await pool.POOL_CHANGE_DELAY()));
+      expect(await agent.register(await pool.getAddress())).to.be.false;
+      await pool.connect(owner).applyPoolArbitrator(arbitrator);
+      expect(await agent.register(await pool.getAddress())).to.be.true;
+
+      await submitEvidence(documents, (cid) => escrow.connect(beneficiary).submitEvidence(1, cid),
+        { delivered: [0, 1] });
+      await submitEvidence(documents, (cid) => escrow.connect(depositor).submitEvidence(1, cid),
+        { undelivered: [1] });
+      await time.increase(DEFAULT_POLICY.agreeOnArbitratorMaxPeriod);
+      await escrow.connect(depositor).assignArbitrator(1);
+      await coordinator.fulfillRandomness(1, 0);
+
+      // the mockups are delivered, the contested implementation is credited by half
+      await agent.tick();
+      await indexer.sync();
+      const resolved = indexer.getAgreement(await escrow.getAddress(), 1)!;
+      expect(resolved.status).to.equal("Resolved");
+      expect(resolved.rulingHash).to.exist;
+      expect(documents.isPinned(resolved.rulingHash!)).to.be.true;
+      const fee = AMOUNT * BigInt(DEFAULT_POLICY.defaultArbitratorPercentage) / 1_000_000n;
+      const balance = await hre.ethers.provider.getBalance(arbitrator);
+      await agent.tick();
+      expect(await hre.ethers.provider.getBalance(arbitrator)).to.be.greaterThan(balance);
+      await agent.tick();
+
+      const records = await auditLog.read();
+      expect(records.map((record) => record.action)).to.deep.equal(
+        ["staked", "assigned", "decided", "resolved", "withdrawn"]);
+      const decided = records[2];
+      expect(decided.engine).to.equal("rule-based-v1");
+      expect(decided.decision!.refundPercentage).to.equal(250_000);
+      expect(decided.decision!.rules).to.deep.equal(["deliverables"]);
+      expect(decided.input!.document!.title).to.equal("Website redesign");
+      expect(decided.input!.evidence.map((evidence) => evidence.role)).to.deep.equal(["beneficiary", "depositor"]);
+      expect(decided.input!.evidence[0].content).to.deep.equal({ delivered: [0, 1] });
+      expect(decided.input!.poolAssigned).to.be.true;
+      expect(records[3].transactionHash).to.exist;
+      expect(records[4].amount).to.equal(fee.toString());
+
+      // a restarted agent doesn't collect the fee again
+      const restarted = await ArbitratorAgent.open(indexer, arbitrator, new RuleBasedEngine(), documents, auditLog);
+      await restarted.tick();
+      expect(await auditLog.read()).to.have.lengthOf(5);
+    });
+
+    it("Should wait for the evidence of an agreed arbitrator's dispute", async () => {
+      const { escrow, depositor, beneficiary, arbitrator, documents, options } = await loadFixture(deployFixture);
+      const indexer = await AgreementIndexer.open(hre.ethers.provider, new MemoryStore(), options);
+      const auditLog = new MemoryAuditLog();
+      const agent = await ArbitratorAgent.open(indexer, arbitrator, new RuleBasedEngine(), documents, auditLog,
+        { evidencePeriod: DAY });
+      await escrow.connect(depositor).registerArbitrator(1, arbitrator, 20_000);
+      await agent.tick();
+      expect(await auditLog.read()).to.be.empty;
+      await escrow.connect(beneficiary).registerArbitrator(1, arbitrator, 20_000);
+      await agent.tick();
+      expect((await auditLog.read()).map((record) => record.action)).to.deep.equal(["assigned"]);
+
+      await submitEvidence(documents, (cid) => escrow.connect(depositor).submitEvidence(1, cid),
+        "The work was never delivered");
+      await time.increase(DAY);
+      await agent.tick();
+      const records = await auditLog.read();
+      expect(records.map((record) => record.action)).to.deep.equal(["assigned", "decided", "resolved"]);
+      expect(records[1].decision!.rules).to.deep.equal(["depositor-evidence-only"]);
+      expect(records[1].input!.evidence[0].content).to.equal("The work was never delivered");
+      // the parties' arbitrator is due when a pool one could be requested
+      expect(records[1].input!.dueDate).to.equal(records[1].input!.disputedDate +
+        DEFAULT_POLICY.agreeOnArbitratorMaxPeriod + DEFAULT_POLICY.resolveDisputeMaxPeriod);
+      expect(await escrow.getRuling(1)).to.equal("");
+      await indexer.sync();
+      expect(indexer.getAgreement(await escrow.getAddress(), 1)!.status).to.equal("Resolved");
+    });
+
+    it("Should log the invalid decisions and rule by the deterministic rules", async () => {
+      const { escrow, depositor, beneficiary, arbitrator, documents, options } = await loadFixture(deployFixture);
+      const indexer = await AgreementIndexer.open(hre.ethers.provider, new MemoryStore(), options);
+      const auditLog = new MemoryAuditLog();
+      const broken: DecisionEngine = {
+        name: "broken",
+        async decide(): Promise<Decision> {
+          return { refundPercentage: 1_000_001, rationale: "", rules: [] };
+        },
+      };
+      const agent = await ArbitratorAgent.open(indexer, arbitrator, broken, documents, auditLog);
+      await escrow.connect(depositor).registerArbitrator(1, arbitrator, 20_000);
+      await escrow.connect(beneficiary).registerArbitrator(1, arbitrator, 20_000);
+      await agent.tick();
+      const failed = (await auditLog.read()).at(-1)!;
+      expect(failed.action).to.equal("failed");
+      expect(failed.error).to.contain("1000001");
+
+      const engine = new RuleBasedEngine();
+      expect((await engine.decide(disputeCase())).refundPercentage).to.equal(
+        DEFAULT_POLICY.unresolvedDisputeRefundPercentage);
+      expect((await engine.decide(disputeCase([{ role: "beneficiary" }]))).refundPercentage).to.equal(0);
+      const contested = await engine.decide(disputeCase([{ role: "beneficiary", content: "done" },
+        { role: "depositor", content: { undelivered: [0] } }]));
+      expect(contested.rules).to.deep.equal(["contested-without-claims"]);
+      // the same case gets the same decision
+      expect(await engine.decide(disputeCase([{ role: "depositor" }]))).to.deep.equal(
+        await engine.decide(disputeCase([{ role: "depositor" }])));
+    });
+  });
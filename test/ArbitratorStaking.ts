@@ -0,0 +1,239 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import { EscrowAgent, RandomnessCoordinatorMock } from "../typechain-types";
+
+
+  describe("Arbitrator staking", function () {
+
+    const CID = "0xB45165ED3CD437B9FFAD02A2AAD22A4DDC69162470E2622982889CE5826F6E3D";
+    const VALUE = hre.ethers.parseEther("1");
+    const DAY = 24 * 3600;
+    // the assignment weight of an arbitrator with the full reputation
+    const WEIGHT = 1_000_000n;
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, someone, ...arbitrators] = await hre.ethers.getSigners();
+      const pool = arbitrators.slice(0, 2);
+      const coordinator = await hre.ethers.deployContract("RandomnessCoordinatorMock");
+      const escrow = await hre.ethers.deployContract("EscrowAgent");
+      const arbitratorPool = await hre.ethers.deployContract("ArbitratorPool");
+      await arbitratorPool.connect(owner).setRandomnessCoordinator(coordinator);
+      const stake = await arbitratorPool.MIN_ARBITRATOR_STAKE();
+      // the members join at once until the pool serves an escrow
+      for (const arbitrator of pool) {
+        await arbitratorPool.connect(arbitrator).depositStake({ value: stake });
+        await arbitratorPool.connect(owner).addPoolArbitrator(arbitrator);
+      }
+      await arbitratorPool.connect(owner).setEscrow(escrow, true);
+      await escrow.connect(owner).setArbitratorPool(arbitratorPool);
+      return { escrow, arbitratorPool, coordinator, owner, depositor, beneficiary, someone, pool, stake };
+    }
+
+    // creates a dispute and assigns the pool arbitrator picked by the random word
+    async function assignDispute(escrow: EscrowAgent, coordinator: RandomnessCoordinatorMock, randomness: bigint) {
+      const [, depositor, beneficiary] = await hre.ethers.getSigners();
+      const deadline = (await time.latest()) + DAY;
+      await escrow.connect(depositor)["createAgreement(address,string,uint32)"](
+        beneficiary, CID, deadline, { value: VALUE });
+      const agreementId = (await escrow.queryFilter(escrow.filters.AgreementCreated())).length;
+      await escrow.connect(beneficiary).approveAgreement(agreementId);
+      await time.increaseTo(deadline + 1);
+      await escrow.connect(depositor).raiseDispute(agreementId);
+      await time.increase(Number(await escrow.AGREE_ON_ARBITRATOR_MAX_PERIOD()));
+      await escrow.connect(depositor).assignArbitrator(agreementId);
+      await coordinator.fulfillRandomness(await coordinator.requestCount(), randomness);
+      return agreementId;
+    }
+
+    it("Should deposit and withdraw the stake", async () => {
+      const { arbitratorPool, pool, stake } = await loadFixture(deployFixture);
+      await expect(arbitratorPool.connect(pool[0]).depositStake({ value: stake })).to.emit(arbitratorPool, "StakeDeposited")
+        .withArgs(pool[0], stake, stake * 2n);
+      const resp = await arbitratorPool.connect(pool[0]).withdrawStake(stake);
+      await expect(resp).to.emit(arbitratorPool, "StakeWithdrawn").withArgs(pool[0], stake, stake);
+      await expect(resp).to.changeEtherBalances([pool[0], arbitratorPool], [stake, -stake]);
+      await expect(arbitratorPool.connect(pool[0]).withdrawStake(stake + 1n)).to.revertedWith("Funds are not available");
+      await expect(arbitratorPool.connect(pool[0]).depositStake()).to.revertedWith("No funds sent");
+    });
+
+    it("Should pay the stake to a smart contract wallet", async () => {
+      const { arbitratorPool, pool, stake } = await loadFixture(deployFixture);
+      const wallet = await hre.ethers.deployContract("WalletMock", [], pool[0]);
+      await pool[0].sendTransaction({ to: wallet, value: stake });
+      await wallet.execute(arbitratorPool, stake, arbitratorPool.interface.encodeFunctionData("depositStake"));
+      // the wallet's receive function needs more gas than transfer() forwards
+      await expect(wallet.execute(arbitratorPool, 0,
+        arbitratorPool.interface.encodeFunctionData("withdrawStake", [stake])))
+        .to.emit(arbitratorPool, "StakeWithdrawn").withArgs(await wallet.getAddress(), stake, 0);
+      // the funding of the wallet and the withdrawn stake
+      expect(await wallet.received()).to.equal(stake * 2n);
+    });
+
+    it("Should lock the stake while agreements are assigned", async () => {
+      const { escrow, arbitratorPool, coordinator, pool, stake } = await loadFixture(deployFixture);
+      const agreementId = await assignDispute(escrow, coordinator, 0n);
+      await expect(arbitratorPool.connect(pool[0]).withdrawStake(stake)).to.revertedWithCustomError(arbitratorPool, "StakeLocked")
+        .withArgs(pool[0], 1);
+      // the other pool arbitrator isn't assigned
+      await expect(arbitratorPool.connect(pool[1]).withdrawStake(stake)).to.emit(arbitratorPool, "StakeWithdrawn");
+      await escrow.connect(pool[0])["resolveDispute(uint256,uint32)"](agreementId, 0);
+      await expect(arbitratorPool.connect(pool[0]).withdrawStake(stake)).to.emit(arbitratorPool, "StakeWithdrawn");
+      expect(await escrow.getAgreementStatus(agreementId)).to.equal(7);
+    });
+
+    it("Should slash the stake to the parties when the dispute times out", async () => {
+      const { escrow, arbitratorPool, coordinator, depositor, beneficiary, pool, stake } = await loadFixture(deployFixture);
+      const agreementId = await assignDispute(escrow, coordinator, 0n);
+      await time.increase(Number(await escrow.RESOLVE_DISPUTE_MAX_PERIOD()));
+      const slashed = stake * BigInt(await arbitratorPool.UNRESOLVED_DISPUTE_SLASH_PERCENTAGE()) / 1_000_000n;
+      const refund = slashed * BigInt(await escrow.UNRESOLVED_DISPUTE_REFUND_PERCENTAGE()) / 1_000_000n;
+      await expect(escrow.connect(beneficiary)["resolveDispute(uint256)"](agreementId))
+        .to.emit(arbitratorPool, "ArbitratorSlashed").withArgs(escrow, agreementId, pool[0], slashed);
+      expect((await arbitratorPool.getArbitratorStats(pool[0])).stake).to.equal(stake - slashed);
+      expect(await arbitratorPool.getCompensation(depositor)).to.equal(refund);
+      expect(await arbitratorPool.getCompensation(beneficiary)).to.equal(slashed - refund);
+      const resp = await arbitratorPool.connect(depositor).withdrawCompensation();
+      await expect(resp).to.emit(arbitratorPool, "CompensationWithdrawn").withArgs(depositor, refund);
+      await expect(resp).to.changeEtherBalances([depositor, arbitratorPool], [refund, -refund]);
+      await expect(arbitratorPool.connect(depositor).withdrawCompensation()).to.revertedWith("Funds are not available");
+      // the slashed stake is unlocked and below the minimum
+      await expect(arbitratorPool.connect(pool[0]).withdrawStake(stake - slashed)).to.emit(arbitratorPool, "StakeWithdrawn");
+    });
+
+    it("Should slash the pool arbitrator replaced after a timeout", async () => {
+      const { escrow, arbitratorPool, coordinator, depositor, pool } = await loadFixture(deployFixture);
+      const agreementId = await assignDispute(escrow, coordinator, 0n);
+      await time.increase(Number(await escrow.RESOLVE_DISPUTE_MAX_PERIOD()));
+      await escrow.connect(depositor).assignArbitrator(agreementId);
+      // the timed out arbitrator isn't picked again
+      const resp = await coordinator.fulfillRandomness(2, 0);
+      await expect(resp).to.emit(arbitratorPool, "ArbitratorSlashed").withArgs(escrow, agreementId, pool[0], anyValue);
+      await expect(resp).to.emit(escrow, "PoolArbitratorAssigned").withArgs(agreementId, pool[1]);
+      expect((await arbitratorPool.getArbitratorStats(pool[0])).unresolved).to.equal(1);
+    });
+
+    it("Should list the agreement once for the agreed arbitrator assigned from the pool", async () => {
+      const { escrow, coordinator, depositor, beneficiary, pool } = await loadFixture(deployFixture);
+      const deadline = (await time.latest()) + DAY;
+      await escrow.connect(depositor)["createAgreement(address,string,uint32)"](
+        beneficiary, CID, deadline, { value: VALUE });
+      await escrow.connect(beneficiary).approveAgreement(1);
+      await time.increaseTo(deadline + 1);
+      await escrow.connect(depositor).raiseDispute(1);
+      await escrow.connect(depositor).registerArbitrator(1, pool[0], 10000);
+      await escrow.connect(beneficiary).registerArbitrator(1, pool[0], 10000);
+      // the agreed arbitrator does nothing and the pool picks him/her again
+      await time.increase(Number(await escrow.AGREE_ON_ARBITRATOR_MAX_PERIOD())
+        + Number(await escrow.RESOLVE_DISPUTE_MAX_PERIOD()));
+      await escrow.connect(depositor).assignArbitrator(1);
+      await expect(coordinator.fulfillRandomness(1, 0)).to.emit(escrow, "PoolArbitratorAssigned").withArgs(1, pool[0]);
+      // Party.Arbitrator
+      expect(await escrow.getPartyAgreementCount(pool[0], 2)).to.equal(1n);
+    });
+
+    it("Should release the pool arbitrator of a settled dispute", async () => {
+      const { escrow, arbitratorPool, coordinator, depositor, beneficiary, pool, stake } = await loadFixture(deployFixture);
+      const agreementId = await assignDispute(escrow, coordinator, 0n);
+      expect(await arbitratorPool.getAssignedAgreementCount(pool[0])).to.equal(1n);
+      await escrow.connect(depositor).proposeSettlement(agreementId, 300000);
+      await escrow.connect(beneficiary).acceptSettlement(agreementId, 300000);
+      expect(await arbitratorPool.getAssignedAgreementCount(pool[0])).to.equal(0n);
+      // neither resolved nor timed out
+      const stats = await arbitratorPool.getArbitratorStats(pool[0]);
+      expect(stats.resolved + stats.unresolved).to.equal(0);
+      await expect(arbitratorPool.connect(pool[0]).withdrawStake(stake)).to.emit(arbitratorPool, "StakeWithdrawn");
+      await expect(arbitratorPool.connect(pool[0]).arbitratorReleased(agreementId))
+        .to.revertedWith("You are not the escrow.");
+    });
+
+    it("Should keep the arbitrator statistics", async () => {
+      const { escrow, arbitratorPool, coordinator, pool } = await loadFixture(deployFixture);
+      const first = await assignDispute(escrow, coordinator, 0n);
+      await time.increase(DAY);
+      await escrow.connect(pool[0])["resolveDispute(uint256,uint32)"](first, 0);
+      const second = await assignDispute(escrow, coordinator, 0n);
+      await time.increase(3 * DAY);
+      await escrow.connect(pool[0])["resolveDispute(uint256,uint32)"](second, 0);
+      await assignDispute(escrow, coordinator, 0n);
+      const stats = await arbitratorPool.getArbitratorStats(pool[0]);
+      expect(stats.assigned).to.equal(3);
+      expect(stats.resolved).to.equal(2);
+      expect(stats.unresolved).to.equal(0);
+      // resolutions took a day and 3 days, one block after the assignment each
+      expect(await arbitratorPool.getAverageResolutionTime(pool[0])).to.equal(2 * DAY + 1);
+      expect(await arbitratorPool.getAverageResolutionTime(pool[1])).to.equal(0);
+    });
+
+    it("Should accept requests and reports of the registered escrows only", async () => {
+      const { escrow, arbitratorPool, coordinator, owner, depositor, someone } = await loadFixture(deployFixture);
+      const agreementId = await assignDispute(escrow, coordinator, 0n);
+      for (const report of [arbitratorPool.connect(someone).requestArbitrator(agreementId),
+          arbitratorPool.connect(someone).arbitratorResolved(agreementId),
+          arbitratorPool.connect(someone).arbitratorTimedOut(agreementId)]) {
+        await expect(report).to.revertedWith("You are not the escrow.");
+      }
+      await expect(arbitratorPool.connect(someone).setEscrow(someone, true)).to.revertedWith("You are not the owner.");
+      await expect(arbitratorPool.connect(owner).setEscrow(escrow, false)).to.emit(arbitratorPool, "EscrowSet")
+        .withArgs(escrow, false);
+      await time.increase(Number(await escrow.RESOLVE_DISPUTE_MAX_PERIOD()));
+      await expect(escrow.connect(depositor).assignArbitrator(agreementId)).to.revertedWith("You are not the escrow.");
+      // only the pool assigns its arbitrators
+      await expect(escrow.connect(depositor).assignPoolArbitrator(agreementId, depositor))
+        .to.revertedWith("You are not the arbitrator pool.");
+    });
+
+    it("Should transfer the pool ownership in two steps", async () => {
+      const { escrow, arbitratorPool, owner, someone, pool } = await loadFixture(deployFixture);
+      const [newOwner] = (await hre.ethers.getSigners()).slice(7);
+      await expect(arbitratorPool.connect(someone).transferOwnership(newOwner)).to.revertedWith("You are not the owner.");
+      await expect(arbitratorPool.connect(owner).transferOwnership(newOwner))
+        .to.emit(arbitratorPool, "OwnershipTransferStarted").withArgs(owner.address, newOwner.address);
+      await expect(arbitratorPool.connect(someone).acceptOwnership()).to.revertedWith("You are not the pending owner.");
+      await expect(arbitratorPool.connect(newOwner).acceptOwnership())
+        .to.emit(arbitratorPool, "OwnershipTransferred").withArgs(owner.address, newOwner.address);
+      // the previous owner stays the pool manager until the new owner hands the role over
+      expect(await arbitratorPool.getGovernance()).to.deep.equal([newOwner.address, hre.ethers.ZeroAddress,
+        owner.address]);
+      await expect(arbitratorPool.connect(owner).setEscrow(escrow, false)).to.revertedWith("You are not the owner.");
+      await expect(arbitratorPool.connect(newOwner).setPoolManager(newOwner)).to.emit(arbitratorPool, "PoolManagerSet");
+      // the members change at once again when the pool serves no escrow
+      await arbitratorPool.connect(newOwner).setEscrow(escrow, false);
+      await expect(arbitratorPool.connect(newOwner).removePoolArbitrator(pool[1]))
+        .to.emit(arbitratorPool, "PoolArbitratorRemoved").withArgs(pool[1].address);
+    });
+
+    it("Should weight and exclude arbitrators by reputation", async () => {
+      const { escrow, arbitratorPool, coordinator, beneficiary, pool, stake } = await loadFixture(deployFixture);
+      // pool[1] lets a dispute time out and restakes
+      const agreementId = await assignDispute(escrow, coordinator, WEIGHT);
+      await time.increase(Number(await escrow.RESOLVE_DISPUTE_MAX_PERIOD()));
+      await escrow.connect(beneficiary)["resolveDispute(uint256)"](agreementId);
+      await arbitratorPool.connect(pool[1]).depositStake({ value: stake });
+      expect(await arbitratorPool.getArbitratorReputation(pool[0])).to.equal(WEIGHT);
+      expect(await arbitratorPool.getArbitratorReputation(pool[1])).to.equal(WEIGHT / 2n);
+      // pool[1] gets a half of the random range of pool[0]
+      const picked = async (randomness: bigint) => {
+        const id = await assignDispute(escrow, coordinator, randomness);
+        const [event] = await escrow.queryFilter(escrow.filters.PoolArbitratorAssigned(id));
+        return { id, arbitrator: event.args.arbitrator };
+      };
+      expect((await picked(WEIGHT - 1n)).arbitrator).to.equal(pool[0].address);
+      expect((await picked(WEIGHT)).arbitrator).to.equal(pool[1].address);
+      expect((await picked(WEIGHT * 3n / 2n)).arbitrator).to.equal(pool[0].address);
+      // after another timeout pool[1] is below the minimal reputation and never picked
+      const timedOut = await picked(WEIGHT);
+      expect(timedOut.arbitrator).to.equal(pool[1].address);
+      await time.increase(Number(await escrow.RESOLVE_DISPUTE_MAX_PERIOD()));
+      await escrow.connect(beneficiary)["resolveDispute(uint256)"](timedOut.id);
+      await arbitratorPool.connect(pool[1]).depositStake({ value: stake });
+      expect(await arbitratorPool.getArbitratorReputation(pool[1])).to.be.lessThan(await arbitratorPool.MIN_ARBITRATOR_REPUTATION());
+      for (const randomness of [0n, WEIGHT / 2n, WEIGHT - 1n, WEIGHT]) {
+        expect((await picked(randomness)).arbitrator).to.equal(pool[0].address);
+      }
+    });
+  });
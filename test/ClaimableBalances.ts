@@ -0,0 +1,121 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import { EscrowAgentClient, ETH, NoBalanceError } from "../sdk";
+
+
+  describe("ClaimableBalances", function () {
+
+    const AMOUNT = hre.ethers.parseEther("1");
+    const DAY = 24 * 3600;
+    const CID = "cid";
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, arbitrator, someone] = await hre.ethers.getSigners();
+      const escrow = await hre.ethers.deployContract("EscrowAgent");
+      const extension = await hre.ethers.getContractAt("EscrowAgentExtension", await escrow.getAddress());
+      const token = await hre.ethers.deployContract("ERC20Mock");
+      await token.mint(depositor, AMOUNT);
+      const deadlineDate = (await time.latest()) + 30 * DAY;
+      return { escrow, extension, token, owner, depositor, beneficiary, arbitrator, someone, deadlineDate };
+    }
+
+    // a canceled eth agreement, a resolved eth dispute and a canceled token agreement
+    async function claimsFixture() {
+      const fixture = await loadFixture(deployFixture);
+      const { escrow, token, depositor, beneficiary, arbitrator, deadlineDate } = fixture;
+      await escrow.connect(depositor)["createAgreement(address,string,uint32)"](
+        beneficiary, CID, deadlineDate, { value: AMOUNT });
+      await escrow.connect(depositor).cancelAgreement(1);
+      await escrow.connect(depositor)["createAgreement(address,string,uint32)"](
+        beneficiary, CID, deadlineDate, { value: AMOUNT });
+      await escrow.connect(beneficiary).approveAgreement(2);
+      await time.increaseTo(deadlineDate + 1);
+      await escrow.connect(depositor).raiseDispute(2);
+      await escrow.connect(depositor).registerArbitrator(2, arbitrator, 20_000);
+      await escrow.connect(beneficiary).registerArbitrator(2, arbitrator, 20_000);
+      await escrow.connect(arbitrator)["resolveDispute(uint256,uint32)"](2, 500_000);
+      await token.connect(depositor).approve(escrow, AMOUNT);
+      await escrow.connect(depositor)["createAgreement(address,string,uint32,address,uint96)"](
+        beneficiary, CID, deadlineDate + DAY, token, AMOUNT);
+      await escrow.connect(depositor).cancelAgreement(3);
+      const fee = AMOUNT * 20_000n / 1_000_000n;
+      const refund = (AMOUNT - fee) / 2n;
+      return { ...fixture, fee, refund, released: AMOUNT - fee - refund };
+    }
+
+    it("Should credit the parties on the final transitions", async () => {
+      const { escrow, extension, token, depositor, beneficiary, arbitrator, fee, refund, released } =
+        await loadFixture(claimsFixture);
+      expect(await extension.getClaims(depositor)).to.deep.equal([[1n, 2n, 3n], [AMOUNT, refund, AMOUNT]]);
+      expect(await extension.getClaimableBalance(depositor, ETH)).to.equal(AMOUNT + refund);
+      expect(await extension.getClaimableBalance(depositor, token)).to.equal(AMOUNT);
+      expect(await extension.getClaimableBalance(beneficiary, ETH)).to.equal(released);
+      expect(await extension.getClaimableBalance(arbitrator, ETH)).to.equal(fee);
+
+      expect(await extension.connect(depositor).getWithdrawBalance(1)).to.equal(AMOUNT);
+      expect(await extension.connect(arbitrator).getWithdrawBalance(2)).to.equal(fee);
+      await expect(extension.connect(beneficiary).getWithdrawBalance(1))
+        .to.be.revertedWithCustomError(escrow, "NoBalance").withArgs(beneficiary.address, 1);
+      const client = new EscrowAgentClient(escrow.connect(beneficiary), 1n);
+      await expect(client.getWithdrawBalance()).to.be.rejectedWith(NoBalanceError);
+
+      // the single withdrawal keeps its event and drops the claim
+      await expect(escrow.connect(beneficiary).withdrawFunds(2)).to.emit(escrow, "FundsWithdrawn")
+        .withArgs(2, beneficiary.address, released);
+      expect(await extension.connect(beneficiary).getWithdrawBalance(2)).to.equal(0);
+      expect(await extension.getClaims(beneficiary)).to.deep.equal([[], []]);
+      await expect(escrow.connect(beneficiary).withdrawFunds(2)).to.revertedWith("Funds are not available");
+    });
+
+    it("Should withdraw all the claims of a token to another address", async () => {
+      const { escrow, extension, token, depositor, someone, refund } = await loadFixture(claimsFixture);
+      const total = AMOUNT + refund;
+      const tx = extension.connect(depositor).withdrawAll(ETH, someone);
+      await expect(tx).to.emit(escrow, "FundsWithdrawn").withArgs(1, depositor.address, AMOUNT)
+        .and.to.emit(escrow, "FundsWithdrawn").withArgs(2, depositor.address, refund)
+        .and.to.emit(escrow, "ClaimsWithdrawn").withArgs(depositor.address, someone.address, ETH, total);
+      await expect(tx).to.changeEtherBalances([depositor, someone, escrow], [0, total, -total]);
+      expect(await extension.getClaims(depositor)).to.deep.equal([[3n], [AMOUNT]]);
+      expect(await extension.getClaimableBalance(depositor, ETH)).to.equal(0);
+      await expect(extension.connect(depositor).withdrawAll(ETH, depositor)).to.revertedWith("Funds are not available");
+      await expect(escrow.connect(depositor).withdrawFunds(1)).to.revertedWith("Funds are not available");
+      await expect(extension.connect(depositor).withdrawAll(ETH, hre.ethers.ZeroAddress))
+        .to.revertedWith("Address is zero");
+
+      const tokenAddress = await token.getAddress();
+      await expect(EscrowAgentClient.withdrawAll(escrow.connect(depositor), depositor.address, tokenAddress))
+        .to.eventually.have.property("status", 1);
+      expect(await token.balanceOf(depositor)).to.equal(AMOUNT);
+      expect(await EscrowAgentClient.getClaims(escrow, depositor.address)).to.be.empty;
+    });
+
+    it("Should withdraw a claim to another address", async () => {
+      const { escrow, extension, arbitrator, someone, fee } = await loadFixture(claimsFixture);
+      const client = new EscrowAgentClient(escrow.connect(arbitrator), 2n);
+      expect(await EscrowAgentClient.getClaimableBalance(escrow, arbitrator.address)).to.equal(fee);
+      expect(await EscrowAgentClient.getClaims(escrow, arbitrator.address)).to.deep.equal(
+        [{ agreementId: 2n, amount: fee }]);
+      const tx = extension.connect(arbitrator).withdrawFundsTo(2, someone);
+      await expect(tx).to.emit(escrow, "FundsWithdrawn").withArgs(2, arbitrator.address, fee)
+        .and.to.emit(escrow, "ClaimsWithdrawn").withArgs(arbitrator.address, someone.address, ETH, fee);
+      await expect(tx).to.changeEtherBalances([someone, escrow], [fee, -fee]);
+      await expect(client.withdrawTo(someone.address)).to.be.rejectedWith("Funds are not available");
+    });
+
+    it("Should pay a smart contract wallet", async () => {
+      const { escrow, depositor, beneficiary, deadlineDate } = await loadFixture(deployFixture);
+      const wallet = await hre.ethers.deployContract("WalletMock", [], beneficiary);
+      await escrow.connect(depositor)["createAgreement(address,string,uint32)"](
+        wallet, CID, deadlineDate, { value: AMOUNT });
+      await wallet.execute(escrow, 0, escrow.interface.encodeFunctionData("approveAgreement", [1]));
+      await escrow.connect(depositor).releaseFunds(1);
+      // the wallet's receive function needs more gas than transfer() forwards
+      await expect(wallet.execute(escrow, 0, escrow.interface.encodeFunctionData("withdrawFunds", [1])))
+        .to.emit(escrow, "FundsWithdrawn").withArgs(1, await wallet.getAddress(), AMOUNT);
+      expect(await wallet.received()).to.equal(AMOUNT);
+    });
+  });
@@ -0,0 +1,66 @@
+import { expect } from "chai";
+  import hre from "hardhat";
+  import {
+    DEPLOYMENT_MODULES,
+    DeploymentModuleName,
+    deployModules,
+    describeDeployment,
+    findNetwork,
+    recordDeployment,
+  } from "../deployments";
+
+
+  describe("DeploymentManifest", function () {
+
+    const MODULES = Object.keys(DEPLOYMENT_MODULES) as DeploymentModuleName[];
+
+    async function deployAll() {
+      const [, , , , arbitrator1, arbitrator2] = await hre.ethers.getSigners();
+      const deployed = await deployModules(hre, MODULES, {
+        SimpleEscrowFactoryModule: { poolArbitrators: [arbitrator1.address, arbitrator2.address] },
+      });
+      return { deployed, deployment: await describeDeployment(hre, deployed) };
+    }
+
+    it("Should describe the deployed contracts and the implementations they point to", async () => {
+      const { deployed, deployment } = await deployAll();
+      const { contracts } = deployment;
+      expect(Object.keys(contracts)).to.have.members([
+        "EscrowAgent", "EscrowAgentExtension", "ArbitratorPool", "MultisigEscrowFactory", "MultisigEscrow",
+        "EscrowForwarder", "SimpleEscrowFactory", "SimpleEscrowAgent", "MultiPartyEscrowFactory",
+        "MultiPartyEscrowAgent",
+      ]);
+      for (const [name, contract] of Object.entries(deployed)) {
+        expect(contracts[name].address).to.equal(await contract.getAddress());
+        expect(contracts[name].abi).to.deep.equal((await hre.artifacts.readArtifact(name)).abi);
+      }
+
+      const agent = await hre.ethers.getContractAt("EscrowAgent", contracts.EscrowAgent.address);
+      expect(contracts.EscrowAgentExtension.address).to.equal(await agent.getExtension());
+      const factory = await hre.ethers.getContractAt("MultisigEscrowFactory", contracts.MultisigEscrowFactory.address);
+      expect(contracts.MultisigEscrow.address).to.equal(await factory.getImplementation());
+
+      // the local networks have no explorer, the wallets add the chain of the local node
+      expect(deployment.network).to.equal("hardhat");
+      expect(deployment.explorer).to.be.undefined;
+      expect(deployment.rpcUrl).to.equal("http://127.0.0.1:8545");
+    });
+
+    it("Should keep the other chains and contracts when a deployment is recorded", async () => {
+      const { deployment } = await deployAll();
+      const sepolia = findNetwork(11155111)!;
+      const earlier = recordDeployment({}, sepolia.chainId, {
+        network: sepolia.name,
+        explorer: sepolia.explorer,
+        contracts: { EscrowAgent: deployment.contracts.EscrowAgent },
+      });
+      const simple = {
+        network: "hardhat",
+        contracts: { SimpleEscrowFactory: deployment.contracts.SimpleEscrowFactory },
+      };
+      const manifest = recordDeployment(recordDeployment(earlier, 31337n, deployment), 31337n, simple);
+
+      expect(manifest[sepolia.chainId]).to.deep.equal(earlier[sepolia.chainId]);
+      expect(manifest["31337"].contracts).to.deep.equal(deployment.contracts);
+    });
+  });
@@ -0,0 +1,140 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import { promises as fs } from "fs";
+  import { AddressInfo } from "net";
+  import os from "os";
+  import path from "path";
+  import hre from "hardhat";
+  import {
+    AgreementDocument,
+    canonicalize,
+    computeCid,
+    createDocumentServer,
+    DocumentMismatchError,
+    DocumentNotFoundError,
+    documentCid,
+    fetchDocument,
+    HttpDocumentStore,
+    InvalidDocumentError,
+    LocalDocumentStore,
+    MemoryDocumentStore,
+    publishDocument,
+    validateDocument,
+  } from "../documents";
+  import { MultisigEscrowClient } from "../sdk";
+
+
+  describe("Documents", function () {
+
+    const AMOUNT = hre.ethers.parseEther("1");
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary] = await hre.ethers.getSigners();
+      const factory = await hre.ethers.deployContract("MultisigEscrowFactory", [hre.ethers.ZeroAddress]);
+      const deadlineDate = (await time.latest()) + 30 * 24 * 3600;
+      const document: AgreementDocument = {
+        version: 1,
+        title: "Landing page",
+        parties: {
+          depositor: { address: depositor.address, name: "Acme" },
+          beneficiary: { address: beneficiary.address, contact: "dev@example.com" },
+        },
+        scope: "Design and build the landing page of the product",
+        deliverables: [{ title: "Design" }, { title: "Static site", description: "Deployed to the customer host" }],
+        milestones: [{ title: "Design approved", amount: "400000000000000000", deliverables: [0] }],
+        acceptanceCriteria: ["Lighthouse performance score above 90"],
+        jurisdiction: { governingLaw: "England and Wales" },
+      };
+      return { factory, document, owner, depositor, beneficiary, deadlineDate };
+    }
+
+    it("Should validate a document and compute the CID of its canonical form", async () => {
+      const { document } = await loadFixture(deployFixture);
+      expect(validateDocument(document)).to.be.empty;
+      // the CIDs of the raw IPFS blocks
+      expect(await computeCid(new Uint8Array())).to.equal("bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku");
+      expect(await computeCid(new TextEncoder().encode("hello world")))
+        .to.equal("bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e");
+
+      expect(canonicalize({ b: [1, { d: "x", c: undefined }], a: true })).to.equal('{"a":true,"b":[1,{"d":"x"}]}');
+      const reordered = JSON.parse(JSON.stringify({ ...document, version: undefined, title: document.title }));
+      reordered.version = 1;
+      expect(await documentCid(reordered)).to.equal(await documentCid(document));
+      expect(await documentCid({ ...document, scope: "Another scope" })).to.not.equal(await documentCid(document));
+
+      const invalid = {
+        ...document,
+        version: 2,
+        parties: { depositor: { address: "0x1234" } },
+        deliverables: [],
+        milestones: [{ title: "", amount: "0.4", deadlineDate: 1.5 }],
+        extra: true,
+      };
+      expect(validateDocument(invalid)).to.deep.equal([
+        "document.version should be 1",
+        "document.parties.beneficiary is required",
+        "document.parties.depositor.address should match ^0x[0-9a-fA-F]{40}$",
+        "document.deliverables should have at least 1 item",
+        "document.milestones[0].title should not be empty",
+        "document.milestones[0].amount should match ^(0|[1-9][0-9]*)$",
+        "document.milestones[0].deadlineDate should be an integer",
+        "document.extra is not allowed",
+      ]);
+      await expect(documentCid(invalid as unknown as AgreementDocument)).to.be.rejectedWith(InvalidDocumentError);
+    });
+
+    it("Should publish, pin and verify the documents of a local store", async () => {
+      const { document } = await loadFixture(deployFixture);
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), "escrow-documents-"));
+      try {
+        const store = new LocalDocumentStore(dir);
+        const cid = await publishDocument(store, document);
+        expect(cid).to.equal(await documentCid(document));
+        expect(await store.isPinned(cid)).to.be.true;
+        expect(await fetchDocument(store, cid)).to.deep.equal(document);
+
+        // a document uploaded for an escrow that was never created
+        const draft = await store.put(new TextEncoder().encode(canonicalize({ ...document, title: "Draft" })));
+        expect(await store.collectGarbage()).to.deep.equal([draft]);
+        await expect(fetchDocument(store, draft)).to.be.rejectedWith(DocumentNotFoundError);
+        // not a CID, e.g. a hex detailsHash
+        expect(await store.get("0xB45165ED3CD437B9FFAD02A2AAD22A4DDC69162470E2622982889CE5826F6E3D")).to.be.undefined;
+
+        // tampered bytes don't match the CID
+        await fs.writeFile(path.join(dir, cid), canonicalize({ ...document, scope: "Tampered" }));
+        await expect(fetchDocument(store, cid)).to.be.rejectedWith(DocumentMismatchError);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("Should attach a served document to a multisig escrow", async () => {
+      const { factory, document, depositor, beneficiary, deadlineDate } = await loadFixture(deployFixture);
+      const server = createDocumentServer(new MemoryDocumentStore());
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      try {
+        const store = new HttpDocumentStore(`http://127.0.0.1:${(server.address() as AddressInfo).port}/`);
+        const detailsHash = await publishDocument(store, document);
+        const client = await MultisigEscrowClient.create(factory.connect(depositor),
+          { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate, detailsHash });
+        await expect(client.contract.connect(depositor).setDetails(detailsHash))
+          .to.emit(client.contract, "DetailsSet").withArgs(detailsHash);
+        await expect(client.contract.connect(beneficiary).setDetails(detailsHash)).to.be.revertedWith("only depositor");
+
+        const details = await client.connect(beneficiary).getDetails();
+        expect(details.detailsHash).to.equal(detailsHash);
+        expect(await fetchDocument(store, details.detailsHash!)).to.deep.equal(document);
+        await client.connect(beneficiary).approve();
+        await expect(client.setDetails(detailsHash)).to.be.rejected;
+
+        await expect(store.pin("bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e"))
+          .to.be.rejectedWith(DocumentNotFoundError);
+        expect(await store.get("unknown")).to.be.undefined;
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
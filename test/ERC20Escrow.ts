@@ -0,0 +1,258 @@
+import {
+    time,
+    loadFixture,
+    setBalance,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+  import { expect } from "chai";
+  import hre from "hardhat";
+
+
+  describe("ERC20 escrow", function () {
+
+    const CID = "0xB45165ED3CD437B9FFAD02A2AAD22A4DDC69162470E2622982889CE5826F6E3D";
+    const AMOUNT = hre.ethers.parseEther("100");
+
+    async function deployTokensFixture() {
+      const [owner, depositor, beneficiary, someone, arbitrator] = await hre.ethers.getSigners();
+      const token = await hre.ethers.deployContract("ERC20Mock");
+      const feeToken = await hre.ethers.deployContract("FeeOnTransferERC20Mock");
+      const nonStandardToken = await hre.ethers.deployContract("NonStandardERC20Mock");
+      for (const t of [token, feeToken, nonStandardToken]) {
+        await t.mint(depositor, AMOUNT * 10n);
+      }
+      return { token, feeToken, nonStandardToken, owner, depositor, beneficiary, someone, arbitrator };
+    }
+
+    describe("EscrowAgent", () => {
+
+      async function deployEscrowFixture() {
+        const fixture = await loadFixture(deployTokensFixture);
+        const escrow = await hre.ethers.deployContract("EscrowAgent");
+        const deadline = (await time.latest()) + 30 * 24 * 3600;
+        return { ...fixture, escrow, deadline };
+      }
+
+      async function tokenAgreementFixture() {
+        const fixture = await loadFixture(deployEscrowFixture);
+        const { escrow, token, depositor, beneficiary, deadline } = fixture;
+        await token.connect(depositor).approve(escrow, AMOUNT);
+        await escrow.connect(depositor)["createAgreement(address,string,uint32,address,uint96)"](
+          beneficiary, CID, deadline, token, AMOUNT);
+        return { ...fixture, agreementId: 1 };
+      }
+
+      it("Should create a token agreement", async () => {
+        const { escrow, token, depositor, beneficiary, deadline } = await loadFixture(deployEscrowFixture);
+        await token.connect(depositor).approve(escrow, AMOUNT);
+        const resp = await escrow.connect(depositor)["createAgreement(address,string,uint32,address,uint96)"](
+          beneficiary, CID, deadline, token, AMOUNT);
+        // check agreement created event
+        await expect(resp).to.emit(escrow, "AgreementCreated")
+          .withArgs(depositor, beneficiary, 1, AMOUNT, deadline, CID, token);
+        // check tokens moved
+        await expect(resp).to.changeTokenBalances(token, [depositor, escrow], [-AMOUNT, AMOUNT]);
+        // check details
+        const details = await escrow.connect(beneficiary).getAgreementDetails(1);
+        expect(details[1]).to.be.equal(AMOUNT);
+        expect(details[4]).to.be.equal(await token.getAddress());
+      });
+
+      it("Should NOT create a token agreement without allowance", async () => {
+        const { escrow, token, depositor, beneficiary, deadline } = await loadFixture(deployEscrowFixture);
+        await expect(escrow.connect(depositor)["createAgreement(address,string,uint32,address,uint96)"](
+          beneficiary, CID, deadline, token, AMOUNT)).to.be.revertedWithCustomError(token, "ERC20InsufficientAllowance");
+      });
+
+      it("Depositor should add tokens to a token agreement", async () => {
+        const { escrow, token, depositor, agreementId } = await loadFixture(tokenAgreementFixture);
+        await token.connect(depositor).approve(escrow, AMOUNT);
+        const resp = await escrow.connect(depositor).addTokenFunds(agreementId, AMOUNT);
+        await expect(resp).to.emit(escrow, "FundsAdded")
+          .withArgs(agreementId, depositor, AMOUNT, AMOUNT * 2n);
+        await expect(resp).to.changeTokenBalances(token, [depositor, escrow], [-AMOUNT, AMOUNT]);
+      });
+
+      it("Depositor should NOT mix eth and tokens", async () => {
+        const { escrow, token, depositor, beneficiary, agreementId } = await loadFixture(tokenAgreementFixture);
+        // eth to a token agreement
+        await expect(escrow.connect(depositor).addFunds(agreementId, {value: 1n}))
+          .to.be.revertedWithCustomError(escrow, "WrongToken").withArgs(token);
+        // tokens to an eth agreement
+        await escrow.connect(depositor)["createAgreement(address,string)"](beneficiary, CID, {value: 1n});
+        await expect(escrow.connect(depositor).addTokenFunds(2, AMOUNT))
+          .to.be.revertedWithCustomError(escrow, "WrongToken").withArgs(hre.ethers.ZeroAddress);
+      });
+
+      it("Beneficiary should withdraw tokens after release", async () => {
+        const { escrow, token, depositor, beneficiary, agreementId } = await loadFixture(tokenAgreementFixture);
+        await escrow.connect(beneficiary).approveAgreement(agreementId);
+        await escrow.connect(depositor).releaseFunds(agreementId);
+        const resp = await escrow.connect(beneficiary).withdrawFunds(agreementId);
+        await expect(resp).to.emit(escrow, "FundsWithdrawn").withArgs(agreementId, beneficiary, AMOUNT);
+        await expect(resp).to.changeTokenBalances(token, [beneficiary, escrow], [AMOUNT, -AMOUNT]);
+      });
+
+      it("Depositor should remove tokens after cancel", async () => {
+        const { escrow, token, depositor, agreementId } = await loadFixture(tokenAgreementFixture);
+        await escrow.connect(depositor).cancelAgreement(agreementId);
+        const resp = await escrow.connect(depositor).withdrawFunds(agreementId);
+        await expect(resp).to.changeTokenBalances(token, [depositor, escrow], [AMOUNT, -AMOUNT]);
+      });
+
+      it("Dispute should split tokens between arbitrator, depositor and beneficiary", async () => {
+        const { escrow, token, depositor, beneficiary, arbitrator, agreementId } = await loadFixture(tokenAgreementFixture);
+        await escrow.connect(beneficiary).approveAgreement(agreementId);
+        await time.increase(31 * 24 * 3600);
+        await escrow.connect(depositor).raiseDispute(agreementId);
+        const feePercentage = 0.1 * 1000000;
+        await escrow.connect(depositor).registerArbitrator(agreementId, arbitrator, feePercentage);
+        await escrow.connect(beneficiary).registerArbitrator(agreementId, arbitrator, feePercentage);
+        await escrow.connect(arbitrator)["resolveDispute(uint256,uint32)"](agreementId, 0.1 * 1000000);
+        const fee = hre.ethers.parseEther("10");
+        const refund = hre.ethers.parseEther("9");
+        const released = hre.ethers.parseEther("81");
+        await expect(escrow.connect(arbitrator).withdrawFunds(agreementId))
+          .to.changeTokenBalances(token, [arbitrator, escrow], [fee, -fee]);
+        await expect(escrow.connect(depositor).withdrawFunds(agreementId))
+          .to.changeTokenBalances(token, [depositor, escrow], [refund, -refund]);
+        await expect(escrow.connect(beneficiary).withdrawFunds(agreementId))
+          .to.changeTokenBalances(token, [beneficiary, escrow], [released, -released]);
+      });
+
+      it("Should record the received amount of a fee-on-transfer token", async () => {
+        const { escrow, feeToken, depositor, beneficiary, deadline } = await loadFixture(deployEscrowFixture);
+        const received = AMOUNT * 99n / 100n;
+        await feeToken.connect(depositor).approve(escrow, AMOUNT);
+        await expect(escrow.connect(depositor)["createAgreement(address,string,uint32,address,uint96)"](
+          beneficiary, CID, deadline, feeToken, AMOUNT)).to.emit(escrow, "AgreementCreated")
+            .withArgs(depositor, beneficiary, 1, received, deadline, CID, feeToken);
+        await escrow.connect(depositor).cancelAgreement(1);
+        // the whole recorded amount can be withdrawn
+        await expect(escrow.connect(depositor).withdrawFunds(1)).to.emit(escrow, "FundsWithdrawn")
+          .withArgs(1, depositor, received);
+        expect(await feeToken.balanceOf(escrow)).to.be.equal(0);
+      });
+
+      it("Should support a token without return values", async () => {
+        const { escrow, nonStandardToken, depositor, beneficiary, deadline } = await loadFixture(deployEscrowFixture);
+        await nonStandardToken.connect(depositor).approve(escrow, AMOUNT);
+        await escrow.connect(depositor)["createAgreement(address,string,uint32,address,uint96)"](
+          beneficiary, CID, deadline, nonStandardToken, AMOUNT);
+        await escrow.connect(beneficiary).approveAgreement(1);
+        await escrow.connect(depositor).releaseFunds(1);
+        await escrow.connect(beneficiary).withdrawFunds(1);
+        expect(await nonStandardToken.balanceOf(beneficiary)).to.be.equal(AMOUNT);
+        expect(await nonStandardToken.balanceOf(escrow)).to.be.equal(0);
+      });
+
+      it("Should NOT truncate a deposit above uint96", async () => {
+        const { escrow, depositor, beneficiary, deadline } = await loadFixture(deployEscrowFixture);
+        const oversized = 2n ** 96n;
+        await setBalance(depositor.address, oversized * 2n);
+        await expect(escrow.connect(depositor)["createAgreement(address,string,uint32)"](
+          beneficiary, CID, deadline, {value: oversized}))
+          .to.revertedWithCustomError(escrow, "SafeCastOverflowedUintDowncast").withArgs(96, oversized);
+      });
+    });
+
+    describe("MultisigEscrow", () => {
+
+      async function deployFactoryFixture() {
+        const fixture = await loadFixture(deployTokensFixture);
+        const factory = await hre.ethers.deployContract("MultisigEscrowFactory", [hre.ethers.ZeroAddress]);
+        const deadline = (await time.latest()) + 30 * 24 * 3600;
+        return { ...fixture, factory, deadline };
+      }
+
+      async function tokenEscrowFixture() {
+        const fixture = await loadFixture(deployFactoryFixture);
+        const { factory, token, depositor, beneficiary, deadline } = fixture;
+        await token.connect(depositor).approve(factory, AMOUNT);
+        await factory.connect(depositor).createTokenEscrow(beneficiary, deadline, token, AMOUNT);
+        const [address] = await factory.getDepositorContracts(depositor);
+        const escrow = await hre.ethers.getContractAt("MultisigEscrow", address);
+        return { ...fixture, escrow };
+      }
+
+      it("Should create a token escrow through the factory", async () => {
+        const { factory, token, depositor, beneficiary, deadline } = await loadFixture(deployFactoryFixture);
+        await token.connect(depositor).approve(factory, AMOUNT);
+        const resp = await factory.connect(depositor).createTokenEscrow(beneficiary, deadline, token, AMOUNT);
+        await expect(resp).to.emit(factory, "EscrowCreated").withArgs(anyValue, depositor, beneficiary);
+        const [address] = await factory.getDepositorContracts(depositor);
+        await expect(resp).to.changeTokenBalances(token, [depositor, address], [-AMOUNT, AMOUNT]);
+        const escrow = await hre.ethers.getContractAt("MultisigEscrow", address);
+        // the escrow records the tokens received from the factory
+        await expect(resp).to.emit(escrow, "AgreementCreated").withArgs(depositor, beneficiary, AMOUNT, deadline);
+        const details = await escrow.connect(depositor).getAgreementDetails();
+        expect(details[0]).to.be.equal(AMOUNT);
+        expect(details[8]).to.be.equal(await token.getAddress());
+      });
+
+      it("Depositor should add tokens and NOT send eth", async () => {
+        const { escrow, token, depositor } = await loadFixture(tokenEscrowFixture);
+        await token.connect(depositor).approve(escrow, AMOUNT);
+        await expect(escrow.connect(depositor).addFunds(AMOUNT)).to.emit(escrow, "FundsAdded")
+          .withArgs(AMOUNT, AMOUNT * 2n);
+        await expect(depositor.sendTransaction({to: escrow, value: 1n})).to.be.revertedWith("wrong token");
+      });
+
+      it("Beneficiary should withdraw tokens after release", async () => {
+        const { escrow, token, depositor, beneficiary } = await loadFixture(tokenEscrowFixture);
+        await escrow.connect(beneficiary).approveAgreement();
+        await escrow.connect(depositor).releaseFunds();
+        const resp = await escrow.connect(beneficiary).withdrawFunds();
+        await expect(resp).to.emit(escrow, "FundsWithdrawn").withArgs(beneficiary, AMOUNT);
+        await expect(resp).to.changeTokenBalances(token, [beneficiary, escrow], [AMOUNT, -AMOUNT]);
+        expect(await escrow.paused()).to.be.true;
+      });
+
+      it("Depositor should remove tokens after revoke", async () => {
+        const { escrow, token, depositor } = await loadFixture(tokenEscrowFixture);
+        await escrow.connect(depositor).revokeAgreement();
+        await expect(escrow.connect(depositor).removeFunds())
+          .to.changeTokenBalances(token, [depositor, escrow], [AMOUNT, -AMOUNT]);
+      });
+
+      it("Multisig should compensate the depositor in tokens", async () => {
+        const { escrow, token, depositor, beneficiary, someone, deadline } = await loadFixture(tokenEscrowFixture);
+        await escrow.connect(beneficiary).approveAgreement();
+        await time.increaseTo(deadline);
+        await escrow.connect(depositor).lockFunds();
+        await escrow.connect(beneficiary).setMultisig(someone);
+        await escrow.connect(depositor).approveMultisig();
+        const compensation = AMOUNT / 4n;
+        await expect(escrow.connect(someone).compensateAgreement(compensation))
+          .to.changeTokenBalances(token, [depositor, escrow], [compensation, -compensation]);
+        await expect(escrow.connect(beneficiary).withdrawFunds())
+          .to.changeTokenBalances(token, [beneficiary], [AMOUNT - compensation]);
+      });
+
+      it("Should hold the received amount of a fee-on-transfer token", async () => {
+        const { factory, feeToken, depositor, beneficiary, deadline } = await loadFixture(deployFactoryFixture);
+        await feeToken.connect(depositor).approve(factory, AMOUNT);
+        await factory.connect(depositor).createTokenEscrow(beneficiary, deadline, feeToken, AMOUNT);
+        const [address] = await factory.getDepositorContracts(depositor);
+        const escrow = await hre.ethers.getContractAt("MultisigEscrow", address);
+        const received = AMOUNT * 99n / 100n;
+        expect((await escrow.connect(depositor).getAgreementDetails())[0]).to.be.equal(received);
+        await escrow.connect(depositor).revokeAgreement();
+        await expect(escrow.connect(depositor).removeFunds()).to.emit(escrow, "FundsWithdrawn")
+          .withArgs(depositor, received);
+        expect(await feeToken.balanceOf(escrow)).to.be.equal(0);
+      });
+
+      it("Should support a token without return values", async () => {
+        const { factory, nonStandardToken, depositor, beneficiary, deadline } = await loadFixture(deployFactoryFixture);
+        await nonStandardToken.connect(depositor).approve(factory, AMOUNT);
+        await factory.connect(depositor).createTokenEscrow(beneficiary, deadline, nonStandardToken, AMOUNT);
+        const [address] = await factory.getDepositorContracts(depositor);
+        const escrow = await hre.ethers.getContractAt("MultisigEscrow", address);
+        await escrow.connect(beneficiary).approveAgreement();
+        await escrow.connect(depositor).releaseFunds();
+        await escrow.connect(beneficiary).withdrawFunds();
+        expect(await nonStandardToken.balanceOf(beneficiary)).to.be.equal(AMOUNT);
+      });
+    });
+  });
@@ -6,6 +6,7 @@ import {
   import { expect } from "chai";
   import hre from "hardhat";
   import { ethers } from "hardhat";
+  import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
   import { EscrowAgent } from "../typechain-types";
 
 
@@ -17,17 +18,45 @@ import {
       const [owner, depositor, beneficiary, someone] = await hre.ethers.getSigners();  
       const EscrowAgent = await hre.ethers.getContractFactory("EscrowAgent");
       const escrow = await EscrowAgent.deploy();
+      const coordinator = await hre.ethers.deployContract("RandomnessCoordinatorMock");
+      const pool = await hre.ethers.deployContract("ArbitratorPool");
+      await pool.connect(owner).setRandomnessCoordinator(coordinator);
+      await pool.connect(owner).setEscrow(escrow, true);
+      await pool.connect(owner).setPoolManager(escrow);
+      await escrow.connect(owner).setArbitratorPool(pool);
+      // pool arbitrators stake before joining the pool
+      const poolArbitrator = (await hre.ethers.getSigners())[4];
+      await escrow.connect(poolArbitrator).depositStake({value: await pool.MIN_ARBITRATOR_STAKE()});
       return { escrow, owner, depositor, beneficiary, someone };
     }
 
+    async function poolOf(escrow: EscrowAgent) {
+      return hre.ethers.getContractAt("ArbitratorPool", await escrow.getArbitratorPool());
+    }
+
+    // the pool serving the escrow changes the members after the delay
+    async function changePool(escrow: EscrowAgent, owner: HardhatEthersSigner, arbitrator: string, added = true) {
+      await (added ? escrow.connect(owner).addPoolArbitrator(arbitrator)
+        : escrow.connect(owner).removePoolArbitrator(arbitrator));
+      await time.increase(Number(await (await poolOf(escrow)).POOL_CHANGE_DELAY()));
+      return escrow.connect(owner).applyPoolArbitrator(arbitrator);
+    }
+
+    // the coordinator answers the last randomness request, the pool arbitrator is assigned then
+    async function fulfillAssignment(escrow: EscrowAgent, randomness = 0) {
+      const coordinator = await hre.ethers.getContractAt("RandomnessCoordinatorMock", 
+        await (await poolOf(escrow)).getRandomnessCoordinator());
+      return coordinator.fulfillRandomness(await coordinator.requestCount(), randomness);
+    }
+
     async function createAgreementFixture() {
       const { escrow, owner, depositor, beneficiary, someone } = await loadFixture(deployEscrowFixture);
+      const poolArbitrator = (await hre.ethers.getSigners())[4];
+      await changePool(escrow, owner, poolArbitrator.address);
       const cid = "0xB45165ED3CD437B9FFAD02A2AAD22A4DDC69162470E2622982889CE5826F6E3D";
       const value = hre.ethers.parseEther("0.1");
       await escrow.connect(depositor)["createAgreement(address,string)"](beneficiary, cid, {value: value});
       const agreementId = 1;
-      const poolArbitrator = (await hre.ethers.getSigners())[4];
-      await escrow.connect(owner).addPoolArbitrator(poolArbitrator);
       return { escrow, owner, depositor, beneficiary, someone, agreementId, value };
     }
 
@@ -55,7 +84,7 @@ import {
             // check agreement created event
             const resp = await escrow.connect(depositor)["createAgreement(address,string)"](beneficiary, cid, {value: value});
             await expect(resp).to.emit(escrow, "AgreementCreated")
-                .withArgs(depositor, beneficiary, agreementId, value, anyValue, cid);
+                .withArgs(depositor, beneficiary, agreementId, value, anyValue, cid, EMPTY_ADDRESS);
             // check funds moved
             await expect(resp).to.changeEtherBalances(
                 [depositor, escrow],
@@ -326,11 +355,14 @@ import {
             await time.increase(agreeOnArbitratorPeriod);
             // beneficiary vote on arbitrator after 'agree on arbitrator' period
             const res = await escrow.connect(beneficiary).registerArbitrator(agreementId, arbitrator, feePercentage);
-            // check assigned event
-            await expect(res).to.emit(escrow, "PoolArbitratorAssigned")
-              .withArgs(agreementId, anyValue);
+            // check requested event
+            await expect(res).to.emit(escrow, "PoolArbitratorRequested")
+              .withArgs(agreementId, 1);
             // should nor raise the event
             await expect(res).to.not.emit(escrow, "ArbitratorAgreed");
+            // check assigned event
+            await expect(await fulfillAssignment(escrow)).to.emit(escrow, "PoolArbitratorAssigned")
+              .withArgs(agreementId, anyValue);
         });
 
         it("Should assign arbitrator from the pool if the dispute wasn't resolved in 2 days by an agreed arbitrator", async () => {
@@ -340,7 +372,8 @@ import {
             await time.increase(agreeOnArbitratorPeriod + resolveDisputePeriod);
             // check assigned event
             const poolArbitrator = (await hre.ethers.getSigners())[4];
-            await expect(await escrow.connect(depositor).assignArbitrator(agreementId)).to.emit(escrow, "PoolArbitratorAssigned")
+            await expect(await escrow.connect(depositor).assignArbitrator(agreementId)).to.emit(escrow, "PoolArbitratorRequested");
+            await expect(await fulfillAssignment(escrow)).to.emit(escrow, "PoolArbitratorAssigned")
               .withArgs(agreementId, poolArbitrator);
         });
 
@@ -400,7 +433,8 @@ import {
             // wait before assigning pool arbitrator
             await time.increase(agreeOnArbitratorPeriod+resolveDisputePeriod);
             // check assigned event
-            await expect(await escrow.connect(depositor).assignArbitrator(agreementId)).to.emit(escrow, "PoolArbitratorAssigned");
+            await escrow.connect(depositor).assignArbitrator(agreementId);
+            await expect(await fulfillAssignment(escrow)).to.emit(escrow, "PoolArbitratorAssigned");
             // wait for pool arbitrator
             await time.increase(resolveDisputePeriod);
             // check unresolved event
@@ -419,7 +453,8 @@ import {
             // wait before assigning pool arbitrator
             await time.increase(agreeOnArbitratorPeriod+resolveDisputePeriod);
             // check assigned event
-            await expect(await escrow.connect(depositor).assignArbitrator(agreementId)).to.emit(escrow, "PoolArbitratorAssigned");
+            await escrow.connect(depositor).assignArbitrator(agreementId);
+            await expect(await fulfillAssignment(escrow)).to.emit(escrow, "PoolArbitratorAssigned");
             // check revert
             await expect(escrow.connect(depositor)["resolveDispute(uint256)"](agreementId)).to.revertedWith(
               "You can resolve dispute yourself in 2 days after the pool arbitrator assignment date"
@@ -427,12 +462,213 @@ import {
         });
     });
 
+    describe("Milestones", () => {
+
+        async function milestoneAgreementFixture() {
+            const { escrow, owner, depositor, beneficiary, someone } = await loadFixture(deployEscrowFixture);
+            const poolArbitrator = (await hre.ethers.getSigners())[4];
+            await changePool(escrow, owner, poolArbitrator.address);
+            const start = await time.latest();
+            const milestones = [
+                { amount: hre.ethers.parseEther("0.1"), deadlineDate: start + 10 * 24 * 3600, detailsHash: "cid-1" },
+                { amount: hre.ethers.parseEther("0.2"), deadlineDate: start + 20 * 24 * 3600, detailsHash: "cid-2" },
+                { amount: hre.ethers.parseEther("0.3"), deadlineDate: start + 30 * 24 * 3600, detailsHash: "cid-3" },
+            ];
+            const value = hre.ethers.parseEther("0.6");
+            await escrow.connect(depositor).createMilestoneAgreement(beneficiary, "cid", EMPTY_ADDRESS, milestones, {value: value});
+            const agreementId = 1;
+            await escrow.connect(beneficiary).approveAgreement(agreementId);
+            return { escrow, owner, depositor, beneficiary, someone, agreementId, milestones, value };
+        }
+
+        it("Should create a milestone agreement", async () => {
+            const { escrow, depositor, beneficiary } = await loadFixture(deployEscrowFixture);
+            const start = await time.latest();
+            const milestones = [
+                { amount: hre.ethers.parseEther("0.1"), deadlineDate: start + 1000, detailsHash: "cid-1" },
+                { amount: hre.ethers.parseEther("0.2"), deadlineDate: start + 2000, detailsHash: "cid-2" },
+            ];
+            const value = hre.ethers.parseEther("0.3");
+            const resp = await escrow.connect(depositor).createMilestoneAgreement(beneficiary, "cid", EMPTY_ADDRESS, milestones, {value: value});
+            // the agreement deadline is the last milestone deadline
+            await expect(resp).to.emit(escrow, "AgreementCreated")
+                .withArgs(depositor, beneficiary, 1, value, start + 2000, "cid", EMPTY_ADDRESS);
+            await expect(resp).to.emit(escrow, "MilestoneCreated")
+                .withArgs(1, 1, milestones[1].amount, start + 2000, "cid-2");
+            const [stored, released] = await escrow.connect(beneficiary).getMilestones(1);
+            expect(stored.length).to.be.equal(2);
+            expect(stored[0].amount).to.be.equal(milestones[0].amount);
+            expect(stored[0].detailsHash).to.be.equal("cid-1");
+            expect(released).to.be.equal(0);
+        });
+
+        it("Should NOT create a milestone agreement with wrong funds or order", async () => {
+            const { escrow, depositor, beneficiary } = await loadFixture(deployEscrowFixture);
+            const start = await time.latest();
+            const milestones = [
+                { amount: hre.ethers.parseEther("0.1"), deadlineDate: start + 2000, detailsHash: "cid-1" },
+                { amount: hre.ethers.parseEther("0.2"), deadlineDate: start + 1000, detailsHash: "cid-2" },
+            ];
+            await expect(escrow.connect(depositor).createMilestoneAgreement(beneficiary, "cid", EMPTY_ADDRESS, milestones, 
+                {value: hre.ethers.parseEther("0.3")})).to.revertedWith("Milestones must be ordered by deadline");
+            milestones[1].deadlineDate = start + 3000;
+            await expect(escrow.connect(depositor).createMilestoneAgreement(beneficiary, "cid", EMPTY_ADDRESS, milestones, 
+                {value: hre.ethers.parseEther("0.2")})).to.revertedWith("Milestones amount doesn't match the funds");
+            await expect(escrow.connect(depositor).createMilestoneAgreement(beneficiary, "cid", EMPTY_ADDRESS, [], 
+                {value: 0})).to.revertedWith("Wrong milestones");
+        });
+
+        it("Depositor should release milestones in order", async () => {
+            const { escrow, depositor, beneficiary, agreementId, milestones } = await loadFixture(milestoneAgreementFixture);
+            await expect(escrow.connect(depositor).releaseMilestone(agreementId, 1)).to.revertedWith(
+              "Milestones are released in order"
+            );
+            await expect(escrow.connect(depositor).releaseMilestone(agreementId, 0)).to.emit(escrow, "MilestoneReleased")
+                .withArgs(agreementId, 0, milestones[0].amount);
+            // the agreement stays active
+            expect(await escrow.getAgreementStatus(agreementId)).to.be.equal(3);
+            expect((await escrow.connect(depositor).getMilestones(agreementId))[1]).to.be.equal(1);
+            // beneficiary withdraws the released milestone while the agreement is active
+            const resp = await escrow.connect(beneficiary).withdrawFunds(agreementId);
+            await expect(resp).to.emit(escrow, "FundsWithdrawn")
+                .withArgs(agreementId, beneficiary, milestones[0].amount);
+            await expect(resp).to.changeEtherBalances([beneficiary, escrow], [milestones[0].amount, -milestones[0].amount]);
+            await expect(escrow.connect(beneficiary).withdrawFunds(agreementId)).to.be.revertedWithCustomError(
+                escrow, "WithdrawProhibited"
+            );
+        });
+
+        it("Releasing the last milestone should close the agreement", async () => {
+            const { escrow, depositor, beneficiary, agreementId, value } = await loadFixture(milestoneAgreementFixture);
+            await escrow.connect(depositor).releaseMilestone(agreementId, 0);
+            await escrow.connect(depositor).releaseMilestone(agreementId, 1);
+            await expect(escrow.connect(depositor).releaseMilestone(agreementId, 2)).to.emit(escrow, "FundsReleased")
+                .withArgs(agreementId);
+            expect(await escrow.getAgreementStatus(agreementId)).to.be.equal(5);
+            await expect(escrow.connect(beneficiary).withdrawFunds(agreementId)).to.changeEtherBalances(
+                [beneficiary, escrow], [value, -value]
+            );
+        });
+
+        it("Beneficiary should claim a milestone after its deadline + 3 days", async () => {
+            const { escrow, beneficiary, agreementId, milestones } = await loadFixture(milestoneAgreementFixture);
+            await expect(escrow.connect(beneficiary).releaseMilestone(agreementId, 0)).to.revertedWith(
+              "Milestone will be released in 3 days after its deadline"
+            );
+            const threeDays = Number(await escrow.RELEASE_FUNDS_AFTER_DEADLINE());
+            await time.increaseTo(milestones[0].deadlineDate + threeDays);
+            await expect(escrow.connect(beneficiary).releaseMilestone(agreementId, 0)).to.emit(escrow, "MilestoneReleased")
+                .withArgs(agreementId, 0, milestones[0].amount);
+            // the next milestone isn't due yet
+            await expect(escrow.connect(beneficiary).releaseMilestone(agreementId, 1)).to.revertedWith(
+              "Milestone will be released in 3 days after its deadline"
+            );
+        });
+
+        it("Dispute should cover only the open milestones", async () => {
+            const { escrow, depositor, beneficiary, agreementId, milestones } = await loadFixture(milestoneAgreementFixture);
+            await escrow.connect(depositor).releaseMilestone(agreementId, 0);
+            // the dispute can be raised after the next open milestone deadline
+            await expect(escrow.connect(depositor).raiseDispute(agreementId)).to.revertedWith(
+              "You cannot raise dispute before the deadline"
+            );
+            await time.increaseTo(milestones[1].deadlineDate + 1);
+            await escrow.connect(depositor).raiseDispute(agreementId);
+            const arbitrator = (await hre.ethers.getSigners())[5];
+            const feePercentage = 0.1 * 1000000;
+            await escrow.connect(depositor).registerArbitrator(agreementId, arbitrator, feePercentage);
+            await escrow.connect(beneficiary).registerArbitrator(agreementId, arbitrator, feePercentage);
+            const open = milestones[1].amount + milestones[2].amount;
+            const fee = open / 10n;
+            await expect(escrow.connect(arbitrator)["resolveDispute(uint256,uint32)"](agreementId, 0))
+                .to.emit(escrow, "DisputeResolved").withArgs(agreementId, 0, fee, 0, open - fee);
+            // beneficiary gets the released milestone and the disputed part
+            await expect(escrow.connect(beneficiary).withdrawFunds(agreementId)).to.changeEtherBalances(
+                [beneficiary], [milestones[0].amount + open - fee]
+            );
+        });
+
+        it("Depositor should NOT add funds to a milestone agreement", async () => {
+            const { escrow, depositor, beneficiary } = await loadFixture(deployEscrowFixture);
+            const start = await time.latest();
+            const milestones = [{ amount: 1n, deadlineDate: start + 1000, detailsHash: "cid-1" }];
+            await escrow.connect(depositor).createMilestoneAgreement(beneficiary, "cid", EMPTY_ADDRESS, milestones, {value: 1n});
+            await expect(escrow.connect(depositor).addFunds(1, {value: 1n})).to.revertedWith("Milestones amount is fixed");
+        });
+    });
+
     describe("Add/remove pool arbitrator", () => {
         it("Owner should add pool arbitrator", async () => {
             const { escrow, owner, depositor, beneficiary, someone } = await loadFixture(deployEscrowFixture);
+            const pool = await poolOf(escrow);
             const poolArbitrator = (await hre.ethers.getSigners())[4];
-            await expect(await escrow.connect(owner).addPoolArbitrator(poolArbitrator)).to.emit(escrow, "PoolArbitratorAdded")
+            const delay = Number(await pool.POOL_CHANGE_DELAY());
+            await expect(escrow.connect(owner).addPoolArbitrator(poolArbitrator)).to.emit(pool, "PoolArbitratorQueued")
+              .withArgs(poolArbitrator, true, await time.latest() + 1 + delay);
+            const [, applyDate] = await pool.getQueuedPoolArbitrator(poolArbitrator);
+            await time.setNextBlockTimestamp(applyDate - 1n);
+            await expect(escrow.connect(owner).applyPoolArbitrator(poolArbitrator))
+              .to.revertedWith("Too early to apply the pool change");
+            await expect(escrow.connect(someone).applyPoolArbitrator(poolArbitrator))
+              .to.revertedWith("You are not the pool manager.");
+            await expect(await escrow.connect(owner).applyPoolArbitrator(poolArbitrator)).to.emit(pool, "PoolArbitratorAdded")
               .withArgs(poolArbitrator);
+            expect(await pool.getPoolArbitrators()).to.deep.equal([poolArbitrator.address]);
+            await expect(escrow.connect(owner).applyPoolArbitrator(poolArbitrator))
+              .to.revertedWith("No pool change is queued.");
+        });
+
+        it("Owner or pool manager should cancel a queued pool arbitrator", async () => {
+            const { escrow, owner, someone } = await loadFixture(deployEscrowFixture);
+            const pool = await poolOf(escrow);
+            const poolArbitrator = (await hre.ethers.getSigners())[4];
+            await escrow.connect(owner).addPoolArbitrator(poolArbitrator);
+            await expect(escrow.connect(someone).cancelPoolArbitrator(poolArbitrator))
+              .to.revertedWith("You are not the pool manager/guardian.");
+            await expect(pool.connect(someone).cancelPoolArbitrator(poolArbitrator))
+              .to.revertedWith("You are not the owner/pool manager.");
+            await expect(escrow.connect(owner).cancelPoolArbitrator(poolArbitrator))
+              .to.emit(pool, "PoolArbitratorCanceled").withArgs(poolArbitrator);
+            await time.increase(Number(await pool.POOL_CHANGE_DELAY()));
+            await expect(escrow.connect(owner).applyPoolArbitrator(poolArbitrator))
+              .to.revertedWith("No pool change is queued.");
+            // the owner of the pool vetoes the changes of the pool manager
+            await escrow.connect(owner).addPoolArbitrator(poolArbitrator);
+            await expect(pool.connect(owner).cancelPoolArbitrator(poolArbitrator))
+              .to.emit(pool, "PoolArbitratorCanceled").withArgs(poolArbitrator);
+            expect(await pool.getQueuedPoolArbitrator(poolArbitrator)).to.deep.equal([false, 0n]);
+        });
+
+        it("Pool should NOT add the arbitrator who withdrew the stake while queued", async () => {
+            const { escrow, owner } = await loadFixture(deployEscrowFixture);
+            const pool = await poolOf(escrow);
+            const poolArbitrator = (await hre.ethers.getSigners())[4];
+            const stake = await pool.MIN_ARBITRATOR_STAKE();
+            await escrow.connect(owner).addPoolArbitrator(poolArbitrator);
+            await pool.connect(poolArbitrator).withdrawStake(1n);
+            await time.increase(Number(await pool.POOL_CHANGE_DELAY()));
+            await expect(escrow.connect(owner).applyPoolArbitrator(poolArbitrator))
+              .to.revertedWithCustomError(pool, "InsufficientStake").withArgs(poolArbitrator, stake - 1n);
+        });
+
+        it("Owner should NOT add pool arbitrator once the pool has another pool manager", async () => {
+            const { escrow, owner, someone } = await loadFixture(deployEscrowFixture);
+            const pool = await poolOf(escrow);
+            const poolArbitrator = (await hre.ethers.getSigners())[4];
+            await expect(pool.connect(someone).setPoolManager(someone)).to.revertedWith("You are not the owner.");
+            await expect(pool.connect(owner).setPoolManager(someone)).to.emit(pool, "PoolManagerSet").withArgs(someone);
+            await expect(escrow.connect(owner).addPoolArbitrator(poolArbitrator)).to.revertedWith("You are not the pool manager.");
+            await expect(pool.connect(someone).addPoolArbitrator(poolArbitrator)).to.emit(pool, "PoolArbitratorQueued");
+        });
+
+        it("Owner should NOT add pool arbitrator without the stake", async () => {
+            const { escrow, owner } = await loadFixture(deployEscrowFixture);
+            const pool = await poolOf(escrow);
+            const arbitrator = (await hre.ethers.getSigners())[5];
+            const stake = await pool.MIN_ARBITRATOR_STAKE() - 1n;
+            await escrow.connect(arbitrator).depositStake({value: stake});
+            await expect(escrow.connect(owner).addPoolArbitrator(arbitrator)).to.revertedWithCustomError(pool, "InsufficientStake")
+              .withArgs(arbitrator, stake);
         });
 
         it("Owner should NOT add pool arbitrator with empty address", async () => {
@@ -444,26 +680,29 @@ import {
             const { escrow, owner, depositor, beneficiary, someone } = await loadFixture(createAgreementFixture);
             const poolArbitrator = (await hre.ethers.getSigners())[4];
             // denied for depositor
-            await expect(escrow.connect(depositor).addPoolArbitrator(poolArbitrator)).to.revertedWith("You are not the owner.");
+            await expect(escrow.connect(depositor).addPoolArbitrator(poolArbitrator)).to.revertedWith("You are not the pool manager.");
             // denied for beneficiary
-            await expect(escrow.connect(beneficiary).addPoolArbitrator(poolArbitrator)).to.revertedWith("You are not the owner.");
+            await expect(escrow.connect(beneficiary).addPoolArbitrator(poolArbitrator)).to.revertedWith("You are not the pool manager.");
             // denied for someone
-            await expect(escrow.connect(someone).addPoolArbitrator(poolArbitrator)).to.revertedWith("You are not the owner.");
+            await expect(escrow.connect(someone).addPoolArbitrator(poolArbitrator)).to.revertedWith("You are not the pool manager.");
         });
 
         it("Owner should NOT add the same pool arbitrator twice", async () => {
             const { escrow, owner, depositor, beneficiary, someone } = await loadFixture(deployEscrowFixture);
+            const pool = await poolOf(escrow);
             const poolArbitrator = (await hre.ethers.getSigners())[4];
-            await expect(await escrow.connect(owner).addPoolArbitrator(poolArbitrator)).to.emit(escrow, "PoolArbitratorAdded")
+            await expect(await changePool(escrow, owner, poolArbitrator.address)).to.emit(pool, "PoolArbitratorAdded")
               .withArgs(poolArbitrator);
-            await expect(escrow.connect(owner).addPoolArbitrator(poolArbitrator)).to.revertedWithCustomError(escrow, "ArbitratorInPool");
+            await expect(escrow.connect(owner).addPoolArbitrator(poolArbitrator)).to.revertedWithCustomError(pool, "ArbitratorInPool");
         });
 
         it("Owner should remove pool arbitrator", async () => {
             const { escrow, owner, depositor, beneficiary, someone } = await loadFixture(createAgreementFixture);
+            const pool = await poolOf(escrow);
             const poolArbitrator = (await hre.ethers.getSigners())[4];
-            await expect(await escrow.connect(owner).removePoolArbitrator(poolArbitrator)).to.emit(escrow, "PoolArbitratorRemoved")
+            await expect(await changePool(escrow, owner, poolArbitrator.address, false)).to.emit(pool, "PoolArbitratorRemoved")
               .withArgs(poolArbitrator);
+            expect(await pool.getPoolArbitrators()).to.deep.equal([]);
         });
 
         it("Owner should NOT remove pool arbitrator with empty address", async () => {
@@ -475,19 +714,20 @@ import {
             const { escrow, owner, depositor, beneficiary, someone } = await loadFixture(createAgreementFixture);
             const poolArbitrator = (await hre.ethers.getSigners())[4];
             // denied for depositor
-            await expect(escrow.connect(depositor).removePoolArbitrator(poolArbitrator)).to.revertedWith("You are not the owner.");
+            await expect(escrow.connect(depositor).removePoolArbitrator(poolArbitrator)).to.revertedWith("You are not the pool manager.");
             // denied for beneficiary
-            await expect(escrow.connect(beneficiary).removePoolArbitrator(poolArbitrator)).to.revertedWith("You are not the owner.");
+            await expect(escrow.connect(beneficiary).removePoolArbitrator(poolArbitrator)).to.revertedWith("You are not the pool manager.");
             // denied for someone
-            await expect(escrow.connect(someone).removePoolArbitrator(poolArbitrator)).to.revertedWith("You are not the owner.");
+            await expect(escrow.connect(someone).removePoolArbitrator(poolArbitrator)).to.revertedWith("You are not the pool manager.");
         });
 
         it("Owner should NOT remove pool the arbitrator twice", async () => {
             const { escrow, owner, depositor, beneficiary, someone } = await loadFixture(createAgreementFixture);
+            const pool = await poolOf(escrow);
             const poolArbitrator = (await hre.ethers.getSigners())[4];
-            await expect(await escrow.connect(owner).removePoolArbitrator(poolArbitrator)).to.emit(escrow, "PoolArbitratorRemoved")
+            await expect(await changePool(escrow, owner, poolArbitrator.address, false)).to.emit(pool, "PoolArbitratorRemoved")
               .withArgs(poolArbitrator);
-            await expect(escrow.connect(owner).removePoolArbitrator(poolArbitrator)).to.revertedWithCustomError(escrow, "ArbitratorNotInPool");
+            await expect(escrow.connect(owner).removePoolArbitrator(poolArbitrator)).to.revertedWithCustomError(pool, "ArbitratorNotInPool");
         });
 
         it("Owner should NOT remove the assigned arbitrator from the pool", async () => {
@@ -496,7 +736,8 @@ import {
             await time.increase(agreeOnArbitratorPeriod);
             // check assigned event
             const poolArbitrator = (await hre.ethers.getSigners())[4];
-            await expect(await escrow.connect(depositor).assignArbitrator(agreementId)).to.emit(escrow, "PoolArbitratorAssigned")
+            await expect(await escrow.connect(depositor).assignArbitrator(agreementId)).to.emit(escrow, "PoolArbitratorRequested");
+            await expect(await fulfillAssignment(escrow)).to.emit(escrow, "PoolArbitratorAssigned")
               .withArgs(agreementId, poolArbitrator);
             // check revert prohibiting removing arbitrator from the pool
             await expect(escrow.connect(owner).removePoolArbitrator(poolArbitrator)).to.revertedWith("Arbitrator has active agreements");
@@ -0,0 +1,235 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import {
+    AccessDeniedError,
+    decodeEscrowError,
+    decodeStatus,
+    DeadlineError,
+    DEFAULT_POLICY,
+    encodeStatus,
+    EscrowAgentClient,
+    EscrowClient,
+    ETH,
+    InvalidTransitionError,
+    MAX_POLICY,
+    MIN_POLICY,
+    MultisigEscrowClient,
+    SimpleEscrowAgentClient,
+    WithdrawProhibitedError,
+    WrongArbitratorError,
+    WrongStatusError,
+    WrongTokenError,
+  } from "../sdk";
+
+
+  describe("EscrowClient", function () {
+
+    const CID = "0xB45165ED3CD437B9FFAD02A2AAD22A4DDC69162470E2622982889CE5826F6E3D";
+    const AMOUNT = hre.ethers.parseEther("1");
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, arbitrator] = await hre.ethers.getSigners();
+      const agent = await hre.ethers.deployContract("EscrowAgent");
+      const factory = await hre.ethers.deployContract("MultisigEscrowFactory", [hre.ethers.ZeroAddress]);
+      const token = await hre.ethers.deployContract("ERC20Mock");
+      await token.mint(depositor, AMOUNT * 10n);
+      const deadlineDate = (await time.latest()) + 30 * 24 * 3600;
+      return { agent, factory, token, owner, depositor, beneficiary, arbitrator, deadlineDate };
+    }
+
+    async function createClients() {
+      const { agent, factory, depositor, beneficiary, deadlineDate } = await loadFixture(deployFixture);
+      const params = { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate, detailsHash: CID };
+      const clients: EscrowClient[] = [
+        await EscrowAgentClient.create(agent.connect(depositor), params),
+        await SimpleEscrowAgentClient.deploy(depositor, params),
+        await MultisigEscrowClient.create(factory.connect(depositor), params),
+      ];
+      return { clients, depositor, beneficiary, deadlineDate };
+    }
+
+    async function disputedAgentFixture() {
+      const { agent, depositor, beneficiary, arbitrator, deadlineDate } = await loadFixture(deployFixture);
+      const client = await EscrowAgentClient.create(agent.connect(depositor),
+        { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate });
+      await client.connect(beneficiary).approve();
+      await time.increaseTo(deadlineDate + 1);
+      await client.dispute();
+      return { client, depositor, beneficiary, arbitrator };
+    }
+
+    it("Should decode statuses of every variant", () => {
+      expect(decodeStatus("EscrowAgent", 6n)).to.equal("Disputed");
+      expect(decodeStatus("SimpleEscrowAgent", 8)).to.equal("Unresolved");
+      expect(decodeStatus("MultisigEscrow", 1n)).to.equal("Revoked");
+      expect(decodeStatus("MultisigEscrow", 6n)).to.equal("Locked");
+      expect(encodeStatus("MultisigEscrow", "Locked")).to.equal(6);
+      expect(() => decodeStatus("MultisigEscrow", 7n)).to.throw(RangeError);
+      expect(() => encodeStatus("EscrowAgent", "Locked")).to.throw(RangeError);
+    });
+
+    it("Should run the same workflow on all variants", async () => {
+      const { clients, beneficiary } = await loadFixture(createClients);
+      for (const client of clients) {
+        expect(await client.getStatus()).to.equal("Funded");
+        const details = await client.getDetails();
+        expect(details.amount).to.equal(AMOUNT);
+        expect(details.token).to.equal(ETH);
+        await client.connect(beneficiary).approve();
+        expect(await client.getStatus()).to.equal("Active");
+        await client.release();
+        expect(await client.getStatus()).to.equal("Closed");
+        const balance = await hre.ethers.provider.getBalance(beneficiary);
+        await client.connect(beneficiary).withdraw();
+        expect(await hre.ethers.provider.getBalance(beneficiary)).to.be.greaterThan(balance);
+      }
+    });
+
+    it("Should return the funds to the depositor on all variants", async () => {
+      const { clients, depositor } = await loadFixture(createClients);
+      for (const client of clients) {
+        await client.cancel();
+        expect(["Canceled", "Revoked"]).to.include(await client.getStatus());
+        const balance = await hre.ethers.provider.getBalance(depositor);
+        await client.withdraw();
+        expect(await hre.ethers.provider.getBalance(depositor)).to.be.greaterThan(balance);
+      }
+    });
+
+    it("Should add funds on all variants", async () => {
+      const { clients, beneficiary } = await loadFixture(createClients);
+      for (const client of clients) {
+        await client.addFunds(AMOUNT);
+        expect((await client.getDetails()).amount).to.equal(AMOUNT * 2n);
+      }
+      await clients[0].connect(beneficiary).approve();
+      await expect(clients[0].addFunds(AMOUNT)).to.be.rejectedWith(InvalidTransitionError);
+    });
+
+    it("Should add token funds", async () => {
+      const { agent, factory, token, depositor, beneficiary, deadlineDate } = await loadFixture(deployFixture);
+      const params = { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate, token: await token.getAddress() };
+      for (const client of [await EscrowAgentClient.create(agent.connect(depositor), params),
+          await MultisigEscrowClient.create(factory.connect(depositor), params)]) {
+        await client.addFunds(AMOUNT);
+        expect((await client.getDetails()).amount).to.equal(AMOUNT * 2n);
+        expect(await token.balanceOf(client.getAddress())).to.be.greaterThanOrEqual(AMOUNT * 2n);
+      }
+    });
+
+    it("Should create simple escrows with the factory", async () => {
+      const { depositor, beneficiary, deadlineDate } = await loadFixture(deployFixture);
+      const simpleFactory = await hre.ethers.deployContract("SimpleEscrowFactory",
+        [hre.ethers.ZeroAddress, [], DEFAULT_POLICY, MIN_POLICY, MAX_POLICY]);
+      const client = await SimpleEscrowAgentClient.create(simpleFactory.connect(depositor),
+        { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate, detailsHash: CID });
+      expect((await client.getDetails()).detailsHash).to.equal(CID);
+      // the caller of the factory is the depositor
+      await client.cancel();
+      expect(await client.getStatus()).to.equal("Canceled");
+      await client.withdraw();
+      expect(await hre.ethers.provider.getBalance(client.getAddress())).to.equal(0n);
+    });
+
+    it("Should check transitions before sending", async () => {
+      const { clients, beneficiary } = await loadFixture(createClients);
+      for (const client of clients) {
+        const asBeneficiary = client.connect(beneficiary);
+        expect(await asBeneficiary.canSend("refund")).to.be.false;
+        const blockNumber = await hre.ethers.provider.getBlockNumber();
+        await expect(asBeneficiary.refund()).to.be.rejectedWith(InvalidTransitionError, "Funded");
+        // nothing was sent
+        expect(await hre.ethers.provider.getBlockNumber()).to.equal(blockNumber);
+      }
+    });
+
+    it("Should map string requires to typed errors", async () => {
+      const { clients, beneficiary } = await loadFixture(createClients);
+      const [agentClient, simpleClient, multisigClient] = clients;
+      await expect(agentClient.connect(beneficiary).cancel())
+        .to.be.rejectedWith(AccessDeniedError, "You are not the depositor.");
+      await expect(multisigClient.connect(beneficiary).cancel())
+        .to.be.rejectedWith(AccessDeniedError, "only depositor");
+      await simpleClient.connect(beneficiary).approve();
+      await expect(simpleClient.dispute())
+        .to.be.rejectedWith(DeadlineError, "You cannot raise dispute before the deadline");
+      // the depositor removes funds only from a returned agreement
+      await expect(multisigClient.withdraw()).to.be.rejectedWith(InvalidTransitionError);
+      const contract = (multisigClient as MultisigEscrowClient).contract;
+      const error = await contract.removeFunds().catch((e) => decodeEscrowError(e, contract.interface));
+      expect(error).to.be.instanceOf(WrongStatusError);
+    });
+
+    it("Should map WithdrawProhibited to a typed error", async () => {
+      const { clients, depositor } = await loadFixture(createClients);
+      const error = await clients[0].withdraw().catch((e) => e);
+      expect(error).to.be.instanceOf(WithdrawProhibitedError);
+      expect(error.sender).to.equal(depositor.address);
+      expect(error.status).to.equal("Funded");
+    });
+
+    it("Should map WrongArbitrator to a typed error", async () => {
+      const { client, beneficiary, arbitrator } = await loadFixture(disputedAgentFixture);
+      expect(await client.getStatus()).to.equal("Disputed");
+      await client.registerArbitrator(arbitrator.address, 10000);
+      const error = await client.connect(beneficiary).registerArbitrator(arbitrator.address, 20000).catch((e) => e);
+      expect(error).to.be.instanceOf(WrongArbitratorError);
+      expect(error.oldFeePercentage).to.equal(10000n);
+      expect(error.newFeePercentage).to.equal(20000n);
+      await client.connect(beneficiary).registerArbitrator(arbitrator.address, 10000);
+      await client.connect(arbitrator).resolveDispute(500000);
+      expect(await client.getStatus()).to.equal("Resolved");
+      await expect(client.connect(arbitrator).resolveDispute(500000)).to.be.rejectedWith(InvalidTransitionError);
+    });
+
+    it("Should create token agreements", async () => {
+      const { agent, factory, token, depositor, beneficiary, deadlineDate } = await loadFixture(deployFixture);
+      const params = { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate, token: await token.getAddress() };
+      const agentClient = await EscrowAgentClient.create(agent.connect(depositor), params);
+      expect((await agentClient.getDetails()).token).to.equal(params.token);
+      const multisigClient = await MultisigEscrowClient.create(factory.connect(depositor), params);
+      expect((await multisigClient.getDetails()).amount).to.equal(AMOUNT);
+      expect(await token.balanceOf(multisigClient.getAddress())).to.equal(AMOUNT);
+      await expect(SimpleEscrowAgentClient.deploy(depositor, params)).to.be.rejectedWith(WrongTokenError);
+    });
+
+    it("Should release milestones", async () => {
+      const { agent, depositor, beneficiary, deadlineDate } = await loadFixture(deployFixture);
+      const client = await EscrowAgentClient.createWithMilestones(agent.connect(depositor), {
+        beneficiary: beneficiary.address,
+        milestones: [
+          { amount: AMOUNT, deadlineDate },
+          { amount: AMOUNT * 2n, deadlineDate: deadlineDate + 3600, detailsHash: CID },
+        ],
+      });
+      expect((await client.getDetails()).amount).to.equal(AMOUNT * 3n);
+      await expect(client.releaseMilestone(0)).to.be.rejectedWith(InvalidTransitionError);
+      await client.connect(beneficiary).approve();
+      await client.releaseMilestone(0);
+      const milestones = await client.getMilestones();
+      expect(milestones.map((m) => m.released)).to.deep.equal([true, false]);
+      expect(milestones[1].detailsHash).to.equal(CID);
+      await expect(client.connect(beneficiary).releaseMilestone(1)).to.be.rejectedWith(DeadlineError);
+      await client.releaseMilestone(1);
+      expect(await client.getStatus()).to.equal("Closed");
+      const balance = await hre.ethers.provider.getBalance(beneficiary);
+      const receipt = await client.connect(beneficiary).withdraw();
+      expect(await hre.ethers.provider.getBalance(beneficiary))
+        .to.equal(balance + AMOUNT * 3n - receipt.gasUsed * receipt.gasPrice);
+      await expect(client.withdraw()).to.be.rejectedWith(WithdrawProhibitedError);
+    });
+
+    it("Should map reverts of read calls", async () => {
+      const { clients, beneficiary } = await loadFixture(createClients);
+      const [agentClient, , multisigClient] = clients;
+      const someone = (await hre.ethers.getSigners())[5];
+      await expect(agentClient.connect(someone).getDetails()).to.be.rejectedWith(AccessDeniedError);
+      await expect(multisigClient.connect(someone).getDetails()).to.be.rejectedWith(AccessDeniedError);
+      await multisigClient.connect(beneficiary).approve();
+      await expect(multisigClient.dispute()).to.be.rejectedWith(DeadlineError, "can be locked after deadline");
+    });
+  });
\ No newline at end of file
@@ -0,0 +1,120 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import { ContractTransactionResponse } from "ethers";
+  import hre from "hardhat";
+  import {
+    DEFAULT_POLICY,
+    MAX_POLICY,
+    MIN_POLICY,
+    MultisigEscrowClient,
+    SimpleEscrowAgentClient,
+  } from "../sdk";
+
+
+  describe("Escrow clones", function () {
+
+    const CID = "0xB45165ED3CD437B9FFAD02A2AAD22A4DDC69162470E2622982889CE5826F6E3D";
+    const AMOUNT = hre.ethers.parseEther("1");
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, someone] = await hre.ethers.getSigners();
+      const multisigFactory = await hre.ethers.deployContract("MultisigEscrowFactory", [hre.ethers.ZeroAddress]);
+      const simpleFactory = await hre.ethers.deployContract("SimpleEscrowFactory",
+        [hre.ethers.ZeroAddress, [], DEFAULT_POLICY, MIN_POLICY, MAX_POLICY]);
+      const deadlineDate = (await time.latest()) + 30 * 24 * 3600;
+      return { multisigFactory, simpleFactory, owner, depositor, beneficiary, someone, deadlineDate };
+    }
+
+    async function gasUsed(...transactions: (ContractTransactionResponse | null)[]) {
+      let total = 0n;
+      for (const transaction of transactions) {
+        total += (await transaction!.wait())!.gasUsed;
+      }
+      return total;
+    }
+
+    it("Should create the escrows at the predicted addresses", async () => {
+      const { multisigFactory, simpleFactory, depositor, someone, beneficiary, deadlineDate } =
+        await loadFixture(deployFixture);
+      const params = { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate, detailsHash: CID };
+      const predicted = await MultisigEscrowClient.predictAddress(multisigFactory, depositor.address);
+      // another depositor doesn't take the address
+      await MultisigEscrowClient.create(multisigFactory.connect(someone), params);
+      const multisig = await MultisigEscrowClient.create(multisigFactory.connect(depositor), params);
+      expect(await multisig.getAddress()).to.equal(predicted);
+      expect(await MultisigEscrowClient.predictAddress(multisigFactory, depositor.address)).to.not.equal(predicted);
+
+      const simplePredicted = await SimpleEscrowAgentClient.predictAddress(simpleFactory, depositor.address);
+      await SimpleEscrowAgentClient.create(simpleFactory.connect(someone), params);
+      const simple = await SimpleEscrowAgentClient.create(simpleFactory.connect(depositor), params);
+      expect(await simple.getAddress()).to.equal(simplePredicted);
+      expect((await simple.getDetails()).amount).to.equal(AMOUNT);
+      expect(await hre.ethers.provider.getBalance(simplePredicted)).to.equal(AMOUNT);
+    });
+
+    it("Should NOT initialize the escrows twice or the implementations", async () => {
+      const { multisigFactory, simpleFactory, depositor, beneficiary, deadlineDate } =
+        await loadFixture(deployFixture);
+      const multisig = await MultisigEscrowClient.create(multisigFactory.connect(depositor),
+        { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate });
+      await expect(multisig.contract.initialize(depositor, depositor, deadlineDate, hre.ethers.ZeroAddress))
+        .to.revertedWithCustomError(multisig.contract, "InvalidInitialization");
+      const multisigImplementation = await hre.ethers.getContractAt("MultisigEscrow",
+        await multisigFactory.getImplementation());
+      await expect(multisigImplementation.initialize(depositor, depositor, deadlineDate, hre.ethers.ZeroAddress))
+        .to.revertedWith("only factory");
+
+      const simpleImplementation = await hre.ethers.getContractAt("SimpleEscrowAgent",
+        await simpleFactory.getImplementation());
+      await expect(simpleImplementation.connect(depositor).initialize(depositor, beneficiary, CID, deadlineDate, [],
+        hre.ethers.ZeroAddress, DEFAULT_POLICY)).to.revertedWith("You are not the factory.");
+      const simple = await SimpleEscrowAgentClient.deploy(depositor,
+        { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate });
+      await expect(simple.contract.initialize(depositor, beneficiary, CID, deadlineDate, [],
+        hre.ethers.ZeroAddress, DEFAULT_POLICY)).to.revertedWithCustomError(simple.contract, "InvalidInitialization");
+    });
+
+    it("Should reuse a paused multisig escrow clone", async () => {
+      const { multisigFactory, depositor, beneficiary, someone, deadlineDate } = await loadFixture(deployFixture);
+      const client = await MultisigEscrowClient.create(multisigFactory.connect(depositor),
+        { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate });
+      const escrow = client.contract;
+      await client.cancel();
+      // removing the funds pauses the escrow
+      await client.withdraw();
+      expect(await escrow.paused()).to.be.true;
+      await expect(escrow.createAgreement(someone, deadlineDate, { value: AMOUNT }))
+        .to.emit(escrow, "AgreementCreated").withArgs(depositor, someone, AMOUNT, deadlineDate);
+      expect(await client.getStatus()).to.equal("Funded");
+      expect((await client.getDetails()).beneficiary).to.equal(someone.address);
+      expect(await escrow.paused()).to.be.false;
+      // the new agreement pays out and pauses the escrow again
+      await escrow.connect(someone).approveAgreement();
+      await escrow.releaseFunds();
+      await expect(escrow.connect(someone).withdrawFunds()).to.changeEtherBalance(someone, AMOUNT);
+      expect(await escrow.paused()).to.be.true;
+    });
+
+    it("Should deploy clones cheaper than the factories deploying the full contracts", async () => {
+      const { multisigFactory, simpleFactory, depositor, beneficiary, deadlineDate } =
+        await loadFixture(deployFixture);
+      // the former factories deployed every escrow with new
+      const newMultisigFactory = await hre.ethers.deployContract("NewMultisigEscrowFactoryMock");
+      const multisigNew = await gasUsed(
+        await newMultisigFactory.connect(depositor).createEscrow(beneficiary, deadlineDate, { value: AMOUNT }));
+      const multisigClone = await gasUsed(
+        await multisigFactory.connect(depositor).createEscrow(beneficiary, deadlineDate, { value: AMOUNT }));
+
+      const newSimpleFactory = await hre.ethers.deployContract("NewSimpleEscrowFactoryMock");
+      const simpleNew = await gasUsed(await newSimpleFactory.connect(depositor).createEscrow(beneficiary, CID,
+        deadlineDate, DEFAULT_POLICY, { value: AMOUNT }));
+      const simpleClone = await gasUsed(
+        await simpleFactory.connect(depositor).createEscrow(beneficiary, CID, deadlineDate, { value: AMOUNT }));
+
+      expect(multisigClone * 4n).to.be.lessThan(multisigNew);
+      expect(simpleClone * 4n).to.be.lessThan(simpleNew);
+    });
+  });
@@ -0,0 +1,202 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import { DEFAULT_POLICY, EscrowAgentClient, EscrowPausedError, MAX_POLICY, MIN_POLICY } from "../sdk";
+
+
+  describe("EscrowGovernance", function () {
+
+    const AMOUNT = hre.ethers.parseEther("1");
+    const DAY = 24 * 3600;
+    const CID = "cid";
+
+    async function deployFixture() {
+      const [owner, newOwner, poolManager, guardian, depositor, beneficiary, arbitrator, someone] =
+        await hre.ethers.getSigners();
+      const escrow = await hre.ethers.deployContract("EscrowAgent");
+      const extension = await hre.ethers.getContractAt("EscrowAgentExtension", await escrow.getAddress());
+      await extension.connect(owner).setPoolManager(poolManager);
+      await extension.connect(owner).setGuardian(guardian);
+      const deadlineDate = (await time.latest()) + 30 * DAY;
+      return { escrow, extension, owner, newOwner, poolManager, guardian, depositor, beneficiary, arbitrator, someone,
+        deadlineDate };
+    }
+
+    it("Should transfer the ownership in two steps", async () => {
+      const { escrow, extension, owner, newOwner, someone } = await loadFixture(deployFixture);
+      const [ownerAddress, , poolManager, guardian] = await extension.getGovernance();
+      expect(ownerAddress).to.equal(owner.address);
+
+      await expect(extension.connect(someone).transferOwnership(newOwner)).to.revertedWith("You are not the owner.");
+      await expect(extension.connect(owner).transferOwnership(newOwner)).to.emit(extension, "OwnershipTransferStarted")
+        .withArgs(owner.address, newOwner.address);
+      expect((await extension.getGovernance()).pendingOwner).to.equal(newOwner.address);
+      await expect(extension.connect(someone).acceptOwnership()).to.revertedWith("You are not the pending owner.");
+      await expect(extension.connect(newOwner).acceptOwnership()).to.emit(extension, "OwnershipTransferred")
+        .withArgs(owner.address, newOwner.address);
+      // the roles stay with their holders
+      expect(await extension.getGovernance()).to.deep.equal([newOwner.address, hre.ethers.ZeroAddress, poolManager,
+        guardian]);
+
+      await expect(extension.connect(owner).setPolicyBounds(DEFAULT_POLICY, MIN_POLICY, MAX_POLICY))
+        .to.revertedWith("You are not the owner.");
+      await expect(extension.connect(newOwner).setPolicyBounds(DEFAULT_POLICY, MIN_POLICY, MAX_POLICY))
+        .to.emit(extension, "PolicyBoundsSet");
+      await expect(extension.connect(owner).setGuardian(someone)).to.revertedWith("You are not the owner.");
+      await expect(extension.connect(newOwner).setGuardian(someone)).to.emit(extension, "GuardianSet")
+        .withArgs(someone.address);
+    });
+
+    it("Should apply a queued arbitrator pool after the delay", async () => {
+      const { escrow, extension, owner, poolManager, guardian } = await loadFixture(deployFixture);
+      const pool = await hre.ethers.deployContract("ArbitratorPool");
+      const nextPool = await hre.ethers.deployContract("ArbitratorPool");
+      await expect(escrow.connect(owner).setArbitratorPool(pool)).to.revertedWith("You are not the pool manager.");
+      await expect(escrow.connect(poolManager).setArbitratorPool(pool)).to.emit(escrow, "ArbitratorPoolSet")
+        .withArgs(await pool.getAddress());
+      await expect(escrow.connect(poolManager).setArbitratorPool(nextPool))
+        .to.revertedWith("Arbitrator pool is set, queue the change.");
+
+      const delay = Number(await extension.ARBITRATOR_POOL_DELAY());
+      await expect(extension.connect(poolManager).queueArbitratorPool(nextPool))
+        .to.emit(extension, "ArbitratorPoolQueued")
+        .withArgs(await nextPool.getAddress(), await time.latest() + 1 + delay);
+      const [, applyDate] = await extension.getQueuedArbitratorPool();
+      await time.setNextBlockTimestamp(applyDate - 1n);
+      await expect(extension.connect(poolManager).applyArbitratorPool())
+        .to.revertedWith("Too early to apply the arbitrator pool");
+      await expect(extension.connect(guardian).applyArbitratorPool()).to.revertedWith("You are not the pool manager.");
+      await expect(extension.connect(poolManager).applyArbitratorPool()).to.emit(extension, "ArbitratorPoolSet")
+        .withArgs(await nextPool.getAddress());
+      expect(await escrow.getArbitratorPool()).to.equal(await nextPool.getAddress());
+      expect(await extension.getQueuedArbitratorPool()).to.deep.equal([hre.ethers.ZeroAddress, 0n]);
+      await expect(extension.connect(poolManager).applyArbitratorPool())
+        .to.revertedWith("No arbitrator pool is queued.");
+
+      // the guardian vetoes a queued pool
+      await extension.connect(poolManager).queueArbitratorPool(pool);
+      await expect(extension.connect(owner).cancelArbitratorPool())
+        .to.revertedWith("You are not the pool manager/guardian.");
+      await expect(extension.connect(guardian).cancelArbitratorPool()).to.emit(extension, "ArbitratorPoolCanceled")
+        .withArgs(await pool.getAddress());
+      await time.increase(delay);
+      await expect(extension.connect(poolManager).applyArbitratorPool())
+        .to.revertedWith("No arbitrator pool is queued.");
+      expect(await escrow.getArbitratorPool()).to.equal(await nextPool.getAddress());
+    });
+
+    it("Should keep the open disputes with the pool they requested the arbitrator from", async () => {
+      const { escrow, extension, owner, poolManager, depositor, beneficiary, arbitrator, deadlineDate } =
+        await loadFixture(deployFixture);
+      const coordinator = await hre.ethers.deployContract("RandomnessCoordinatorMock");
+      const pool = await hre.ethers.deployContract("ArbitratorPool");
+      const nextPool = await hre.ethers.deployContract("ArbitratorPool");
+      const stake = await pool.MIN_ARBITRATOR_STAKE();
+      await pool.connect(arbitrator).depositStake({ value: stake });
+      await pool.connect(owner).addPoolArbitrator(arbitrator);
+      for (const arbitratorPool of [pool, nextPool]) {
+        await arbitratorPool.connect(owner).setRandomnessCoordinator(coordinator);
+        await arbitratorPool.connect(owner).setEscrow(escrow, true);
+      }
+      await escrow.connect(poolManager).setArbitratorPool(pool);
+      for (let agreementId = 1; agreementId <= 3; agreementId++) {
+        await escrow.connect(depositor)["createAgreement(address,string,uint32)"](
+          beneficiary, CID, deadlineDate, { value: AMOUNT });
+        await escrow.connect(beneficiary).approveAgreement(agreementId);
+      }
+      await time.increaseTo(deadlineDate + 1);
+      await escrow.connect(depositor).raiseDispute(1);
+      await escrow.connect(depositor).raiseDispute(2);
+      await time.increase(Number(await escrow.AGREE_ON_ARBITRATOR_MAX_PERIOD()));
+      // the arbitrator is assigned to the first dispute, the assignment of the second one is pending
+      await escrow.connect(depositor).assignArbitrator(1);
+      await coordinator.fulfillRandomness(1, 0);
+      await escrow.connect(depositor).assignArbitrator(2);
+
+      await extension.connect(poolManager).queueArbitratorPool(nextPool);
+      await time.increase(Number(await extension.ARBITRATOR_POOL_DELAY()));
+      await extension.connect(poolManager).applyArbitratorPool();
+      expect(await extension.getDisputePool(1)).to.equal(await pool.getAddress());
+      expect(await extension.getDisputePool(2)).to.equal(await pool.getAddress());
+      // the previous pool still assigns the pending dispute
+      await expect(coordinator.fulfillRandomness(2, 0)).to.emit(escrow, "PoolArbitratorAssigned")
+        .withArgs(2, arbitrator.address);
+      expect(await pool.getAssignedAgreementCount(arbitrator)).to.equal(2n);
+
+      // and hears of the resolution and the settlement even after it stops serving the escrow
+      await pool.connect(owner).setEscrow(escrow, false);
+      await expect(escrow.connect(arbitrator)["resolveDispute(uint256,uint32)"](1, 1_000_000))
+        .to.emit(escrow, "DisputeResolved");
+      expect((await pool.getArbitratorStats(arbitrator)).resolved).to.equal(1n);
+      await escrow.connect(depositor).proposeSettlement(2, 500_000);
+      await expect(escrow.connect(beneficiary).acceptSettlement(2, 500_000)).to.emit(escrow, "SettlementAccepted");
+      await expect(pool.connect(arbitrator).withdrawStake(stake)).to.changeEtherBalance(arbitrator, stake);
+
+      // a new dispute requests the arbitrator from the new pool
+      await escrow.connect(depositor).raiseDispute(3);
+      await time.increase(Number(await escrow.AGREE_ON_ARBITRATOR_MAX_PERIOD()));
+      await expect(escrow.connect(depositor).assignArbitrator(3)).to.revertedWith("Arbitrators pool is empty");
+    });
+
+    it("Should pause the new deposits and disputes but not the withdrawals and the open disputes", async () => {
+      const { escrow, extension, guardian, depositor, beneficiary, arbitrator, someone, deadlineDate } =
+        await loadFixture(deployFixture);
+      const create = () => escrow.connect(depositor)["createAgreement(address,string,uint32)"](
+        beneficiary, CID, deadlineDate, { value: AMOUNT });
+      await create();
+      await create();
+      await escrow.connect(beneficiary).approveAgreement(2);
+      await create();
+      await escrow.connect(beneficiary).approveAgreement(3);
+      await time.increaseTo(deadlineDate + 1);
+      await escrow.connect(depositor).raiseDispute(3);
+
+      await expect(extension.connect(someone).pause()).to.revertedWith("You are not the guardian.");
+      await expect(extension.connect(guardian).pause()).to.emit(extension, "Paused").withArgs(guardian.address);
+      expect(await extension.isPaused()).to.be.true;
+      await expect(extension.connect(guardian).pause()).to.revertedWith("The escrow is paused.");
+
+      await expect(create()).to.revertedWith("The escrow is paused.");
+      await expect(escrow.connect(depositor).createMilestoneAgreement(beneficiary, CID, hre.ethers.ZeroAddress,
+        [{ amount: AMOUNT, deadlineDate: deadlineDate + DAY, detailsHash: CID }], { value: AMOUNT }))
+        .to.revertedWith("The escrow is paused.");
+      await expect(escrow.connect(depositor).addFunds(1, { value: AMOUNT })).to.revertedWith("The escrow is paused.");
+      await expect(escrow.connect(depositor).raiseDispute(2)).to.revertedWith("The escrow is paused.");
+      await expect(EscrowAgentClient.create(escrow.connect(depositor),
+        { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate: deadlineDate + DAY }))
+        .to.be.rejectedWith(EscrowPausedError);
+
+      // the funds can leave and the open dispute is resolved
+      await escrow.connect(depositor).cancelAgreement(1);
+      await expect(escrow.connect(depositor).withdrawFunds(1)).to.changeEtherBalance(depositor, AMOUNT);
+      await escrow.connect(depositor).releaseFunds(2);
+      await expect(extension.connect(beneficiary).withdrawAll(hre.ethers.ZeroAddress, beneficiary))
+        .to.changeEtherBalance(beneficiary, AMOUNT);
+      await escrow.connect(depositor).registerArbitrator(3, arbitrator, 0);
+      await escrow.connect(beneficiary).registerArbitrator(3, arbitrator, 0);
+      await expect(escrow.connect(arbitrator)["resolveDispute(uint256,uint32)"](3, 1_000_000))
+        .to.emit(escrow, "DisputeResolved");
+      await expect(escrow.connect(depositor).withdrawFunds(3)).to.changeEtherBalance(depositor, AMOUNT);
+
+      await expect(extension.connect(someone).unpause()).to.revertedWith("You are not the guardian.");
+      await expect(extension.connect(guardian).unpause()).to.emit(extension, "Unpaused").withArgs(guardian.address);
+      await expect(extension.connect(guardian).unpause()).to.revertedWith("The escrow is not paused.");
+      await expect(create()).to.emit(escrow, "AgreementCreated");
+    });
+
+    it("Should NOT add the funds of an amendment while paused", async () => {
+      const { escrow, extension, guardian, depositor, beneficiary, deadlineDate } = await loadFixture(deployFixture);
+      await escrow.connect(depositor)["createAgreement(address,string,uint32)"](
+        beneficiary, CID, deadlineDate, { value: AMOUNT });
+      await extension.connect(beneficiary).proposeAmendment(1, 0, AMOUNT, "");
+      await extension.connect(guardian).pause();
+      await expect(extension.connect(depositor).acceptAmendment(1, 1, { value: AMOUNT }))
+        .to.revertedWith("The escrow is paused.");
+      // the amendments without funds are accepted
+      await extension.connect(depositor).proposeAmendment(1, deadlineDate + DAY, 0, "");
+      await expect(extension.connect(beneficiary).acceptAmendment(1, 2)).to.emit(extension, "AmendmentAccepted");
+    });
+  });
@@ -0,0 +1,192 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import {
+    checkPolicy,
+    DeadlineError,
+    decodePolicy,
+    DEFAULT_POLICY,
+    EscrowAgentClient,
+    EscrowPolicy,
+    MAX_POLICY,
+    MIN_POLICY,
+    SimpleEscrowAgentClient,
+    WrongPolicyError,
+  } from "../sdk";
+
+
+  describe("Escrow policy", function () {
+
+    const CID = "0xB45165ED3CD437B9FFAD02A2AAD22A4DDC69162470E2622982889CE5826F6E3D";
+    const VALUE = hre.ethers.parseEther("1");
+    const HOUR = 3600;
+    const DAY = 24 * HOUR;
+    // a short policy of a small job
+    const POLICY: EscrowPolicy = {
+      releaseFundsAfterDeadline: HOUR,
+      agreeOnArbitratorMaxPeriod: 6 * HOUR,
+      resolveDisputeMaxPeriod: 12 * HOUR,
+      unresolvedDisputeRefundPercentage: 800_000,
+      defaultArbitratorPercentage: 50_000,
+      defaultDeadlinePeriod: 7 * DAY,
+    };
+
+    const CREATE_WITH_POLICY =
+      "createAgreement(address,string,uint32,address,uint96,(uint32,uint32,uint32,uint32,uint32,uint32))";
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, someone] = await hre.ethers.getSigners();
+      const escrow = await hre.ethers.deployContract("EscrowAgent");
+      // the policy bounds are set by the extension
+      const extension = await hre.ethers.getContractAt("EscrowAgentExtension", await escrow.getAddress());
+      const deadline = (await time.latest()) + DAY;
+      return { escrow, extension, owner, depositor, beneficiary, someone, deadline };
+    }
+
+    describe("EscrowAgent", () => {
+
+      it("Should keep the default policy of the agreements created without one", async () => {
+        const { escrow, extension, depositor, beneficiary, deadline } = await loadFixture(deployFixture);
+        const agreement = await EscrowAgentClient.create(escrow.connect(depositor),
+          { beneficiary: beneficiary.address, amount: VALUE, deadlineDate: deadline });
+        expect(await agreement.getPolicy()).to.deep.equal(DEFAULT_POLICY);
+        const [defaultPolicy, minPolicy, maxPolicy] = await extension.getPolicyBounds();
+        expect([defaultPolicy, minPolicy, maxPolicy].map(decodePolicy))
+          .to.deep.equal([DEFAULT_POLICY, MIN_POLICY, MAX_POLICY]);
+      });
+
+      it("Should follow the timing and fees of the agreement policy", async () => {
+        const { escrow, depositor, beneficiary, someone, deadline } = await loadFixture(deployFixture);
+        const resp = escrow.connect(depositor)[CREATE_WITH_POLICY](
+          beneficiary, CID, deadline, hre.ethers.ZeroAddress, 0, POLICY, { value: VALUE });
+        await expect(resp).to.emit(escrow, "AgreementPolicySet").withArgs(1, Object.values(POLICY));
+        // the beneficiary accepts the policy
+        await escrow.connect(beneficiary).approveAgreement(1);
+        await time.increaseTo(deadline + HOUR - 2);
+        await expect(escrow.connect(beneficiary).releaseFunds(1))
+          .to.revertedWith("Funds will be released after the deadline and the release period");
+        await expect(escrow.connect(beneficiary).releaseFunds(1)).to.emit(escrow, "FundsReleased");
+
+        await escrow.connect(depositor)[CREATE_WITH_POLICY](
+          beneficiary, CID, deadline + DAY, hre.ethers.ZeroAddress, 0, POLICY, { value: VALUE });
+        await escrow.connect(beneficiary).approveAgreement(2);
+        await time.increaseTo(deadline + DAY + 1);
+        await escrow.connect(depositor).raiseDispute(2);
+        // the dispute starts with the policy fee and goes to the pool after the policy period
+        await escrow.connect(depositor).registerArbitrator(2, someone, POLICY.defaultArbitratorPercentage);
+        await expect(escrow.connect(depositor).assignArbitrator(2))
+          .to.revertedWith("Too early to assign artibrator from the pool");
+        await time.increase(POLICY.agreeOnArbitratorMaxPeriod);
+        await expect(escrow.connect(depositor).assignArbitrator(2)).to.revertedWith("Arbitrator pool is not set");
+      });
+
+      it("Should split an unresolved dispute by the agreement policy", async () => {
+        const { escrow, owner, depositor, beneficiary, deadline } = await loadFixture(deployFixture);
+        const [arbitrator] = (await hre.ethers.getSigners()).slice(4);
+        const coordinator = await hre.ethers.deployContract("RandomnessCoordinatorMock");
+        const pool = await hre.ethers.deployContract("ArbitratorPool");
+        await pool.connect(owner).setRandomnessCoordinator(coordinator);
+        await pool.connect(arbitrator).depositStake({ value: await pool.MIN_ARBITRATOR_STAKE() });
+        await pool.connect(owner).addPoolArbitrator(arbitrator);
+        await pool.connect(owner).setEscrow(escrow, true);
+        await escrow.connect(owner).setArbitratorPool(pool);
+        const agreement = await EscrowAgentClient.create(escrow.connect(depositor),
+          { beneficiary: beneficiary.address, amount: VALUE, deadlineDate: deadline, policy: POLICY });
+        await agreement.connect(beneficiary).approve();
+        await time.increaseTo(deadline + 1);
+        await agreement.dispute();
+        await time.increase(POLICY.agreeOnArbitratorMaxPeriod);
+        await agreement.assignArbitrator();
+        await coordinator.fulfillRandomness(1, 0);
+        await expect(agreement.connect(beneficiary).resolveDispute()).to.be.rejectedWith(DeadlineError);
+        await time.increase(POLICY.resolveDisputeMaxPeriod);
+        const refund = VALUE * BigInt(POLICY.unresolvedDisputeRefundPercentage) / 1_000_000n;
+        await expect(escrow.connect(beneficiary)["resolveDispute(uint256)"](agreement.agreementId))
+          .to.emit(escrow, "DisputeUnresolved")
+          .withArgs(agreement.agreementId, POLICY.unresolvedDisputeRefundPercentage, refund);
+      });
+
+      it("Should NOT create an agreement with a policy out of the bounds", async () => {
+        const { escrow, depositor, beneficiary, deadline } = await loadFixture(deployFixture);
+        const policy = { ...POLICY, releaseFundsAfterDeadline: 0 };
+        expect(checkPolicy(policy)).to.deep.equal(["releaseFundsAfterDeadline"]);
+        await expect(EscrowAgentClient.create(escrow.connect(depositor),
+          { beneficiary: beneficiary.address, amount: VALUE, deadlineDate: deadline, policy }))
+          .to.be.rejectedWith(WrongPolicyError);
+        await expect(escrow.connect(depositor).createMilestoneAgreementWithPolicy(beneficiary, CID,
+          hre.ethers.ZeroAddress, [{ amount: VALUE, deadlineDate: deadline, detailsHash: CID }],
+          { ...POLICY, unresolvedDisputeRefundPercentage: 1_000_001 }, { value: VALUE }))
+          .to.revertedWithCustomError(escrow, "WrongPolicy");
+      });
+
+      it("Only owner should set the policy bounds", async () => {
+        const { escrow, extension, owner, depositor, beneficiary } = await loadFixture(deployFixture);
+        const minPolicy = { ...MIN_POLICY, releaseFundsAfterDeadline: DAY };
+        await expect(extension.connect(depositor).setPolicyBounds(POLICY, MIN_POLICY, MAX_POLICY))
+          .to.revertedWith("You are not the owner.");
+        // the default policy must be within the bounds
+        await expect(extension.connect(owner).setPolicyBounds(POLICY, minPolicy, MAX_POLICY))
+          .to.revertedWithCustomError(extension, "WrongPolicy");
+        // and the bounds within the bounds of any policy
+        await expect(extension.connect(owner).setPolicyBounds(POLICY, MIN_POLICY,
+          { ...MAX_POLICY, defaultArbitratorPercentage: 1_000_001 }))
+          .to.revertedWithCustomError(extension, "WrongPolicy");
+        const defaultPolicy = { ...POLICY, releaseFundsAfterDeadline: DAY };
+        await expect(extension.connect(owner).setPolicyBounds(defaultPolicy, minPolicy, MAX_POLICY))
+          .to.emit(extension, "PolicyBoundsSet");
+        await escrow.connect(depositor)["createAgreement(address,string)"](beneficiary, CID, { value: VALUE });
+        expect(decodePolicy(await escrow.getAgreementPolicy(1))).to.deep.equal(defaultPolicy);
+        const [, , , deadlineDate] = await escrow.connect(depositor).getAgreementDetails(1);
+        expect(Number(deadlineDate)).to.equal(await time.latest() + POLICY.defaultDeadlinePeriod);
+        await expect(escrow.connect(depositor)[CREATE_WITH_POLICY](
+          beneficiary, CID, deadlineDate, hre.ethers.ZeroAddress, 0, POLICY, { value: VALUE }))
+          .to.revertedWithCustomError(extension, "WrongPolicy");
+      });
+    });
+
+    describe("SimpleEscrowFactory", () => {
+
+      async function factoryFixture() {
+        const fixture = await loadFixture(deployFixture);
+        const maxPolicy = { ...MAX_POLICY, defaultArbitratorPercentage: 100_000 };
+        const factory = await hre.ethers.deployContract("SimpleEscrowFactory",
+          [hre.ethers.ZeroAddress, [], DEFAULT_POLICY, MIN_POLICY, maxPolicy]);
+        return { ...fixture, factory, maxPolicy };
+      }
+
+      it("Should create escrows with the default or a custom policy", async () => {
+        const { factory, depositor, beneficiary, deadline } = await loadFixture(factoryFixture);
+        const params = { beneficiary: beneficiary.address, amount: VALUE, deadlineDate: deadline };
+        const simple = await SimpleEscrowAgentClient.create(factory.connect(depositor), params);
+        expect(await simple.getPolicy()).to.deep.equal(DEFAULT_POLICY);
+        const custom = await SimpleEscrowAgentClient.create(factory.connect(depositor), { ...params, policy: POLICY });
+        expect(await custom.getPolicy()).to.deep.equal(POLICY);
+        await custom.connect(beneficiary).approve();
+        await time.increaseTo(deadline + HOUR);
+        await custom.connect(beneficiary).release();
+        expect(await custom.getStatus()).to.equal("Closed");
+      });
+
+      it("Should NOT create escrows with a policy out of the factory bounds", async () => {
+        const { factory, depositor, beneficiary, deadline, maxPolicy } = await loadFixture(factoryFixture);
+        const policy = { ...POLICY, defaultArbitratorPercentage: 200_000 };
+        expect(checkPolicy(policy)).to.be.empty;
+        expect(checkPolicy(policy, MIN_POLICY, maxPolicy)).to.deep.equal(["defaultArbitratorPercentage"]);
+        await expect(SimpleEscrowAgentClient.create(factory.connect(depositor),
+          { beneficiary: beneficiary.address, amount: VALUE, deadlineDate: deadline, policy }))
+          .to.be.rejectedWith(WrongPolicyError);
+        await expect(hre.ethers.deployContract("SimpleEscrowFactory",
+          [hre.ethers.ZeroAddress, [], policy, MIN_POLICY, maxPolicy]))
+          .to.revertedWithCustomError(factory, "WrongPolicy");
+      });
+
+      it("Should NOT deploy a standalone escrow with a policy out of the bounds", async () => {
+        const { depositor, beneficiary, deadline } = await loadFixture(deployFixture);
+        await expect(SimpleEscrowAgentClient.deploy(depositor, { beneficiary: beneficiary.address, amount: VALUE,
+          deadlineDate: deadline, policy: { ...POLICY, resolveDisputeMaxPeriod: 60 * DAY } })).to.be.rejected;
+      });
+    });
+  });
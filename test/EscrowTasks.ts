@@ -0,0 +1,154 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import { DEFAULT_POLICY, MAX_POLICY, MIN_POLICY } from "../sdk";
+
+
+  describe("Escrow tasks", function () {
+
+    const CID = "0xB45165ED3CD437B9FFAD02A2AAD22A4DDC69162470E2622982889CE5826F6E3D";
+
+    // runs a task and returns its printed output
+    async function runTask(name: string, args: Record<string, unknown>): Promise<string> {
+      const lines: string[] = [];
+      const log = console.log;
+      console.log = (...values: unknown[]) => lines.push(values.join(" "));
+      try {
+        await hre.run(`escrow:${name}`, args);
+      } finally {
+        console.log = log;
+      }
+      return lines.join("\n");
+    }
+
+    async function runJson(name: string, args: Record<string, unknown>) {
+      return JSON.parse(await runTask(name, { ...args, json: true }));
+    }
+
+    // balance change of the account without the gas of the printed transaction
+    async function balanceChange(account: string, run: () => Promise<{ transaction: string }>) {
+      const balance = await hre.ethers.provider.getBalance(account);
+      const receipt = await hre.ethers.provider.getTransactionReceipt((await run()).transaction);
+      return await hre.ethers.provider.getBalance(account) - balance + receipt!.gasUsed * receipt!.gasPrice;
+    }
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, arbitrator] = await hre.ethers.getSigners();
+      const agent = await hre.ethers.deployContract("EscrowAgent");
+      const pool = await hre.ethers.deployContract("ArbitratorPool");
+      await pool.setEscrow(agent, true);
+      await pool.setPoolManager(agent);
+      await agent.setArbitratorPool(pool);
+      const simpleFactory = await hre.ethers.deployContract("SimpleEscrowFactory",
+        [hre.ethers.ZeroAddress, [], DEFAULT_POLICY, MIN_POLICY, MAX_POLICY]);
+      const multisigFactory = await hre.ethers.deployContract("MultisigEscrowFactory", [hre.ethers.ZeroAddress]);
+      const deadline = (await time.latest()) + 7 * 24 * 3600;
+      return { agent, pool, simpleFactory, multisigFactory, owner, depositor, beneficiary, arbitrator, deadline };
+    }
+
+    it("Should run an EscrowAgent agreement through a dispute", async () => {
+      const { agent, depositor, beneficiary, arbitrator, deadline } = await loadFixture(deployFixture);
+      const contract = await agent.getAddress();
+      const created = await runJson("create", { contract, from: depositor.address,
+        beneficiary: beneficiary.address, amount: "1.5", deadline, details: CID });
+      expect(created).to.deep.include({ variant: "EscrowAgent", contract, agreementId: "1", status: "Funded" });
+
+      const agreement = { contract, id: "1" };
+      await runJson("add-funds", { ...agreement, from: depositor.address, amount: "0.5" });
+      expect((await runJson("approve", { ...agreement, from: beneficiary.address })).status).to.equal("Active");
+      await time.increaseTo(deadline + 1);
+      expect((await runJson("raise-dispute", { ...agreement, from: depositor.address })).status)
+        .to.equal("Disputed");
+      await runJson("register-arbitrator", { ...agreement, from: depositor.address,
+        arbitrator: arbitrator.address, fee: "2.5" });
+      await runJson("register-arbitrator", { ...agreement, from: beneficiary.address,
+        arbitrator: arbitrator.address, fee: "2.5" });
+      const resolved = await runJson("resolve", { ...agreement, from: arbitrator.address, refund: "50" });
+      expect(resolved.status).to.equal("Resolved");
+      expect(resolved.transaction).to.match(/^0x[0-9a-f]{64}$/);
+
+      const withdraw = () => runJson("withdraw", { ...agreement, from: arbitrator.address });
+      const fee = hre.ethers.parseEther("2") * 25_000n / 1_000_000n;
+      expect(await balanceChange(arbitrator.address, withdraw)).to.equal(fee);
+
+      const details = await runJson("details", { ...agreement, from: depositor.address });
+      expect(details).to.deep.include({ detailsHash: CID, status: "Resolved", deadlineDate: deadline });
+      expect(details.amount).to.equal(hre.ethers.parseEther("2").toString());
+    });
+
+    it("Should run factory escrows", async () => {
+      const { simpleFactory, multisigFactory, depositor, beneficiary } = await loadFixture(deployFixture);
+      for (const [variant, factory] of [["simple", simpleFactory], ["multisig", multisigFactory]] as const) {
+        const created = await runJson("create", { variant, contract: await factory.getAddress(),
+          from: depositor.address, beneficiary: beneficiary.address, amount: "1" });
+        const escrow = { variant, contract: created.contract };
+        await runJson("approve", { ...escrow, from: beneficiary.address });
+        await runJson("release", { ...escrow, from: depositor.address });
+        expect((await runJson("status", escrow)).status).to.equal("Closed");
+        const withdraw = () => runJson("withdraw", { ...escrow, from: beneficiary.address });
+        expect(await balanceChange(beneficiary.address, withdraw)).to.equal(hre.ethers.parseEther("1"));
+      }
+    });
+
+    it("Should create token agreements", async () => {
+      const { agent, depositor, beneficiary } = await loadFixture(deployFixture);
+      const token = await hre.ethers.deployContract("ERC20Mock");
+      await token.mint(depositor, hre.ethers.parseEther("10"));
+      const created = await runJson("create", { contract: await agent.getAddress(), from: depositor.address,
+        beneficiary: beneficiary.address, amount: "3", token: await token.getAddress() });
+      const details = await runJson("details", { contract: created.contract, id: created.agreementId,
+        from: beneficiary.address });
+      expect(details.token).to.equal(await token.getAddress());
+      expect(details.amount).to.equal(hre.ethers.parseEther("3").toString());
+    });
+
+    it("Should administer the arbitrators pool", async () => {
+      const { agent, pool, owner, arbitrator } = await loadFixture(deployFixture);
+      const contract = await agent.getAddress();
+      await expect(runTask("add-pool-arbitrator", { contract, arbitrator: arbitrator.address }))
+        .to.be.rejectedWith("below the minimal stake");
+      const staked = await runJson("stake", { contract, from: arbitrator.address, amount: "1.5" });
+      expect(staked.stake).to.equal(hre.ethers.parseEther("1.5").toString());
+      const delay = Number(await pool.POOL_CHANGE_DELAY());
+      const queued = await runJson("add-pool-arbitrator", { contract, arbitrator: arbitrator.address });
+      expect(queued).to.deep.include({ queued: "add", applyDate: await time.latest() + delay });
+      await expect(runTask("apply-pool-arbitrator", { contract, arbitrator: arbitrator.address }))
+        .to.be.rejectedWith("Too early to apply the pool change");
+      await time.increase(delay);
+      const applied = await runJson("apply-pool-arbitrator", { contract, arbitrator: arbitrator.address });
+      expect(applied).to.not.have.property("queued");
+      await expect(runTask("add-pool-arbitrator", { contract, arbitrator: arbitrator.address }))
+        .to.be.rejectedWith("PoolArbitratorError");
+      await runJson("remove-pool-arbitrator", { contract, arbitrator: arbitrator.address, from: owner.address });
+      await runJson("cancel-pool-arbitrator", { contract, arbitrator: arbitrator.address });
+      await expect(runTask("apply-pool-arbitrator", { contract, arbitrator: arbitrator.address }))
+        .to.be.rejectedWith("No pool change is queued.");
+      await runJson("remove-pool-arbitrator", { contract, arbitrator: arbitrator.address });
+      await time.increase(delay);
+      await runJson("apply-pool-arbitrator", { contract, arbitrator: arbitrator.address });
+      await expect(runTask("remove-pool-arbitrator", { contract, arbitrator: arbitrator.address }))
+        .to.be.rejectedWith("is not in the pool");
+      await runJson("unstake", { contract, from: arbitrator.address, amount: "0.5" });
+      const stats = await runTask("arbitrator", { contract, arbitrator: arbitrator.address });
+      expect(stats).to.match(/^stake\s+1\.0$/m);
+      expect(stats).to.match(/^reputation\s+100%$/m);
+    });
+
+    it("Should print readable output and errors", async () => {
+      const { agent, depositor, beneficiary } = await loadFixture(deployFixture);
+      const contract = await agent.getAddress();
+      await runTask("create", { contract, from: depositor.address, beneficiary: beneficiary.address, amount: "1" });
+      const output = await runTask("details", { contract, id: "1", from: depositor.address });
+      expect(output).to.match(/^variant\s+EscrowAgent$/m);
+      expect(output).to.match(/^amount\s+1\.0$/m);
+      expect(output).to.match(/^status\s+Funded$/m);
+      await expect(runTask("refund", { contract, id: "1", from: beneficiary.address }))
+        .to.be.rejectedWith("InvalidTransitionError");
+      await expect(runTask("approve", { contract, from: beneficiary.address })).to.be.rejectedWith("--id");
+      await expect(runTask("assign-arbitrator", { variant: "multisig", contract }))
+        .to.be.rejectedWith("resolved by a multisig");
+    });
+  });
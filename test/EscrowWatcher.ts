@@ -0,0 +1,209 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import { createServer, IncomingMessage, Server } from "http";
+  import { AddressInfo } from "net";
+  import hre from "hardhat";
+  import { AgreementIndexer, MemoryStore } from "../indexer";
+  import { DEFAULT_POLICY } from "../sdk";
+  import {
+    createWatcherServer, EscrowWatcher, MemoryChannel, MemoryWatcherStore, TelegramChannel, UnknownChannelError,
+    WebhookChannel,
+  } from "../watcher";
+
+
+  describe("EscrowWatcher", function () {
+
+    const CID = "0xB45165ED3CD437B9FFAD02A2AAD22A4DDC69162470E2622982889CE5826F6E3D";
+    const AMOUNT = hre.ethers.parseEther("1");
+    const DAY = 24 * 3600;
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, arbitrator] = await hre.ethers.getSigners();
+      const startBlock = await hre.ethers.provider.getBlockNumber() + 1;
+      const coordinator = await hre.ethers.deployContract("RandomnessCoordinatorMock");
+      const escrow = await hre.ethers.deployContract("EscrowAgent");
+      const pool = await hre.ethers.deployContract("ArbitratorPool");
+      await pool.connect(owner).setRandomnessCoordinator(coordinator);
+      await pool.connect(arbitrator).depositStake({ value: await pool.MIN_ARBITRATOR_STAKE() });
+      await pool.connect(owner).addPoolArbitrator(arbitrator);
+      await pool.connect(owner).setEscrow(escrow, true);
+      await escrow.connect(owner).setArbitratorPool(pool);
+      const deadlineDate = (await time.latest()) + 30 * DAY;
+      await escrow.connect(depositor)["createAgreement(address,string,uint32)"](
+        beneficiary, CID, deadlineDate, { value: AMOUNT });
+      const options = { escrowAgents: [await escrow.getAddress()], startBlock };
+      return { escrow, coordinator, owner, depositor, beneficiary, arbitrator, deadlineDate, options };
+    }
+
+    function listen(server: Server): Promise<string> {
+      return new Promise((resolve) => server.listen(0, "127.0.0.1",
+        () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)));
+    }
+
+    function close(server: Server): Promise<unknown> {
+      return new Promise((resolve) => server.close(resolve));
+    }
+
+    function readJson(request: IncomingMessage): Promise<Record<string, unknown>> {
+      return new Promise((resolve) => {
+        let body = "";
+        request.on("data", (chunk) => body += chunk);
+        request.on("end", () => resolve(JSON.parse(body)));
+      });
+    }
+
+    it("Should notify the subscribers of the new events only once", async () => {
+      const { escrow, depositor, beneficiary, options } = await loadFixture(deployFixture);
+      const indexerStore = new MemoryStore();
+      const indexer = await AgreementIndexer.open(hre.ethers.provider, indexerStore, options);
+      const store = new MemoryWatcherStore();
+      const channel = new MemoryChannel();
+      const watcher = await EscrowWatcher.open(indexer, store, [channel], { retryDelay: 0, maxAttempts: 2 });
+      // the agreement created before the watcher isn't notified
+      expect(await watcher.tick()).to.be.empty;
+      await watcher.subscribe({ address: depositor.address, channel: "memory", target: "depositor" });
+      await watcher.subscribe({ address: beneficiary.address, channel: "memory", target: "beneficiary",
+        kinds: ["DisputeRaised"] });
+      await expect(watcher.subscribe({ address: depositor.address, channel: "sms", target: "+1" }))
+        .to.be.rejectedWith(UnknownChannelError);
+      expect(watcher.getSubscriptions(depositor.address.toUpperCase())).to.have.lengthOf(1);
+
+      await escrow.connect(depositor).addFunds(1, { value: AMOUNT });
+      const delivered = await watcher.tick();
+      expect(delivered).to.have.lengthOf(1);
+      expect(delivered[0].kind).to.equal("FundsAdded");
+      expect(delivered[0].recipient).to.equal(depositor.address.toLowerCase());
+      expect(delivered[0].agreementId).to.equal(1);
+      expect(channel.sentTo("depositor")[0].text).to.contain("The depositor added funds");
+      // the beneficiary follows the disputes only
+      expect(channel.sentTo("beneficiary")).to.be.empty;
+
+      // a failed delivery is retried, then given up
+      channel.failures = 3;
+      await escrow.connect(beneficiary).approveAgreement(1);
+      expect(await watcher.tick()).to.be.empty;
+      expect(watcher.getDeliveries().outbox).to.have.lengthOf(1);
+      expect(watcher.getDeliveries().outbox[0].lastError).to.exist;
+      expect(await watcher.tick()).to.be.empty;
+      expect(watcher.getDeliveries().outbox).to.be.empty;
+      expect(watcher.getDeliveries().failed).to.have.lengthOf(1);
+
+      // a reopened watcher keeps the subscriptions and doesn't repeat the deliveries
+      channel.failures = 0;
+      const reopened = await EscrowWatcher.open(
+        await AgreementIndexer.open(hre.ethers.provider, indexerStore, options), store, [channel]);
+      expect(await reopened.tick()).to.be.empty;
+      expect(reopened.getSubscriptions()).to.have.lengthOf(2);
+      expect(channel.sent).to.have.lengthOf(1);
+      await reopened.unsubscribe({ address: depositor.address, channel: "memory", target: "depositor" });
+      expect(reopened.getSubscriptions(depositor.address)).to.be.empty;
+    });
+
+    it("Should fire the deadline timers by the chain time", async () => {
+      const { escrow, coordinator, depositor, beneficiary, arbitrator, deadlineDate, options } =
+        await loadFixture(deployFixture);
+      const indexer = await AgreementIndexer.open(hre.ethers.provider, new MemoryStore(), options);
+      const channel = new MemoryChannel();
+      const watcher = await EscrowWatcher.open(indexer, new MemoryWatcherStore(), [channel]);
+      for (const [signer, target] of [[depositor, "depositor"], [beneficiary, "beneficiary"],
+          [arbitrator, "arbitrator"]] as const) {
+        await watcher.subscribe({ address: signer.address, channel: "memory", target,
+          kinds: ["ClaimAvailableSoon", "ArbitratorAgreementClosed", "ResolutionExpired"] });
+      }
+      await escrow.connect(beneficiary).approveAgreement(1);
+      expect(await watcher.tick()).to.be.empty;
+
+      // the beneficiary is reminded a day before they can claim the funds
+      await time.increaseTo(deadlineDate + DEFAULT_POLICY.releaseFundsAfterDeadline - DAY - 1);
+      expect(await watcher.tick()).to.be.empty;
+      await time.increase(1);
+      const claim = await watcher.tick();
+      expect(claim.map((notification) => notification.kind)).to.deep.equal(["ClaimAvailableSoon"]);
+      expect(claim[0].recipient).to.equal(beneficiary.address.toLowerCase());
+      expect(claim[0].dueDate).to.equal(deadlineDate + DEFAULT_POLICY.releaseFundsAfterDeadline - DAY);
+      expect(await watcher.tick()).to.be.empty;
+
+      // the parties are told when they can request a pool arbitrator
+      await escrow.connect(depositor).raiseDispute(1);
+      expect(await watcher.tick()).to.be.empty;
+      await time.increase(DEFAULT_POLICY.agreeOnArbitratorMaxPeriod);
+      const closed = await watcher.tick();
+      expect(closed.map((notification) => notification.recipient)).to.have.members(
+        [depositor.address.toLowerCase(), beneficiary.address.toLowerCase()]);
+      expect(closed.every((notification) => notification.kind === "ArbitratorAgreementClosed")).to.be.true;
+      expect(await watcher.tick()).to.be.empty;
+
+      // and when the pool arbitrator runs out of time
+      await escrow.connect(depositor).assignArbitrator(1);
+      await coordinator.fulfillRandomness(1, 0);
+      expect(await watcher.tick()).to.be.empty;
+      await time.increase(DEFAULT_POLICY.resolveDisputeMaxPeriod);
+      const expired = await watcher.tick();
+      expect(expired.map((notification) => notification.kind)).to.deep.equal(
+        ["ResolutionExpired", "ResolutionExpired", "ResolutionExpired"]);
+      expect(channel.sentTo("arbitrator")).to.have.lengthOf(1);
+      expect(await watcher.tick()).to.be.empty;
+
+      // the timers of a resolved agreement are gone
+      await escrow.connect(arbitrator)["resolveDispute(uint256,uint32)"](1, 500_000);
+      await time.increase(30 * DAY);
+      expect(await watcher.tick()).to.be.empty;
+    });
+
+    it("Should deliver with webhooks, Telegram and manage the subscriptions over HTTP", async () => {
+      const { escrow, depositor, beneficiary, options } = await loadFixture(deployFixture);
+      const requests: { url?: string; body: Record<string, unknown> }[] = [];
+      let failures = 1;
+      const mock = createServer(async (request, response) => {
+        requests.push({ url: request.url, body: await readJson(request) });
+        const failed = failures-- > 0;
+        response.writeHead(failed ? 500 : 200, { "Content-Type": "application/json" });
+        response.end(JSON.stringify(request.url?.startsWith("/bot") ? { ok: !failed } : {}));
+      });
+      const mockUrl = await listen(mock);
+      const indexer = await AgreementIndexer.open(hre.ethers.provider, new MemoryStore(), options);
+      const watcher = await EscrowWatcher.open(indexer, new MemoryWatcherStore(),
+        [new WebhookChannel(), new TelegramChannel("TOKEN", mockUrl)], { retryDelay: 0 });
+      const server = createWatcherServer(watcher);
+      const url = await listen(server);
+      try {
+        const post = (body: unknown) => fetch(`${url}/subscriptions`,
+          { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+        let response = await post({ address: depositor.address, channel: "webhook", target: `${mockUrl}/hook` });
+        expect(response.status).to.equal(200);
+        response = await post({ address: beneficiary.address, channel: "telegram", target: "42" });
+        expect((await response.json()).subscriptions).to.have.lengthOf(1);
+        expect((await post({ address: "0x1", channel: "webhook", target: "x" })).status).to.equal(400);
+        response = await post({ address: depositor.address, channel: "sms", target: "+1" });
+        expect(response.status).to.equal(422);
+        expect((await response.json()).error).to.equal("UnknownChannelError");
+        response = await fetch(`${url}/subscriptions/${depositor.address}`);
+        expect((await response.json()).subscriptions[0].channel).to.equal("webhook");
+
+        await escrow.connect(beneficiary).approveAgreement(1);
+        // the first request fails and is retried by the next tick
+        expect(await watcher.tick()).to.have.lengthOf(1);
+        expect(await watcher.tick()).to.have.lengthOf(1);
+        const health = await (await fetch(`${url}/health`)).json();
+        expect(health).to.deep.equal({ block: await hre.ethers.provider.getBlockNumber(), outbox: 0, failed: 0 });
+
+        const hook = requests.filter((request) => request.url === "/hook").at(-1)!;
+        expect(hook.body.kind).to.equal("AgreementApproved");
+        expect(hook.body.recipient).to.equal(depositor.address.toLowerCase());
+        const message = requests.filter((request) => request.url === "/botTOKEN/sendMessage").at(-1)!;
+        expect(message.body.chat_id).to.equal("42");
+        expect(message.body.text).to.contain("The beneficiary approved the agreement");
+        expect(requests).to.have.lengthOf(3);
+
+        response = await fetch(`${url}/subscriptions`, { method: "DELETE",
+          body: JSON.stringify({ address: beneficiary.address, channel: "telegram", target: "42" }) });
+        expect((await response.json()).subscriptions).to.be.empty;
+      } finally {
+        await close(server);
+        await close(mock);
+      }
+    });
+  });
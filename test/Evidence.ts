@@ -0,0 +1,83 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import { EscrowAgentClient, InvalidTransitionError, SimpleEscrowAgentClient } from "../sdk";
+
+
+  describe("Evidence", function () {
+
+    const AMOUNT = hre.ethers.parseEther("1");
+    const DAY = 24 * 3600;
+    const EVIDENCE = "bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi";
+    const COUNTER_EVIDENCE = "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku";
+    const RATIONALE = "bafkreiem4twkqzsq2aj4shbycd4yvoj2cx72vezicletlhi7dijjciqpui";
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, arbitrator, someone] = await hre.ethers.getSigners();
+      const agent = await hre.ethers.deployContract("EscrowAgent");
+      const deadlineDate = (await time.latest()) + 30 * DAY;
+      const params = { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate };
+      return { agent, params, owner, depositor, beneficiary, arbitrator, someone, deadlineDate };
+    }
+
+    it("Should log the evidence of the dispute and the reasoned ruling", async () => {
+      const { agent, params, depositor, beneficiary, arbitrator, someone, deadlineDate } =
+        await loadFixture(deployFixture);
+      const client = await EscrowAgentClient.create(agent.connect(depositor), params);
+      const { agreementId } = client;
+      await client.connect(beneficiary).approve();
+      await expect(client.submitEvidence(EVIDENCE)).to.be.rejectedWith(InvalidTransitionError);
+      await time.increaseTo(deadlineDate + 1);
+      await client.dispute();
+
+      await expect(client.submitEvidence(EVIDENCE)).to.emit(agent, "EvidenceSubmitted")
+        .withArgs(agreementId, depositor.address, 0, EVIDENCE);
+      const submittedDate = await time.latest();
+      await client.connect(beneficiary).submitEvidence(COUNTER_EVIDENCE);
+      await expect(agent.connect(someone).submitEvidence(agreementId, EVIDENCE))
+        .to.be.revertedWith("You are not the depositor/beneficiary.");
+      const evidence = await client.getEvidence();
+      expect(evidence).to.have.length(2);
+      expect(evidence[0]).to.deep.equal({ submitter: depositor.address, submittedDate, evidenceHash: EVIDENCE });
+      expect(evidence[1].submitter).to.equal(beneficiary.address);
+      expect(await agent.getEvidenceCount(agreementId)).to.equal(2n);
+
+      await client.registerArbitrator(arbitrator.address, 100000);
+      await client.connect(beneficiary).registerArbitrator(arbitrator.address, 100000);
+      expect(await client.getRuling()).to.be.undefined;
+      await expect(client.connect(arbitrator).resolveDispute(500000, RATIONALE))
+        .to.emit(agent, "RulingSubmitted").withArgs(agreementId, arbitrator.address, RATIONALE)
+        .and.to.emit(agent, "DisputeResolved");
+      expect(await client.getStatus()).to.equal("Resolved");
+      expect(await client.getRuling()).to.equal(RATIONALE);
+      // the log is closed with the dispute
+      await expect(agent.connect(depositor).submitEvidence(agreementId, EVIDENCE))
+        .to.be.revertedWith("The agreement is in a wrong status.");
+    });
+
+    it("Should log the evidence of a single agreement escrow", async () => {
+      const { params, depositor, beneficiary, arbitrator, deadlineDate } = await loadFixture(deployFixture);
+      const client = await SimpleEscrowAgentClient.deploy(depositor, params);
+      const escrow = client.contract;
+      await client.connect(beneficiary).approve();
+      await time.increaseTo(deadlineDate + 1);
+      await client.dispute();
+      await expect(client.connect(beneficiary).submitEvidence(EVIDENCE)).to.emit(escrow, "EvidenceSubmitted")
+        .withArgs(beneficiary.address, 0, EVIDENCE);
+      expect((await client.getEvidence()).map((evidence) => evidence.evidenceHash)).to.deep.equal([EVIDENCE]);
+      await expect(escrow.connect(arbitrator).submitEvidence(EVIDENCE))
+        .to.be.revertedWith("You are not the depositor/beneficiary.");
+
+      await client.registerArbitrator(arbitrator.address, 0);
+      await client.connect(beneficiary).registerArbitrator(arbitrator.address, 0);
+      await expect(escrow.connect(depositor)["resolveDispute(uint32,string)"](0, RATIONALE))
+        .to.be.revertedWith("You are not the arbitrator.");
+      await expect(client.connect(arbitrator).resolveDispute(1_000_000, RATIONALE))
+        .to.emit(escrow, "RulingSubmitted").withArgs(arbitrator.address, RATIONALE);
+      expect(await client.getRuling()).to.equal(RATIONALE);
+      await expect(escrow.connect(depositor).withdrawFunds()).to.changeEtherBalance(depositor, AMOUNT);
+    });
+  });
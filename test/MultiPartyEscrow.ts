@@ -0,0 +1,217 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+  import { DEFAULT_POLICY, decodeStatus } from "../sdk";
+  import { MultiPartyEscrowFactory } from "../typechain-types";
+  import { MultiPartyEscrowAgent } from "../typechain-types/contracts/MultiPartyEscrowAgent";
+  import MultiPartyEscrowFactoryModule from "../ignition/modules/MultiPartyEscrowFactory";
+
+
+  describe("MultiPartyEscrow", function () {
+
+    const CID = "cid";
+    const DAY = 24 * 3600;
+    const ETH = (value: string) => hre.ethers.parseEther(value);
+    const APPROVE = 0;
+    const REFUND = 1;
+    const RELEASE = 2;
+
+    async function deployFixture() {
+      const [owner, depositor1, depositor2, beneficiary1, beneficiary2, beneficiary3, arbitrator] =
+        await hre.ethers.getSigners();
+      const { escrow: factory } = await hre.ignition.deploy(MultiPartyEscrowFactoryModule);
+      const deadlineDate = (await time.latest()) + 30 * DAY;
+      const terms: MultiPartyEscrowAgent.TermsStruct = {
+        depositors: [
+          { account: depositor1.address, contribution: ETH("3") },
+          { account: depositor2.address, contribution: ETH("1") },
+        ],
+        beneficiaries: [
+          { account: beneficiary1.address, share: 6_000 },
+          { account: beneficiary2.address, share: 3_000 },
+          { account: beneficiary3.address, share: 1_000 },
+        ],
+        beneficiaryThreshold: 0,
+        depositorThreshold: 0,
+        deadlineDate,
+        arbitrator: arbitrator.address,
+        feePercentage: 20_000,
+        detailsHash: CID,
+      };
+      return { factory: factory as unknown as MultiPartyEscrowFactory, terms, owner, depositor1, depositor2,
+        beneficiary1, beneficiary2, beneficiary3, arbitrator, deadlineDate };
+    }
+
+    async function createEscrow(factory: MultiPartyEscrowFactory, creator: HardhatEthersSigner,
+        terms: MultiPartyEscrowAgent.TermsStruct, value = 0n) {
+      const address = await factory.predictEscrowAddress(creator);
+      await expect(factory.connect(creator).createEscrow(terms, { value }))
+        .to.emit(factory, "EscrowCreated").withArgs(address, creator.address);
+      return hre.ethers.getContractAt("MultiPartyEscrowAgent", address);
+    }
+
+    // the depositors fund their contributions and all the beneficiaries approve
+    async function activeFixture() {
+      const fixture = await loadFixture(deployFixture);
+      const { factory, terms, depositor1, depositor2, beneficiary1, beneficiary2, beneficiary3 } = fixture;
+      const escrow = await createEscrow(factory, depositor1, terms, ETH("3"));
+      await escrow.connect(depositor2).deposit({ value: ETH("1") });
+      for (const beneficiary of [beneficiary1, beneficiary2, beneficiary3]) {
+        await escrow.connect(beneficiary).approveAgreement();
+      }
+      return { ...fixture, escrow };
+    }
+
+    // the multi-party escrows share IEscrowAgent.Status
+    async function status(escrow: MultiPartyEscrowAgent) {
+      return decodeStatus("SimpleEscrowAgent", await escrow.getAgreementStatus());
+    }
+
+    it("Should fund the contributions and release the funds by the shares", async () => {
+      const { factory, terms, depositor1, depositor2, beneficiary1, beneficiary2, beneficiary3 } =
+        await loadFixture(deployFixture);
+      const escrow = await createEscrow(factory, depositor1, terms, ETH("2"));
+      await expect(escrow.connect(beneficiary1).approveAgreement()).to.revertedWith(
+        "The agreement is not fully funded.");
+      await expect(escrow.connect(depositor2).deposit({ value: ETH("2") })).to.revertedWith(
+        "Deposit exceeds the contribution");
+      await expect(escrow.connect(depositor1).deposit({ value: ETH("1") })).to.emit(escrow, "FundsAdded")
+        .withArgs(depositor1.address, ETH("1"), ETH("3"));
+      await escrow.connect(depositor2).deposit({ value: ETH("1") });
+      expect(await escrow.getDeposit(depositor1)).to.equal(ETH("3"));
+      expect((await escrow.getAgreementDetails()).fundedAmount).to.equal(ETH("4"));
+
+      // unanimous approval of the beneficiaries
+      await escrow.connect(beneficiary1).approveAgreement();
+      await expect(escrow.connect(beneficiary1).approveAgreement()).to.revertedWith("You have already voted.");
+      await escrow.connect(beneficiary2).approveAgreement();
+      expect(await status(escrow)).to.equal("Funded");
+      await expect(escrow.connect(beneficiary3).approveAgreement()).to.emit(escrow, "AgreementApproved");
+      expect(await status(escrow)).to.equal("Active");
+      expect(await escrow.getVotes(APPROVE)).to.equal(3);
+
+      await expect(escrow.connect(depositor1).releaseFunds()).to.emit(escrow, "ActionVoted")
+        .withArgs(depositor1.address, RELEASE, 1).and.not.to.emit(escrow, "FundsReleased");
+      await expect(escrow.connect(depositor2).releaseFunds()).to.emit(escrow, "FundsReleased");
+      expect(await status(escrow)).to.equal("Closed");
+      await expect(escrow.connect(beneficiary1).withdrawFunds()).to.changeEtherBalances(
+        [beneficiary1, escrow], [ETH("2.4"), -ETH("2.4")]);
+      await expect(escrow.connect(beneficiary2).withdrawFunds()).to.changeEtherBalance(beneficiary2, ETH("1.2"));
+      expect(await escrow.connect(beneficiary3).getWithdrawBalance()).to.equal(ETH("0.4"));
+      await escrow.connect(beneficiary3).withdrawFunds();
+      await expect(escrow.connect(beneficiary3).withdrawFunds()).to.revertedWithCustomError(
+        escrow, "WithdrawProhibited");
+      await expect(escrow.connect(depositor1).getWithdrawBalance()).to.revertedWithCustomError(escrow, "NoBalance");
+    });
+
+    it("Should refund by the threshold and return the partial deposits on cancel", async () => {
+      const { factory, terms, depositor1, depositor2, beneficiary1, beneficiary2, beneficiary3 } =
+        await loadFixture(deployFixture);
+      const escrow = await createEscrow(factory, depositor1, { ...terms, beneficiaryThreshold: 2 }, ETH("3"));
+      expect(await escrow.getThresholds()).to.deep.equal([2n, 2n]);
+      await escrow.connect(depositor2).deposit({ value: ETH("1") });
+      await escrow.connect(beneficiary1).approveAgreement();
+      await escrow.connect(beneficiary3).approveAgreement();
+      expect(await status(escrow)).to.equal("Active");
+      await expect(escrow.connect(beneficiary2).approveAgreement()).to.revertedWith(
+        "The agreement is in a wrong status.");
+      await escrow.connect(beneficiary1).refundAgreement();
+      expect(await escrow.hasVoted(REFUND, beneficiary1)).to.be.true;
+      await expect(escrow.connect(beneficiary2).refundAgreement()).to.emit(escrow, "AgreementRefunded");
+      await expect(escrow.connect(depositor1).withdrawFunds()).to.changeEtherBalance(depositor1, ETH("3"));
+      await expect(escrow.connect(depositor2).withdrawFunds()).to.changeEtherBalance(depositor2, ETH("1"));
+
+      // a depositor backs out before the other one funds its contribution
+      const canceled = await createEscrow(factory, depositor1, terms, ETH("1"));
+      await expect(canceled.connect(depositor2).cancelAgreement()).to.emit(canceled, "AgreementCanceled")
+        .withArgs(depositor2.address);
+      await expect(canceled.connect(depositor1).withdrawFunds()).to.changeEtherBalance(depositor1, ETH("1"));
+      await expect(canceled.connect(depositor2).withdrawFunds()).to.revertedWithCustomError(
+        canceled, "WithdrawProhibited");
+    });
+
+    it("Should split a resolved dispute pro rata with the arbitrator fee", async () => {
+      const { escrow, depositor1, depositor2, beneficiary1, beneficiary2, beneficiary3, arbitrator, deadlineDate } =
+        await loadFixture(activeFixture);
+      await expect(escrow.connect(depositor1).raiseDispute()).to.revertedWith(
+        "You cannot raise dispute before the deadline");
+      await time.increaseTo(deadlineDate + 1);
+      await escrow.connect(depositor2).raiseDispute();
+      await expect(escrow.connect(beneficiary1)["resolveDispute(uint32)"](250_000)).to.revertedWith(
+        "You are not the arbitrator.");
+      // 2% fee of 4 eth, a quarter of the rest refunded
+      await expect(escrow.connect(arbitrator)["resolveDispute(uint32)"](250_000)).to.emit(escrow, "DisputeResolved")
+        .withArgs(250_000, ETH("0.08"), ETH("0.98"), ETH("2.94"));
+      await expect(escrow.connect(arbitrator).withdrawFunds()).to.changeEtherBalance(arbitrator, ETH("0.08"));
+      await expect(escrow.connect(depositor1).withdrawFunds()).to.changeEtherBalance(depositor1, ETH("0.735"));
+      await expect(escrow.connect(depositor2).withdrawFunds()).to.changeEtherBalance(depositor2, ETH("0.245"));
+      await expect(escrow.connect(beneficiary1).withdrawFunds()).to.changeEtherBalance(beneficiary1, ETH("1.764"));
+      await expect(escrow.connect(beneficiary2).withdrawFunds()).to.changeEtherBalance(beneficiary2, ETH("0.882"));
+      await expect(escrow.connect(beneficiary3).withdrawFunds()).to.changeEtherBalance(beneficiary3, ETH("0.294"));
+      expect(await hre.ethers.provider.getBalance(escrow)).to.equal(0);
+    });
+
+    it("Should take the protocol fee from the released funds unless the dispute is unresolved", async () => {
+      const { factory, terms, owner, depositor1, depositor2, beneficiary1, beneficiary2, beneficiary3 } =
+        await loadFixture(deployFixture);
+      await factory.connect(owner).scheduleDefaultFee(100);
+      await time.increase(await factory.FEE_CHANGE_DELAY());
+      const deadlineDate = (await time.latest()) + DAY;
+      const fund = async () => {
+        const escrow = await createEscrow(factory, depositor1, { ...terms, deadlineDate,
+          arbitrator: hre.ethers.ZeroAddress }, ETH("3"));
+        await escrow.connect(depositor2).deposit({ value: ETH("1") });
+        for (const beneficiary of [beneficiary1, beneficiary2, beneficiary3]) {
+          await escrow.connect(beneficiary).approveAgreement();
+        }
+        return escrow;
+      };
+      const released = await fund();
+      const disputed = await fund();
+      expect(await released.getProtocolFee()).to.deep.equal([await factory.getAddress(), 100n]);
+
+      await time.increaseTo(deadlineDate + DEFAULT_POLICY.releaseFundsAfterDeadline);
+      await expect(released.connect(beneficiary3).releaseFunds()).to.emit(released, "FundsReleased");
+      const withdrawal = released.connect(beneficiary1).withdrawFunds();
+      await expect(withdrawal).to.emit(released, "ProtocolFeePaid").withArgs(await factory.getAddress(), ETH("0.024"));
+      await expect(withdrawal).to.changeEtherBalances([beneficiary1, factory], [ETH("2.376"), ETH("0.024")]);
+
+      await disputed.connect(depositor1).raiseDispute();
+      await expect(disputed.connect(beneficiary1)["resolveDispute()"]()).to.revertedWith(
+        "You can resolve dispute yourself in 2 days after the dispute");
+      await time.increase(DEFAULT_POLICY.resolveDisputeMaxPeriod);
+      await expect(disputed.connect(beneficiary1)["resolveDispute()"]()).to.emit(disputed, "DisputeUnresolved")
+        .withArgs(DEFAULT_POLICY.unresolvedDisputeRefundPercentage, ETH("2"));
+      await expect(disputed.connect(beneficiary1).withdrawFunds()).to.changeEtherBalance(beneficiary1, ETH("1.2"));
+      await expect(disputed.connect(depositor2).withdrawFunds()).to.changeEtherBalance(depositor2, ETH("0.5"));
+    });
+
+    it("Should NOT accept wrong terms", async () => {
+      const { factory, terms, depositor1, depositor2, beneficiary1, arbitrator } = await loadFixture(deployFixture);
+      const [first, second, third] = terms.beneficiaries;
+      await expect(factory.connect(depositor1).createEscrow({ ...terms, beneficiaries: [first, second] }))
+        .to.revertedWith("Shares should sum up to 10000");
+      await expect(factory.connect(depositor1).createEscrow({ ...terms,
+        beneficiaries: [first, second, { ...third, account: depositor2.address }] }))
+        .to.revertedWith("Duplicate participant");
+      await expect(factory.connect(depositor1).createEscrow({ ...terms, depositorThreshold: 3 }))
+        .to.revertedWith("Threshold exceeds the participants");
+      await expect(factory.connect(depositor1).createEscrow({ ...terms, arbitrator: beneficiary1.address }))
+        .to.revertedWith("The arbitrator is a participant");
+      await expect(factory.connect(depositor1).createEscrow({ ...terms, depositors: [] }))
+        .to.revertedWith("Wrong number of participants");
+      await expect(factory.connect(arbitrator).createEscrow(terms, { value: 1 }))
+        .to.revertedWith("Deposit exceeds the contribution");
+      await expect(factory.connect(depositor1).createEscrowWithPolicy(terms,
+        { ...DEFAULT_POLICY, resolveDisputeMaxPeriod: 0 })).to.revertedWithCustomError(factory, "WrongPolicy");
+
+      const implementation = await hre.ethers.getContractAt("MultiPartyEscrowAgent",
+        await factory.getImplementation());
+      await expect(implementation.initialize(depositor1, terms, DEFAULT_POLICY))
+        .to.revertedWith("You are not the factory.");
+    });
+  });
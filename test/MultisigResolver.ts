@@ -0,0 +1,161 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import {
+    AccessDeniedError,
+    DeadlineError,
+    MultisigEscrowClient,
+    MultisigResolverClient,
+    ResolverPanel,
+    WrongStatusError,
+  } from "../sdk";
+
+
+  describe("MultisigResolver", function () {
+
+    const AMOUNT = hre.ethers.parseEther("10");
+    const DAY = 24 * 3600;
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, signer1, signer2, signer3, someone] = await hre.ethers.getSigners();
+      const factory = await hre.ethers.deployContract("MultisigEscrowFactory", [hre.ethers.ZeroAddress]);
+      const token = await hre.ethers.deployContract("ERC20Mock");
+      await token.mint(depositor, AMOUNT);
+      const deadlineDate = (await time.latest()) + 30 * DAY;
+      const params = { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate };
+      const panel: ResolverPanel = {
+        signers: [signer1.address, signer2.address, signer3.address],
+        threshold: 2,
+        resolutionPeriod: 5 * DAY,
+        fallbackRefundPercentage: 300_000,
+      };
+      return { factory, token, params, panel, owner, depositor, beneficiary, signer1, signer2, signer3, someone,
+        deadlineDate };
+    }
+
+    // the beneficiary approves the agreement with the panel and the depositor locks it after the deadline
+    async function lockedFixture() {
+      const fixture = await loadFixture(deployFixture);
+      const { factory, params, panel, depositor, beneficiary, deadlineDate } = fixture;
+      const { escrow, resolver } = await MultisigResolverClient.createWithEscrow(factory.connect(depositor),
+        params, panel);
+      await escrow.connect(beneficiary).approve();
+      await time.increaseTo(deadlineDate);
+      await escrow.dispute();
+      return { ...fixture, escrow, resolver };
+    }
+
+    it("Should create the escrow with the panel as its approved multisig", async () => {
+      const { factory, params, panel, depositor } = await loadFixture(deployFixture);
+      const { escrow, resolver } = await MultisigResolverClient.createWithEscrow(factory.connect(depositor),
+        params, panel);
+      const details = await escrow.getDetails();
+      expect(details.multisig).to.equal(await resolver.getAddress());
+      expect(details.approved).to.be.true;
+      expect(details.amount).to.equal(AMOUNT);
+      expect(await resolver.contract.getEscrow()).to.equal(await escrow.getAddress());
+      expect(await resolver.getPanel()).to.deep.equal(panel);
+      expect(await resolver.getResolution()).to.deep.equal({ resolved: false });
+      // the resolution starts once the escrow is locked
+      await expect(resolver.startResolution()).to.be.rejectedWith(WrongStatusError);
+    });
+
+    it("Should compensate the agreement once M of N signers submit the same amount", async () => {
+      const { escrow, resolver, depositor, beneficiary, signer1, signer2, signer3, someone } =
+        await loadFixture(lockedFixture);
+      const compensation = AMOUNT / 4n;
+      await expect(resolver.connect(someone).submitCompensation(compensation)).to.be.rejectedWith(AccessDeniedError);
+
+      const start = await time.latest() + 1;
+      await expect(resolver.contract.connect(signer1).submitCompensation(compensation))
+        .to.emit(resolver.contract, "ResolutionStarted").withArgs(start + 5 * DAY)
+        .and.to.emit(resolver.contract, "CompensationSubmitted").withArgs(signer1.address, compensation, 1);
+      expect(await resolver.getResolution()).to.deep.equal(
+        { startDate: start, deadlineDate: start + 5 * DAY, resolved: false });
+      await resolver.connect(signer2).submitCompensation(compensation * 2n);
+      expect(await resolver.getApprovals(compensation)).to.equal(1);
+
+      // the signer changes the submission and the threshold is met
+      await expect(resolver.contract.connect(signer2).submitCompensation(compensation))
+        .to.changeEtherBalances([depositor, escrow.contract], [compensation, -compensation]);
+      expect(await resolver.getResolution()).to.include({ resolved: true });
+      expect(await escrow.getStatus()).to.equal("Closed");
+      await expect(resolver.connect(signer3).submitCompensation(compensation))
+        .to.be.rejectedWith("already resolved");
+      await expect(escrow.contract.connect(beneficiary).withdrawFunds())
+        .to.changeEtherBalance(beneficiary, AMOUNT - compensation);
+    });
+
+    it("Should split the tokens by the fallback refund percentage after the panel stalls", async () => {
+      const { factory, token, params, panel, depositor, beneficiary, signer1, someone, deadlineDate } =
+        await loadFixture(deployFixture);
+      const { escrow, resolver } = await MultisigResolverClient.createWithEscrow(factory.connect(depositor),
+        { ...params, token: await token.getAddress() }, panel);
+      await escrow.connect(beneficiary).approve();
+      await time.increaseTo(deadlineDate);
+      await escrow.dispute();
+
+      await expect(resolver.connect(someone).resolveStalled()).to.be.rejectedWith(DeadlineError);
+      await resolver.connect(someone).startResolution();
+      await expect(resolver.connect(someone).startResolution()).to.be.rejectedWith("already started");
+      await resolver.connect(signer1).submitCompensation(AMOUNT);
+      const { deadlineDate: resolutionDeadline } = await resolver.getResolution();
+      await time.setNextBlockTimestamp(resolutionDeadline! - 1);
+      await expect(resolver.connect(someone).resolveStalled()).to.be.rejectedWith(DeadlineError);
+      await expect(resolver.connect(signer1).submitCompensation(AMOUNT)).to.be.rejectedWith(DeadlineError);
+
+      const refund = AMOUNT * 300_000n / 1_000_000n;
+      const resolved = resolver.contract.connect(someone).resolveStalled();
+      await expect(resolved).to.emit(resolver.contract, "FallbackResolved").withArgs(refund);
+      await expect(resolved).to.changeTokenBalances(token, [depositor, escrow.contract], [refund, -refund]);
+      await expect(escrow.contract.connect(beneficiary).withdrawFunds())
+        .to.changeTokenBalance(token, beneficiary, AMOUNT - refund);
+    });
+
+    it("Should resolve an existing escrow once the depositor approves the panel", async () => {
+      const { factory, params, panel, depositor, beneficiary, signer1, signer2, someone, deadlineDate } =
+        await loadFixture(deployFixture);
+      const escrow = await MultisigEscrowClient.create(factory.connect(depositor), params);
+      await escrow.connect(beneficiary).approve();
+      await time.increaseTo(deadlineDate);
+      await escrow.dispute();
+      await expect(MultisigResolverClient.create(factory, someone.address, panel)).to.be.rejectedWith("only escrow");
+      const resolver = await MultisigResolverClient.create(factory.connect(beneficiary), await escrow.getAddress(),
+        { ...panel, threshold: 1 });
+      expect(await escrow.contract.isMultisigPreset()).to.be.false;
+      await escrow.contract.connect(beneficiary).setMultisig(resolver.getAddress());
+
+      // the compensation of a panel the depositor didn't approve is reverted by the escrow
+      await expect(resolver.connect(signer1).submitCompensation(0n)).to.be.rejectedWith(AccessDeniedError);
+      await escrow.contract.connect(depositor).approveMultisig();
+      await expect(resolver.contract.connect(signer2).submitCompensation(0n))
+        .to.emit(escrow.contract, "FundsCompensated").withArgs(0);
+      expect(await escrow.getStatus()).to.equal("Closed");
+    });
+
+    it("Should NOT let the beneficiary replace the preset panel", async () => {
+      const { escrow, resolver, beneficiary, signer1, signer2, someone } = await loadFixture(lockedFixture);
+      expect(await escrow.contract.isMultisigPreset()).to.be.true;
+      await expect(escrow.contract.connect(beneficiary).setMultisig(someone)).to.revertedWith("multisig preset");
+      expect(await escrow.getDetails()).to.deep.include({ multisig: await resolver.getAddress(), approved: true });
+      await resolver.connect(signer1).submitCompensation(0n);
+      await expect(resolver.connect(signer2).submitCompensation(0n)).to.emit(escrow.contract, "FundsCompensated");
+    });
+
+    it("Should NOT create a panel with a wrong threshold or signers", async () => {
+      const { factory, params, panel, depositor, signer1 } = await loadFixture(deployFixture);
+      const create = (wrong: Partial<ResolverPanel>) => MultisigResolverClient.createWithEscrow(
+        factory.connect(depositor), params, { ...panel, ...wrong });
+      await expect(create({ threshold: 0 })).to.be.rejectedWith("wrong threshold");
+      await expect(create({ threshold: 4 })).to.be.rejectedWith("wrong threshold");
+      await expect(create({ signers: [signer1.address, signer1.address] })).to.be.rejectedWith("wrong signer");
+      await expect(create({ resolutionPeriod: 0 })).to.be.rejectedWith("wrong resolution period");
+      await expect(create({ fallbackRefundPercentage: 1_000_001 })).to.be.rejectedWith("wrong refund percentage");
+      const implementation = await hre.ethers.getContractAt("MultisigResolver",
+        await factory.getResolverImplementation());
+      await expect(implementation.initialize(factory, panel)).to.revertedWith("only factory");
+    });
+  });
@@ -0,0 +1,119 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import { EscrowAgentClient, encodeStatusMask, MultisigEscrowClient } from "../sdk";
+
+
+  describe("Party agreements", function () {
+
+    const AMOUNT = hre.ethers.parseEther("1");
+    const DEPOSITOR = 0;
+    const BENEFICIARY = 1;
+    const ARBITRATOR = 2;
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, arbitrator, someone] = await hre.ethers.getSigners();
+      const agent = await hre.ethers.deployContract("EscrowAgent");
+      const factory = await hre.ethers.deployContract("MultisigEscrowFactory", [hre.ethers.ZeroAddress]);
+      const deadlineDate = (await time.latest()) + 30 * 24 * 3600;
+      const params = { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate };
+      const agreements: EscrowAgentClient[] = [];
+      for (let i = 0; i < 5; i++) {
+        agreements.push(await EscrowAgentClient.create(agent.connect(depositor), params));
+      }
+      // an agreement of other parties
+      await EscrowAgentClient.create(agent.connect(someone), { ...params, beneficiary: depositor.address });
+      return { agent, factory, agreements, owner, depositor, beneficiary, arbitrator, someone, deadlineDate };
+    }
+
+    it("Should page the agreements of the depositor and the beneficiary", async () => {
+      const { agent, agreements, depositor, beneficiary, someone } = await loadFixture(deployFixture);
+      const ids = agreements.map((agreement) => agreement.agreementId);
+      expect(await agent.getPartyAgreementCount(depositor, DEPOSITOR)).to.equal(5n);
+      expect(await agent.getPartyAgreementCount(depositor, BENEFICIARY)).to.equal(1n);
+      expect(await agent.getPartyAgreementCount(someone, ARBITRATOR)).to.equal(0n);
+
+      const [first, cursor] = await agent.getPartyAgreements(depositor, DEPOSITOR, 0, 0, 2);
+      expect(first).to.deep.equal(ids.slice(0, 2));
+      expect(cursor).to.equal(2n);
+      const [second, nextCursor] = await agent.getPartyAgreements(depositor, DEPOSITOR, 0, cursor, 3);
+      expect(second).to.deep.equal(ids.slice(2));
+      expect(nextCursor).to.equal(0n);
+      const [all] = await agent.getPartyAgreements(beneficiary, BENEFICIARY, 0, 0, 10);
+      expect(all).to.deep.equal(ids);
+      const [none, noCursor] = await agent.getPartyAgreements(beneficiary, BENEFICIARY, 0, 10, 10);
+      expect(none).to.be.empty;
+      expect(noCursor).to.equal(0n);
+    });
+
+    it("Should filter the agreements by status", async () => {
+      const { agent, agreements, depositor, beneficiary } = await loadFixture(deployFixture);
+      await agreements[1].connect(beneficiary).approve();
+      await agreements[3].connect(beneficiary).approve();
+      await agreements[4].connect(beneficiary).reject();
+      const active = encodeStatusMask("EscrowAgent", ["Active"]);
+      const [firstActive, cursor] = await agent.getPartyAgreements(beneficiary, BENEFICIARY, active, 0, 1);
+      expect(firstActive).to.deep.equal([agreements[1].agreementId]);
+      expect(cursor).to.equal(2n);
+      const [nextActive] = await agent.getPartyAgreements(beneficiary, BENEFICIARY, active, cursor, 1);
+      expect(nextActive).to.deep.equal([agreements[3].agreementId]);
+
+      const found = await EscrowAgentClient.findByParty(agent, depositor.address, "depositor",
+        { statuses: ["Funded", "Rejected"], pageSize: 1 });
+      expect(found.map((agreement) => agreement.agreementId))
+        .to.deep.equal([0, 2, 4].map((i) => agreements[i].agreementId));
+    });
+
+    it("Should list the agreements of the arbitrator after the resolution", async () => {
+      const { agent, agreements, depositor, beneficiary, arbitrator, deadlineDate } = await loadFixture(deployFixture);
+      const [agreement] = agreements;
+      await agreement.connect(beneficiary).approve();
+      await time.increaseTo(deadlineDate + 1);
+      await agreement.connect(depositor).dispute();
+      await agreement.connect(depositor).registerArbitrator(arbitrator.address, 10000);
+      // the arbitrator isn't listed until both parties agree
+      expect(await agent.getPartyAgreementCount(arbitrator, ARBITRATOR)).to.equal(0n);
+      await agreement.connect(beneficiary).registerArbitrator(arbitrator.address, 10000);
+      await agreement.connect(beneficiary).registerArbitrator(arbitrator.address, 10000);
+      expect(await agent.getPartyAgreementCount(arbitrator, ARBITRATOR)).to.equal(1n);
+
+      await agreement.connect(arbitrator).resolveDispute(500000);
+      const resolved = await EscrowAgentClient.findByParty(agent, arbitrator.address, "arbitrator",
+        { statuses: ["Resolved"] });
+      expect(resolved.map((client) => client.agreementId)).to.deep.equal([agreement.agreementId]);
+      expect(await EscrowAgentClient.findByParty(agent, arbitrator.address, "arbitrator", { statuses: ["Disputed"] }))
+        .to.be.empty;
+    });
+
+    it("Should register both parties of the multisig escrows", async () => {
+      const { factory, depositor, beneficiary, someone, deadlineDate } = await loadFixture(deployFixture);
+      const params = { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate };
+      const first = await MultisigEscrowClient.create(factory.connect(depositor), params);
+      const second = await MultisigEscrowClient.create(factory.connect(depositor), params);
+      const firstAddress = await first.getAddress();
+      const secondAddress = await second.getAddress();
+      expect(await factory.isEscrow(firstAddress)).to.be.true;
+      expect(await factory.getBeneficiaryContracts(beneficiary)).to.deep.equal([firstAddress, secondAddress]);
+      expect(await factory.getBeneficiaryContractCount(beneficiary)).to.equal(2n);
+
+      // the reused escrow registers its new beneficiary
+      await first.cancel();
+      await first.withdraw();
+      await expect(first.contract.createAgreement(someone, deadlineDate, { value: AMOUNT }))
+        .to.emit(factory, "BeneficiaryRegistered").withArgs(firstAddress, someone.address);
+      expect(await factory.getBeneficiaryContracts(someone)).to.deep.equal([firstAddress]);
+      await expect(factory.connect(someone).registerBeneficiary(someone)).to.be.revertedWith("only escrow");
+
+      await second.connect(beneficiary).approve();
+      const [active, cursor] = await factory.getEscrowsOf(beneficiary, true,
+        encodeStatusMask("MultisigEscrow", ["Active"]), 0, 10);
+      expect(active).to.deep.equal([secondAddress]);
+      expect(cursor).to.equal(0n);
+      const funded = await MultisigEscrowClient.findByParty(factory, depositor.address, "depositor",
+        { statuses: ["Funded"], pageSize: 1 });
+      expect(await Promise.all(funded.map((escrow) => escrow.getAddress()))).to.deep.equal([firstAddress]);
+    });
+  });
@@ -0,0 +1,191 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import { DEFAULT_POLICY, MAX_POLICY, MIN_POLICY } from "../sdk";
+
+
+  describe("Pool arbitrator randomness", function () {
+
+    const CID = "0xB45165ED3CD437B9FFAD02A2AAD22A4DDC69162470E2622982889CE5826F6E3D";
+    const VALUE = hre.ethers.parseEther("1");
+    const DAY = 24 * 3600;
+    // the assignment weight of an arbitrator with the full reputation
+    const WEIGHT = 1_000_000n;
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, someone, ...pool] = await hre.ethers.getSigners();
+      const coordinator = await hre.ethers.deployContract("RandomnessCoordinatorMock");
+      return { coordinator, owner, depositor, beneficiary, someone, pool: pool.slice(0, 3) };
+    }
+
+    describe("EscrowAgent", () => {
+
+      // a dispute where the parties didn't agree on an arbitrator in time
+      async function disputeFixture() {
+        const fixture = await loadFixture(deployFixture);
+        const { coordinator, owner, depositor, beneficiary, pool } = fixture;
+        const escrow = await hre.ethers.deployContract("EscrowAgent");
+        const arbitratorPool = await hre.ethers.deployContract("ArbitratorPool");
+        await arbitratorPool.connect(owner).setRandomnessCoordinator(coordinator);
+        for (const arbitrator of pool) {
+          await arbitratorPool.connect(arbitrator).depositStake({ value: await arbitratorPool.MIN_ARBITRATOR_STAKE() });
+          await arbitratorPool.connect(owner).addPoolArbitrator(arbitrator);
+        }
+        await arbitratorPool.connect(owner).setEscrow(escrow, true);
+        await escrow.connect(owner).setArbitratorPool(arbitratorPool);
+        const deadline = (await time.latest()) + 10 * DAY;
+        await escrow.connect(depositor)["createAgreement(address,string,uint32)"](
+          beneficiary, CID, deadline, { value: VALUE });
+        await escrow.connect(beneficiary).approveAgreement(1);
+        await time.increaseTo(deadline + 1);
+        await escrow.connect(depositor).raiseDispute(1);
+        await time.increase(Number(await escrow.AGREE_ON_ARBITRATOR_MAX_PERIOD()));
+        return { ...fixture, escrow, arbitratorPool, agreementId: 1 };
+      }
+
+      it("Should assign the pool arbitrator in two steps", async () => {
+        const { escrow, coordinator, depositor, pool, agreementId } = await loadFixture(disputeFixture);
+        const resp = await escrow.connect(depositor).assignArbitrator(agreementId);
+        await expect(resp).to.emit(escrow, "PoolArbitratorRequested").withArgs(agreementId, 1);
+        await expect(resp).to.not.emit(escrow, "PoolArbitratorAssigned");
+        expect(await escrow.isAssignmentPending(agreementId)).to.be.true;
+        // nobody is the arbitrator until the request is fulfilled
+        for (const arbitrator of pool) {
+          await expect(escrow.connect(arbitrator)["resolveDispute(uint256,uint32)"](agreementId, 0))
+            .to.revertedWith("You are not the arbitrator.");
+        }
+        // arbitrators with the same reputation share the random range equally
+        await expect(await coordinator.fulfillRandomness(1, WEIGHT + 7n)).to.emit(escrow, "PoolArbitratorAssigned")
+          .withArgs(agreementId, pool[1]);
+        expect(await escrow.isAssignmentPending(agreementId)).to.be.false;
+        // listed as the arbitrator agreement
+        expect((await escrow.getPartyAgreements(pool[1], 2, 0, 0, 10))[0]).to.deep.equal([agreementId]);
+        await expect(escrow.connect(pool[1])["resolveDispute(uint256,uint32)"](agreementId, 0))
+          .to.emit(escrow, "DisputeResolved");
+      });
+
+      it("Caller should NOT choose the pool arbitrator", async () => {
+        const { escrow, arbitratorPool, coordinator, depositor, beneficiary, pool, agreementId } =
+          await loadFixture(disputeFixture);
+        // the same random word picks the same arbitrator whoever requests and whenever
+        for (const caller of [depositor, beneficiary]) {
+          const snapshot = await hre.network.provider.send("evm_snapshot");
+          await time.increase(DAY);
+          await escrow.connect(caller).assignArbitrator(agreementId);
+          await expect(coordinator.fulfillRandomness(1, 2n * WEIGHT)).to.emit(escrow, "PoolArbitratorAssigned")
+            .withArgs(agreementId, pool[2]);
+          await hre.network.provider.send("evm_revert", [snapshot]);
+        }
+        // parties can't fulfill the request themselves
+        await escrow.connect(depositor).assignArbitrator(agreementId);
+        await expect(arbitratorPool.connect(depositor).rawFulfillRandomness(1, 0))
+          .to.revertedWithCustomError(arbitratorPool, "OnlyCoordinator").withArgs(depositor, coordinator);
+        // nor request again while waiting for the coordinator
+        await expect(escrow.connect(beneficiary).assignArbitrator(agreementId))
+          .to.revertedWith("Arbitrator assignment is pending");
+        await coordinator.fulfillRandomness(1, 0);
+        // nor draw again until the assigned arbitrator had the time to resolve the dispute
+        await expect(escrow.connect(beneficiary).assignArbitrator(agreementId))
+          .to.revertedWith("Too early to assign artibrator from the pool");
+        await time.increase(Number(await escrow.RESOLVE_DISPUTE_MAX_PERIOD()));
+        await escrow.connect(beneficiary).assignArbitrator(agreementId);
+        await expect(coordinator.fulfillRandomness(2, 0)).to.emit(escrow, "PoolArbitratorAssigned")
+          .withArgs(agreementId, pool[1]);
+      });
+
+      it("Should ignore the randomness after the dispute is settled", async () => {
+        const { escrow, arbitratorPool, coordinator, depositor, beneficiary, pool, agreementId } =
+          await loadFixture(disputeFixture);
+        await escrow.connect(depositor).assignArbitrator(agreementId);
+        await coordinator.fulfillRandomness(1, 0);
+        await time.increase(Number(await escrow.RESOLVE_DISPUTE_MAX_PERIOD()));
+        await escrow.connect(depositor).assignArbitrator(agreementId);
+        await escrow.connect(beneficiary)["resolveDispute(uint256)"](agreementId);
+        await expect(coordinator.fulfillRandomness(2, 1)).to.not.emit(escrow, "PoolArbitratorAssigned");
+        expect(await escrow.isAssignmentPending(agreementId)).to.be.false;
+        // the first pool arbitrator has no assigned agreements left
+        await expect(arbitratorPool.removePoolArbitrator(pool[0])).to.emit(arbitratorPool, "PoolArbitratorQueued");
+      });
+
+      it("Only owner should set the randomness coordinator", async () => {
+        const { arbitratorPool, coordinator, owner, depositor } = await loadFixture(disputeFixture);
+        await expect(arbitratorPool.connect(depositor).setRandomnessCoordinator(depositor))
+          .to.revertedWith("You are not the owner.");
+        await expect(arbitratorPool.connect(owner).setRandomnessCoordinator(hre.ethers.ZeroAddress))
+          .to.revertedWith("Address is zero");
+        expect(await arbitratorPool.getRandomnessCoordinator()).to.equal(await coordinator.getAddress());
+      });
+
+      it("Should NOT request an arbitrator without a pool or a coordinator", async () => {
+        const { owner, depositor, beneficiary, pool } = await loadFixture(deployFixture);
+        const escrow = await hre.ethers.deployContract("EscrowAgent");
+        const arbitratorPool = await hre.ethers.deployContract("ArbitratorPool");
+        await arbitratorPool.connect(pool[0]).depositStake({ value: await arbitratorPool.MIN_ARBITRATOR_STAKE() });
+        await arbitratorPool.connect(owner).addPoolArbitrator(pool[0]);
+        await arbitratorPool.connect(owner).setEscrow(escrow, true);
+        const deadline = (await time.latest()) + DAY;
+        await escrow.connect(depositor)["createAgreement(address,string,uint32)"](
+          beneficiary, CID, deadline, { value: VALUE });
+        await escrow.connect(beneficiary).approveAgreement(1);
+        await time.increaseTo(deadline + 1);
+        await escrow.connect(depositor).raiseDispute(1);
+        await time.increase(Number(await escrow.AGREE_ON_ARBITRATOR_MAX_PERIOD()));
+        await expect(escrow.connect(depositor).assignArbitrator(1))
+          .to.revertedWith("Arbitrator pool is not set");
+        await escrow.connect(owner).setArbitratorPool(arbitratorPool);
+        await expect(escrow.connect(depositor).assignArbitrator(1))
+          .to.revertedWith("Randomness coordinator is not set");
+      });
+    });
+
+    describe("SimpleEscrowAgent", () => {
+
+      async function disputeFixture() {
+        const fixture = await loadFixture(deployFixture);
+        const { coordinator, depositor, beneficiary, pool } = fixture;
+        const factory = await hre.ethers.deployContract("SimpleEscrowFactory",
+          [coordinator, pool, DEFAULT_POLICY, MIN_POLICY, MAX_POLICY]);
+        const deadline = (await time.latest()) + 10 * DAY;
+        const resp = await factory.connect(depositor).createEscrow(beneficiary, CID, deadline, { value: VALUE });
+        const receipt = await resp.wait();
+        const event = receipt!.logs.map((log) => factory.interface.parseLog(log))
+          .find((log) => log?.name === "EscrowCreated");
+        const escrow = await hre.ethers.getContractAt("SimpleEscrowAgent", event!.args.escrow);
+        await escrow.connect(beneficiary).approveAgreement();
+        await time.increaseTo(deadline + 1);
+        await escrow.connect(depositor).raiseDispute();
+        await time.increase(Number(await escrow.AGREE_ON_ARBITRATOR_MAX_PERIOD()));
+        return { ...fixture, escrow };
+      }
+
+      it("Should assign the factory pool arbitrator in two steps", async () => {
+        const { escrow, coordinator, beneficiary, pool } = await loadFixture(disputeFixture);
+        await expect(escrow.connect(beneficiary).assignArbitrator()).to.emit(escrow, "PoolArbitratorRequested")
+          .withArgs(1);
+        expect(await escrow.isAssignmentPending()).to.be.true;
+        await expect(escrow.connect(beneficiary).assignArbitrator())
+          .to.revertedWith("Arbitrator assignment is pending");
+        await expect(escrow.connect(beneficiary).rawFulfillRandomness(1, 0))
+          .to.revertedWithCustomError(escrow, "OnlyCoordinator");
+        await expect(coordinator.fulfillRandomness(1, 5)).to.emit(escrow, "PoolArbitratorAssigned")
+          .withArgs(pool[5 % pool.length]);
+        await expect(escrow.connect(pool[5 % pool.length])["resolveDispute(uint32)"](500000))
+          .to.emit(escrow, "DisputeResolved");
+      });
+
+      it("Should NOT request an arbitrator from an empty pool", async () => {
+        const { coordinator, depositor, beneficiary } = await loadFixture(deployFixture);
+        const deadline = (await time.latest()) + DAY;
+        const escrow = await hre.ethers.deployContract("SimpleEscrowAgent");
+        await escrow.initialize(depositor, beneficiary, CID, deadline, [], coordinator, DEFAULT_POLICY, { value: VALUE });
+        await escrow.connect(beneficiary).approveAgreement();
+        await time.increaseTo(deadline + 1);
+        await escrow.connect(depositor).raiseDispute();
+        await time.increase(Number(await escrow.AGREE_ON_ARBITRATOR_MAX_PERIOD()));
+        await expect(escrow.connect(depositor).assignArbitrator()).to.revertedWith("Arbitrators pool is empty");
+      });
+    });
+  });
@@ -0,0 +1,136 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import {
+    DEFAULT_POLICY,
+    MAX_POLICY,
+    MIN_POLICY,
+    MultisigEscrowClient,
+    SimpleEscrowAgentClient,
+  } from "../sdk";
+  import { AgreementIndexer, MemoryStore } from "../indexer";
+
+
+  describe("Protocol fees", function () {
+
+    const AMOUNT = hre.ethers.parseEther("1");
+    const DAY = 24 * 3600;
+    const FEE_CHANGE_DELAY = 7 * DAY;
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, someone] = await hre.ethers.getSigners();
+      const multisigFactory = await hre.ethers.deployContract("MultisigEscrowFactory", [hre.ethers.ZeroAddress]);
+      const simpleFactory = await hre.ethers.deployContract("SimpleEscrowFactory",
+        [hre.ethers.ZeroAddress, [], DEFAULT_POLICY, MIN_POLICY, MAX_POLICY]);
+      const token = await hre.ethers.deployContract("ERC20Mock");
+      const deadlineDate = (await time.latest()) + 30 * DAY;
+      const params = { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate };
+      return { multisigFactory, simpleFactory, token, params, owner, depositor, beneficiary, someone };
+    }
+
+    it("Should timelock the fee changes and keep the fee of the existing escrows", async () => {
+      const { simpleFactory, params, owner, depositor, someone } = await loadFixture(deployFixture);
+      await expect(simpleFactory.connect(someone).scheduleDefaultFee(100)).to.be.revertedWith("only owner");
+      await expect(simpleFactory.scheduleDefaultFee(501)).to.be.revertedWith("fee above the cap");
+      const effectiveDate = await time.latest() + 1 + FEE_CHANGE_DELAY;
+      await expect(simpleFactory.scheduleDefaultFee(100))
+        .to.emit(simpleFactory, "DefaultFeeScheduled").withArgs(100, effectiveDate);
+      expect(await simpleFactory.getOwner()).to.equal(owner.address);
+      expect(await simpleFactory.getFee(hre.ethers.ZeroAddress)).to.equal(0);
+      const [current, scheduled] = await simpleFactory.getDefaultFeeSchedule();
+      expect(current.basisPoints).to.equal(0);
+      expect(scheduled.effectiveDate).to.equal(effectiveDate);
+
+      // created before the new rate is in effect
+      const early = await SimpleEscrowAgentClient.create(simpleFactory.connect(depositor), params);
+      await time.increaseTo(effectiveDate);
+      expect(await simpleFactory.getFee(hre.ethers.ZeroAddress)).to.equal(100);
+      const late = await SimpleEscrowAgentClient.create(simpleFactory.connect(depositor), params);
+
+      // the eth rate overrides the default rate, the removal restores it
+      await simpleFactory.scheduleTokenFee(hre.ethers.ZeroAddress, 300);
+      await simpleFactory.scheduleDefaultFee(200);
+      await time.increase(FEE_CHANGE_DELAY);
+      expect(await simpleFactory.getFee(hre.ethers.ZeroAddress)).to.equal(300);
+      await expect(simpleFactory.scheduleTokenFeeRemoval(hre.ethers.ZeroAddress))
+        .to.emit(simpleFactory, "TokenFeeScheduled");
+      await time.increase(FEE_CHANGE_DELAY);
+      expect(await simpleFactory.getFee(hre.ethers.ZeroAddress)).to.equal(200);
+      expect((await simpleFactory.getDefaultFeeSchedule()).scheduled.effectiveDate).to.equal(0);
+
+      const factoryAddress = await simpleFactory.getAddress();
+      expect(await early.getProtocolFee()).to.deep.equal({ treasury: factoryAddress, basisPoints: 0 });
+      expect(await late.getProtocolFee()).to.deep.equal({ treasury: factoryAddress, basisPoints: 100 });
+      const standalone = await SimpleEscrowAgentClient.deploy(depositor, params);
+      expect((await standalone.getProtocolFee()).basisPoints).to.equal(0);
+    });
+
+    it("Should take the fee on release and settlement, never on refunds", async () => {
+      const { simpleFactory, params, depositor, beneficiary } = await loadFixture(deployFixture);
+      await simpleFactory.scheduleDefaultFee(250);
+      await time.increase(FEE_CHANGE_DELAY);
+      const fee = AMOUNT * 250n / 10_000n;
+
+      const released = await SimpleEscrowAgentClient.create(simpleFactory.connect(depositor), params);
+      await released.connect(beneficiary).approve();
+      await released.release();
+      const withdrawal = released.contract.connect(beneficiary).withdrawFunds();
+      await expect(withdrawal).to.emit(released.contract, "ProtocolFeePaid").withArgs(simpleFactory, fee);
+      await expect(withdrawal).to.changeEtherBalances([beneficiary, simpleFactory], [AMOUNT - fee, fee]);
+
+      const refunded = await SimpleEscrowAgentClient.create(simpleFactory.connect(depositor), params);
+      await refunded.connect(beneficiary).approve();
+      await refunded.connect(beneficiary).refund();
+      await expect(refunded.contract.connect(depositor).withdrawFunds())
+        .to.changeEtherBalances([depositor, simpleFactory], [AMOUNT, 0]);
+
+      // the fee is taken from the beneficiary's share only
+      const settled = await SimpleEscrowAgentClient.create(simpleFactory.connect(depositor), params);
+      await settled.connect(beneficiary).approve();
+      await settled.proposeSettlement(400_000);
+      await settled.connect(beneficiary).acceptSettlement(400_000);
+      await expect(settled.contract.connect(depositor).withdrawFunds())
+        .to.changeEtherBalances([depositor, simpleFactory], [AMOUNT * 4n / 10n, 0]);
+      const shareFee = AMOUNT * 6n / 10n * 250n / 10_000n;
+      await expect(settled.contract.connect(beneficiary).withdrawFunds())
+        .to.changeEtherBalances([beneficiary, simpleFactory], [AMOUNT * 6n / 10n - shareFee, shareFee]);
+    });
+
+    it("Should accrue the token fees of the multisig escrows to the treasury", async () => {
+      const { multisigFactory, token, params, owner, depositor, beneficiary, someone } =
+        await loadFixture(deployFixture);
+      const tokenAddress = await token.getAddress();
+      await multisigFactory.scheduleTokenFee(tokenAddress, 500);
+      await time.increase(FEE_CHANGE_DELAY);
+      expect(await multisigFactory.getFee(hre.ethers.ZeroAddress)).to.equal(0);
+      const startBlock = await hre.ethers.provider.getBlockNumber() + 1;
+
+      await token.mint(depositor, AMOUNT);
+      const client = await MultisigEscrowClient.create(multisigFactory.connect(depositor),
+        { ...params, token: tokenAddress });
+      expect((await client.getProtocolFee()).basisPoints).to.equal(500);
+      await client.connect(beneficiary).approve();
+      await client.release();
+      const fee = AMOUNT * 500n / 10_000n;
+      await expect(client.contract.connect(beneficiary).withdrawFunds())
+        .to.changeTokenBalances(token, [beneficiary, multisigFactory], [AMOUNT - fee, fee]);
+      expect(await multisigFactory.getAccruedFees(tokenAddress)).to.equal(fee);
+
+      const indexer = await AgreementIndexer.open(hre.ethers.provider, new MemoryStore(),
+        { multisigEscrowFactories: [await multisigFactory.getAddress()], startBlock });
+      await indexer.sync();
+      const agreement = indexer.getAgreement(await client.getAddress())!;
+      expect(agreement.withdrawn).to.equal(AMOUNT - fee);
+      expect(agreement.protocolFeePaid).to.equal(fee);
+
+      await expect(multisigFactory.connect(someone).withdrawFees(tokenAddress, someone, fee))
+        .to.be.revertedWith("only owner");
+      await expect(multisigFactory.withdrawFees(tokenAddress, owner, fee))
+        .to.emit(multisigFactory, "FeesWithdrawn").withArgs(tokenAddress, owner.address, fee);
+      expect(await token.balanceOf(owner)).to.equal(fee);
+      expect(await multisigFactory.getAccruedFees(tokenAddress)).to.equal(0);
+    });
+  });
@@ -0,0 +1,126 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import { AddressInfo } from "net";
+  import hre from "hardhat";
+  import { createRelayerServer, Relayer, RelayRejectedError } from "../relayer";
+  import {
+    EscrowAgentClient,
+    InvalidSignatureError,
+    MultisigEscrowClient,
+    signAction,
+    signForwardRequest,
+    WrongStatusError,
+  } from "../sdk";
+
+
+  describe("Relayer", function () {
+
+    const AMOUNT = hre.ethers.parseEther("1");
+    const DAY = 24 * 3600;
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, relayerSigner] = await hre.ethers.getSigners();
+      const agent = await hre.ethers.deployContract("EscrowAgent");
+      const forwarder = await hre.ethers.deployContract("EscrowForwarder");
+      const factory = await hre.ethers.deployContract("MultisigEscrowFactory", [forwarder]);
+      const deadlineDate = (await time.latest()) + DAY;
+      const params = { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate };
+      const agreement = await EscrowAgentClient.create(agent.connect(depositor), params);
+      const multisig = await MultisigEscrowClient.create(factory.connect(depositor), params);
+      const relayer = new Relayer(relayerSigner, {
+        contracts: [await agent.getAddress(), await multisig.getAddress()],
+        forwarder: await forwarder.getAddress(),
+        maxGas: 500_000n,
+      });
+      const action = { variant: "EscrowAgent" as const, contract: await agent.getAddress(),
+        agreementId: agreement.agreementId };
+      return { agent, forwarder, factory, agreement, multisig, relayer, action, owner, depositor, beneficiary,
+        relayerSigner };
+    }
+
+    it("Should relay the signed actions", async () => {
+      const { agreement, relayer, action, beneficiary } = await loadFixture(deployFixture);
+      const balance = await hre.ethers.provider.getBalance(beneficiary);
+      await relayer.relayAction(await signAction(beneficiary, { ...action, action: "approve" }));
+      expect(await agreement.getStatus()).to.equal("Active");
+      expect(await hre.ethers.provider.getBalance(beneficiary)).to.equal(balance);
+    });
+
+    it("Should NOT relay invalid actions", async () => {
+      const { agent, multisig, relayer, action, depositor, beneficiary } = await loadFixture(deployFixture);
+      const signed = await signAction(beneficiary, { ...action, action: "approve" });
+      await expect(relayer.relayAction({ ...signed, signer: depositor.address }))
+        .to.be.rejectedWith(InvalidSignatureError, "is signed by");
+      await expect(relayer.relayAction({ ...signed, nonce: 1n })).to.be.rejectedWith(InvalidSignatureError);
+      const other = new Relayer(relayer.signer, { contracts: [await multisig.getAddress()] });
+      await expect(other.relayAction(signed)).to.be.rejectedWith(RelayRejectedError);
+      const refund = await signAction(beneficiary, { ...action, action: "refund" });
+      // the contract rejects it before sending
+      const blockNumber = await hre.ethers.provider.getBlockNumber();
+      await expect(relayer.relayAction(refund)).to.be.rejectedWith(WrongStatusError);
+      expect(await hre.ethers.provider.getBlockNumber()).to.equal(blockNumber);
+      expect(await agent.nonces(beneficiary)).to.equal(0n);
+    });
+
+    it("Should forward the signed MultisigEscrow calls", async () => {
+      const { multisig, relayer, forwarder, depositor, beneficiary } = await loadFixture(deployFixture);
+      const contract = multisig.contract;
+      const to = await contract.getAddress();
+      const approval = await signForwardRequest(beneficiary, await forwarder.getAddress(),
+        { to, data: contract.interface.encodeFunctionData("approveAgreement") });
+      await relayer.relayForwardRequest(approval);
+      expect(await multisig.getStatus()).to.equal("Active");
+
+      // a call of the wrong party fails before sending
+      const refund = await signForwardRequest(depositor, await forwarder.getAddress(),
+        { to, data: contract.interface.encodeFunctionData("refundAgreement") });
+      await expect(relayer.relayForwardRequest(refund)).to.be.rejectedWith("only beneficiary");
+      await expect(relayer.relayForwardRequest(approval)).to.be.rejectedWith(InvalidSignatureError);
+      const greedy = await signForwardRequest(depositor, await forwarder.getAddress(),
+        { to, data: contract.interface.encodeFunctionData("releaseFunds"), gas: 1_000_000n });
+      await expect(relayer.relayForwardRequest(greedy)).to.be.rejectedWith(RelayRejectedError);
+
+      // escrows of a factory without a forwarder don't trust it
+      const plainFactory = await hre.ethers.deployContract("MultisigEscrowFactory", [hre.ethers.ZeroAddress]);
+      const plain = await MultisigEscrowClient.create(plainFactory.connect(depositor),
+        { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate: (await time.latest()) + DAY });
+      const untrusted = await signForwardRequest(beneficiary, await forwarder.getAddress(),
+        { to: await plain.getAddress(), data: contract.interface.encodeFunctionData("approveAgreement") });
+      await expect(new Relayer(relayer.signer, { forwarder: relayer.options.forwarder }).relayForwardRequest(untrusted))
+        .to.be.rejectedWith(InvalidSignatureError);
+    });
+
+    it("Should serve the signed requests over HTTP", async () => {
+      const { agreement, relayer, action, beneficiary } = await loadFixture(deployFixture);
+      const server = createRelayerServer(relayer);
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      try {
+        const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+        const post = (path: string, body: unknown) => fetch(url + path, { method: "POST",
+          body: JSON.stringify(body, (_, value) => typeof value === "bigint" ? value.toString() : value) });
+
+        const health = await (await fetch(`${url}/health`)).json();
+        expect(health.relayer).to.equal(await relayer.signer.getAddress());
+        const signed = await signAction(beneficiary, { ...action, action: "approve" });
+        const response = await post("/actions", signed);
+        expect(response.status).to.equal(200);
+        const { transaction } = await response.json();
+        expect((await hre.ethers.provider.getTransaction(transaction))!.from)
+          .to.equal(await relayer.signer.getAddress());
+        expect(await agreement.getStatus()).to.equal("Active");
+
+        const replayed = await post("/actions", signed);
+        expect(replayed.status).to.equal(422);
+        expect((await replayed.json()).error).to.equal("InvalidSignatureError");
+        const bad = await post("/actions", { ...signed, nonce: "one" });
+        expect(bad.status).to.equal(400);
+        expect((await bad.json()).message).to.equal("nonce is invalid");
+        expect((await fetch(`${url}/unknown`)).status).to.equal(404);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
@@ -0,0 +1,114 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import {
+    EscrowAgentClient,
+    InvalidTransitionError,
+    MultisigEscrowClient,
+    SettlementError,
+    SimpleEscrowAgentClient,
+  } from "../sdk";
+
+
+  describe("Settlement", function () {
+
+    const AMOUNT = hre.ethers.parseEther("1");
+    const DAY = 24 * 3600;
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, arbitrator] = await hre.ethers.getSigners();
+      const agent = await hre.ethers.deployContract("EscrowAgent");
+      const factory = await hre.ethers.deployContract("MultisigEscrowFactory", [hre.ethers.ZeroAddress]);
+      const deadlineDate = (await time.latest()) + 30 * DAY;
+      const params = { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate };
+      return { agent, factory, params, owner, depositor, beneficiary, arbitrator, deadlineDate };
+    }
+
+    it("Should settle an active agreement after a counter-proposal", async () => {
+      const { agent, params, depositor, beneficiary } = await loadFixture(deployFixture);
+      const client = await EscrowAgentClient.create(agent.connect(depositor), params);
+      const { agreementId } = client;
+      await client.connect(beneficiary).approve();
+      expect(await client.getSettlement()).to.be.undefined;
+
+      await expect(client.proposeSettlement(300000)).to.emit(agent, "SettlementProposed")
+        .withArgs(agreementId, depositor.address, 300000);
+      // the proposer can't accept the own proposal
+      await expect(client.acceptSettlement(300000)).to.be.rejectedWith(SettlementError);
+      await client.connect(beneficiary).proposeSettlement(200000);
+      expect(await client.getSettlement()).to.deep.equal({ proposer: beneficiary.address, refundPercentage: 200000 });
+      // the replaced proposal can't be accepted
+      await expect(client.acceptSettlement(300000)).to.be.rejectedWith(SettlementError, "accepted as 300000");
+      await expect(agent.connect(depositor).proposeSettlement(agreementId, 1000001))
+        .to.revertedWith("Refunded percent should be between 0 and 1000000");
+
+      const refund = AMOUNT / 5n;
+      await expect(client.acceptSettlement(200000)).to.emit(agent, "SettlementAccepted")
+        .withArgs(agreementId, 200000, refund, AMOUNT - refund);
+      expect(await client.getStatus()).to.equal("Settled");
+      await expect(agent.connect(depositor).withdrawFunds(agreementId))
+        .to.changeEtherBalances([depositor, agent], [refund, -refund]);
+      await expect(agent.connect(beneficiary).withdrawFunds(agreementId))
+        .to.changeEtherBalances([beneficiary, agent], [AMOUNT - refund, refund - AMOUNT]);
+      await expect(client.proposeSettlement(0)).to.be.rejectedWith(InvalidTransitionError);
+    });
+
+    it("Should settle a dispute without the arbitrator fee", async () => {
+      const { params, depositor, beneficiary, arbitrator, deadlineDate } = await loadFixture(deployFixture);
+      const client = await SimpleEscrowAgentClient.deploy(depositor, params);
+      const escrow = client.contract;
+      await expect(escrow.connect(depositor).proposeSettlement(500000)).to.revertedWith("The agreement is in a wrong status.");
+      await client.connect(beneficiary).approve();
+      await time.increaseTo(deadlineDate + 1);
+      await client.dispute();
+      await client.registerArbitrator(arbitrator.address, 100000);
+      await client.connect(beneficiary).registerArbitrator(arbitrator.address, 100000);
+
+      await expect(client.connect(beneficiary).proposeSettlement(600000)).to.emit(escrow, "SettlementProposed")
+        .withArgs(beneficiary.address, 600000);
+      const refund = AMOUNT * 6n / 10n;
+      await expect(client.acceptSettlement(600000)).to.emit(escrow, "SettlementAccepted")
+        .withArgs(600000, refund, AMOUNT - refund);
+      expect(await client.getStatus()).to.equal("Settled");
+      await expect(escrow.connect(arbitrator)["resolveDispute(uint32)"](0))
+        .to.revertedWith("The agreement is in a wrong status.");
+      await expect(client.connect(arbitrator).withdraw()).to.be.rejected;
+      await expect(escrow.connect(depositor).withdrawFunds()).to.changeEtherBalance(depositor, refund);
+      await expect(escrow.connect(beneficiary).withdrawFunds()).to.changeEtherBalance(beneficiary, AMOUNT - refund);
+    });
+
+    it("Should settle a locked multisig escrow", async () => {
+      const { factory, params, depositor, beneficiary, deadlineDate } = await loadFixture(deployFixture);
+      const client = await MultisigEscrowClient.create(factory.connect(depositor), params);
+      const escrow = client.contract;
+      await expect(escrow.connect(depositor).proposeSettlement(500000)).to.revertedWith("wrong status");
+      await client.connect(beneficiary).approve();
+      await time.increaseTo(deadlineDate + 1);
+      await client.dispute();
+      expect(await client.getStatus()).to.equal("Locked");
+
+      await client.proposeSettlement(700000);
+      await expect(client.connect(beneficiary).acceptSettlement(600000)).to.be.rejectedWith(SettlementError);
+      await expect(client.acceptSettlement(700000)).to.be.rejectedWith(SettlementError, "no settlement");
+      // the refund is sent on acceptance
+      const refund = AMOUNT * 7n / 10n;
+      const response = escrow.connect(beneficiary).acceptSettlement(700000);
+      await expect(response).to.changeEtherBalances([depositor, escrow], [refund, -refund]);
+      await expect(response).to.emit(escrow, "SettlementAccepted").withArgs(700000, refund, AMOUNT - refund);
+      expect(await client.getStatus()).to.equal("Closed");
+      await expect(escrow.connect(beneficiary).withdrawFunds()).to.changeEtherBalance(beneficiary, AMOUNT - refund);
+      expect(await escrow.paused()).to.be.true;
+
+      // a reused escrow starts without a proposal
+      await escrow.connect(depositor).createAgreement(beneficiary, deadlineDate + 30 * DAY, { value: AMOUNT });
+      expect(await client.getSettlement()).to.be.undefined;
+      await expect(escrow.connect(depositor).acceptSettlement(0)).to.revertedWith("wrong status");
+      await expect(client.proposeSettlement(0)).to.be.rejectedWith(InvalidTransitionError);
+      await expect(escrow.connect(beneficiary).approveAgreement()).to.emit(escrow, "AgreementApproved");
+      await expect(escrow.connect(depositor).acceptSettlement(0)).to.be.revertedWith("no settlement");
+      await expect(client.proposeSettlement(1_000_001)).to.be.rejectedWith("wrong percentage");
+    });
+  });
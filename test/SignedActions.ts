@@ -0,0 +1,122 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import {
+    AccessDeniedError,
+    DEFAULT_POLICY,
+    EscrowAgentClient,
+    InvalidSignatureError,
+    signAction,
+    SimpleEscrowAgentClient,
+    submitSignedAction,
+  } from "../sdk";
+
+
+  describe("Signed actions", function () {
+
+    const AMOUNT = hre.ethers.parseEther("1");
+    const DAY = 24 * 3600;
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, arbitrator, relayer] = await hre.ethers.getSigners();
+      const agent = await hre.ethers.deployContract("EscrowAgent");
+      const deadlineDate = (await time.latest()) + DAY;
+      const params = { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate };
+      const agentClient = await EscrowAgentClient.create(agent.connect(depositor), params);
+      const simpleClient = await SimpleEscrowAgentClient.deploy(depositor, params);
+      const agreements = [
+        { client: agentClient, variant: "EscrowAgent" as const, contract: await agent.getAddress(),
+          agreementId: agentClient.agreementId },
+        { client: simpleClient, variant: "SimpleEscrowAgent" as const, contract: await simpleClient.getAddress() },
+      ];
+      return { agent, agreements, owner, depositor, beneficiary, arbitrator, relayer, deadlineDate };
+    }
+
+    it("Should approve and release the agreements signed by the parties", async () => {
+      const { agreements, depositor, beneficiary, relayer } = await loadFixture(deployFixture);
+      for (const { client, ...target } of agreements) {
+        const approval = await signAction(beneficiary, { ...target, action: "approve" });
+        expect(approval.nonce).to.equal(0n);
+        const balance = await hre.ethers.provider.getBalance(beneficiary);
+        await submitSignedAction(relayer, approval);
+        expect(await client.getStatus()).to.equal("Active");
+        // the relayer pays the gas
+        expect(await hre.ethers.provider.getBalance(beneficiary)).to.equal(balance);
+
+        const release = await signAction(depositor, { ...target, action: "release" });
+        await expect(submitSignedAction(relayer, release)).to.emit(client.contract, "FundsReleased");
+        expect(await client.getStatus()).to.equal("Closed");
+      }
+    });
+
+    it("Should NOT accept a signature twice, after its deadline or of another party", async () => {
+      const { agreements, depositor, beneficiary, relayer } = await loadFixture(deployFixture);
+      for (const { client, ...target } of agreements) {
+        const rejection = await signAction(beneficiary, { ...target, action: "reject", nonce: 1n });
+        await expect(submitSignedAction(relayer, rejection)).to.be.rejectedWith(InvalidSignatureError, "Nonce");
+        const approval = await signAction(depositor, { ...target, action: "approve" });
+        await expect(submitSignedAction(relayer, approval))
+          .to.be.rejectedWith(AccessDeniedError, "You are not the beneficiary.");
+
+        const expired = await signAction(beneficiary, { ...target, action: "approve",
+          deadline: await time.latest() });
+        await expect(submitSignedAction(relayer, expired)).to.be.rejectedWith(InvalidSignatureError, "expired");
+        const signed = await signAction(beneficiary, { ...target, action: "approve" });
+        await submitSignedAction(relayer, signed);
+        await expect(submitSignedAction(relayer, signed)).to.be.rejected;
+        expect(await client.contract.nonces(beneficiary)).to.equal(1n);
+      }
+    });
+
+    it("Should NOT accept a signature of another agreement or contract", async () => {
+      const { agent, agreements, depositor, beneficiary, relayer, deadlineDate } = await loadFixture(deployFixture);
+      const [agentTarget, simpleTarget] = agreements.map(({ client, ...target }) => target);
+      await agent.connect(depositor)["createAgreement(address,string,uint32)"](
+        beneficiary, "", deadlineDate, { value: AMOUNT });
+      const signed = await signAction(beneficiary, { ...agentTarget, action: "approve" });
+      await expect(submitSignedAction(relayer, { ...signed, agreementId: 2n })).to.be.rejectedWith(AccessDeniedError);
+      const other = await SimpleEscrowAgentClient.deploy(depositor,
+        { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate });
+      const simpleSigned = await signAction(beneficiary, { ...simpleTarget, action: "approve" });
+      await expect(submitSignedAction(relayer, { ...simpleSigned, contract: await other.getAddress() }))
+        .to.be.rejectedWith(AccessDeniedError);
+    });
+
+    it("Should refund and register the arbitrator by signatures", async () => {
+      const { agreements, depositor, beneficiary, arbitrator, relayer, deadlineDate } =
+        await loadFixture(deployFixture);
+      const [{ client: agent, ...agentTarget }, { client, ...target }] = agreements;
+      await agent.connect(beneficiary).approve();
+      await client.connect(beneficiary).approve();
+
+      await submitSignedAction(relayer, await signAction(beneficiary, { ...target, action: "refund" }));
+      expect(await client.getStatus()).to.equal("Refunded");
+
+      await time.increaseTo(deadlineDate + 1);
+      await agent.dispute();
+      const fee = DEFAULT_POLICY.defaultArbitratorPercentage;
+      for (const party of [depositor, beneficiary]) {
+        await submitSignedAction(relayer, await signAction(party, { ...agentTarget, action: "registerArbitrator",
+          arbitrator: arbitrator.address, feePercentage: fee }));
+      }
+      await expect(agent.connect(arbitrator).resolveDispute(0)).to.emit(agent.contract, "DisputeResolved");
+    });
+
+    it("Should NOT register another arbitrator than signed", async () => {
+      const { agreements, depositor, beneficiary, arbitrator, relayer, deadlineDate } =
+        await loadFixture(deployFixture);
+      const { client, ...target } = agreements[0];
+      await client.connect(beneficiary).approve();
+      await time.increaseTo(deadlineDate + 1);
+      await client.dispute();
+      const signed = await signAction(depositor, { ...target, action: "registerArbitrator",
+        arbitrator: arbitrator.address, feePercentage: 10_000 });
+      await expect(submitSignedAction(relayer, { ...signed, arbitrator: relayer.address }))
+        .to.be.rejectedWith(AccessDeniedError);
+      await expect(submitSignedAction(relayer, { ...signed, feePercentage: 20_000 }))
+        .to.be.rejectedWith(AccessDeniedError);
+    });
+  });
@@ -0,0 +1,145 @@
+import {
+    time,
+    loadFixture,
+  } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+  import { expect } from "chai";
+  import hre from "hardhat";
+  import {
+    AgreementDetails,
+    InvalidTransitionError,
+    MultisigEscrowClient,
+    SimpleEscrowAgentClient,
+  } from "../sdk";
+
+
+  describe("Streaming", function () {
+
+    const AMOUNT = hre.ethers.parseEther("10");
+    const DAY = 24 * 3600;
+
+    async function deployFixture() {
+      const [owner, depositor, beneficiary, arbitrator] = await hre.ethers.getSigners();
+      const factory = await hre.ethers.deployContract("MultisigEscrowFactory", [hre.ethers.ZeroAddress]);
+      const deadlineDate = (await time.latest()) + 100 * DAY;
+      const params = { beneficiary: beneficiary.address, amount: AMOUNT, deadlineDate };
+      return { factory, params, owner, depositor, beneficiary, arbitrator, deadlineDate };
+    }
+
+    // the time at the fraction of the schedule and the funds vested by then
+    function schedule({ startDate, deadlineDate }: AgreementDetails) {
+      return (fraction: number) => {
+        const date = startDate + Math.floor((deadlineDate - startDate) * fraction);
+        return { date, vested: AMOUNT * BigInt(date - startDate) / BigInt(deadlineDate - startDate) };
+      };
+    }
+
+    it("Should stream the funds linearly and split the frozen rest of a dispute", async () => {
+      const { params, depositor, beneficiary, arbitrator } = await loadFixture(deployFixture);
+      const client = await SimpleEscrowAgentClient.deploy(depositor, params);
+      const escrow = client.contract;
+      await expect(client.setStream()).to.emit(escrow, "StreamSet").withArgs(0);
+      await client.connect(beneficiary).approve();
+      await expect(client.connect(beneficiary).setStream()).to.be.rejectedWith(InvalidTransitionError);
+      const at = schedule(await client.getDetails());
+
+      const quarter = at(0.25);
+      await time.setNextBlockTimestamp(quarter.date);
+      await expect(escrow.connect(beneficiary).withdrawStreamed()).to.changeEtherBalances(
+        [beneficiary, escrow], [quarter.vested, -quarter.vested]);
+      expect((await client.getStream())!.withdrawnAmount).to.equal(quarter.vested);
+      expect((await client.getDetails()).amount).to.equal(AMOUNT - quarter.vested);
+
+      // a streaming agreement is disputed before the deadline, the dispute freezes the vesting
+      const frozen = at(0.6);
+      await time.setNextBlockTimestamp(frozen.date);
+      await expect(escrow.connect(depositor).raiseDispute()).to.emit(escrow, "StreamFrozen").withArgs(frozen.vested);
+      const rest = AMOUNT - frozen.vested;
+      expect((await client.getDetails()).amount).to.equal(rest);
+      await client.registerArbitrator(arbitrator.address, 0);
+      await client.connect(beneficiary).registerArbitrator(arbitrator.address, 0);
+      await time.increaseTo(at(1.5).date);
+      expect(await client.getStreamBalance()).to.equal(frozen.vested - quarter.vested);
+      await expect(escrow.connect(beneficiary).withdrawStreamed()).to.changeEtherBalance(
+        beneficiary, frozen.vested - quarter.vested);
+      await expect(escrow.connect(beneficiary).withdrawStreamed()).to.revertedWith("Funds are not available");
+
+      // the arbitrator splits only the funds the stream didn't vest
+      await expect(client.connect(arbitrator).resolveDispute(500_000)).to.emit(escrow, "DisputeResolved")
+        .withArgs(500_000, 0, rest / 2n, rest - rest / 2n);
+      await expect(escrow.connect(depositor).withdrawFunds()).to.changeEtherBalance(depositor, rest / 2n);
+      await expect(escrow.connect(beneficiary).withdrawFunds()).to.changeEtherBalance(beneficiary, rest - rest / 2n);
+      expect(await hre.ethers.provider.getBalance(escrow)).to.equal(0);
+    });
+
+    it("Should vest nothing before the cliff and refund the unvested funds", async () => {
+      const { params, depositor, beneficiary } = await loadFixture(deployFixture);
+      const client = await SimpleEscrowAgentClient.deploy(depositor, params);
+      const escrow = client.contract;
+      const at = schedule(await client.getDetails());
+      await expect(client.setStream(params.deadlineDate + 1)).to.be.rejectedWith(
+        "Cliff should be between the start date and the deadline");
+      const cliff = at(0.5);
+      await client.setStream(cliff.date);
+      await client.connect(beneficiary).approve();
+
+      await time.setNextBlockTimestamp(cliff.date - 1);
+      await expect(escrow.connect(beneficiary).withdrawStreamed()).to.revertedWith("Funds are not available");
+      await time.setNextBlockTimestamp(cliff.date);
+      await expect(escrow.connect(beneficiary).withdrawStreamed()).to.changeEtherBalance(beneficiary, cliff.vested);
+
+      const refunded = at(0.7);
+      await time.setNextBlockTimestamp(refunded.date);
+      await expect(escrow.connect(beneficiary).refundAgreement()).to.emit(escrow, "StreamFrozen")
+        .withArgs(refunded.vested);
+      await expect(escrow.connect(depositor).withdrawFunds()).to.changeEtherBalance(
+        depositor, AMOUNT - refunded.vested);
+      await expect(escrow.connect(beneficiary).withdrawStreamed()).to.changeEtherBalance(
+        beneficiary, refunded.vested - cliff.vested);
+    });
+
+    it("Should release the rest of the streamed funds at once", async () => {
+      const { params, depositor, beneficiary } = await loadFixture(deployFixture);
+      const client = await SimpleEscrowAgentClient.deploy(depositor, params);
+      const escrow = client.contract;
+      await client.setStream();
+      await client.connect(beneficiary).approve();
+      const third = schedule(await client.getDetails())(1 / 3);
+      await time.setNextBlockTimestamp(third.date);
+      await client.connect(beneficiary).withdrawStreamed();
+      await client.release();
+      expect(await client.getStreamBalance()).to.equal(0);
+      await expect(escrow.connect(beneficiary).withdrawStreamed()).to.revertedWith(
+        "The agreement is in a wrong status.");
+      await expect(escrow.connect(beneficiary).withdrawFunds()).to.changeEtherBalance(
+        beneficiary, AMOUNT - third.vested);
+    });
+
+    it("Should freeze a multisig stream on lock and settle the rest", async () => {
+      const { factory, params, depositor, beneficiary } = await loadFixture(deployFixture);
+      const client = await MultisigEscrowClient.create(factory.connect(depositor), params);
+      const escrow = client.contract;
+      expect(await client.getStream()).to.be.undefined;
+      await client.setStream();
+      await client.connect(beneficiary).approve();
+      const at = schedule(await client.getDetails());
+
+      const streamed = at(0.3);
+      await time.setNextBlockTimestamp(streamed.date);
+      await expect(escrow.connect(beneficiary).withdrawStreamed()).to.changeEtherBalance(
+        beneficiary, streamed.vested);
+      // the lock freezes the stream before the deadline
+      const locked = at(0.4);
+      await time.setNextBlockTimestamp(locked.date);
+      await expect(escrow.connect(depositor).lockFunds()).to.emit(escrow, "StreamFrozen").withArgs(locked.vested);
+      expect((await client.getStream())!.frozenDate).to.equal(locked.date);
+
+      // the settlement splits the funds the stream didn't vest
+      const rest = AMOUNT - locked.vested;
+      await client.connect(beneficiary).proposeSettlement(1_000_000);
+      await expect(escrow.connect(depositor).acceptSettlement(1_000_000)).to.changeEtherBalance(depositor, rest);
+      await expect(escrow.connect(beneficiary).withdrawFunds()).to.changeEtherBalance(
+        beneficiary, locked.vested - streamed.vested);
+      expect(await client.getStreamBalance()).to.equal(0);
+      expect(await escrow.paused()).to.be.true;
+    });
+  });
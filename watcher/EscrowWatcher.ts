@@ -0,0 +1,249 @@
+import { Provider } from "ethers";
+import { EscrowAgent__factory, MultisigEscrow__factory, SimpleEscrowAgent__factory } from "../typechain-types";
+import { decodePolicy, EscrowError } from "../sdk";
+import { AgreementIndexer, IndexedAgreement, IndexedEvent } from "../indexer";
+import { NotificationChannel } from "./channels";
+import { agreementTimers, DisputeDates, eventNotifications, timerNotifications, TimerPolicy } from "./notifications";
+import { WatcherStore } from "./stores";
+import { Delivery, Notification, Subscription, WatcherState } from "./types";
+
+export interface WatcherOptions {
+  // how long before the beneficiary can claim the funds they are reminded, in seconds
+  claimNotice?: number;
+  // attempts of a delivery before it's given up
+  maxAttempts?: number;
+  // milliseconds before the first retry, doubled for every next one
+  retryDelay?: number;
+  // milliseconds between the ticks of run()
+  pollInterval?: number;
+}
+
+// the subscription names a channel the watcher doesn't have
+export class UnknownChannelError extends EscrowError {}
+
+const DAY = 24 * 3600;
+// delivered ids kept to deduplicate the reindexed events
+const MAX_DELIVERED = 10_000;
+
+function sameAddress(a: string, b: string) {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function sameSubscription(a: Subscription, b: Subscription) {
+  return sameAddress(a.address, b.address) && a.channel === b.channel && a.target === b.target;
+}
+
+// follows the escrows of the indexer and notifies the subscribed addresses of the events and the due deadlines,
+// the deadlines follow the chain time, so a node with time travel fires them
+export class EscrowWatcher {
+  private readonly channels: Map<string, NotificationChannel>;
+  private state!: WatcherState;
+  // policies don't change after the creation, the dispute blocks are older than the reorgs
+  private readonly policies = new Map<string, Promise<TimerPolicy>>();
+  private readonly blockTimes = new Map<number, Promise<number>>();
+
+  private constructor(readonly indexer: AgreementIndexer, readonly store: WatcherStore,
+      channels: readonly NotificationChannel[], readonly options: WatcherOptions) {
+    this.channels = new Map(channels.map((channel) => [channel.name, channel]));
+  }
+
+  // a new watcher doesn't notify the agreements indexed before and the timers already due
+  static async open(indexer: AgreementIndexer, store: WatcherStore, channels: readonly NotificationChannel[],
+      options: WatcherOptions = {}): Promise<EscrowWatcher> {
+    const watcher = new EscrowWatcher(indexer, store, channels, options);
+    const state = await store.load();
+    if (state) {
+      watcher.state = state;
+    } else {
+      watcher.state = { subscriptions: [], firedTimers: [], outbox: [], delivered: [], failed: [] };
+      await indexer.sync();
+      watcher.state.firedTimers = (await watcher.dueTimers(await watcher.chainTime())).map(({ timer }) => timer.id);
+      await store.save(watcher.state);
+    }
+    indexer.addListener((applied) => watcher.onEvents(applied));
+    return watcher;
+  }
+
+  get provider(): Provider {
+    return this.indexer.provider;
+  }
+
+  getSubscriptions(address?: string): Subscription[] {
+    return this.state.subscriptions.filter((subscription) =>
+      address === undefined || sameAddress(subscription.address, address));
+  }
+
+  // replaces the subscription of the address to the same channel target
+  async subscribe(subscription: Subscription) {
+    if (!this.channels.has(subscription.channel)) {
+      throw new UnknownChannelError(`Channel ${subscription.channel} is not configured`);
+    }
+    this.state.subscriptions = this.state.subscriptions.filter((other) => !sameSubscription(other, subscription));
+    this.state.subscriptions.push({ ...subscription, address: subscription.address.toLowerCase() });
+    await this.store.save(this.state);
+  }
+
+  async unsubscribe(subscription: Subscription) {
+    this.state.subscriptions = this.state.subscriptions.filter((other) => !sameSubscription(other, subscription));
+    await this.store.save(this.state);
+  }
+
+  // pending deliveries and the given up ones
+  getDeliveries(): { outbox: readonly Delivery[]; failed: readonly Delivery[] } {
+    return { outbox: this.state.outbox, failed: this.state.failed };
+  }
+
+  // indexes the new blocks, fires the due timers and delivers the pending notifications,
+  // returns the notifications delivered by the tick
+  async tick(): Promise<Notification[]> {
+    await this.indexer.sync();
+    const due = await this.dueTimers(await this.chainTime());
+    const pending = new Set(this.state.firedTimers);
+    for (const { agreement, timer } of due) {
+      if (!pending.has(timer.id)) {
+        this.enqueue(timerNotifications(agreement, timer));
+      }
+    }
+    // timers of the agreements that moved on are not pending anymore
+    this.state.firedTimers = due.map(({ timer }) => timer.id);
+    const delivered = await this.deliver();
+    await this.store.save(this.state);
+    return delivered;
+  }
+
+  // ticks until the signal aborts, errors of a tick are logged and the next tick retries
+  async run(signal?: AbortSignal) {
+    const { pollInterval = 5_000 } = this.options;
+    while (!signal?.aborted) {
+      try {
+        await this.tick();
+      } catch (error) {
+        console.error("Watcher tick error:", error);
+      }
+      await new Promise<void>((resolve) => {
+        const timeout = setTimeout(resolve, pollInterval);
+        signal?.addEventListener("abort", () => {
+          clearTimeout(timeout);
+          resolve();
+        }, { once: true });
+      });
+    }
+  }
+
+  // the notifications are in the outbox before the indexer saves the checkpoint
+  private async onEvents(applied: readonly { event: IndexedEvent; agreement: IndexedAgreement }[]) {
+    for (const { event, agreement } of applied) {
+      this.enqueue(eventNotifications(event, agreement));
+    }
+    await this.store.save(this.state);
+  }
+
+  private enqueue(notifications: readonly Notification[]) {
+    const queued = new Set([...this.state.delivered, ...this.state.outbox.map((delivery) => delivery.id)]);
+    for (const notification of notifications) {
+      for (const subscription of this.getSubscriptions(notification.recipient)) {
+        const id = `${notification.id}:${subscription.channel}:${subscription.target}`;
+        if (queued.has(id) || (subscription.kinds && !subscription.kinds.includes(notification.kind))) {
+          continue;
+        }
+        queued.add(id);
+        this.state.outbox.push({ id, channel: subscription.channel, target: subscription.target, notification,
+          attempts: 0, nextAttemptAt: 0 });
+      }
+    }
+  }
+
+  private async deliver(): Promise<Notification[]> {
+    const { maxAttempts = 5, retryDelay = 60_000 } = this.options;
+    const delivered: Notification[] = [];
+    const outbox: Delivery[] = [];
+    for (const delivery of this.state.outbox) {
+      const channel = this.channels.get(delivery.channel);
+      // a channel removed from the configuration keeps its deliveries until it's back
+      if (!channel || delivery.nextAttemptAt > Date.now()) {
+        outbox.push(delivery);
+        continue;
+      }
+      try {
+        await channel.send(delivery.target, delivery.notification);
+        delivered.push(delivery.notification);
+        this.state.delivered.push(delivery.id);
+      } catch (error) {
+        delivery.attempts++;
+        delivery.lastError = (error as Error).message;
+        delivery.nextAttemptAt = Date.now() + retryDelay * 2 ** (delivery.attempts - 1);
+        (delivery.attempts >= maxAttempts ? this.state.failed : outbox).push(delivery);
+      }
+    }
+    this.state.outbox = outbox;
+    this.state.delivered = this.state.delivered.slice(-MAX_DELIVERED);
+    return delivered;
+  }
+
+  private async dueTimers(now: number) {
+    const { claimNotice = DAY } = this.options;
+    const due = [];
+    for (const agreement of this.indexer.getAgreementsByStatus("Active", "Disputed")) {
+      const timers = agreementTimers(agreement, await this.policyOf(agreement), await this.disputeDates(agreement),
+        claimNotice);
+      due.push(...timers.filter((timer) => timer.dueDate <= now).map((timer) => ({ agreement, timer })));
+    }
+    return due;
+  }
+
+  private async chainTime(): Promise<number> {
+    const block = await this.provider.getBlock("latest");
+    if (!block) {
+      throw new Error("Latest block not found");
+    }
+    return block.timestamp;
+  }
+
+  private policyOf(agreement: IndexedAgreement): Promise<TimerPolicy> {
+    let policy = this.policies.get(agreement.key);
+    if (!policy) {
+      policy = this.fetchPolicy(agreement);
+      this.policies.set(agreement.key, policy);
+      policy.catch(() => this.policies.delete(agreement.key));
+    }
+    return policy;
+  }
+
+  private async fetchPolicy(agreement: IndexedAgreement): Promise<TimerPolicy> {
+    switch (agreement.variant) {
+      case "EscrowAgent":
+        return decodePolicy(await EscrowAgent__factory.connect(agreement.contract, this.provider)
+          .getAgreementPolicy(agreement.agreementId));
+      case "SimpleEscrowAgent":
+        return decodePolicy(await SimpleEscrowAgent__factory.connect(agreement.contract, this.provider)
+          .getAgreementPolicy());
+      case "MultisigEscrow": {
+        const contract = MultisigEscrow__factory.connect(agreement.contract, this.provider);
+        const releaseFundsAfterDeadline = Number(await contract.RELEASE_FUNDS_AFTER_DEADLINE());
+        return { releaseFundsAfterDeadline, agreeOnArbitratorMaxPeriod: 0, resolveDisputeMaxPeriod: 0 };
+      }
+    }
+  }
+
+  private async disputeDates(agreement: IndexedAgreement): Promise<DisputeDates> {
+    return {
+      disputedDate: agreement.disputedBlock === undefined ? undefined : await this.blockTime(agreement.disputedBlock),
+      assignedDate: agreement.assignedBlock === undefined ? undefined : await this.blockTime(agreement.assignedBlock),
+    };
+  }
+
+  private blockTime(blockNumber: number): Promise<number> {
+    let time = this.blockTimes.get(blockNumber);
+    if (!time) {
+      time = this.provider.getBlock(blockNumber).then((block) => {
+        if (!block) {
+          throw new Error(`Block ${blockNumber} not found`);
+        }
+        return block.timestamp;
+      });
+      this.blockTimes.set(blockNumber, time);
+      time.catch(() => this.blockTimes.delete(blockNumber));
+    }
+    return time;
+  }
+}
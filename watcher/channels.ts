@@ -0,0 +1,77 @@
+import { EscrowError } from "../sdk";
+import { Notification } from "./types";
+
+// the channel didn't take the notification, the delivery is retried
+export class DeliveryError extends EscrowError {}
+
+// sends the notifications of the subscriptions with the channel name
+export interface NotificationChannel {
+  readonly name: string;
+  send(target: string, notification: Notification): Promise<void>;
+}
+
+// keeps the notifications sent to every target, for tests
+export class MemoryChannel implements NotificationChannel {
+  readonly name = "memory";
+  readonly sent: { target: string; notification: Notification }[] = [];
+  // the next sends fail while it's positive
+  failures = 0;
+
+  async send(target: string, notification: Notification) {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new DeliveryError(`Failed to send ${notification.id} to ${target}`);
+    }
+    this.sent.push({ target, notification });
+  }
+
+  // the notifications of a target in the order they were sent
+  sentTo(target: string): Notification[] {
+    return this.sent.filter((sent) => sent.target === target).map((sent) => sent.notification);
+  }
+}
+
+// posts the notification as JSON to the target url
+export class WebhookChannel implements NotificationChannel {
+  readonly name = "webhook";
+
+  async send(target: string, notification: Notification) {
+    let response: Response;
+    try {
+      response = await fetch(target, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(notification),
+      });
+    } catch (error) {
+      throw new DeliveryError(`Webhook ${target} is not reachable`, error);
+    }
+    if (!response.ok) {
+      throw new DeliveryError(`Webhook ${target} answered ${response.status}`);
+    }
+  }
+}
+
+// sends the text to the target chat id with the Telegram Bot API
+export class TelegramChannel implements NotificationChannel {
+  readonly name = "telegram";
+
+  constructor(private readonly botToken: string, readonly apiUrl = "https://api.telegram.org") {}
+
+  async send(target: string, notification: Notification) {
+    let body: { ok: boolean; description?: string };
+    try {
+      const response = await fetch(`${this.apiUrl.replace(/\/$/, "")}/bot${this.botToken}/sendMessage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chat_id: target, text: notification.text, disable_web_page_preview: true }),
+      });
+      body = await response.json() as typeof body;
+    } catch (error) {
+      throw new DeliveryError("Telegram Bot API is not reachable", error);
+    }
+    if (!body.ok) {
+      throw new DeliveryError(`Telegram rejected the message to ${target}: ${body.description}`);
+    }
+  }
+}
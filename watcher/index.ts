@@ -0,0 +1,6 @@
+export * from "./types";
+export * from "./stores";
+export * from "./channels";
+export * from "./notifications";
+export * from "./EscrowWatcher";
+export * from "./server";
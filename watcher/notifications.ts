@@ -0,0 +1,135 @@
+import { EscrowPolicy } from "../sdk";
+import { currentDeadline, IndexedAgreement, IndexedEvent } from "../indexer";
+import { Notification, TimerKind } from "./types";
+
+// events the parties are notified of, the other events only update the agreement
+export const EVENT_MESSAGES: Readonly<Record<string, string>> = {
+  AgreementCreated: "New escrow agreement",
+  AgreementApproved: "The beneficiary approved the agreement",
+  AgreementRejected: "The beneficiary rejected the agreement",
+  AgreementCanceled: "The depositor canceled the agreement",
+  AgreementRevoked: "The depositor revoked the agreement",
+  AgreementRefunded: "The beneficiary refunded the funds",
+  FundsAdded: "The depositor added funds",
+  FundsReleased: "The funds are released to the beneficiary",
+  FundsLocked: "The depositor locked the funds",
+  FundsCompensated: "The multisig compensated the agreement",
+  FundsWithdrawn: "Funds are withdrawn",
+  MilestoneReleased: "A milestone is released",
+  DisputeRaised: "The depositor raised a dispute",
+  ArbitratorAgreed: "An arbitrator is registered for the dispute",
+  PoolArbitratorAssigned: "A pool arbitrator is assigned to the dispute",
+  MultisigSet: "The beneficiary set the multisig of the dispute",
+  MultisigApproved: "The depositor approved the multisig",
+  EvidenceSubmitted: "New evidence is submitted",
+  RulingSubmitted: "The arbitrator explained the ruling",
+  DisputeResolved: "The arbitrator resolved the dispute",
+  DisputeUnresolved: "The dispute is split by the policy",
+  SettlementProposed: "A settlement is proposed",
+  SettlementAccepted: "The settlement is accepted",
+  AmendmentProposed: "An amendment of the terms is proposed",
+  AmendmentAccepted: "The amendment is accepted",
+  DetailsSet: "The agreement document is attached",
+};
+
+// periods of the policy the timers depend on, MultisigEscrow has only the release one
+export type TimerPolicy = Pick<EscrowPolicy, "releaseFundsAfterDeadline" | "agreeOnArbitratorMaxPeriod" |
+  "resolveDisputeMaxPeriod">;
+
+export interface AgreementTimer {
+  // the agreement, the kind and the due date, a new due date is a new timer
+  id: string;
+  kind: TimerKind;
+  dueDate: number;
+  recipients: string[];
+  text: string;
+}
+
+// timestamps of the blocks that started the dispute periods
+export interface DisputeDates {
+  disputedDate?: number;
+  assignedDate?: number;
+}
+
+function parties(agreement: IndexedAgreement): string[] {
+  return agreement.arbitrator === undefined
+    ? [agreement.depositor, agreement.beneficiary]
+    : [agreement.depositor, agreement.beneficiary, agreement.arbitrator];
+}
+
+function label(agreement: IndexedAgreement): string {
+  return agreement.variant === "EscrowAgent"
+    ? `agreement #${agreement.agreementId} of ${agreement.contract}`
+    : `escrow ${agreement.contract}`;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().replace(".000Z", "Z");
+}
+
+// a notification of the event to every party of the agreement, undefined events notify nobody
+export function eventNotifications(event: IndexedEvent, agreement: IndexedAgreement): Notification[] {
+  const message = EVENT_MESSAGES[event.name];
+  if (!message) {
+    return [];
+  }
+  return [...new Set(parties(agreement).map((party) => party.toLowerCase()))].map((recipient) => ({
+    id: `${event.transactionHash}:${event.logIndex}:${recipient}`,
+    kind: event.name,
+    recipient,
+    variant: agreement.variant,
+    contract: agreement.contract,
+    agreementId: agreement.agreementId,
+    text: `${message}: ${label(agreement)}`,
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+  }));
+}
+
+// the pending timers of the agreement, claimNotice is how long before the claim the beneficiary is reminded
+export function agreementTimers(agreement: IndexedAgreement, policy: TimerPolicy, dates: DisputeDates,
+    claimNotice: number): AgreementTimer[] {
+  const timers: Omit<AgreementTimer, "id">[] = [];
+  if (agreement.status === "Active") {
+    const claimDate = currentDeadline(agreement) + policy.releaseFundsAfterDeadline;
+    timers.push({
+      kind: "ClaimAvailableSoon",
+      dueDate: claimDate - claimNotice,
+      recipients: [agreement.beneficiary],
+      text: `The beneficiary can claim the funds from ${formatDate(claimDate)} unless the depositor ` +
+        `releases or disputes them: ${label(agreement)}`,
+    });
+  }
+  if (agreement.status === "Disputed" && !agreement.arbitratorAgreed && dates.disputedDate !== undefined) {
+    timers.push({
+      kind: "ArbitratorAgreementClosed",
+      dueDate: dates.disputedDate + policy.agreeOnArbitratorMaxPeriod,
+      recipients: [agreement.depositor, agreement.beneficiary],
+      text: "The parties didn't agree on an arbitrator in time, a pool arbitrator can be requested: " +
+        label(agreement),
+    });
+  }
+  if (agreement.status === "Disputed" && dates.assignedDate !== undefined) {
+    timers.push({
+      kind: "ResolutionExpired",
+      dueDate: dates.assignedDate + policy.resolveDisputeMaxPeriod,
+      recipients: parties(agreement),
+      text: "The pool arbitrator didn't resolve the dispute in time, the parties can split the funds " +
+        `by the policy or request another arbitrator: ${label(agreement)}`,
+    });
+  }
+  return timers.map((timer) => ({ ...timer, id: `${agreement.key}:${timer.kind}:${timer.dueDate}` }));
+}
+
+export function timerNotifications(agreement: IndexedAgreement, timer: AgreementTimer): Notification[] {
+  return [...new Set(timer.recipients.map((recipient) => recipient.toLowerCase()))].map((recipient) => ({
+    id: `${timer.id}:${recipient}`,
+    kind: timer.kind,
+    recipient,
+    variant: agreement.variant,
+    contract: agreement.contract,
+    agreementId: agreement.agreementId,
+    text: timer.text,
+    dueDate: timer.dueDate,
+  }));
+}
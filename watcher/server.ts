@@ -0,0 +1,83 @@
+import { isAddress } from "ethers";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { EscrowError } from "../sdk";
+import { EscrowWatcher } from "./EscrowWatcher";
+import { Subscription } from "./types";
+
+const MAX_BODY_SIZE = 16 * 1024;
+
+// bad JSON or fields of a request
+class BadRequestError extends Error {}
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    request.setEncoding("utf8");
+    request.on("data", (chunk: string) => {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        reject(new BadRequestError("The request body is too large"));
+        request.destroy();
+      }
+    });
+    request.on("end", () => resolve(body));
+    request.on("error", reject);
+  });
+}
+
+export function parseSubscription(body: Record<string, unknown>): Subscription {
+  const { address, channel, target, kinds } = body;
+  if (typeof address !== "string" || !isAddress(address)) {
+    throw new BadRequestError("address is invalid");
+  }
+  if (typeof channel !== "string" || typeof target !== "string" || target === "") {
+    throw new BadRequestError("channel and target are required");
+  }
+  if (kinds !== undefined && (!Array.isArray(kinds) || kinds.some((kind) => typeof kind !== "string"))) {
+    throw new BadRequestError("kinds are invalid");
+  }
+  return { address, channel, target, kinds: kinds as string[] | undefined };
+}
+
+function send(response: ServerResponse, status: number, body: Record<string, unknown>) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+// GET /subscriptions/:address lists the subscriptions of the address, POST /subscriptions adds a Subscription,
+// DELETE /subscriptions removes it, GET /health answers with the indexed block and the delivery queues
+export function createWatcherServer(watcher: EscrowWatcher): Server {
+  return createServer(async (request, response) => {
+    try {
+      const [, resource, address] = (request.url ?? "").split("?")[0].split("/").map(decodeURIComponent);
+      if (request.method === "GET" && resource === "health") {
+        const { outbox, failed } = watcher.getDeliveries();
+        send(response, 200, { block: watcher.indexer.checkpoint?.blockNumber, outbox: outbox.length,
+          failed: failed.length });
+      } else if (request.method === "GET" && resource === "subscriptions" && address) {
+        send(response, 200, { subscriptions: watcher.getSubscriptions(address) });
+      } else if ((request.method === "POST" || request.method === "DELETE") && resource === "subscriptions" &&
+          address === undefined) {
+        let body: Record<string, unknown>;
+        try {
+          body = JSON.parse(await readBody(request));
+        } catch (error) {
+          throw error instanceof BadRequestError ? error : new BadRequestError("The request body is not JSON");
+        }
+        const subscription = parseSubscription(body);
+        await (request.method === "POST" ? watcher.subscribe(subscription) : watcher.unsubscribe(subscription));
+        send(response, 200, { subscriptions: watcher.getSubscriptions(subscription.address) });
+      } else {
+        send(response, 404, { error: "NotFound", message: `${request.method} ${request.url} is not supported` });
+      }
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        send(response, 400, { error: "BadRequest", message: error.message });
+      } else if (error instanceof EscrowError) {
+        send(response, 422, { error: error.name, message: error.message });
+      } else {
+        send(response, 500, { error: "InternalError", message: (error as Error).message });
+      }
+    }
+  });
+}
@@ -0,0 +1,43 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { WatcherState } from "./types";
+
+export interface WatcherStore {
+  load(): Promise<WatcherState | undefined>;
+  save(state: WatcherState): Promise<void>;
+}
+
+export class MemoryWatcherStore implements WatcherStore {
+  private state?: string;
+
+  async load() {
+    return this.state === undefined ? undefined : JSON.parse(this.state) as WatcherState;
+  }
+
+  async save(state: WatcherState) {
+    this.state = JSON.stringify(state);
+  }
+}
+
+// keeps the state in a JSON file, the file is replaced atomically so a crash leaves the last saved state
+export class JsonFileWatcherStore implements WatcherStore {
+  constructor(readonly filePath: string) {}
+
+  async load() {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, "utf8")) as WatcherState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async save(state: WatcherState) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(state));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,55 @@
+import { EscrowVariant } from "../sdk";
+
+// deadlines the watcher reminds of, see timers.ts
+export type TimerKind = "ClaimAvailableSoon" | "ArbitratorAgreementClosed" | "ResolutionExpired";
+
+// a message to one address, an escrow event or a due timer of its agreement
+export interface Notification {
+  // the same for every delivery of the notification, deliveries are deduplicated by it
+  id: string;
+  // the escrow event name or the timer kind
+  kind: string;
+  recipient: string;
+  variant: EscrowVariant;
+  contract: string;
+  agreementId: number;
+  text: string;
+  blockNumber?: number;
+  transactionHash?: string;
+  // when the timer is due
+  dueDate?: number;
+}
+
+// an address notified through a channel, e.g. a Telegram chat id or a webhook url as the target
+export interface Subscription {
+  address: string;
+  channel: string;
+  target: string;
+  // event names and timer kinds to notify, all of them by default
+  kinds?: string[];
+}
+
+export interface Delivery {
+  // `${notification.id}:${channel}:${target}`
+  id: string;
+  channel: string;
+  target: string;
+  notification: Notification;
+  attempts: number;
+  // milliseconds since epoch, retries back off
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+// everything the store persists
+export interface WatcherState {
+  subscriptions: Subscription[];
+  // ids of the timers already notified, dropped once the timers aren't pending anymore
+  firedTimers: string[];
+  // deliveries waiting for their first or next attempt
+  outbox: Delivery[];
+  // ids of the recent deliveries, a reindexed event is not delivered twice
+  delivered: string[];
+  // deliveries given up after the last attempt
+  failed: Delivery[];
+}